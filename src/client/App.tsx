@@ -18,6 +18,10 @@ import ProfilePage from './pages/ProfilePage.js';
 import NewsPage from './pages/NewsPage.js';
 import OnboardingOverlay from './components/OnboardingOverlay.js';
 import LeaderboardPage from './pages/LeaderboardPage.js';
+import TournamentsPage from './pages/TournamentsPage.js';
+import TournamentDetailPage from './pages/TournamentDetailPage.js';
+import TopicsPage from './pages/TopicsPage.js';
+import ModerationPage from './pages/ModerationPage.js';
 import { getQuestTitleKey } from './utils/questMapping.js';
 
 // ─── Theme Toggle ───
@@ -180,6 +184,35 @@ function AppContent() {
     return () => { supabase.removeChannel(channel); };
   }, [user, t, pushToast]);
 
+  // Realtime: notifications (e.g. a proposal the user voted for was debated)
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as { type: string; payload: Record<string, string> };
+          if (notification.type === 'proposal_used') {
+            pushToast(t('notifications.proposal_used', {
+              topic: notification.payload.topic,
+              agent: notification.payload.agent_name,
+            }), 'success');
+          }
+        }
+      )
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [user, t, pushToast]);
+
   // Global quest watcher (for new daily quests)
   useEffect(() => {
     const channel = supabase
@@ -217,6 +250,8 @@ function AppContent() {
               { key: 'home', label: t('nav.home'), to: '/' },
               { key: 'agents', label: t('nav.agents'), to: '/agents' },
               { key: 'arena', label: t('nav.arena'), to: '/arena' },
+              { key: 'tournaments', label: t('nav.tournaments'), to: '/tournaments' },
+              { key: 'topics', label: t('nav.topics'), to: '/topics' },
               { key: 'market', label: t('nav.market'), to: '/market' },
               { key: 'quests', label: (
                 <span style={{ position: 'relative', display: 'inline-flex', alignItems: 'center', gap: 4 }}>
@@ -229,6 +264,7 @@ function AppContent() {
               { key: 'news', label: `📰 ${t('nav.news')}`, to: '/news' },
               { key: 'leaderboard', label: `🏆 ${t('nav.leaderboard')}`, to: '/leaderboard' },
               ...(user ? [{ key: 'profile', label: `👤 ${t('nav.profile')}`, to: '/profile' }] : []),
+              ...(user?.isAdmin ? [{ key: 'moderation', label: `🛡️ ${t('nav.moderation')}`, to: '/admin/moderation' }] : []),
             ].map((item) => (
               <li key={item.key}>
                 <NavLink
@@ -267,11 +303,15 @@ function AppContent() {
           <Route path="/arena" element={<ArenaPage />} />
           <Route path="/arena/live" element={<LiveDebatePage />} />
           <Route path="/arena/:debateId" element={<DebateDetailPage />} />
+          <Route path="/tournaments" element={<TournamentsPage />} />
+          <Route path="/tournaments/:tournamentId" element={<TournamentDetailPage />} />
+          <Route path="/topics" element={<TopicsPage />} />
           <Route path="/market" element={<MarketPage />} />
           <Route path="/quests" element={<QuestsPage />} />
           <Route path="/news" element={<NewsPage />} />
           <Route path="/leaderboard" element={<LeaderboardPage />} />
           <Route path="/profile" element={<ProfilePage />} />
+          <Route path="/admin/moderation" element={<ModerationPage />} />
         </Routes>
       </main>
 
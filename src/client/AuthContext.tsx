@@ -10,6 +10,7 @@ interface User {
   email: string;
   name: string;
   isPremium: boolean;
+  isAdmin: boolean;
   gold_balance: number;
   agents_count: number;
   portfolio_value: number;
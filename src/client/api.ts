@@ -65,17 +65,56 @@ export async function getAgentStock(agentId: string) {
   return data;
 }
 
-export async function fetchStockHistory(stockId: string) {
-  const { data, error } = await supabase
-    .from('stock_price_history')
-    .select('price, timestamp')
-    .eq('stock_id', stockId)
-    .order('timestamp', { ascending: true })
-    .limit(100);
-  if (error) throw error;
+export type CandleResolution = '5m' | '1h' | '1d';
+
+export interface Candle {
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Shares traded */
+  volume: number;
+  /** Gold traded */
+  turnover: number;
+  trades: number;
+}
+
+/** OHLCV candles, oldest first (see 030_stock_candles.sql) */
+export async function fetchStockCandles(
+  stockId: string,
+  resolution: CandleResolution,
+  from?: Date,
+  limit = 500,
+): Promise<Candle[]> {
+  const { data, error } = await supabase.rpc('get_stock_candles', {
+    p_stock_id: stockId,
+    p_resolution: resolution,
+    p_from: from?.toISOString() ?? null,
+    p_limit: limit,
+  });
+  if (error) throw new Error(error.message);
   return data ?? [];
 }
 
+/** Hourly closes of every stock over the last `hours`, keyed by stock id */
+export async function fetchStockSparklines(hours = 24): Promise<Record<string, number[]>> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('stock_candles')
+    .select('stock_id, close, bucket_start')
+    .eq('resolution', '1h')
+    .gte('bucket_start', since.toISOString())
+    .order('bucket_start', { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const lines: Record<string, number[]> = {};
+  for (const row of data ?? []) {
+    (lines[row.stock_id] ??= []).push(row.close);
+  }
+  return lines;
+}
+
 export async function capturePortfolioSnapshot() {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return;
@@ -121,7 +160,7 @@ export async function createAgent(agent: {
     owner_id: user.id,
   }).select().single();
 
-  if (error) throw new Error(error.message);
+  if (error) throw new Error(moderationError(error.message));
 
   // Auto-IPO: list on stock market at initial price 100G
   const INITIAL_PRICE = 100;
@@ -181,7 +220,7 @@ export async function cheerAgent(agentId: string, userId: string, message = ''):
     .from('agent_cheers')
     .insert({ id, user_id: userId, agent_id: agentId, message });
 
-  if (error) throw error;
+  if (error) throw new Error(moderationError(error.message));
 }
 
 export async function getUserCheerCount(userId: string): Promise<number> {
@@ -224,14 +263,102 @@ export async function getDebateById(id: string) {
   return data;
 }
 
-export async function fetchTopics(t: (key: string) => string): Promise<string[]> {
-  return [
-    t('arena.topics.t1'),
-    t('arena.topics.t2'),
-    t('arena.topics.t3'),
-    t('arena.topics.t4'),
-    t('arena.topics.t5'),
-  ];
+// ─── Topics ───
+
+export type TopicDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface TopicFactionStat {
+  debates: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  win_rate: number | null;
+}
+
+export interface Topic {
+  id: string;
+  title: string;
+  category: string;
+  language: string;
+  difficulty: TopicDifficulty;
+  pro_stance: string;
+  con_stance: string;
+  is_active: boolean;
+  usage_count: number;
+  last_used_at: string | null;
+  faction_stats?: Record<string, TopicFactionStat>;
+  /** Win rate of the pro side (draws count half); null before any stance debate */
+  pro_win_rate?: number | null;
+}
+
+export type TopicInput = Pick<Topic, 'title' | 'category' | 'language' | 'difficulty' | 'pro_stance' | 'con_stance'>;
+
+/** Suggested topics for the arena: active, least recently debated first */
+export async function fetchTopics(language: string, limit = 8): Promise<Topic[]> {
+  const { data, error } = await supabase
+    .from('topics')
+    .select('*')
+    .eq('is_active', true)
+    .eq('language', language)
+    .order('last_used_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/** Full catalogue with per-faction results (inactive topics included) */
+export async function fetchTopicCatalogue(): Promise<Topic[]> {
+  const { data, error } = await supabase
+    .from('topics_view')
+    .select('*')
+    .order('category')
+    .order('title');
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/** Admin only (enforced by RLS) */
+export async function createTopic(topic: TopicInput): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('LOGIN_REQUIRED');
+
+  const { error } = await supabase.from('topics').insert({ ...topic, created_by: user.id });
+  if (error) throw new Error(error.message);
+}
+
+/** Admin only (enforced by RLS) */
+export async function updateTopic(id: string, changes: Partial<TopicInput> & { is_active?: boolean }): Promise<void> {
+  const { error } = await supabase.from('topics').update(changes).eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+// ─── Debate Formats ───
+
+export interface DebateFormatRound {
+  label: string;
+  type: 'argument' | 'cross_exam';
+  max_tokens?: number;
+  first_speaker?: 'agent1' | 'agent2' | null;
+}
+
+export interface DebateFormat {
+  id: string;
+  name: string;
+  description?: string;
+  speaking_order?: 'fixed' | 'alternate';
+  rounds: DebateFormatRound[];
+}
+
+export async function fetchDebateFormats(): Promise<DebateFormat[]> {
+  const { data, error } = await supabase
+    .from('debate_formats')
+    .select('id, name, description, speaking_order, rounds')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data || []) as DebateFormat[];
 }
 
 export async function startAutoBattle(): Promise<unknown> {
@@ -244,28 +371,78 @@ export async function startAutoBattle(): Promise<unknown> {
 
 // ─── SSE Streaming Debate ───
 
+export type DebateStance = 'pro' | 'con';
+
+/** The side an agent was assigned and the position it defends */
+export interface StanceBrief {
+  stance: DebateStance;
+  position: string;
+}
+
 export type DebateEvent = {
-  type: 'matched' | 'round_start' | 'speaking' | 'argument' | 'judging' | 'result' | 'complete' | 'error' | 'score_update';
+  type: 'matched' | 'round_start' | 'speaking' | 'argument' | 'judging' | 'judge_ballot' | 'coaching' | 'result' | 'complete' | 'error' | 'score_update';
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data: any;
 };
 
+export interface DebateEloChange {
+  id: string;
+  name: string;
+  eloChange: number;
+  newElo: number;
+}
+
+export interface JudgeScores {
+  logic: number;
+  evidence: number;
+  persuasion: number;
+}
+
+export interface JudgeBallot {
+  judge_id: string;
+  judge_name: string;
+  winner: 'agent1' | 'agent2' | 'draw';
+  reasoning: string;
+  scores: { agent1: JudgeScores; agent2: JudgeScores };
+}
+
+/** Per-judge verdicts stored on debates.judge_panel */
+export interface JudgePanelRecord {
+  method: 'majority' | 'mean';
+  ballots: JudgeBallot[];
+  /** judge_ids that disagreed with the panel outcome */
+  dissent: string[];
+  excluded: { judge_id: string; judge_name: string; error: string }[];
+}
+
 export interface DebateResult {
-  winner: {
-    name: string;
-    eloChange: number;
-    newElo: number;
-  };
-  loser: {
-    name: string;
-    eloChange: number;
-    newElo: number;
-  };
-  scores: {
-    agent1: { logic: number; evidence: number; persuasion: number };
-    agent2: { logic: number; evidence: number; persuasion: number };
-  };
+  outcome: 'agent1' | 'agent2' | 'draw';
+  /** null on a draw */
+  winner: DebateEloChange | null;
+  loser: DebateEloChange | null;
+  elo: { agent1: DebateEloChange; agent2: DebateEloChange };
+  /** Mean scores across the judge panel */
+  scores: { agent1: JudgeScores; agent2: JudgeScores };
+  reasoning: string;
+  panel: JudgePanelRecord;
+}
+
+/** Coach's persona feedback on a practice debate (practice_debates.feedback) */
+export interface PracticeFeedback {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  persona_suggestions: string[];
+}
+
+/** Result event of a practice debate: no ELO, feedback is null if the coach failed */
+export interface PracticeResult {
+  practice: true;
+  outcome: 'agent1' | 'agent2' | 'draw';
+  scores: { agent1: JudgeScores; agent2: JudgeScores };
   reasoning: string;
+  panel: JudgePanelRecord;
+  feedback: PracticeFeedback | null;
 }
 
 export function streamDebate(
@@ -274,28 +451,71 @@ export function streamDebate(
   topic?: string,
   agent1Id?: string,
   agent2Id?: string,
+  formatId?: string,
 ): void {
-  const supabaseUrl: string = import.meta.env?.VITE_SUPABASE_URL || '';
-  const supabaseAnonKey: string = import.meta.env?.VITE_SUPABASE_ANON_KEY || '';
-
-  const url = `${supabaseUrl}/functions/v1/run-debate`;
-
   const isManual = !!(agent1Id && agent2Id);
   const body: Record<string, unknown> = {
     mode: isManual ? 'manual' : 'auto',
     stream: true,
   };
   if (topic) body.topic = topic;
+  if (formatId) body.format_id = formatId;
   if (isManual) {
     body.agent1_id = agent1Id;
     body.agent2_id = agent2Id;
   }
 
+  readDebateStream(body, onEvent, signal);
+}
+
+/**
+ * Practice (sparring) debate of an owned agent against a house bot or another
+ * owned agent. Sent with the user's session so the server can check ownership
+ * and charge the practice usage bucket; nothing is settled.
+ */
+export function streamPracticeDebate(
+  onEvent: (event: DebateEvent) => void,
+  signal: AbortSignal | undefined,
+  agentId: string,
+  opponentId: string,
+  topic?: string,
+  formatId?: string,
+): void {
+  supabase.auth.getSession().then(({ data: { session } }) => {
+    if (!session) {
+      onEvent({ type: 'error', data: { message: 'LOGIN_REQUIRED' } });
+      return;
+    }
+    const body: Record<string, unknown> = {
+      mode: 'practice',
+      stream: true,
+      agent1_id: agentId,
+      agent2_id: opponentId,
+    };
+    if (topic) body.topic = topic;
+    if (formatId) body.format_id = formatId;
+
+    readDebateStream(body, onEvent, signal, session.access_token);
+  });
+}
+
+/** POSTs to run-debate and forwards its SSE events */
+function readDebateStream(
+  body: Record<string, unknown>,
+  onEvent: (event: DebateEvent) => void,
+  signal?: AbortSignal,
+  accessToken?: string,
+): void {
+  const supabaseUrl: string = import.meta.env?.VITE_SUPABASE_URL || '';
+  const supabaseAnonKey: string = import.meta.env?.VITE_SUPABASE_ANON_KEY || '';
+
+  const url = `${supabaseUrl}/functions/v1/run-debate`;
+
   fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${supabaseAnonKey}`,
+      'Authorization': `Bearer ${accessToken ?? supabaseAnonKey}`,
       'apikey': supabaseAnonKey,
     },
     body: JSON.stringify(body),
@@ -392,26 +612,68 @@ export interface TradeResult {
   shares_owned?: number;
   avg_buy_price?: number;
   profit?: number;
+  /** Price after the trade's impact */
+  new_price?: number;
+  slippage_pct?: number;
 }
 
+/**
+ * Market trade with the house; fails with SLIPPAGE_EXCEEDED when the fill is
+ * more than maxSlippagePct from expectedPrice (the quote's avg_price)
+ */
 export async function tradeStock(
   stockId: string,
   action: 'buy' | 'sell',
   shares: number,
+  maxSlippagePct?: number,
+  expectedPrice?: number,
 ): Promise<TradeResult> {
   const { data, error } = await supabase.functions.invoke('trade-stock', {
-    body: { action, stock_id: stockId, shares },
+    body: {
+      action,
+      stock_id: stockId,
+      shares,
+      max_slippage_pct: maxSlippagePct ?? null,
+      expected_price: expectedPrice ?? null,
+    },
   });
   if (error) throw new Error(error.message || 'TRADE_FAILED');
   if (data?.error) throw new Error(data.error);
   return data as TradeResult;
 }
 
+export interface TradeQuote {
+  action: 'buy' | 'sell';
+  shares: number;
+  price: number;
+  /** Expected average fill price */
+  avg_price: number;
+  total: number;
+  new_price: number;
+  slippage_pct: number;
+  price_impact_pct: number;
+}
+
+/** Expected fill of a market trade (the house prices along a curve, see 029_trade_impact.sql) */
+export async function quoteTrade(stockId: string, action: 'buy' | 'sell', shares: number): Promise<TradeQuote> {
+  const { data, error } = await supabase.rpc('quote_stock_trade', {
+    p_stock_id: stockId,
+    p_action: action,
+    p_shares: shares,
+  });
+
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+  return data as TradeQuote;
+}
+
 export interface PortfolioItem {
   stock_id: string;
   agent_id: string;
   agent_name: string;
   shares_owned: number;
+  /** Held by open sell orders (not available for a market sell) */
+  reserved_shares: number;
   avg_buy_price: number;
   current_price: number;
   total_value: number;
@@ -426,7 +688,7 @@ export async function fetchPortfolio(): Promise<PortfolioItem[]> {
 
     const { data: ownership, error } = await supabase
       .from('stock_ownership')
-      .select('stock_id, shares_owned, avg_buy_price')
+      .select('stock_id, shares_owned, reserved_shares, avg_buy_price')
       .eq('user_id', user.id);
 
     if (error || !ownership || ownership.length === 0) return [];
@@ -464,6 +726,7 @@ export async function fetchPortfolio(): Promise<PortfolioItem[]> {
         agent_id: stock?.agent_id || '',
         agent_name: agentName,
         shares_owned: sharesOwned,
+        reserved_shares: o.reserved_shares ?? 0,
         avg_buy_price: avgBuyPrice,
         current_price: currentPrice,
         total_value: totalValue,
@@ -477,6 +740,113 @@ export async function fetchPortfolio(): Promise<PortfolioItem[]> {
   }
 }
 
+// ─── Order Book ───
+
+export type OrderType = 'limit' | 'stop';
+export type TimeInForce = 'gtc' | 'day' | 'ioc';
+export type OrderStatus = 'pending' | 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+export interface StockOrder {
+  id: string;
+  stock_id: string;
+  side: 'buy' | 'sell';
+  order_type: OrderType;
+  time_in_force: TimeInForce;
+  quantity: number;
+  filled_quantity: number;
+  limit_price: number | null;
+  stop_price: number | null;
+  status: OrderStatus;
+  avg_fill_price: number | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface OrderBookLevel {
+  side: 'buy' | 'sell';
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface PlaceOrderInput {
+  stockId: string;
+  side: 'buy' | 'sell';
+  orderType: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+}
+
+export interface PlaceOrderResult {
+  order_id: string;
+  status: OrderStatus;
+  filled_quantity: number;
+  avg_fill_price: number | null;
+  new_gold_balance: number;
+}
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['pending', 'open', 'partially_filled'];
+
+/** Limit / stop order through trade-stock; errors are codes (NOT_ENOUGH_GOLD, ...) */
+export async function placeStockOrder(input: PlaceOrderInput): Promise<PlaceOrderResult> {
+  const { data, error } = await supabase.functions.invoke('trade-stock', {
+    body: {
+      action: input.side,
+      stock_id: input.stockId,
+      shares: input.quantity,
+      order_type: input.orderType,
+      limit_price: input.limitPrice ?? null,
+      stop_price: input.stopPrice ?? null,
+      time_in_force: input.timeInForce ?? 'gtc',
+    },
+  });
+  if (error) throw new Error(error.message || 'TRADE_FAILED');
+  if (data?.error) throw new Error(data.error);
+  return data as PlaceOrderResult;
+}
+
+export async function cancelStockOrder(orderId: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('trade-stock', {
+    body: { action: 'cancel', order_id: orderId },
+  });
+  if (error) throw new Error(error.message || 'TRADE_FAILED');
+  if (data?.error) throw new Error(data.error);
+}
+
+/** The signed-in user's open orders (RLS: own rows only) */
+export async function fetchMyOrders(stockId?: string): Promise<StockOrder[]> {
+  let query = supabase
+    .from('stock_orders')
+    .select('*')
+    .in('status', OPEN_ORDER_STATUSES)
+    .order('created_at', { ascending: false });
+  if (stockId) query = query.eq('stock_id', stockId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/** Aggregated depth: bids best (highest) first, asks best (lowest) first */
+export async function fetchOrderBook(
+  stockId: string,
+  depth = 8,
+): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] }> {
+  const { data, error } = await supabase
+    .from('stock_order_book')
+    .select('side, price, quantity, orders')
+    .eq('stock_id', stockId);
+
+  if (error) throw new Error(error.message);
+  const levels = (data ?? []) as OrderBookLevel[];
+  return {
+    bids: levels.filter((l) => l.side === 'buy').sort((a, b) => b.price - a.price).slice(0, depth),
+    asks: levels.filter((l) => l.side === 'sell').sort((a, b) => a.price - b.price).slice(0, depth),
+  };
+}
+
 // ─── Quests ───
 
 export async function fetchQuests(type?: string): Promise<unknown[]> {
@@ -502,6 +872,14 @@ export async function createBountyQuest(quest: {
   const questId = crypto.randomUUID();
   const deadline = new Date(Date.now() + quest.deadline_hours * 60 * 60 * 1000).toISOString();
 
+  // Check the text before the bounty is paid for (the insert trigger still enforces)
+  const { data: check, error: checkErr } = await supabase.rpc('moderation_check', {
+    p_type: 'bounty',
+    p_text: `${quest.title}\n${quest.description}`,
+  });
+  if (checkErr) throw new Error(checkErr.message);
+  if (check?.action === 'reject') throw new Error('CONTENT_REJECTED');
+
   // Deduct gold from user (bounty cost)
   const { error: goldErr } = await supabase.rpc('add_gold', {
     p_user_id: session.user.id,
@@ -529,7 +907,7 @@ export async function createBountyQuest(quest: {
     creator_id: session.user.id,
     deadline,
   }).select().single();
-  if (error) throw new Error(error.message);
+  if (error) throw new Error(moderationError(error.message));
   return data;
 }
 
@@ -586,6 +964,7 @@ export async function fetchProfile(): Promise<unknown | null> {
     email: data.email,
     name: data.name,
     isPremium: data.is_premium,
+    isAdmin: data.is_admin ?? false,
     gold_balance: data.gold_balance,
     agents_count: agentsCount || 0,
     portfolio_value: Math.round(portfolioValue),
@@ -683,7 +1062,13 @@ export interface Proposal {
   topic: string;
   votes: number;
   created_at: string;
+  /** 'used' once the scheduler debated it (debate_id links the debate) */
+  status: 'open' | 'used';
+  debate_id?: string | null;
+  used_at?: string | null;
   user_voted?: boolean;
+  /** Only the author sees their own non-approved proposals */
+  moderation_status?: ModerationStatus;
 }
 
 export async function getProposals(agentId: string): Promise<Proposal[]> {
@@ -752,7 +1137,7 @@ export async function createProposal(agentId: string, topic: string): Promise<vo
       topic: topic,
     });
 
-  if (error) throw new Error(error.message);
+  if (error) throw new Error(moderationError(error.message));
 }
 
 export async function voteProposal(proposalId: string, agentId: string): Promise<void> {
@@ -778,13 +1163,15 @@ export async function voteProposal(proposalId: string, agentId: string): Promise
   const shares = shareData?.shares_owned || 0;
   if (shares <= 0) throw new Error('NO_SHARES_TO_VOTE');
 
-  // 2. Call RPC to vote
+  // 2. Call RPC to vote (the vote weight is read server-side)
   const { error } = await supabase.rpc('vote_proposal', {
     proposal_id_input: proposalId,
-    shares_count: shares
   });
 
-  if (error) throw new Error(error.message);
+  if (error) {
+    const code = ['PROPOSAL_CLOSED', 'NO_SHARES_TO_VOTE'].find((c) => error.message.includes(c));
+    throw new Error(code ?? error.message);
+  }
 }
 
 // ─── Bounty Quests ───
@@ -834,10 +1221,470 @@ export async function awardBounty(questId: string, submissionId: string) {
   return { success: true };
 }
 
+// ─── Tournaments ───
+
+export type TournamentFormat = 'swiss' | 'single_elim';
+export type TournamentStatus = 'registration' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  debate_format_id: string;
+  max_participants: number;
+  total_rounds: number | null;
+  current_round: number;
+  entry_fee: number;
+  prize_pool: number;
+  prize_split: number[];
+  starts_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface TournamentEntry {
+  agent_id: string;
+  owner_id: string;
+  seed: number | null;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  buchholz: number;
+  eliminated: boolean;
+  final_rank: number | null;
+  prize_gold: number;
+  agents: { name: string; faction: string; elo_score: number } | null;
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  slot: number;
+  agent1_id: string;
+  agent2_id: string | null;
+  status: 'pending' | 'running' | 'completed' | 'bye';
+  debate_id: string | null;
+  outcome: 'agent1' | 'agent2' | 'draw' | null;
+  winner_agent_id: string | null;
+}
+
+export async function fetchTournaments(): Promise<(Tournament & { entry_count: number })[]> {
+  const { data, error } = await supabase
+    .from('tournaments')
+    .select('*, tournament_entries(count)')
+    .order('starts_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as (Tournament & { tournament_entries: { count: number }[] | null })[];
+  return rows.map(({ tournament_entries, ...row }) => ({
+    ...row,
+    entry_count: tournament_entries?.[0]?.count ?? 0,
+  }));
+}
+
+export async function getTournament(id: string): Promise<{
+  tournament: Tournament;
+  entries: TournamentEntry[];
+  matches: TournamentMatch[];
+}> {
+  const [{ data: tournament, error }, { data: entries }, { data: matches }] = await Promise.all([
+    supabase.from('tournaments').select('*').eq('id', id).single(),
+    supabase
+      .from('tournament_entries')
+      .select('*, agents:agent_id (name, faction, elo_score)')
+      .eq('tournament_id', id),
+    supabase
+      .from('tournament_matches')
+      .select('*')
+      .eq('tournament_id', id)
+      .order('round', { ascending: true })
+      .order('slot', { ascending: true }),
+  ]);
+
+  if (error || !tournament) throw new Error(error?.message || 'Tournament not found');
+  return {
+    tournament: tournament as Tournament,
+    entries: (entries || []) as TournamentEntry[],
+    matches: (matches || []) as TournamentMatch[],
+  };
+}
+
+export async function registerTournamentAgent(tournamentId: string, agentId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('register_tournament_agent', {
+    p_tournament_id: tournamentId,
+    p_agent_id: agentId,
+  });
+
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+}
+
+/** Admin only (enforced by the create_tournament RPC) */
+export async function createTournament(tournament: {
+  name: string;
+  format: TournamentFormat;
+  starts_at: string;
+  max_participants: number;
+  total_rounds?: number | null;
+  entry_fee: number;
+  prize_seed: number;
+  debate_format_id: string;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('create_tournament', {
+    p_name: tournament.name,
+    p_format: tournament.format,
+    p_starts_at: tournament.starts_at,
+    p_max_participants: tournament.max_participants,
+    p_total_rounds: tournament.total_rounds ?? null,
+    p_entry_fee: tournament.entry_fee,
+    p_prize_seed: tournament.prize_seed,
+    p_debate_format_id: tournament.debate_format_id,
+  });
+
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+  return data.tournament_id;
+}
+
+// ─── Stance Stats ───
+
+export interface AgentStanceStat {
+  stance: DebateStance;
+  debates: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  win_rate: number;
+}
+
+export async function getAgentStanceStats(agentId: string): Promise<AgentStanceStat[]> {
+  const { data, error } = await supabase
+    .from('agent_stance_stats')
+    .select('stance, debates, wins, losses, draws, win_rate')
+    .eq('agent_id', agentId);
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// ─── Matchmaking Queue ───
+
+export interface QueueEntry {
+  agent_id: string;
+  owner_id: string;
+  enqueued_at: string;
+  available_since: string;
+  cooldown_until: string | null;
+  last_matched_at: string | null;
+  matches_played: number;
+  total_wait_seconds: number;
+}
+
+export async function getQueueEntry(agentId: string): Promise<QueueEntry | null> {
+  const { data, error } = await supabase
+    .from('matchmaking_queue')
+    .select('*')
+    .eq('agent_id', agentId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Opt an owned agent into auto-matching (RLS checks ownership) */
+export async function joinMatchmakingQueue(agentId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('LOGIN_REQUIRED');
+
+  const { error } = await supabase.from('matchmaking_queue').insert({
+    agent_id: agentId,
+    owner_id: user.id,
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function leaveMatchmakingQueue(agentId: string): Promise<void> {
+  const { error } = await supabase.from('matchmaking_queue').delete().eq('agent_id', agentId);
+  if (error) throw new Error(error.message);
+}
+
+// ─── Agent Memory ───
+
+export interface AgentMemory {
+  id: string;
+  agent_id: string;
+  debate_id: string;
+  topic: string;
+  stance: DebateStance | null;
+  opponent_id: string | null;
+  opponent_name: string;
+  result: 'win' | 'loss' | 'draw';
+  feedback: string;
+  created_at: string;
+}
+
+/** Owner-only (RLS): newest first */
+export async function getAgentMemories(agentId: string): Promise<AgentMemory[]> {
+  const { data, error } = await supabase
+    .from('agent_memories')
+    .select('*')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function deleteAgentMemory(memoryId: string): Promise<void> {
+  const { error } = await supabase.from('agent_memories').delete().eq('id', memoryId);
+  if (error) throw new Error(error.message);
+}
+
+export async function clearAgentMemories(agentId: string): Promise<void> {
+  const { error } = await supabase.from('agent_memories').delete().eq('agent_id', agentId);
+  if (error) throw new Error(error.message);
+}
+
+// ─── Practice ───
+
+export interface PracticeBot {
+  id: string;
+  name: string;
+  persona: string;
+  faction: string;
+  elo_score: number;
+  tier: string;
+}
+
+export interface PracticeDebate {
+  id: string;
+  agent_id: string;
+  opponent_id: string;
+  opponent_name: string;
+  opponent_is_bot: boolean;
+  topic: string;
+  agent_stance: DebateStance | null;
+  status: 'in_progress' | 'completed' | 'failed';
+  result: 'win' | 'loss' | 'draw' | null;
+  scores: { agent1: JudgeScores; agent2: JudgeScores } | null;
+  feedback: PracticeFeedback | null;
+  created_at: string;
+}
+
+export async function fetchPracticeBots(): Promise<PracticeBot[]> {
+  const { data, error } = await supabase
+    .from('practice_bots')
+    .select('id, name, persona, faction, elo_score, tier')
+    .eq('is_active', true)
+    .order('elo_score', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/** Owner-only (RLS): newest first */
+export async function getPracticeDebates(agentId: string, limit = 10): Promise<PracticeDebate[]> {
+  const { data, error } = await supabase
+    .from('practice_debates')
+    .select('id, agent_id, opponent_id, opponent_name, opponent_is_bot, topic, agent_stance, status, result, scores, feedback, created_at')
+    .eq('agent_id', agentId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function deletePracticeDebate(id: string): Promise<void> {
+  const { error } = await supabase.from('practice_debates').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+// ─── Persona Versions ───
+
+export interface AgentVersionStats {
+  debates: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  win_rate: number | null;
+}
+
+export interface AgentVersion {
+  version: number;
+  name: string;
+  persona: string;
+  philosophy: string;
+  faction: string;
+  created_at: string;
+  stats: AgentVersionStats;
+}
+
+/** Newest first, each with its debate record */
+export async function getAgentVersions(agentId: string): Promise<AgentVersion[]> {
+  const [{ data: versions, error }, { data: stats, error: statsError }] = await Promise.all([
+    supabase
+      .from('agent_versions')
+      .select('version, name, persona, philosophy, faction, created_at')
+      .eq('agent_id', agentId)
+      .order('version', { ascending: false }),
+    supabase
+      .from('agent_version_stats')
+      .select('version, debates, wins, losses, draws, win_rate')
+      .eq('agent_id', agentId),
+  ]);
+
+  if (error) throw new Error(error.message);
+  if (statsError) throw new Error(statsError.message);
+
+  const byVersion = new Map((stats ?? []).map((row) => [row.version, row]));
+  return (versions ?? []).map((version) => {
+    const row = byVersion.get(version.version);
+    return {
+      ...version,
+      stats: {
+        debates: row?.debates ?? 0,
+        wins: row?.wins ?? 0,
+        losses: row?.losses ?? 0,
+        draws: row?.draws ?? 0,
+        win_rate: row?.win_rate ?? null,
+      },
+    };
+  });
+}
+
+/** Owner only (enforced by the update_agent_persona RPC); returns the resulting version */
+export async function updateAgentPersona(
+  agentId: string,
+  persona: string,
+  philosophy: string
+): Promise<{ version: number; unchanged: boolean }> {
+  const { data, error } = await supabase.rpc('update_agent_persona', {
+    p_agent_id: agentId,
+    p_persona: persona,
+    p_philosophy: philosophy,
+  });
+
+  if (error) throw new Error(moderationError(error.message));
+  if (data?.error) throw new Error(data.error);
+  return { version: data.version, unchanged: !!data.unchanged };
+}
+
+// ─── Agent Progression ───
+
+export interface SkillTrait {
+  id: string;
+  max_rank: number;
+  unlock_level: number;
+}
+
+export interface AgentProgression {
+  agent_id: string;
+  xp: number;
+  level: number;
+  skill_points: number;
+  /** Total XP at which the current level started */
+  level_xp: number;
+  /** null at the level cap */
+  next_level_xp: number | null;
+  /** trait id → rank */
+  traits: Record<string, number>;
+}
+
+export async function fetchSkillTraits(): Promise<SkillTrait[]> {
+  const { data, error } = await supabase
+    .from('skill_traits')
+    .select('id, max_rank, unlock_level')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function getAgentProgression(agentId: string): Promise<AgentProgression | null> {
+  const { data, error } = await supabase
+    .from('agent_progression_view')
+    .select('*')
+    .eq('agent_id', agentId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Owner only; level, points and rank caps are enforced by the spend_skill_point RPC */
+export async function spendSkillPoint(agentId: string, traitId: string): Promise<{ rank: number; skill_points: number }> {
+  const { data, error } = await supabase.rpc('spend_skill_point', {
+    p_agent_id: agentId,
+    p_trait_id: traitId,
+  });
+
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+  return { rank: data.rank, skill_points: data.skill_points };
+}
+
+// ─── Moderation ───
+
+export type ModerationStatus = 'approved' | 'pending' | 'rejected';
+
+export interface ModerationItem {
+  id: string;
+  content_type: 'agent' | 'cheer' | 'bounty' | 'proposal' | 'debate_argument';
+  content_id: string;
+  author_id: string | null;
+  content: string;
+  status: ModerationStatus;
+  source: 'rules' | 'classifier' | 'admin';
+  flags: { rule_id: string; category: string; action: 'reject' | 'review'; match: string }[];
+  classification: { label: string; categories: string[]; confidence: number } | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+/** The moderation trigger aborts writes with CONTENT_REJECTED; surface it as an error key */
+function moderationError(message: string): string {
+  return message.includes('CONTENT_REJECTED') ? 'CONTENT_REJECTED' : message;
+}
+
+/** Admin only (RLS); authors only ever see their own items */
+export async function fetchModerationQueue(status: ModerationStatus = 'pending', limit = 50): Promise<ModerationItem[]> {
+  const { data, error } = await supabase
+    .from('moderation_items')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function reviewModerationItem(
+  itemId: string,
+  status: 'approved' | 'rejected',
+  note?: string,
+): Promise<void> {
+  const { data, error } = await supabase.rpc('review_moderation_item', {
+    p_item_id: itemId,
+    p_status: status,
+    p_note: note ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+}
+
 // ─── Usage & Limits ───
 
 export async function fetchUsageStats(): Promise<{
   debates_today: number;
+  practice_today?: number;
   trades_today: number;
   last_debate_date: string;
   last_trade_date: string;
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import {
+  clearAgentMemories, deleteAgentMemory, getAgentMemories, type AgentMemory
+} from '../api.js';
+import { useToast } from '../ToastContext.js';
+import StanceBadge from './StanceBadge.js';
+import './AgentMemoryPanel.css';
+
+interface AgentMemoryPanelProps {
+  agentId: string;
+}
+
+/** Owner-only view of what the agent remembers from past debates, with pruning */
+export default function AgentMemoryPanel({ agentId }: AgentMemoryPanelProps) {
+  const { t } = useTranslation();
+  const { pushToast } = useToast();
+  const [memories, setMemories] = useState<AgentMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getAgentMemories(agentId)
+      .then(setMemories)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [agentId]);
+
+  const remove = async (memoryId: string) => {
+    setBusy(true);
+    try {
+      await deleteAgentMemory(memoryId);
+      setMemories((prev) => prev.filter((memory) => memory.id !== memoryId));
+      pushToast(t('agent_memory.deleted'), 'success');
+    } catch {
+      pushToast(t('common.error'), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const clearAll = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    setBusy(true);
+    try {
+      await clearAgentMemories(agentId);
+      setMemories([]);
+      pushToast(t('agent_memory.cleared'), 'success');
+    } catch {
+      pushToast(t('common.error'), 'error');
+    } finally {
+      setConfirmClear(false);
+      setBusy(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="card agent-memory">
+      <div className="agent-memory__header">
+        <h3>🧠 {t('agent_memory.title')}</h3>
+        {memories.length > 0 && (
+          <button
+            className={`btn btn--sm ${confirmClear ? 'btn--danger' : 'btn--ghost'}`}
+            onClick={clearAll}
+            onBlur={() => setConfirmClear(false)}
+            disabled={busy}
+          >
+            {confirmClear ? t('agent_memory.clear_confirm') : t('agent_memory.clear')}
+          </button>
+        )}
+      </div>
+      <p className="agent-memory__hint">{t('agent_memory.hint')}</p>
+
+      {memories.length === 0 ? (
+        <p className="agent-memory__empty">{t('agent_memory.empty')}</p>
+      ) : (
+        <ul className="agent-memory__list">
+          {memories.map((memory) => (
+            <li key={memory.id} className="agent-memory__item">
+              <div className="agent-memory__head">
+                <span className={`agent-memory__result agent-memory__result--${memory.result}`}>
+                  {t(`agent_memory.result.${memory.result}`)}
+                </span>
+                {memory.stance && <StanceBadge stance={memory.stance} />}
+                <Link to={`/arena/${memory.debate_id}`} className="agent-memory__topic">{memory.topic}</Link>
+                <button
+                  className="btn btn--ghost btn--sm agent-memory__delete"
+                  onClick={() => remove(memory.id)}
+                  disabled={busy}
+                  title={t('agent_memory.delete')}
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="agent-memory__meta">
+                {t('agent_memory.versus', { name: memory.opponent_name })} · {new Date(memory.created_at).toLocaleDateString()}
+              </div>
+              {memory.feedback && <div className="agent-memory__feedback">{memory.feedback}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next';
+import type { JudgePanelRecord } from '../api.js';
+import './JudgePanel.css';
+
+interface JudgePanelProps {
+  panel: JudgePanelRecord;
+  agent1Name: string;
+  agent2Name: string;
+}
+
+/** Per-judge ballots of a debate's judge panel, dissenting judges marked */
+export default function JudgePanel({ panel, agent1Name, agent2Name }: JudgePanelProps) {
+  const { t } = useTranslation();
+  if (!panel.ballots?.length) return null;
+
+  const voteLabel = (winner: 'agent1' | 'agent2' | 'draw') =>
+    winner === 'agent1' ? agent1Name : winner === 'agent2' ? agent2Name : t('live_debate.result.draw');
+  const total = (s: { logic: number; evidence: number; persuasion: number }) => s.logic + s.evidence + s.persuasion;
+
+  return (
+    <div className="judge-panel">
+      <div className="judge-panel__header">
+        <span>{t('judge_panel.title', { count: panel.ballots.length })}</span>
+        <span className="judge-panel__method">{t(`judge_panel.method.${panel.method}`)}</span>
+      </div>
+
+      <ul className="judge-panel__list">
+        {panel.ballots.map((ballot) => {
+          const dissent = panel.dissent.includes(ballot.judge_id);
+          return (
+            <li key={ballot.judge_id} className={`judge-panel__ballot ${dissent ? 'judge-panel__ballot--dissent' : ''}`}>
+              <div className="judge-panel__ballot-head">
+                <strong>{ballot.judge_name}</strong>
+                <span>
+                  {voteLabel(ballot.winner)} · {total(ballot.scores.agent1)} : {total(ballot.scores.agent2)}
+                </span>
+                {dissent && <span className="judge-panel__dissent">{t('judge_panel.dissent')}</span>}
+              </div>
+              {ballot.reasoning && <p>{ballot.reasoning}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {panel.excluded.length > 0 && (
+        <div className="judge-panel__excluded">
+          {t('judge_panel.excluded', { names: panel.excluded.map((j) => j.judge_name).join(', ') })}
+        </div>
+      )}
+    </div>
+  );
+}
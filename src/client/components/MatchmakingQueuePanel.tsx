@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  getQueueEntry, joinMatchmakingQueue, leaveMatchmakingQueue, type QueueEntry
+} from '../api.js';
+import { useToast } from '../ToastContext.js';
+import './MatchmakingQueuePanel.css';
+
+interface MatchmakingQueuePanelProps {
+  agentId: string;
+}
+
+/** Owner-only opt-in to auto-matching, with wait / cooldown status */
+export default function MatchmakingQueuePanel({ agentId }: MatchmakingQueuePanelProps) {
+  const { t } = useTranslation();
+  const { pushToast } = useToast();
+  const [entry, setEntry] = useState<QueueEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getQueueEntry(agentId)
+      .then(setEntry)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [agentId]);
+
+  const toggle = async () => {
+    setBusy(true);
+    try {
+      if (entry) {
+        await leaveMatchmakingQueue(agentId);
+        setEntry(null);
+        pushToast(t('matchmaking.left'), 'success');
+      } else {
+        await joinMatchmakingQueue(agentId);
+        setEntry(await getQueueEntry(agentId));
+        pushToast(t('matchmaking.joined'), 'success');
+      }
+    } catch {
+      pushToast(t('common.error'), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) return null;
+
+  const minutesSince = (ts: string) => Math.max(0, Math.round((Date.now() - new Date(ts).getTime()) / 60000));
+  const onCooldown = entry?.cooldown_until && new Date(entry.cooldown_until).getTime() > Date.now();
+
+  return (
+    <div className="card matchmaking-panel">
+      <div className="matchmaking-panel__header">
+        <h3>🎯 {t('matchmaking.title')}</h3>
+        <button
+          className={`btn btn--sm ${entry ? 'btn--ghost' : 'btn--primary'}`}
+          onClick={toggle}
+          disabled={busy}
+        >
+          {entry ? t('matchmaking.leave') : t('matchmaking.join')}
+        </button>
+      </div>
+
+      {entry ? (
+        <div className="matchmaking-panel__stats">
+          <span>
+            {onCooldown
+              ? t('matchmaking.cooldown', { minutes: Math.ceil((new Date(entry.cooldown_until!).getTime() - Date.now()) / 60000) })
+              : t('matchmaking.waiting', { minutes: minutesSince(entry.available_since) })}
+          </span>
+          <span>{t('matchmaking.matches_played', { count: entry.matches_played })}</span>
+          {entry.matches_played > 0 && (
+            <span>{t('matchmaking.avg_wait', { minutes: Math.round(entry.total_wait_seconds / entry.matches_played / 60) })}</span>
+          )}
+        </div>
+      ) : (
+        <p className="matchmaking-panel__hint">{t('matchmaking.hint')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  cancelStockOrder,
+  fetchMyOrders,
+  fetchOrderBook,
+  type OrderBookLevel,
+  type StockOrder,
+} from '../api.js';
+import { useToast } from '../ToastContext.js';
+import './OrderBookPanel.css';
+
+interface OrderBookPanelProps {
+  stockId: string;
+  /** The house quote, shown between asks and bids */
+  currentPrice: number;
+  /** Bump to reload after an order was placed */
+  refreshKey?: number;
+  /** Clicking a level fills in the limit price */
+  onPickPrice?: (price: number) => void;
+  /** Called after a cancel (balance / reserved shares changed) */
+  onChanged?: () => void;
+}
+
+function DepthRow({ level, maxQty, onPick }: { level: OrderBookLevel; maxQty: number; onPick?: (price: number) => void }) {
+  return (
+    <button className={`order-book__level order-book__level--${level.side}`} onClick={() => onPick?.(level.price)}>
+      <span
+        className="order-book__depth"
+        style={{ width: `${maxQty > 0 ? (level.quantity / maxQty) * 100 : 0}%` }}
+      />
+      <span className="order-book__price">{level.price.toLocaleString()}</span>
+      <span className="order-book__qty">{level.quantity.toLocaleString()}</span>
+    </button>
+  );
+}
+
+/** Depth of the order book plus the user's open orders for one stock */
+export default function OrderBookPanel({ stockId, currentPrice, refreshKey, onPickPrice, onChanged }: OrderBookPanelProps) {
+  const { t } = useTranslation();
+  const { pushToast } = useToast();
+  const [bids, setBids] = useState<OrderBookLevel[]>([]);
+  const [asks, setAsks] = useState<OrderBookLevel[]>([]);
+  const [orders, setOrders] = useState<StockOrder[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const load = () =>
+    Promise.all([fetchOrderBook(stockId), fetchMyOrders(stockId)])
+      .then(([book, mine]) => {
+        setBids(book.bids);
+        setAsks(book.asks);
+        setOrders(mine);
+      })
+      .catch(console.error);
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stockId, refreshKey]);
+
+  async function handleCancel(order: StockOrder) {
+    setCancellingId(order.id);
+    try {
+      await cancelStockOrder(order.id);
+      pushToast(t('market.order_book.cancelled'), 'success');
+      await load();
+      onChanged?.();
+    } catch (err) {
+      const code = err instanceof Error ? err.message : 'common.error';
+      pushToast(t(/^[A-Z_]+$/.test(code) ? `market.errors.${code}` : code, { defaultValue: code }), 'error');
+    } finally {
+      setCancellingId(null);
+    }
+  }
+
+  const maxQty = Math.max(0, ...bids.map((l) => l.quantity), ...asks.map((l) => l.quantity));
+
+  return (
+    <div className="order-book">
+      <div className="order-book__header">
+        <span>{t('market.order_book.price')}</span>
+        <span>{t('market.order_book.quantity')}</span>
+      </div>
+
+      {/* Asks: best (lowest) next to the spread */}
+      {[...asks].reverse().map((level) => (
+        <DepthRow key={`sell-${level.price}`} level={level} maxQty={maxQty} onPick={onPickPrice} />
+      ))}
+      <div className="order-book__house">
+        🏦 {t('market.order_book.house', { price: Math.round(currentPrice).toLocaleString() })}
+      </div>
+      {bids.map((level) => (
+        <DepthRow key={`buy-${level.price}`} level={level} maxQty={maxQty} onPick={onPickPrice} />
+      ))}
+      {bids.length === 0 && asks.length === 0 && (
+        <p className="order-book__empty">{t('market.order_book.empty')}</p>
+      )}
+
+      {orders.length > 0 && (
+        <div className="order-book__mine">
+          <h4>{t('market.order_book.my_orders')}</h4>
+          {orders.map((order) => (
+            <div key={order.id} className="order-book__order">
+              <span className={`order-book__side order-book__side--${order.side}`}>
+                {t(`market.trade_modal.${order.side}`)}
+              </span>
+              <span className="order-book__order-desc">
+                {t(`market.order_types.${order.order_type}`)}{' '}
+                {order.order_type === 'stop' && `@${order.stop_price?.toLocaleString()} → `}
+                {order.limit_price != null && order.limit_price.toLocaleString()}
+                {' · '}
+                {order.filled_quantity}/{order.quantity}
+                {' · '}
+                {t(`market.order_status.${order.status}`)}
+              </span>
+              <button
+                className="btn btn--xs btn--ghost"
+                disabled={cancellingId === order.id}
+                onClick={() => handleCancel(order)}
+              >
+                {t('market.order_book.cancel')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState, type CSSProperties, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getAgentVersions, updateAgentPersona, type AgentVersion } from '../api.js';
+import { useToast } from '../ToastContext.js';
+import { diffWords } from '../utils/textDiff.js';
+import './PersonaHistory.css';
+
+interface PersonaHistoryProps {
+  agentId: string;
+  isOwner: boolean;
+  /** Called with the saved texts so the page can refresh the agent */
+  onUpdated?: (persona: string, philosophy: string) => void;
+}
+
+const labelStyle: CSSProperties = { display: 'block', marginBottom: '0.25rem', fontWeight: 600, fontSize: '0.9rem' };
+
+const ERROR_KEYS: Record<string, string> = {
+  NOT_OWNER: 'agent_versions.errors.not_owner',
+  INVALID_PERSONA: 'agent_versions.errors.invalid',
+  CONTENT_REJECTED: 'moderation.rejected',
+};
+
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="persona-history__diff">
+      {diffWords(before, after).map((part, i) => (
+        <span key={i} className={`persona-history__diff--${part.type}`}>{part.text}</span>
+      ))}
+    </p>
+  );
+}
+
+/** Timeline of persona versions: what changed and how each version performed */
+export default function PersonaHistory({ agentId, isOwner, onUpdated }: PersonaHistoryProps) {
+  const { t } = useTranslation();
+  const { pushToast } = useToast();
+  const [versions, setVersions] = useState<AgentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ persona: '', philosophy: '' });
+  const [saving, setSaving] = useState(false);
+
+  const load = () =>
+    getAgentVersions(agentId)
+      .then(setVersions)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agentId]);
+
+  const current = versions[0];
+
+  // Best = highest win rate among versions with at least 3 debates
+  const best = versions
+    .filter((version) => version.stats.debates >= 3 && version.stats.win_rate != null)
+    .sort((a, b) => (b.stats.win_rate ?? 0) - (a.stats.win_rate ?? 0))[0];
+
+  const openEditor = () => {
+    if (!current) return;
+    setForm({ persona: current.persona, philosophy: current.philosophy });
+    setEditing(true);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const result = await updateAgentPersona(agentId, form.persona, form.philosophy);
+      if (result.unchanged) {
+        pushToast(t('agent_versions.unchanged'), 'success');
+      } else {
+        pushToast(t('agent_versions.saved', { version: result.version }), 'success');
+        onUpdated?.(form.persona.trim(), form.philosophy.trim() || form.persona.trim());
+        await load();
+      }
+      setEditing(false);
+    } catch (err) {
+      const code = err instanceof Error ? err.message : '';
+      pushToast(t(ERROR_KEYS[code] ?? 'common.error'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <div className="card">{t('common.loading')}</div>;
+
+  return (
+    <section className="card persona-history animate-fade-in">
+      <div className="persona-history__header">
+        <div>
+          <h3>📜 {t('agent_versions.title')}</h3>
+          <p className="persona-history__hint">{t('agent_versions.hint')}</p>
+        </div>
+        {isOwner && current && (
+          <button className="btn btn--primary btn--sm" onClick={openEditor}>
+            ✏️ {t('agent_versions.edit')}
+          </button>
+        )}
+      </div>
+
+      <ol className="persona-history__timeline">
+        {versions.map((version, index) => {
+          const previous = versions[index + 1];
+          const { stats } = version;
+          return (
+            <li
+              key={version.version}
+              className={`persona-history__item ${best?.version === version.version ? 'persona-history__item--best' : ''}`}
+            >
+              <div className="persona-history__head">
+                <span className="persona-history__version">v{version.version}</span>
+                {index === 0 && <span className="persona-history__tag">{t('agent_versions.current')}</span>}
+                {best?.version === version.version && (
+                  <span className="persona-history__tag persona-history__tag--best">🏆 {t('agent_versions.best')}</span>
+                )}
+                <span className="persona-history__date">{new Date(version.created_at).toLocaleDateString()}</span>
+              </div>
+
+              <div className="persona-history__stats">
+                {stats.debates === 0
+                  ? t('agent_versions.no_debates')
+                  : t('agent_versions.record', {
+                      wins: stats.wins,
+                      losses: stats.losses,
+                      draws: stats.draws,
+                      rate: stats.win_rate ?? 0,
+                    })}
+              </div>
+
+              {previous && previous.name !== version.name && (
+                <div className="persona-history__field">
+                  <label>{t('agent_versions.fields.name')}</label>
+                  <Diff before={previous.name} after={version.name} />
+                </div>
+              )}
+              <div className="persona-history__field">
+                <label>{t('agent_versions.fields.persona')}</label>
+                {previous
+                  ? <Diff before={previous.persona} after={version.persona} />
+                  : <p className="persona-history__diff">{version.persona}</p>}
+              </div>
+              <div className="persona-history__field">
+                <label>{t('agent_versions.fields.philosophy')}</label>
+                {previous
+                  ? <Diff before={previous.philosophy} after={version.philosophy} />
+                  : <p className="persona-history__diff">{version.philosophy}</p>}
+              </div>
+              {previous && previous.faction !== version.faction && (
+                <div className="persona-history__field">
+                  <label>{t('agent_versions.fields.faction')}</label>
+                  <Diff before={previous.faction} after={version.faction} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {editing && (
+        <div className="modal-overlay" onClick={() => setEditing(false)}>
+          <div className="modal-content card" onClick={(e) => e.stopPropagation()} style={{ maxWidth: 520 }}>
+            <h3 style={{ marginBottom: '0.5rem' }}>{t('agent_versions.edit_title')}</h3>
+            <p className="persona-history__hint" style={{ marginBottom: '1rem' }}>{t('agent_versions.edit_hint')}</p>
+            <form onSubmit={handleSubmit}>
+              <div style={{ marginBottom: '0.75rem' }}>
+                <label style={labelStyle}>{t('agent_versions.fields.persona')}</label>
+                <textarea
+                  className="form-input"
+                  rows={4}
+                  value={form.persona}
+                  onChange={(e) => setForm({ ...form, persona: e.target.value })}
+                  required
+                  minLength={10}
+                  maxLength={500}
+                />
+              </div>
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>{t('agent_versions.fields.philosophy')}</label>
+                <textarea
+                  className="form-input"
+                  rows={3}
+                  value={form.philosophy}
+                  onChange={(e) => setForm({ ...form, philosophy: e.target.value })}
+                  maxLength={300}
+                />
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                <button type="button" className="btn btn--secondary btn--sm" onClick={() => setEditing(false)}>
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" className="btn btn--primary btn--sm" disabled={saving}>
+                  {saving ? t('common.loading') : t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,31 @@
+import { useTranslation } from 'react-i18next';
+import type { PracticeFeedback } from '../api.js';
+import './PracticeFeedbackCard.css';
+
+interface PracticeFeedbackCardProps {
+  feedback: PracticeFeedback;
+}
+
+/** Coach's persona feedback after a practice debate */
+export default function PracticeFeedbackCard({ feedback }: PracticeFeedbackCardProps) {
+  const { t } = useTranslation();
+  const sections: { key: 'strengths' | 'weaknesses' | 'persona_suggestions'; icon: string }[] = [
+    { key: 'strengths', icon: '💪' },
+    { key: 'weaknesses', icon: '⚠️' },
+    { key: 'persona_suggestions', icon: '✏️' },
+  ];
+
+  return (
+    <div className="practice-feedback">
+      <div className="practice-feedback__summary">🎓 {feedback.summary}</div>
+      {sections.map(({ key, icon }) => (
+        <div key={key} className={`practice-feedback__section practice-feedback__section--${key}`}>
+          <h5>{icon} {t(`practice.feedback.${key}`)}</h5>
+          <ul>
+            {feedback[key].map((tip, i) => <li key={i}>{tip}</li>)}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import {
+  deletePracticeDebate, fetchAgents, fetchPracticeBots, getPracticeDebates,
+  type PracticeBot, type PracticeDebate
+} from '../api.js';
+import { useToast } from '../ToastContext.js';
+import PracticeFeedbackCard from './PracticeFeedbackCard.js';
+import StanceBadge from './StanceBadge.js';
+import './PracticePanel.css';
+
+interface PracticePanelProps {
+  agentId: string;
+  ownerId: string;
+}
+
+type OwnAgent = { id: string; name: string };
+
+/** Owner-only sparring: start a no-stakes practice debate and review coach feedback */
+export default function PracticePanel({ agentId, ownerId }: PracticePanelProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { pushToast } = useToast();
+  const [bots, setBots] = useState<PracticeBot[]>([]);
+  const [ownAgents, setOwnAgents] = useState<OwnAgent[]>([]);
+  const [history, setHistory] = useState<PracticeDebate[]>([]);
+  const [opponentId, setOpponentId] = useState('');
+  const [topic, setTopic] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetchPracticeBots(),
+      fetchAgents({ ownerId, limit: 0 }),
+      getPracticeDebates(agentId),
+    ])
+      .then(([botList, { agents }, practiceHistory]) => {
+        setBots(botList);
+        setOwnAgents((agents as OwnAgent[]).filter((agent) => agent.id !== agentId));
+        setHistory(practiceHistory);
+        setOpponentId((current) => current || botList[0]?.id || '');
+      })
+      .catch(console.error);
+  }, [agentId, ownerId]);
+
+  const start = () => {
+    if (!opponentId) return;
+    const params = new URLSearchParams({ practice: '1', agent1: agentId, agent2: opponentId });
+    if (topic.trim()) params.set('topic', topic.trim());
+    navigate(`/arena/live?${params.toString()}`);
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deletePracticeDebate(id);
+      setHistory((prev) => prev.filter((item) => item.id !== id));
+    } catch {
+      pushToast(t('common.error'), 'error');
+    }
+  };
+
+  return (
+    <div className="card practice-panel">
+      <h3>🥊 {t('practice.title')}</h3>
+      <p className="practice-panel__hint">{t('practice.hint')}</p>
+
+      <div className="practice-panel__form">
+        <select className="form-input" value={opponentId} onChange={(e) => setOpponentId(e.target.value)}>
+          {bots.length > 0 && (
+            <optgroup label={t('practice.house_bots')}>
+              {bots.map((bot) => (
+                <option key={bot.id} value={bot.id}>🤖 {bot.name} ({bot.tier} · {bot.elo_score})</option>
+              ))}
+            </optgroup>
+          )}
+          {ownAgents.length > 0 && (
+            <optgroup label={t('practice.own_agents')}>
+              {ownAgents.map((agent) => (
+                <option key={agent.id} value={agent.id}>{agent.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <input
+          type="text"
+          className="form-input"
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          placeholder={t('practice.topic_placeholder')}
+          maxLength={120}
+        />
+        <button className="btn btn--primary btn--sm" onClick={start} disabled={!opponentId}>
+          {t('practice.start')}
+        </button>
+      </div>
+
+      {history.length > 0 && (
+        <ul className="practice-panel__history">
+          {history.map((item) => (
+            <li key={item.id} className="practice-panel__item">
+              <div className="practice-panel__row">
+                <span className={`practice-panel__result practice-panel__result--${item.result ?? item.status}`}>
+                  {item.result ? t(`agent_memory.result.${item.result}`) : t(`practice.status.${item.status}`)}
+                </span>
+                {item.agent_stance && <StanceBadge stance={item.agent_stance} />}
+                <button
+                  className="practice-panel__topic"
+                  onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                  disabled={!item.feedback}
+                >
+                  {item.topic}
+                </button>
+                <span className="practice-panel__meta">
+                  {item.opponent_is_bot ? '🤖 ' : ''}{item.opponent_name} · {new Date(item.created_at).toLocaleDateString()}
+                </span>
+                <button className="btn btn--ghost btn--sm" onClick={() => remove(item.id)} title={t('practice.delete')}>✕</button>
+              </div>
+              {expanded === item.id && item.feedback && <PracticeFeedbackCard feedback={item.feedback} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  fetchSkillTraits, getAgentProgression, spendSkillPoint, type AgentProgression, type SkillTrait
+} from '../api.js';
+import { useToast } from '../ToastContext.js';
+import './SkillTreePanel.css';
+
+interface SkillTreePanelProps {
+  agentId: string;
+  isOwner: boolean;
+}
+
+const ERROR_KEYS: Record<string, string> = {
+  NOT_OWNER: 'skills.errors.not_owner',
+  TRAIT_LOCKED: 'skills.errors.locked',
+  NO_SKILL_POINTS: 'skills.errors.no_points',
+  TRAIT_MAXED: 'skills.errors.maxed',
+};
+
+/** Level, XP progress and skill traits; owners spend skill points here */
+export default function SkillTreePanel({ agentId, isOwner }: SkillTreePanelProps) {
+  const { t } = useTranslation();
+  const { pushToast } = useToast();
+  const [traits, setTraits] = useState<SkillTrait[]>([]);
+  const [progression, setProgression] = useState<AgentProgression | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    Promise.all([fetchSkillTraits(), getAgentProgression(agentId)])
+      .then(([traitList, progress]) => {
+        setTraits(traitList);
+        setProgression(progress);
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [agentId]);
+
+  const spend = async (traitId: string) => {
+    setBusy(true);
+    try {
+      const result = await spendSkillPoint(agentId, traitId);
+      setProgression((prev) => prev && {
+        ...prev,
+        skill_points: result.skill_points,
+        traits: { ...prev.traits, [traitId]: result.rank },
+      });
+      pushToast(t('skills.learned', { name: t(`skills.traits.${traitId}.name`), rank: result.rank }), 'success');
+    } catch (err) {
+      const code = err instanceof Error ? err.message : '';
+      pushToast(t(ERROR_KEYS[code] ?? 'common.error'), 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading || !progression) return null;
+
+  const { level, xp, level_xp, next_level_xp, skill_points } = progression;
+  const percent = next_level_xp == null
+    ? 100
+    : Math.min(100, Math.round(((xp - level_xp) / (next_level_xp - level_xp)) * 100));
+
+  return (
+    <div className="card skill-tree">
+      <div className="skill-tree__header">
+        <h3>🌱 {t('skills.title')}</h3>
+        <span className="skill-tree__level">Lv. {level}</span>
+      </div>
+
+      <div className="skill-tree__xp">
+        <div className="skill-tree__xp-bar">
+          <div className="skill-tree__xp-fill" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="skill-tree__xp-label">
+          {next_level_xp == null
+            ? t('skills.max_level', { xp })
+            : t('skills.xp_progress', { xp, next: next_level_xp })}
+        </span>
+      </div>
+
+      {isOwner && (
+        <p className="skill-tree__points">
+          {skill_points > 0 ? t('skills.points', { count: skill_points }) : t('skills.no_points')}
+        </p>
+      )}
+
+      <ul className="skill-tree__list">
+        {traits.map((trait) => {
+          const rank = progression.traits[trait.id] ?? 0;
+          const locked = level < trait.unlock_level;
+          const maxed = rank >= trait.max_rank;
+          return (
+            <li key={trait.id} className={`skill-tree__trait ${locked ? 'skill-tree__trait--locked' : ''}`}>
+              <div className="skill-tree__trait-head">
+                <span className="skill-tree__trait-name">
+                  {locked && '🔒 '}{t(`skills.traits.${trait.id}.name`)}
+                </span>
+                <span className="skill-tree__pips" aria-label={`${rank}/${trait.max_rank}`}>
+                  {Array.from({ length: trait.max_rank }, (_, i) => (
+                    <span key={i} className={`skill-tree__pip ${i < rank ? 'skill-tree__pip--on' : ''}`} />
+                  ))}
+                </span>
+                {isOwner && !locked && !maxed && (
+                  <button
+                    className="btn btn--primary btn--sm"
+                    onClick={() => spend(trait.id)}
+                    disabled={busy || skill_points <= 0}
+                  >
+                    +1
+                  </button>
+                )}
+              </div>
+              <p className="skill-tree__trait-desc">
+                {locked
+                  ? t('skills.unlocks_at', { level: trait.unlock_level })
+                  : t(`skills.traits.${trait.id}.description`)}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useTranslation } from 'react-i18next';
+import type { DebateStance } from '../api.js';
+import './StanceBadge.css';
+
+interface StanceBadgeProps {
+  stance: DebateStance;
+  /** The position the agent defends; shown as a tooltip */
+  position?: string | null;
+}
+
+/** Pro / con side assigned to an agent for a debate */
+export default function StanceBadge({ stance, position }: StanceBadgeProps) {
+  const { t } = useTranslation();
+  return (
+    <span className={`stance-badge stance-badge--${stance}`} title={position ?? undefined}>
+      {t(`stance.${stance}`)}
+    </span>
+  );
+}
@@ -1,91 +1,168 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  AreaChart,
-  Area,
+  ComposedChart,
+  Bar,
 } from 'recharts';
 import { useTranslation } from 'react-i18next';
+import { fetchStockCandles, type Candle, type CandleResolution } from '../api.js';
+import './StockHistoryChart.css';
 
-interface HistoryData {
-  price: number;
-  timestamp: string;
-}
+type RangeId = '1d' | '1w' | '1m' | 'all';
+
+/** Each range picks the resolution that keeps the chart at a readable candle count */
+const RANGES: { id: RangeId; resolution: CandleResolution; hours: number | null }[] = [
+  { id: '1d', resolution: '5m', hours: 24 },
+  { id: '1w', resolution: '1h', hours: 24 * 7 },
+  { id: '1m', resolution: '1d', hours: 24 * 30 },
+  { id: 'all', resolution: '1d', hours: null },
+];
 
 interface Props {
-  data: HistoryData[];
+  stockId: string;
   height?: number | string;
 }
 
-export default function StockHistoryChart({ data, height = 300 }: Props) {
-  const { i18n } = useTranslation();
+interface ChartCandle extends Candle {
+  time: string;
+  /** [low, high] — the bar spans the wick, CandleShape draws the body inside it */
+  range: [number, number];
+}
 
-  const chartData = useMemo(() => {
-    return data.map((d) => ({
-      ...d,
-      time: new Date(d.timestamp).toLocaleTimeString(i18n.language === 'ko' ? 'ko-KR' : 'en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-      }),
-    }));
-  }, [data, i18n.language]);
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: ChartCandle;
+}
 
-  if (data.length === 0) {
-    return (
-      <div className="flex-center p-y-24 text-muted">
-        데이터가 부족하여 차트를 표시할 수 없습니다. (데이터 수집 중...)
-      </div>
-    );
-  }
+function CandleShape(props: unknown) {
+  const { x, y, width, height, payload } = props as CandleShapeProps;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? 'var(--success)' : 'var(--danger)';
+  const scale = high > low ? height / (high - low) : 0;
+  const openY = y + (high - open) * scale;
+  const closeY = y + (high - close) * scale;
+  const center = x + width / 2;
+  const bodyWidth = Math.max(width * 0.7, 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect
+        x={center - bodyWidth / 2}
+        y={Math.min(openY, closeY)}
+        width={bodyWidth}
+        height={Math.max(Math.abs(closeY - openY), 1)}
+        fill={color}
+      />
+    </g>
+  );
+}
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: { payload: ChartCandle }[] }) {
+  const { t } = useTranslation();
+  if (!active || !payload?.length) return null;
+  const candle = payload[0].payload;
+  return (
+    <div className="stock-chart__tooltip">
+      <div className="stock-chart__tooltip-time">{candle.time}</div>
+      <div>{t('stock_chart.ohlc', {
+        open: Math.round(candle.open),
+        high: Math.round(candle.high),
+        low: Math.round(candle.low),
+        close: Math.round(candle.close),
+      })}</div>
+      <div>{t('stock_chart.volume', { volume: candle.volume.toLocaleString(), trades: candle.trades })}</div>
+    </div>
+  );
+}
+
+export default function StockHistoryChart({ stockId, height = 300 }: Props) {
+  const { t, i18n } = useTranslation();
+  const [rangeId, setRangeId] = useState<RangeId>('1w');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const range = RANGES.find((r) => r.id === rangeId) ?? RANGES[1];
 
-  const minPrice = Math.min(...data.map(d => d.price)) * 0.95;
-  const maxPrice = Math.max(...data.map(d => d.price)) * 1.05;
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const from = range.hours != null ? new Date(Date.now() - range.hours * 60 * 60 * 1000) : undefined;
+    fetchStockCandles(stockId, range.resolution, from)
+      .then((data) => { if (!cancelled) setCandles(data); })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setCandles([]);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [stockId, range.resolution, range.hours]);
+
+  const chartData = useMemo<ChartCandle[]>(() => {
+    const locale = i18n.language === 'ko' ? 'ko-KR' : 'en-US';
+    const format: Intl.DateTimeFormatOptions = range.resolution === '1d'
+      ? { month: '2-digit', day: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' };
+    return candles.map((c) => ({
+      ...c,
+      time: new Date(c.bucket_start).toLocaleString(locale, format),
+      range: [c.low, c.high],
+    }));
+  }, [candles, range.resolution, i18n.language]);
+
+  const minPrice = Math.min(...candles.map((c) => c.low)) * 0.98;
+  const maxPrice = Math.max(...candles.map((c) => c.high)) * 1.02;
 
   return (
-    <div style={{ width: '100%', height }}>
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="var(--accent-primary)" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="var(--accent-primary)" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
-          <XAxis 
-            dataKey="time" 
-            stroke="var(--text-muted)" 
-            fontSize={12} 
-            tickLine={false} 
-            axisLine={false}
-          />
-          <YAxis 
-            domain={[minPrice, maxPrice]} 
-            hide 
-          />
-          <Tooltip 
-            contentStyle={{ 
-              background: 'var(--bg-card)', 
-              border: '1px solid var(--border)', 
-              borderRadius: '8px',
-              color: 'var(--text-primary)'
-            }}
-            itemStyle={{ color: 'var(--accent-primary)' }}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="price" 
-            stroke="var(--accent-primary)" 
-            strokeWidth={2}
-            fillOpacity={1} 
-            fill="url(#colorPrice)" 
-            animationDuration={1500}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="stock-chart">
+      <div className="stock-chart__ranges">
+        {RANGES.map((r) => (
+          <button
+            key={r.id}
+            className={`stock-chart__range${r.id === rangeId ? ' stock-chart__range--active' : ''}`}
+            onClick={() => setRangeId(r.id)}
+          >
+            {t(`stock_chart.ranges.${r.id}`)}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex-center p-y-24">
+          <div className="spinner" />
+        </div>
+      ) : candles.length === 0 ? (
+        <div className="flex-center p-y-24 text-muted">{t('stock_chart.empty')}</div>
+      ) : (
+        <div style={{ width: '100%', height }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+              <XAxis
+                dataKey="time"
+                stroke="var(--text-muted)"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+              />
+              <YAxis yAxisId="price" domain={[minPrice, maxPrice]} hide />
+              {/* Volume sits in the bottom quarter */}
+              <YAxis yAxisId="volume" domain={[0, (max: number) => Math.max(max, 1) * 4]} hide />
+              <Tooltip content={<CandleTooltip />} cursor={{ fill: 'rgba(255,255,255,0.04)' }} />
+              <Bar yAxisId="volume" dataKey="volume" fill="var(--accent-primary)" fillOpacity={0.25} isAnimationActive={false} />
+              <Bar yAxisId="price" dataKey="range" shape={CandleShape} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,74 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import type { TournamentFormat, TournamentMatch } from '../api.js';
+import './TournamentBracket.css';
+
+interface TournamentBracketProps {
+  format: TournamentFormat;
+  matches: TournamentMatch[];
+  /** Rounds still to be paired are drawn as empty columns (single elimination) */
+  totalRounds: number;
+  agentNames: Record<string, string>;
+}
+
+/** Single elimination: one column per round. Swiss: one row of pairings per round. */
+export default function TournamentBracket({ format, matches, totalRounds, agentNames }: TournamentBracketProps) {
+  const { t } = useTranslation();
+  const roundCount = Math.max(totalRounds, ...matches.map((m) => m.round), 0);
+  if (roundCount === 0) return null;
+
+  const rounds = Array.from({ length: roundCount }, (_, i) => i + 1);
+  const roundLabel = (round: number) => {
+    if (format === 'single_elim') {
+      const remaining = roundCount - round;
+      if (remaining === 0) return t('tournaments.bracket.final');
+      if (remaining === 1) return t('tournaments.bracket.semifinal');
+    }
+    return t('tournaments.bracket.round', { round });
+  };
+
+  const side = (match: TournamentMatch, agentId: string | null, slot: 'agent1' | 'agent2') => {
+    const won = agentId !== null && match.winner_agent_id === agentId;
+    const lost = match.status === 'completed' && agentId !== null && !won && match.outcome !== 'draw';
+    return (
+      <div className={`bracket-match__side ${won ? 'bracket-match__side--won' : ''} ${lost ? 'bracket-match__side--lost' : ''}`}>
+        <span>{agentId ? agentNames[agentId] ?? agentId.slice(0, 8) : t('tournaments.bracket.bye')}</span>
+        {match.status === 'completed' && match.outcome === slot && <span>✓</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`bracket bracket--${format}`}>
+      {rounds.map((round) => {
+        const roundMatches = matches.filter((m) => m.round === round);
+        return (
+          <div key={round} className="bracket__round">
+            <div className="bracket__round-title">{roundLabel(round)}</div>
+            {roundMatches.length === 0 && <div className="bracket__tbd">{t('tournaments.bracket.tbd')}</div>}
+            {roundMatches.map((match) => {
+              const body = (
+                <>
+                  {side(match, match.agent1_id, 'agent1')}
+                  {side(match, match.agent2_id, 'agent2')}
+                  <div className="bracket-match__status">
+                    {match.status === 'completed' && match.outcome === 'draw'
+                      ? t('live_debate.result.draw')
+                      : t(`tournaments.match_status.${match.status}`)}
+                  </div>
+                </>
+              );
+              return match.debate_id ? (
+                <Link key={match.id} to={`/arena/${match.debate_id}`} className={`bracket-match bracket-match--${match.status}`}>
+                  {body}
+                </Link>
+              ) : (
+                <div key={match.id} className={`bracket-match bracket-match--${match.status}`}>{body}</div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,13 +4,18 @@ import { useTranslation } from 'react-i18next';
 import { 
   getAgentById, getAgentDebates, getAgentStock, getAgentCheers, cheerAgent,
   getProposals, createProposal, voteProposal, type Proposal,
-  fetchStockHistory
+  getAgentStanceStats, type AgentStanceStat
 } from '../api.js';
 import StockHistoryChart from '../components/StockHistoryChart.js';
 import { getFactionLabel, getFactionEmoji } from '../utils/factions.js';
 import { useToast } from '../ToastContext.js';
 import { useAuthContext } from '../AuthContext.js';
 import ShareButton from '../components/ShareButton.js';
+import MatchmakingQueuePanel from '../components/MatchmakingQueuePanel.js';
+import AgentMemoryPanel from '../components/AgentMemoryPanel.js';
+import PracticePanel from '../components/PracticePanel.js';
+import PersonaHistory from '../components/PersonaHistory.js';
+import SkillTreePanel from '../components/SkillTreePanel.js';
 
 type Agent = {
   id: string;
@@ -18,13 +23,17 @@ type Agent = {
   persona: string;
   philosophy?: string | null;
   faction: string;
+  owner_id: string;
   elo_score: number;
+  glicko_rating?: number | null;
+  glicko_rd?: number | null;
   tier: string;
   wins: number;
   losses: number;
   draws: number;
   total_debates?: number | null;
   win_rate?: number | null;
+  moderation_status?: 'approved' | 'pending' | 'rejected';
 };
 
 type Debate = {
@@ -52,14 +61,14 @@ export default function AgentDetailPage() {
   const [agent, setAgent] = useState<Agent | null>(null);
   const [debates, setDebates] = useState<Debate[]>([]);
   const [stock, setStock] = useState<any | null>(null);
-  const [history, setHistory] = useState<any[]>([]);
   const [cheers, setCheers] = useState({ count: 0, recent: [] as any[] });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [cheerLoading, setCheerLoading] = useState(false);
 
-  const [activeTab, setActiveTab] = useState<'info' | 'debates' | 'shareholders'>('info');
+  const [activeTab, setActiveTab] = useState<'info' | 'debates' | 'history' | 'shareholders'>('info');
   const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [stanceStats, setStanceStats] = useState<AgentStanceStat[]>([]);
   const [newTopic, setNewTopic] = useState('');
 
   const locale = i18n.language === 'ko' ? 'ko-KR' : 'en-US';
@@ -80,11 +89,6 @@ export default function AgentDetailPage() {
       setDebates(debatesData);
       setStock(stockData);
       setCheers(cheersData);
-      
-      if (stockData?.id) {
-        fetchStockHistory(stockData.id).then(setHistory).catch(console.error);
-      }
-      
       setLoading(false);
     }).catch(err => {
       console.error(err);
@@ -93,6 +97,14 @@ export default function AgentDetailPage() {
     });
   }, [agentId, t]);
 
+  // Fetch Stance Stats
+  useEffect(() => {
+    if (!agentId) return;
+    getAgentStanceStats(agentId)
+      .then(setStanceStats)
+      .catch(console.error);
+  }, [agentId]);
+
   // Fetch Proposals
   useEffect(() => {
     if (!agentId || !user) return;
@@ -113,8 +125,9 @@ export default function AgentDetailPage() {
       const updated = await getAgentCheers(agentId);
       setCheers(updated);
       pushToast(t('agent_detail.cheer_sent'), 'success');
-    } catch {
-      pushToast(t('common.error'), 'error');
+    } catch (err) {
+      const rejected = err instanceof Error && err.message === 'CONTENT_REJECTED';
+      pushToast(t(rejected ? 'moderation.rejected' : 'common.error'), 'error');
     } finally {
       setCheerLoading(false);
     }
@@ -130,6 +143,8 @@ export default function AgentDetailPage() {
     } catch (err: any) {
       if (err.message === 'MUST_BE_SHAREHOLDER') {
         pushToast(t('agent_detail.proposal.error.shareholder_only'), 'error');
+      } else if (err.message === 'CONTENT_REJECTED') {
+        pushToast(t('moderation.rejected'), 'error');
       } else {
         pushToast(t('common.error'), 'error');
       }
@@ -145,6 +160,8 @@ export default function AgentDetailPage() {
     } catch (err: any) {
       if (err.message === 'NO_SHARES_TO_VOTE') {
         pushToast(t('agent_detail.proposal.error.no_shares'), 'error');
+      } else if (err.message === 'PROPOSAL_CLOSED') {
+        pushToast(t('agent_detail.proposal.error.closed'), 'error');
       } else {
         pushToast(t('common.error'), 'error');
       }
@@ -175,6 +192,12 @@ export default function AgentDetailPage() {
   return (
     <div className="agent-detail animate-fade-in">
 
+      {user?.id === agent.owner_id && agent.moderation_status && agent.moderation_status !== 'approved' && (
+        <div className={`card agent-detail__moderation agent-detail__moderation--${agent.moderation_status}`}>
+          {t(`moderation.agent_banner.${agent.moderation_status}`)}
+        </div>
+      )}
+
       {/* ─── Hero Section ─── */}
       <section className="card agent-detail__hero">
         <div className="hero-content">
@@ -251,6 +274,12 @@ export default function AgentDetailPage() {
           ⚔️ {t('agent_detail.tabs.debates')}
           {debates.length > 0 && <span className="tab-count">{debates.length}</span>}
         </button>
+        <button
+          className={`tab-nav__item ${activeTab === 'history' ? 'active' : ''}`}
+          onClick={() => setActiveTab('history')}
+        >
+          📜 {t('agent_detail.tabs.history')}
+        </button>
         <button
           className={`tab-nav__item ${activeTab === 'shareholders' ? 'active' : ''}`}
           onClick={() => setActiveTab('shareholders')}
@@ -271,6 +300,15 @@ export default function AgentDetailPage() {
                   <label>ELO</label>
                   <div className="stat-value">{Math.round(agent.elo_score)}</div>
                 </div>
+                {agent.glicko_rating != null && (
+                  <div className="stat-item" title={t('agent_detail.rating.hint')}>
+                    <label>{t('agent_detail.rating.label')}</label>
+                    <div className="stat-value">
+                      {Math.round(agent.glicko_rating)}
+                      <small style={{ color: 'var(--text-secondary)' }}> ± {Math.round(agent.glicko_rd ?? 350)}</small>
+                    </div>
+                  </div>
+                )}
                 <div className="stat-item">
                   <label>Tier</label>
                   <div className="stat-value">{agent.tier}</div>
@@ -289,6 +327,14 @@ export default function AgentDetailPage() {
                     })}
                   </div>
                 </div>
+                {stanceStats.map((stat) => (
+                  <div key={stat.stance} className="stat-item">
+                    <label>{t(`agent_detail.stance_win_rate.${stat.stance}`)}</label>
+                    <div className="stat-value">
+                      {stat.win_rate}% <span className="text-sm">({t('agent_detail.record.count', { count: stat.debates })})</span>
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -306,7 +352,7 @@ export default function AgentDetailPage() {
               {stock ? (
                 <>
                   <div className="chart-container mb-16">
-                    <StockHistoryChart data={history} height={180} />
+                    <StockHistoryChart stockId={stock.id} height={180} />
                   </div>
                   <div className="stat-grid">
                     <div className="stat-item">
@@ -343,6 +389,14 @@ export default function AgentDetailPage() {
               )}
             </div>
           </section>
+          <SkillTreePanel agentId={agent.id} isOwner={user?.id === agent.owner_id} />
+          {user?.id === agent.owner_id && (
+            <>
+              <MatchmakingQueuePanel agentId={agent.id} />
+              <PracticePanel agentId={agent.id} ownerId={agent.owner_id} />
+              <AgentMemoryPanel agentId={agent.id} />
+            </>
+          )}
         </div>
       )}
 
@@ -401,6 +455,15 @@ export default function AgentDetailPage() {
         </section>
       )}
 
+      {/* ─── Tab: Persona History ─── */}
+      {activeTab === 'history' && (
+        <PersonaHistory
+          agentId={agent.id}
+          isOwner={user?.id === agent.owner_id}
+          onUpdated={(persona, philosophy) => setAgent({ ...agent, persona, philosophy })}
+        />
+      )}
+
       {/* ─── Tab: Shareholders ─── */}
       {activeTab === 'shareholders' && (
         <section className="card agent-detail__shareholders animate-fade-in">
@@ -441,19 +504,34 @@ export default function AgentDetailPage() {
                     <div className="proposal-item__topic">{p.topic}</div>
                     <div className="proposal-item__meta">
                       📅 {new Date(p.created_at).toLocaleDateString(locale)}
+                      {p.moderation_status && p.moderation_status !== 'approved' && (
+                        <span className="proposal-item__moderation">
+                          {' · '}{t(`moderation.status.${p.moderation_status}`)}
+                        </span>
+                      )}
+                      {p.status === 'used' && p.debate_id && (
+                        <>
+                          {' · '}
+                          <Link to={`/arena/${p.debate_id}`}>⚔️ {t('agent_detail.proposal.debated')}</Link>
+                        </>
+                      )}
                     </div>
                   </div>
                   <div className="proposal-item__vote">
                     <div className="proposal-vote-count">{p.votes} {i18n.language === 'ko' ? '표' : 'Votes'}</div>
-                    <button
-                      className={`btn btn--sm ${p.user_voted ? 'btn--secondary' : 'btn--outline'}`}
-                      onClick={() => handleVote(p.id)}
-                      disabled={p.user_voted || !user}
-                    >
-                      {p.user_voted
-                        ? (i18n.language === 'ko' ? '투표함' : 'Voted')
-                        : (i18n.language === 'ko' ? '투표' : 'Vote')}
-                    </button>
+                    {p.status === 'used' ? (
+                      <span className="proposal-item__used">{t('agent_detail.proposal.used')}</span>
+                    ) : (
+                      <button
+                        className={`btn btn--sm ${p.user_voted ? 'btn--secondary' : 'btn--outline'}`}
+                        onClick={() => handleVote(p.id)}
+                        disabled={p.user_voted || !user}
+                      >
+                        {p.user_voted
+                          ? (i18n.language === 'ko' ? '투표함' : 'Voted')
+                          : (i18n.language === 'ko' ? '투표' : 'Vote')}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import type { CSSProperties } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { fetchRecentDebates, fetchTopics, fetchAgents } from '../api.js';
+import { fetchRecentDebates, fetchTopics, fetchAgents, fetchDebateFormats, type DebateFormat, type Topic } from '../api.js';
 import { useAuthContext } from '../AuthContext.js';
 import { getFactionEmoji, getFactionLabel } from '../utils/factions.js';
 
@@ -192,9 +192,11 @@ export default function ArenaPage() {
   const navigate = useNavigate();
   const { user } = useAuthContext();
   const [debates, setDebates] = useState<Debate[]>([]);
-  const [topics, setTopics] = useState<string[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
+  const [formats, setFormats] = useState<DebateFormat[]>([]);
+  const [selectedFormat, setSelectedFormat] = useState<string | null>(null);
   const [showAgentModal, setShowAgentModal] = useState(false);
 
   const locale = i18n.language === 'ko' ? 'ko-KR' : 'en-US';
@@ -206,12 +208,14 @@ export default function ArenaPage() {
 
   async function loadData() {
     try {
-      const [recent, topicList] = await Promise.all([
+      const [recent, topicList, formatList] = await Promise.all([
         fetchRecentDebates(15),
-        fetchTopics(t),
+        fetchTopics(i18n.language === 'ko' ? 'ko' : 'en').catch(() => [] as Topic[]),
+        fetchDebateFormats().catch(() => [] as DebateFormat[]),
       ]);
       setDebates(Array.isArray(recent) ? recent as Debate[] : []);
       setTopics(Array.isArray(topicList) ? topicList : []);
+      setFormats(formatList);
     } catch {
       setDebates([]);
       setTopics([]);
@@ -221,11 +225,11 @@ export default function ArenaPage() {
   }
 
   function handleAutoDebate() {
-    if (selectedTopic) {
-      navigate(`/arena/live?topic=${encodeURIComponent(selectedTopic)}`);
-    } else {
-      navigate('/arena/live');
-    }
+    const params = new URLSearchParams();
+    if (selectedTopic) params.set('topic', selectedTopic);
+    if (selectedFormat) params.set('format', selectedFormat);
+    const query = params.toString();
+    navigate(query ? `/arena/live?${query}` : '/arena/live');
   }
 
   function handleManualDebate(agent1: Agent, agent2: Agent, topic?: string) {
@@ -234,6 +238,7 @@ export default function ArenaPage() {
     params.set('agent1', agent1.id);
     params.set('agent2', agent2.id);
     if (topic) params.set('topic', topic);
+    if (selectedFormat) params.set('format', selectedFormat);
     navigate(`/arena/live?${params.toString()}`);
   }
 
@@ -244,6 +249,9 @@ export default function ArenaPage() {
       }
       return <span className="arena-status-badge arena-status-badge--done">✓ {t('arena.result.done')}</span>;
     }
+    if (d.status === 'aborted') {
+      return <span className="arena-status-badge arena-status-badge--aborted">{t('arena.result.aborted')}</span>;
+    }
     if (d.status === 'debating' || d.status === 'in_progress') {
       return (
         <span className="arena-status-badge arena-status-badge--live">
@@ -321,6 +329,29 @@ export default function ArenaPage() {
         </div>
       </div>
 
+      {/* ─── Debate Format ─── */}
+      {formats.length > 0 && (
+        <div className="card arena-topic-card">
+          <h3 className="arena-topic-card__title">
+            🎙️ {t('arena.format.title')}
+            <span className="arena-topic-hint">{t('arena.format.hint')}</span>
+          </h3>
+          <div className="arena-topic-tags">
+            {formats.map((format) => (
+              <button
+                key={format.id}
+                className={`arena-topic-tag${selectedFormat === format.id ? ' arena-topic-tag--selected' : ''}`}
+                onClick={() => setSelectedFormat(selectedFormat === format.id ? null : format.id)}
+                title={format.description}
+              >
+                {format.name} · {t('arena.format.rounds', { count: format.rounds.length })}
+                {format.rounds.some((round) => round.type === 'cross_exam') && ` · ${t('arena.format.cross_exam')}`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* ─── Today's Topics ─── */}
       {topics.length > 0 && (
         <div className="card arena-topic-card">
@@ -329,14 +360,14 @@ export default function ArenaPage() {
             <span className="arena-topic-hint">{i18n.language === 'ko' ? '클릭하면 해당 주제로 토론 시작' : 'Click to debate this topic'}</span>
           </h3>
           <div className="arena-topic-tags">
-            {topics.map((topic, i) => (
+            {topics.map((topic) => (
               <button
-                key={i}
-                className={`arena-topic-tag${selectedTopic === topic ? ' arena-topic-tag--selected' : ''}`}
-                onClick={() => setSelectedTopic(selectedTopic === topic ? null : topic)}
-                title={i18n.language === 'ko' ? '이 주제로 토론하기' : 'Debate this topic'}
+                key={topic.id}
+                className={`arena-topic-tag${selectedTopic === topic.title ? ' arena-topic-tag--selected' : ''}`}
+                onClick={() => setSelectedTopic(selectedTopic === topic.title ? null : topic.title)}
+                title={`${t(`topics.category.${topic.category}`, { defaultValue: topic.category })} · ${t(`topics.difficulty.${topic.difficulty}`)}`}
               >
-                {topic}
+                {topic.title}
               </button>
             ))}
           </div>
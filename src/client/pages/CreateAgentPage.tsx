@@ -126,7 +126,9 @@ export default function CreateAgentPage() {
       pushToast(t('create_agent.messages.success'), 'success');
       navigate(`/agents/${result.id}`);
     } catch (err) {
-      const message = err instanceof Error ? err.message : t('create_agent.messages.error');
+      const message = err instanceof Error
+        ? (err.message === 'CONTENT_REJECTED' ? t('moderation.rejected') : err.message)
+        : t('create_agent.messages.error');
       setError(message);
       pushToast(message, 'error');
     } finally {
@@ -2,12 +2,16 @@ import { useEffect, useMemo, useState, useCallback } from 'react';
 import type { CSSProperties } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { getDebateById } from '../api.js';
+import { getDebateById, type DebateStance, type JudgePanelRecord } from '../api.js';
 import { useToast } from '../ToastContext.js';
 import ShareButton from '../components/ShareButton.js';
+import JudgePanel from '../components/JudgePanel.js';
+import StanceBadge from '../components/StanceBadge.js';
 
 type DebateRound = {
   round: number;
+  /** Format label (absent on debates stored before formats existed) */
+  label?: string;
   agent1_argument?: string;
   agent2_argument?: string;
   agent1_score?: number;
@@ -27,6 +31,15 @@ type DebateDetail = {
   winner_name?: string | null;
   elo_change_winner?: number | null;
   elo_change_loser?: number | null;
+  status?: string;
+  outcome?: 'agent1' | 'agent2' | 'draw' | null;
+  elo_change_agent1?: number | null;
+  elo_change_agent2?: number | null;
+  judge_panel?: JudgePanelRecord | null;
+  agent1_stance?: DebateStance | null;
+  agent2_stance?: DebateStance | null;
+  topic_pro_stance?: string | null;
+  topic_con_stance?: string | null;
 };
 
 function useCountUp(target: number, duration = 700) {
@@ -58,8 +71,8 @@ export default function DebateDetailPage() {
   const [debate, setDebate] = useState<DebateDetail | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const getRoundTitle = useCallback((round: number) => {
-    return t(`live_debate.rounds.p${round}`, { defaultValue: 'Debate' });
+  const getRoundTitle = useCallback((round: DebateRound) => {
+    return round.label || t(`live_debate.rounds.p${round.round}`, { defaultValue: 'Debate' });
   }, [t]);
 
   useEffect(() => {
@@ -105,6 +118,12 @@ export default function DebateDetailPage() {
         : ''
     : '';
 
+  const stancePosition = (stance: DebateStance) =>
+    stance === 'pro' ? debate?.topic_pro_stance : debate?.topic_con_stance;
+
+  // A completed debate without a winner is a draw
+  const isDraw = debate?.outcome === 'draw' || (debate?.status === 'completed' && !debate?.winner_id);
+
   const winnerElo = debate?.elo_change_winner ?? 0;
   const loserElo = debate?.elo_change_loser ?? 0;
   const winnerEloAnimated = useCountUp(winnerElo);
@@ -137,9 +156,23 @@ export default function DebateDetailPage() {
         <h2 className="debate-detail__title">{debate.topic}</h2>
         <div className="debate-detail__agents">
           <Link to={`/agents/${debate.agent1_id}`} className="agent-link">{debate.agent1_name}</Link>
+          {debate.agent1_stance && <StanceBadge stance={debate.agent1_stance} position={stancePosition(debate.agent1_stance)} />}
           <span className="debate-detail__vs">⚔️</span>
           <Link to={`/agents/${debate.agent2_id}`} className="agent-link">{debate.agent2_name}</Link>
+          {debate.agent2_stance && <StanceBadge stance={debate.agent2_stance} position={stancePosition(debate.agent2_stance)} />}
         </div>
+        {debate.topic_pro_stance && debate.topic_con_stance && (
+          <div className="stance-positions">
+            <div className="stance-positions__side">
+              <StanceBadge stance="pro" />
+              <span>{debate.topic_pro_stance}</span>
+            </div>
+            <div className="stance-positions__side">
+              <StanceBadge stance="con" />
+              <span>{debate.topic_con_stance}</span>
+            </div>
+          </div>
+        )}
         <ShareButton className="mt-8" />
       </section>
 
@@ -155,7 +188,7 @@ export default function DebateDetailPage() {
               >
               <div className="debate-round__header">
                 <div className="debate-round__label">
-                  {t('debate_detail.round_info', { round: round.round, title: getRoundTitle(round.round) })}
+                  {t('debate_detail.round_info', { round: round.round, title: getRoundTitle(round) })}
                 </div>
                 {(round.agent1_score != null || round.agent2_score != null) && (
                   <div className="debate-round__score">
@@ -205,13 +238,34 @@ export default function DebateDetailPage() {
               </div>
             </div>
           </div>
+        ) : isDraw ? (
+          <div className="debate-detail__result-grid">
+            {[
+              { name: debate.agent1_name, change: debate.elo_change_agent1 ?? 0 },
+              { name: debate.agent2_name, change: debate.elo_change_agent2 ?? 0 },
+            ].map((side) => (
+              <div key={side.name}>
+                <div className="debate-detail__result-label">{t('live_debate.result.draw')}</div>
+                <div className="debate-detail__result-value">
+                  {side.name}
+                  <span className={`elo-change ${side.change >= 0 ? 'elo-change--up' : 'elo-change--down'}`}>
+                    {side.change >= 0 ? `+${side.change}` : side.change}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
         ) : (
           <p className="debate-detail__pending">{t('debate_detail.pending_judgment')}</p>
         )}
-        <div className="debate-detail__reason">
-          <div className="debate-detail__reason-label">{t('live_debate.result.reasoning')}</div>
-          <p>{debate.judge_reasoning || t('debate_detail.no_reasoning')}</p>
-        </div>
+        {debate.judge_panel ? (
+          <JudgePanel panel={debate.judge_panel} agent1Name={debate.agent1_name} agent2Name={debate.agent2_name} />
+        ) : (
+          <div className="debate-detail__reason">
+            <div className="debate-detail__reason-label">{t('live_debate.result.reasoning')}</div>
+            <p>{debate.judge_reasoning || t('debate_detail.no_reasoning')}</p>
+          </div>
+        )}
       </section>
     </div>
   );
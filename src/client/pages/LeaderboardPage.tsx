@@ -10,6 +10,9 @@ interface AgentRank {
   name: string;
   faction: string;
   elo_score: number;
+  glicko_rating: number;
+  glicko_rd: number;
+  conservative_rating: number;
   tier: string;
   wins: number;
   losses: number;
@@ -18,6 +21,14 @@ interface AgentRank {
   owner_id?: string;
 }
 
+/** Rolling market statistics of an agent's stock (stocks_view) */
+interface StockStats {
+  agent_id: string;
+  price_change_24h: number;
+  price_change_7d: number | null;
+  volume_24h: number | null;
+}
+
 interface InvestorRank {
   user_id: string;
   name: string;
@@ -28,6 +39,11 @@ interface InvestorRank {
 }
 
 type Tab = 'agents' | 'investors';
+/** rating = Glicko-2 conservative rating (rating − 2·RD); market = 7d stock change */
+type AgentSort = 'rating' | 'elo' | 'market';
+
+const AGENT_COLUMNS = 'id, name, faction, elo_score, glicko_rating, glicko_rd, conservative_rating, tier, wins, losses, draws, total_debates, owner_id';
+const STOCK_STATS_COLUMNS = 'agent_id, price_change_24h, price_change_7d, volume_24h';
 
 const TIER_ORDER = ['Legend', 'Diamond', 'Gold', 'Silver', 'Bronze'];
 
@@ -47,25 +63,53 @@ function RankMedal({ rank }: { rank: number }) {
 export default function LeaderboardPage() {
   const { t } = useTranslation();
   const [tab, setTab] = useState<Tab>('agents');
+  const [agentSort, setAgentSort] = useState<AgentSort>('rating');
   const [agents, setAgents] = useState<AgentRank[]>([]);
+  const [stockStats, setStockStats] = useState<Record<string, StockStats>>({});
   const [investors, setInvestors] = useState<InvestorRank[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    loadData();
-  }, []);
+    loadData(agentSort);
+  }, [agentSort]);
 
-  async function loadData() {
+  async function loadData(sort: AgentSort) {
     setLoading(true);
     try {
-      // Fetch top agents by ELO
-      const { data: agentData } = await supabase
-        .from('agents')
-        .select('id, name, faction, elo_score, tier, wins, losses, draws, total_debates, owner_id')
-        .order('elo_score', { ascending: false })
-        .limit(50);
+      // Fetch top agents by conservative rating or ELO, or by their stock's 7d change
+      let rankedAgents: AgentRank[];
+      let statsData: StockStats[];
+      if (sort === 'market') {
+        const { data: stockData } = await supabase
+          .from('stocks_view')
+          .select(STOCK_STATS_COLUMNS)
+          .order('price_change_7d', { ascending: false, nullsFirst: false })
+          .limit(50);
+        statsData = (stockData || []) as StockStats[];
+
+        const { data: agentData } = await supabase
+          .from('agents')
+          .select(AGENT_COLUMNS)
+          .in('id', statsData.map((s) => s.agent_id));
+        const byId = new Map(((agentData || []) as AgentRank[]).map((a) => [a.id, a]));
+        rankedAgents = statsData.flatMap((s) => byId.get(s.agent_id) ?? []);
+      } else {
+        const { data: agentData } = await supabase
+          .from('agents')
+          .select(AGENT_COLUMNS)
+          .order(sort === 'rating' ? 'conservative_rating' : 'elo_score', { ascending: false })
+          .limit(50);
+        rankedAgents = (agentData || []) as AgentRank[];
+
+        const { data: stockData } = await supabase
+          .from('stocks_view')
+          .select(STOCK_STATS_COLUMNS)
+          .in('agent_id', rankedAgents.map((a) => a.id));
+        statsData = (stockData || []) as StockStats[];
+      }
 
-      setAgents((agentData || []) as AgentRank[]);
+      setAgents(rankedAgents);
+      setStockStats(Object.fromEntries(statsData.map((s) => [s.agent_id, s])));
 
       // Fetch investor rankings via portfolio + profiles
       const { data: portfolioData } = await supabase
@@ -125,6 +169,14 @@ export default function LeaderboardPage() {
   }, {});
 
   const topAgents = agents.slice(0, 10);
+  const formatChange = (change: number | null | undefined) =>
+    change == null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+  const podiumScore = (agent: AgentRank) =>
+    agentSort === 'rating'
+      ? `${Math.round(agent.conservative_rating)} ${t('leaderboard.rating')}`
+      : agentSort === 'market'
+        ? `${formatChange(stockStats[agent.id]?.price_change_7d)} ${t('leaderboard.stock_7d')}`
+        : `${agent.elo_score} ELO`;
 
   return (
     <div className="animate-fade-in">
@@ -147,7 +199,7 @@ export default function LeaderboardPage() {
               </div>
               <div className="lb-podium__rank">🥈</div>
               <div className="lb-podium__name">{topAgents[1].name}</div>
-              <div className="lb-podium__elo">{topAgents[1].elo_score} ELO</div>
+              <div className="lb-podium__elo">{podiumScore(topAgents[1])}</div>
               <div className="lb-podium__bar lb-podium__bar--2" />
             </Link>
 
@@ -159,7 +211,7 @@ export default function LeaderboardPage() {
               </div>
               <div className="lb-podium__rank">🥇</div>
               <div className="lb-podium__name">{topAgents[0].name}</div>
-              <div className="lb-podium__elo">{topAgents[0].elo_score} ELO</div>
+              <div className="lb-podium__elo">{podiumScore(topAgents[0])}</div>
               <TierBadge tier={topAgents[0].tier} />
               <div className="lb-podium__bar lb-podium__bar--1" />
             </Link>
@@ -171,7 +223,7 @@ export default function LeaderboardPage() {
               </div>
               <div className="lb-podium__rank">🥉</div>
               <div className="lb-podium__name">{topAgents[2].name}</div>
-              <div className="lb-podium__elo">{topAgents[2].elo_score} ELO</div>
+              <div className="lb-podium__elo">{podiumScore(topAgents[2])}</div>
               <div className="lb-podium__bar lb-podium__bar--3" />
             </Link>
           </div>
@@ -194,6 +246,23 @@ export default function LeaderboardPage() {
         </button>
       </div>
 
+      {/* ─── Agent Sort ─── */}
+      {tab === 'agents' && (
+        <div className="lb-sort mb-16">
+          {(['rating', 'elo', 'market'] as AgentSort[]).map((sort) => (
+            <button
+              key={sort}
+              className={`lb-sort__btn${agentSort === sort ? ' lb-sort__btn--active' : ''}`}
+              onClick={() => setAgentSort(sort)}
+            >
+              {t(`leaderboard.sort.${sort}`)}
+            </button>
+          ))}
+          {agentSort === 'rating' && <span className="lb-sort__hint">{t('leaderboard.rating_hint')}</span>}
+          {agentSort === 'market' && <span className="lb-sort__hint">{t('leaderboard.market_hint')}</span>}
+        </div>
+      )}
+
       {/* ─── Loading ─── */}
       {loading && (
         <div className="lb-list">
@@ -215,6 +284,7 @@ export default function LeaderboardPage() {
             agents.map((agent, index) => {
               const total = agent.wins + agent.losses + agent.draws;
               const winRate = total > 0 ? Math.round((agent.wins / total) * 100) : 0;
+              const stock = stockStats[agent.id];
               return (
                 <Link
                   key={agent.id}
@@ -237,10 +307,28 @@ export default function LeaderboardPage() {
                     </div>
                   </div>
                   <div className="lb-row__stats">
+                    <div className="lb-row__stat" title={`${Math.round(agent.glicko_rating)} ± ${Math.round(agent.glicko_rd)}`}>
+                      <span className="lb-row__stat-label">{t('leaderboard.rating')}</span>
+                      <span className="lb-row__stat-value">{Math.round(agent.conservative_rating)}</span>
+                    </div>
                     <div className="lb-row__stat">
                       <span className="lb-row__stat-label">ELO</span>
                       <span className="lb-row__stat-value lb-row__stat-value--elo">{agent.elo_score}</span>
                     </div>
+                    {stock && (
+                      <div
+                        className="lb-row__stat"
+                        title={t('leaderboard.stock_title', {
+                          change: formatChange(stock.price_change_24h),
+                          volume: (stock.volume_24h ?? 0).toLocaleString(),
+                        })}
+                      >
+                        <span className="lb-row__stat-label">{t('leaderboard.stock_7d')}</span>
+                        <span className={`lb-row__stat-value ${(stock.price_change_7d ?? 0) > 0 ? 'text-profit' : (stock.price_change_7d ?? 0) < 0 ? 'text-loss' : ''}`}>
+                          {formatChange(stock.price_change_7d)}
+                        </span>
+                      </div>
+                    )}
                     <div className="lb-row__stat">
                       <span className="lb-row__stat-label">{t('leaderboard.win_rate')}</span>
                       <span className={`lb-row__stat-value ${winRate >= 60 ? 'text-profit' : winRate < 40 ? 'text-loss' : ''}`}>
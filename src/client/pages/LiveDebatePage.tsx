@@ -2,10 +2,21 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import type { TFunction } from 'i18next';
-import { streamDebate, type DebateEvent, type DebateResult } from '../api.js';
+import {
+  streamDebate,
+  streamPracticeDebate,
+  type DebateEvent,
+  type DebateFormat,
+  type DebateResult,
+  type PracticeResult,
+  type StanceBrief,
+} from '../api.js';
 import { useToast } from '../ToastContext.js';
 import { getFactionEmoji } from '../utils/factions.js';
 import { DebateFlowChart } from '../components/DebateFlowChart.js';
+import JudgePanel from '../components/JudgePanel.js';
+import StanceBadge from '../components/StanceBadge.js';
+import PracticeFeedbackCard from '../components/PracticeFeedbackCard.js';
 
 type ArgumentData = {
   round: number;
@@ -13,6 +24,8 @@ type ArgumentData = {
   text: string;
   name: string;
   timestamp: string;
+  /** 'question' / 'answer' in cross-examination rounds */
+  kind?: 'argument' | 'question' | 'answer';
 }
 
 type AgentInfo = {
@@ -31,11 +44,14 @@ interface RoundScore {
   reason: string;
 }
 
-function getRoundLabel(round: number, t: TFunction) {
+/** Label from the streamed format; the built-in labels only for servers that send none */
+function getRoundLabel(round: number, t: TFunction, format: DebateFormat | null) {
+  const label = format?.rounds[round - 1]?.label;
+  if (label) return label;
   if (round === 1) return t('live_debate.rounds.opening');
   if (round === 2) return t('live_debate.rounds.rebuttal');
   if (round === 3) return t('live_debate.rounds.closing');
-  return String(t('live_debate.rounds.round', { current: round, total: 3 }));
+  return String(t('live_debate.rounds.round', { current: round, total: format?.rounds.length ?? 3 }));
 }
 function useTypewriter(text: string, speed = 18) {
   const [displayed, setDisplayed] = useState('');
@@ -61,7 +77,13 @@ function useTypewriter(text: string, speed = 18) {
 }
 
 // ─── Typing Bubble Component ───
-function TypingArgument({ text, agentName, isAgent2 }: { text: string; agentName: string; isAgent2: boolean }) {
+function TypingArgument({ text, agentName, isAgent2, kind }: {
+  text: string;
+  agentName: string;
+  isAgent2: boolean;
+  kind?: ArgumentData['kind'];
+}) {
+  const { t } = useTranslation();
   const { displayed, done } = useTypewriter(text, 15);
   const endRef = useRef<HTMLDivElement>(null);
 
@@ -73,6 +95,9 @@ function TypingArgument({ text, agentName, isAgent2 }: { text: string; agentName
     <div className={`live-bubble ${isAgent2 ? 'live-bubble--right' : 'live-bubble--left'}`}>
       <div className="live-bubble__speaker">
         {isAgent2 ? '🔵' : '🟣'} {agentName}
+        {(kind === 'question' || kind === 'answer') && (
+          <span className={`live-bubble__kind live-bubble__kind--${kind}`}>{t(`live_debate.turn.${kind}`)}</span>
+        )}
       </div>
       <div className="live-bubble__text">
         {displayed}
@@ -106,17 +131,24 @@ export default function LiveDebatePage() {
   const preferredTopic = searchParams.get('topic') || undefined;
   const preferredAgent1 = searchParams.get('agent1') || undefined;
   const preferredAgent2 = searchParams.get('agent2') || undefined;
+  const preferredFormat = searchParams.get('format') || undefined;
   const isManualMode = !!(preferredAgent1 && preferredAgent2);
+  // Practice: agent1 is the owner's agent, agent2 a house bot or another owned agent
+  const isPractice = isManualMode && searchParams.get('practice') === '1';
 
   const [phase, setPhase] = useState<Phase>('connecting');
   const [topic, setTopic] = useState('');
   const [agent1, setAgent1] = useState<AgentInfo | null>(null);
   const [agent2, setAgent2] = useState<AgentInfo | null>(null);
+  const [format, setFormat] = useState<DebateFormat | null>(null);
+  const [stances, setStances] = useState<{ agent1: StanceBrief; agent2: StanceBrief } | null>(null);
   const [currentRound, setCurrentRound] = useState(0);
   const [speakingAgent, setSpeakingAgent] = useState<string | null>(null);
   const [arguments_, setArguments] = useState<ArgumentData[]>([]);
   const [roundScores, setRoundScores] = useState<RoundScore[]>([]); // New state for chart
-  const [result, setResult] = useState<DebateResult | null>(null);
+  const [result, setResult] = useState<DebateResult | PracticeResult | null>(null);
+  const [judgeProgress, setJudgeProgress] = useState({ done: 0, total: 0 });
+  const [coaching, setCoaching] = useState(false);
   const [debateId, setDebateId] = useState('');
   const [errorMsg, setErrorMsg] = useState('');
   const abortRef = useRef<AbortController | null>(null);
@@ -131,6 +163,8 @@ export default function LiveDebatePage() {
         setTopic(event.data.topic);
         setAgent1(event.data.agent1);
         setAgent2(event.data.agent2);
+        setFormat(event.data.format ?? null);
+        setStances(event.data.stances ?? null);
         setDebateId(event.data.debateId);
         // Initialize chart with 50:50 start
         setRoundScores([{ round: 0, agent1: 50, agent2: 50, reason: t('live_debate.status.debate_start') }]);
@@ -164,16 +198,27 @@ export default function LiveDebatePage() {
 
       case 'judging':
         setPhase('judging');
+        setJudgeProgress({ done: 0, total: event.data.judges ?? 0 });
+        break;
+
+      case 'judge_ballot':
+        setJudgeProgress(prev => ({ ...prev, done: prev.done + 1 }));
+        break;
+
+      case 'coaching':
+        setCoaching(true);
         break;
 
       case 'result':
-        setResult(event.data as DebateResult);
+        setResult(event.data as DebateResult | PracticeResult);
         setPhase('result');
         break;
 
       case 'error': {
         let msg = event.data.message || t('common.error');
-        if (msg === 'STREAM_READ_FAILED') {
+        if (msg === 'LOGIN_REQUIRED') {
+          msg = t('common.login_required');
+        } else if (msg === 'STREAM_READ_FAILED') {
           msg = t('common.stream_read_failed');
         } else if (msg.startsWith('SERVER_ERROR:')) {
           const parts = msg.split(':');
@@ -206,7 +251,11 @@ export default function LiveDebatePage() {
     setSpeakingAgent(null);
     setCurrentRound(0);
 
-    streamDebate(handleEvent, ac.signal, preferredTopic, preferredAgent1, preferredAgent2);
+    if (isPractice) {
+      streamPracticeDebate(handleEvent, ac.signal, preferredAgent1!, preferredAgent2!, preferredTopic, preferredFormat);
+    } else {
+      streamDebate(handleEvent, ac.signal, preferredTopic, preferredAgent1, preferredAgent2, preferredFormat);
+    }
 
     return () => {
       ac.abort();
@@ -220,6 +269,8 @@ export default function LiveDebatePage() {
     }
   }, [arguments_, speakingAgent, phase]);
 
+  const totalRounds = format?.rounds.length ?? 3;
+
   // ─── Render: Connecting ───
   if (phase === 'connecting') {
     return (
@@ -232,7 +283,9 @@ export default function LiveDebatePage() {
           </div>
           <h2>{t('live_debate.status.connecting')}</h2>
           <p style={{ color: 'var(--text-secondary)', marginTop: 8 }}>
-            {isManualMode
+            {isPractice
+              ? t('practice.connecting')
+              : isManualMode
               ? t('live_debate.status.connecting_manual')
               : t('live_debate.status.connecting_hint')}
           </p>
@@ -251,14 +304,28 @@ export default function LiveDebatePage() {
             <div className="live-matchup__tier">{agent1.tier}</div>
             <h3>{getFactionEmoji(agent1.faction)} {agent1.name}</h3>
             <span>ELO {agent1.elo}</span>
+            {stances && <StanceBadge stance={stances.agent1.stance} position={stances.agent1.position} />}
           </div>
           <div className="live-matchup__vs">⚔️</div>
           <div className="live-matchup__agent">
             <div className="live-matchup__tier">{agent2.tier}</div>
             <h3>{getFactionEmoji(agent2.faction)} {agent2.name}</h3>
             <span>ELO {agent2.elo}</span>
+            {stances && <StanceBadge stance={stances.agent2.stance} position={stances.agent2.position} />}
           </div>
           <div className="live-matchup__topic">{topic}</div>
+          {stances && (
+            <div className="stance-positions">
+              <div className="stance-positions__side">
+                <StanceBadge stance={stances.agent1.stance} />
+                <span>{stances.agent1.position}</span>
+              </div>
+              <div className="stance-positions__side">
+                <StanceBadge stance={stances.agent2.stance} />
+                <span>{stances.agent2.position}</span>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -288,19 +355,24 @@ export default function LiveDebatePage() {
         <div className="live-header__agents">
           <span className="live-header__agent live-header__agent--1">
             {getFactionEmoji(agent1?.faction || '')} {agent1?.name}
+            {stances && <> <StanceBadge stance={stances.agent1.stance} position={stances.agent1.position} /></>}
           </span>
           <span className="live-header__vs">vs</span>
           <span className="live-header__agent live-header__agent--2">
             {getFactionEmoji(agent2?.faction || '')} {agent2?.name}
+            {stances && <> <StanceBadge stance={stances.agent2.stance} position={stances.agent2.position} /></>}
           </span>
         </div>
-        <div className="live-header__topic">{topic}</div>
+        <div className="live-header__topic">
+          {isPractice && <span className="practice-tag">{t('practice.tag')}</span>}
+          {topic}
+        </div>
         <div className="live-header__round">
           {phase === 'judging'
             ? t('live_debate.status.judging')
             : phase === 'result'
               ? t('live_debate.status.result')
-              : `${t('live_debate.rounds.round', { current: currentRound, total: 3 })} · ${getRoundLabel(currentRound, t)}`}
+              : `${t('live_debate.rounds.round', { current: currentRound, total: totalRounds })} · ${getRoundLabel(currentRound, t, format)}`}
         </div>
       </div>
 
@@ -317,12 +389,12 @@ export default function LiveDebatePage() {
 
       {/* Progress Bar */}
       <div className="live-progress">
-        {[1, 2, 3].map(r => (
+        {Array.from({ length: totalRounds }, (_, i) => i + 1).map(r => (
           <div
             key={r}
             className={`live-progress__step ${r < currentRound ? 'done' : ''} ${r === currentRound ? 'active' : ''}`}
           >
-            <span>{getRoundLabel(r, t)}</span>
+            <span>{getRoundLabel(r, t, format)}</span>
           </div>
         ))}
         <div className={`live-progress__step ${phase === 'judging' || phase === 'result' ? 'active' : ''}`}>
@@ -338,6 +410,7 @@ export default function LiveDebatePage() {
             text={arg.text}
             agentName={arg.name}
             isAgent2={arg.agent === 'agent2'}
+            kind={arg.kind}
           />
         ))}
 
@@ -354,6 +427,11 @@ export default function LiveDebatePage() {
           <div className="live-judging animate-fade-in">
             <div className="live-swords">⚖️</div>
             <h3>{t('live_debate.judging.title')}</h3>
+            {coaching ? (
+              <p className="live-judging__progress">{t('practice.coaching')}</p>
+            ) : judgeProgress.total > 1 && (
+              <p className="live-judging__progress">{t('live_debate.judging.progress', judgeProgress)}</p>
+            )}
             <div className="spinner spinner--icon" />
           </div>
         )}
@@ -363,17 +441,40 @@ export default function LiveDebatePage() {
           <div className="live-result animate-scale-in">
             <h3 className="live-result__title">{t('live_debate.result.title')}</h3>
 
-            <div className="live-result__winner">
-              <div className="live-result__label">{t('live_debate.result.winner')}</div>
-              <div className="live-result__name">{result.winner.name}</div>
-              <div className="elo-change elo-change--up">+{result.winner.eloChange} ELO → {result.winner.newElo}</div>
-            </div>
-
-            <div className="live-result__loser">
-              <div className="live-result__label">{t('live_debate.result.loser')}</div>
-              <div className="live-result__name">{result.loser.name}</div>
-              <div className="elo-change elo-change--down">{result.loser.eloChange} ELO → {result.loser.newElo}</div>
-            </div>
+            {'practice' in result ? (
+              <div className={`live-result__practice live-result__practice--${result.outcome}`}>
+                <div className="live-result__label">{t('practice.no_stakes')}</div>
+                <div className="live-result__name">
+                  {result.outcome === 'draw'
+                    ? t('live_debate.result.draw')
+                    : t('practice.outcome', { name: result.outcome === 'agent1' ? agent1?.name : agent2?.name })}
+                </div>
+              </div>
+            ) : result.winner && result.loser ? (
+              <>
+                <div className="live-result__winner">
+                  <div className="live-result__label">{t('live_debate.result.winner')}</div>
+                  <div className="live-result__name">{result.winner.name}</div>
+                  <div className="elo-change elo-change--up">+{result.winner.eloChange} ELO → {result.winner.newElo}</div>
+                </div>
+
+                <div className="live-result__loser">
+                  <div className="live-result__label">{t('live_debate.result.loser')}</div>
+                  <div className="live-result__name">{result.loser.name}</div>
+                  <div className="elo-change elo-change--down">{result.loser.eloChange} ELO → {result.loser.newElo}</div>
+                </div>
+              </>
+            ) : (
+              [result.elo.agent1, result.elo.agent2].map((side) => (
+                <div key={side.id} className="live-result__draw">
+                  <div className="live-result__label">{t('live_debate.result.draw')}</div>
+                  <div className="live-result__name">{side.name}</div>
+                  <div className={`elo-change ${side.eloChange >= 0 ? 'elo-change--up' : 'elo-change--down'}`}>
+                    {side.eloChange >= 0 ? `+${side.eloChange}` : side.eloChange} ELO → {side.newElo}
+                  </div>
+                </div>
+              ))
+            )}
 
             <div className="live-result__scores">
               <div>
@@ -390,17 +491,31 @@ export default function LiveDebatePage() {
               </div>
             </div>
 
-            <div className="live-result__reasoning">
-              <div className="live-result__reasoning-label">{t('live_debate.result.reasoning')}</div>
-              <p>{result.reasoning}</p>
-            </div>
+            {'practice' in result && result.feedback && (
+              <PracticeFeedbackCard feedback={result.feedback} />
+            )}
+
+            {result.panel ? (
+              <JudgePanel panel={result.panel} agent1Name={agent1?.name ?? ''} agent2Name={agent2?.name ?? ''} />
+            ) : (
+              <div className="live-result__reasoning">
+                <div className="live-result__reasoning-label">{t('live_debate.result.reasoning')}</div>
+                <p>{result.reasoning}</p>
+              </div>
+            )}
 
             <div className="live-result__actions">
-              <button className="btn btn--primary" onClick={() => navigate(`/arena/${debateId}`)}>
-                {t('live_debate.actions.view_full')}
-              </button>
+              {isPractice ? (
+                <button className="btn btn--primary" onClick={() => navigate(`/agents/${preferredAgent1}`)}>
+                  {t('practice.back_to_agent')}
+                </button>
+              ) : (
+                <button className="btn btn--primary" onClick={() => navigate(`/arena/${debateId}`)}>
+                  {t('live_debate.actions.view_full')}
+                </button>
+              )}
               <button className="btn btn--secondary" onClick={() => window.location.reload()}>
-                {t('live_debate.actions.new_debate')}
+                {isPractice ? t('practice.again') : t('live_debate.actions.new_debate')}
               </button>
               <button className="btn btn--ghost" onClick={() => navigate('/arena')}>
                 {t('live_debate.actions.back_to_arena')}
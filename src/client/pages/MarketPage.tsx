@@ -1,7 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { fetchStocks, fetchPortfolio, tradeStock, type PortfolioItem, type TradeResult } from '../api.js';
+import {
+  fetchStocks,
+  fetchPortfolio,
+  fetchStockSparklines,
+  placeStockOrder,
+  quoteTrade,
+  tradeStock,
+  type PortfolioItem,
+  type TimeInForce,
+  type TradeQuote,
+  type TradeResult,
+} from '../api.js';
+import OrderBookPanel from '../components/OrderBookPanel.js';
 import { useAuthContext } from '../AuthContext.js';
 import { useToast } from '../ToastContext.js';
 
@@ -14,9 +26,24 @@ interface Stock {
   available_shares: number;
   market_cap: number;
   price_change_24h: number;
+  /** Rolling statistics from stock_market_stats (null until market-stats first runs) */
+  price_change_7d?: number | null;
+  high_24h?: number | null;
+  low_24h?: number | null;
+  volume_24h?: number | null;
+  trades_24h?: number | null;
+  volatility_24h?: number | null;
 }
 
 type TradeTab = 'buy' | 'sell';
+type OrderKind = 'market' | 'limit' | 'stop';
+
+const ORDER_KINDS: OrderKind[] = ['market', 'limit', 'stop'];
+const TIME_IN_FORCE: TimeInForce[] = ['gtc', 'day', 'ioc'];
+/** Stop orders without a limit fill within 5% of the stop (see stock_stop_limit) */
+const STOP_COLLAR = 0.05;
+/** Max-slippage choices (%) for market trades */
+const SLIPPAGE_OPTIONS = [1, 3, 5, 10];
 
 export default function MarketPage() {
   const { t } = useTranslation();
@@ -25,23 +52,33 @@ export default function MarketPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [portfolio, setPortfolio] = useState<PortfolioItem[]>([]);
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
   const [loading, setLoading] = useState(true);
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null);
   const [tradeTab, setTradeTab] = useState<TradeTab>('buy');
   const [quantity, setQuantity] = useState(1);
   const [trading, setTrading] = useState(false);
+  const [orderKind, setOrderKind] = useState<OrderKind>('market');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('gtc');
+  const [bookVersion, setBookVersion] = useState(0);
+  const [quote, setQuote] = useState<TradeQuote | null>(null);
+  const [maxSlippage, setMaxSlippage] = useState(3);
   const [highlightAgentId, setHighlightAgentId] = useState<string | null>(
     () => searchParams.get('agent')
   );
 
   const loadData = useCallback(async () => {
     try {
-      const [stocksData, portfolioData] = await Promise.all([
+      const [stocksData, portfolioData, sparklineData] = await Promise.all([
         fetchStocks(),
         user ? fetchPortfolio() : Promise.resolve([]),
+        fetchStockSparklines().catch(() => ({})),
       ]);
       setStocks(Array.isArray(stocksData) ? (stocksData as Stock[]) : []);
       setPortfolio(portfolioData);
+      setSparklines(sparklineData);
     } catch {
       setStocks([]);
       setPortfolio([]);
@@ -69,18 +106,48 @@ export default function MarketPage() {
 
 
 
+  // Expected fill of a market trade, refreshed as the quantity changes
+  useEffect(() => {
+    setQuote(null);
+    if (!selectedStock || orderKind !== 'market' || quantity <= 0) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      quoteTrade(selectedStock.id, tradeTab, quantity)
+        .then((result) => { if (!cancelled) setQuote(result); })
+        .catch(() => { if (!cancelled) setQuote(null); });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedStock, tradeTab, quantity, orderKind]);
+
   function priceChangePrefix(change: number): string {
     return change > 0 ? '+' : '';
   }
 
-  function miniChartBars() {
-    return Array.from({ length: 12 }, () => 15 + Math.random() * 85);
+  // Last 24 hourly closes scaled to 15–100% bar heights
+  function miniChartBars(stockId: string): number[] {
+    const closes = sparklines[stockId] ?? [];
+    if (closes.length === 0) return [];
+    const min = Math.min(...closes);
+    const max = Math.max(...closes);
+    return closes.map((close) => (max > min ? 15 + ((close - min) / (max - min)) * 85 : 50));
+  }
+
+  function sparklineRising(stockId: string): boolean {
+    const closes = sparklines[stockId] ?? [];
+    return closes.length < 2 || closes[closes.length - 1] >= closes[0];
   }
 
   function openTradeModal(stock: Stock, tab: TradeTab = 'buy') {
     setSelectedStock(stock);
     setTradeTab(tab);
     setQuantity(1);
+    setOrderKind('market');
+    setLimitPrice(String(Math.round(stock.current_price)));
+    setStopPrice('');
+    setTimeInForce('gtc');
   }
 
   function closeTradeModal() {
@@ -93,18 +160,93 @@ export default function MarketPage() {
     return portfolio.find((p) => p.stock_id === stockId)?.shares_owned || 0;
   }
 
-  // Max quantity user can buy (limited by gold and available shares)
+  // Owned shares not held by open sell orders
+  function getSellableShares(stockId: string): number {
+    const item = portfolio.find((p) => p.stock_id === stockId);
+    return item ? item.shares_owned - item.reserved_shares : 0;
+  }
+
+  // Price per share the order commits to (buy orders reserve gold at this price)
+  function getOrderPrice(): number {
+    if (!selectedStock) return 0;
+    if (orderKind === 'market') return selectedStock.current_price;
+    const limit = parseFloat(limitPrice);
+    if (limit > 0) return limit;
+    const stop = parseFloat(stopPrice);
+    if (orderKind === 'stop' && stop > 0) return stop * (tradeTab === 'buy' ? 1 + STOP_COLLAR : 1 - STOP_COLLAR);
+    return 0;
+  }
+
+  function isOrderPriceValid(): boolean {
+    if (orderKind === 'limit') return parseFloat(limitPrice) > 0;
+    if (orderKind === 'stop') return parseFloat(stopPrice) > 0 && (!limitPrice || parseFloat(limitPrice) > 0);
+    return true;
+  }
+
+  // Gold the trade costs or returns (market: the quote, since the house prices along a curve)
+  function getOrderTotal(): number {
+    if (orderKind === 'market' && quote) return quote.total;
+    return Math.ceil(getOrderPrice() * quantity);
+  }
+
+  // Max quantity user can buy (limited by gold; market orders also by the house float)
   function getMaxBuyQuantity(): number {
     if (!selectedStock || !user) return 0;
-    const byGold = Math.floor(user.gold_balance / selectedStock.current_price);
-    return Math.min(byGold, selectedStock.available_shares);
+    if (orderKind === 'market') {
+      // Largest n with P·S·n / (S − n) ≤ gold, S = float + total shares (029_trade_impact.sql)
+      const depth = selectedStock.available_shares + selectedStock.total_shares;
+      const gold = user.gold_balance;
+      const byGold = Math.floor((gold * depth) / (selectedStock.current_price * depth + gold));
+      return Math.min(byGold, selectedStock.available_shares, 1000);
+    }
+    const price = getOrderPrice();
+    const byGold = price > 0 ? Math.floor(user.gold_balance / price) : 0;
+    return Math.min(byGold, 1000);
+  }
+
+  function errorMessage(err: unknown): string {
+    const message = err instanceof Error ? err.message : t('common.error');
+    // Order RPCs return codes; execute_trade still returns readable messages
+    return /^[A-Z_]+$/.test(message) ? t(`market.errors.${message}`, { defaultValue: message }) : message;
+  }
+
+  async function handlePlaceOrder() {
+    if (!selectedStock || !user || orderKind === 'market') return;
+    setTrading(true);
+    try {
+      const limit = parseFloat(limitPrice);
+      const result = await placeStockOrder({
+        stockId: selectedStock.id,
+        side: tradeTab,
+        orderType: orderKind,
+        quantity,
+        limitPrice: limit > 0 ? limit : undefined,
+        stopPrice: orderKind === 'stop' ? parseFloat(stopPrice) : undefined,
+        timeInForce,
+      });
+      pushToast(
+        t(`market.messages.order_${result.status}`, {
+          filled: result.filled_quantity,
+          qty: quantity,
+          price: result.avg_fill_price != null ? Math.round(result.avg_fill_price).toLocaleString() : '-',
+        }),
+        result.status === 'cancelled' && result.filled_quantity === 0 ? 'info' : 'success'
+      );
+      setBookVersion((v) => v + 1);
+      await Promise.all([loadData(), refreshProfile()]);
+    } catch (err) {
+      pushToast(errorMessage(err), 'error');
+    } finally {
+      setTrading(false);
+    }
   }
 
   async function handleTrade() {
     if (!selectedStock || !user) return;
+    if (orderKind !== 'market') return handlePlaceOrder();
     setTrading(true);
     try {
-      const result: TradeResult = await tradeStock(selectedStock.id, tradeTab, quantity);
+      const result: TradeResult = await tradeStock(selectedStock.id, tradeTab, quantity, maxSlippage, quote?.avg_price);
       if (result.success) {
         const actionLabel = tradeTab === 'buy' ? t('market.trade_modal.buy') : t('market.trade_modal.sell');
         const amount = tradeTab === 'buy' ? result.total_cost : result.total_revenue;
@@ -113,7 +255,7 @@ export default function MarketPage() {
           t('market.messages.trade_success', {
             action: actionLabel,
             qty: quantity,
-            price: Math.round(selectedStock.current_price).toLocaleString(),
+            price: Math.round(result.price ?? selectedStock.current_price).toLocaleString(),
             total: Math.round(amount || 0).toLocaleString(),
           }),
           'success'
@@ -123,7 +265,7 @@ export default function MarketPage() {
         await Promise.all([loadData(), refreshProfile()]);
       }
     } catch (err) {
-      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+      pushToast(errorMessage(err), 'error');
     } finally {
       setTrading(false);
     }
@@ -241,6 +383,7 @@ export default function MarketPage() {
             <span>{t('market.list.agent')}</span>
             <span className="text-right">{t('market.list.price')}</span>
             <span className="text-right">{t('market.list.change')}</span>
+            <span className="text-right">{t('market.list.volume')}</span>
             <span className="text-right">{t('market.list.market_cap')}</span>
             <span className="text-right">{t('market.list.avail_shares')}</span>
             <span className="text-center">{t('market.list.chart')}</span>
@@ -249,7 +392,8 @@ export default function MarketPage() {
 
           {/* Stock Rows */}
           {stocks.map((stock) => {
-            const bars = miniChartBars();
+            const bars = miniChartBars(stock.id);
+            const rising = sparklineRising(stock.id);
             const owned = getOwnedShares(stock.id);
             const isHighlighted = stock.agent_id === searchParams.get('agent') ||
               (selectedStock?.id === stock.id && highlightAgentId === null);
@@ -281,6 +425,19 @@ export default function MarketPage() {
                 >
                   {priceChangePrefix(stock.price_change_24h)}
                   {stock.price_change_24h.toFixed(1)}%
+                  {stock.price_change_7d != null && (
+                    <div className="market-stock__meta">
+                      {t('market.list.change_7d', {
+                        change: `${priceChangePrefix(stock.price_change_7d)}${stock.price_change_7d.toFixed(1)}%`,
+                      })}
+                    </div>
+                  )}
+                </div>
+                <div className="market-cell-mono">
+                  {(stock.volume_24h ?? 0).toLocaleString()}
+                  <div className="market-stock__meta">
+                    {t('market.list.trades', { count: stock.trades_24h ?? 0 })}
+                  </div>
                 </div>
                 <div className="market-cell-mono">{(stock.market_cap / 1000).toFixed(0)}K</div>
                 <div className="market-cell-mono">{stock.available_shares.toLocaleString()}</div>
@@ -291,7 +448,7 @@ export default function MarketPage() {
                       className="stock-mini-chart__bar"
                       style={{
                         height: `${h}%`,
-                        background: stock.price_change_24h >= 0 ? 'var(--success)' : 'var(--danger)',
+                        background: rising ? 'var(--success)' : 'var(--danger)',
                       }}
                     />
                   ))}
@@ -369,6 +526,30 @@ export default function MarketPage() {
               </div>
             </div>
 
+            {/* 24h Statistics */}
+            {selectedStock.high_24h != null && selectedStock.low_24h != null && (
+              <div className="trade-modal__price-row">
+                <div>
+                  <span className="trade-modal__price-label">{t('market.stats.high_low_24h')}</span>
+                  <span className="trade-modal__price-value">
+                    {Math.round(selectedStock.high_24h).toLocaleString()} / {Math.round(selectedStock.low_24h).toLocaleString()}
+                  </span>
+                </div>
+                <div>
+                  <span className="trade-modal__price-label">{t('market.stats.volume_24h')}</span>
+                  <span className="trade-modal__price-value">
+                    {(selectedStock.volume_24h ?? 0).toLocaleString()}
+                  </span>
+                </div>
+                <div>
+                  <span className="trade-modal__price-label">{t('market.stats.volatility_24h')}</span>
+                  <span className="trade-modal__price-value">
+                    {(selectedStock.volatility_24h ?? 0).toFixed(2)}%
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Tabs */}
             <div className="trade-tabs">
               <button
@@ -392,6 +573,60 @@ export default function MarketPage() {
               </button>
             </div>
 
+            {/* Order Type */}
+            <div className="trade-order-types">
+              {ORDER_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  className={`btn btn--xs ${orderKind === kind ? 'btn--primary' : 'btn--ghost'}`}
+                  onClick={() => setOrderKind(kind)}
+                >
+                  {t(`market.order_types.${kind}`)}
+                </button>
+              ))}
+            </div>
+
+            {orderKind !== 'market' && (
+              <div className="trade-order-fields">
+                {orderKind === 'stop' && (
+                  <label>
+                    <span className="trade-quantity__label">{t('market.trade_modal.stop_price')}</span>
+                    <input
+                      type="number"
+                      className="form-input"
+                      min={1}
+                      value={stopPrice}
+                      onChange={(e) => setStopPrice(e.target.value)}
+                    />
+                  </label>
+                )}
+                <label>
+                  <span className="trade-quantity__label">
+                    {orderKind === 'stop' ? t('market.trade_modal.limit_price_optional') : t('market.trade_modal.limit_price')}
+                  </span>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={1}
+                    value={limitPrice}
+                    onChange={(e) => setLimitPrice(e.target.value)}
+                  />
+                </label>
+                <label>
+                  <span className="trade-quantity__label">{t('market.trade_modal.time_in_force')}</span>
+                  <select
+                    className="form-input"
+                    value={timeInForce}
+                    onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                  >
+                    {TIME_IN_FORCE.map((tif) => (
+                      <option key={tif} value={tif}>{t(`market.time_in_force.${tif}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
             {/* Quantity Input */}
             <div className="trade-quantity">
               <label className="trade-quantity__label">{t('market.trade_modal.amount')}</label>
@@ -412,7 +647,7 @@ export default function MarketPage() {
                       if (tradeTab === 'buy') {
                         setQuantity(getMaxBuyQuantity());
                       } else {
-                        setQuantity(getOwnedShares(selectedStock.id));
+                        setQuantity(getSellableShares(selectedStock.id));
                       }
                     }}
                   >
@@ -431,7 +666,7 @@ export default function MarketPage() {
                     className="trade-qty-input"
                     value={quantity}
                     min={1}
-                    max={tradeTab === 'buy' ? getMaxBuyQuantity() : getOwnedShares(selectedStock.id)}
+                    max={tradeTab === 'buy' ? getMaxBuyQuantity() : getSellableShares(selectedStock.id)}
                     onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
                   />
                   <button className="trade-qty-btn" onClick={() => setQuantity(quantity + 1)}>
@@ -450,9 +685,43 @@ export default function MarketPage() {
                     : t('market.trade_modal.total_sell_revenue')}
                 </span>
                 <span className="trade-summary__amount">
-                  {Math.round(selectedStock.current_price * quantity).toLocaleString()} G
+                  {getOrderTotal().toLocaleString()} G
                 </span>
               </div>
+              {orderKind === 'market' && quote && (
+                <>
+                  <div className="trade-summary__row">
+                    <span>{t('market.trade_modal.expected_price')}</span>
+                    <span>{quote.avg_price.toLocaleString()} G</span>
+                  </div>
+                  <div className="trade-summary__row">
+                    <span>{t('market.trade_modal.price_impact')}</span>
+                    <span className={quote.slippage_pct > maxSlippage ? 'profit--down' : ''}>
+                      {quote.price_impact_pct > 0 ? '+' : ''}
+                      {quote.price_impact_pct.toFixed(2)}% → {Math.round(quote.new_price).toLocaleString()} G
+                    </span>
+                  </div>
+                </>
+              )}
+              {orderKind === 'market' && (
+                <div className="trade-summary__row">
+                  <span>{t('market.trade_modal.max_slippage')}</span>
+                  <select
+                    className="form-input trade-slippage"
+                    value={maxSlippage}
+                    onChange={(e) => setMaxSlippage(Number(e.target.value))}
+                  >
+                    {SLIPPAGE_OPTIONS.map((pct) => (
+                      <option key={pct} value={pct}>{pct}%</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {orderKind === 'market' && quote && quote.slippage_pct > maxSlippage && (
+                <p className="trade-summary__warning">
+                  {t('market.trade_modal.slippage_warning', { pct: quote.slippage_pct.toFixed(2) })}
+                </p>
+              )}
               <div className="trade-summary__row">
                 <span>{t('market.trade_modal.balance')}</span>
                 <span>{user.gold_balance.toLocaleString()} G</span>
@@ -462,13 +731,13 @@ export default function MarketPage() {
                   <span>{t('market.trade_modal.after_balance')}</span>
                   <span
                     className={
-                      user.gold_balance - Math.round(selectedStock.current_price * quantity) < 0
+                      user.gold_balance - getOrderTotal() < 0
                         ? 'profit--down'
                         : ''
                     }
                   >
                     {(
-                      user.gold_balance - Math.round(selectedStock.current_price * quantity)
+                      user.gold_balance - getOrderTotal()
                     ).toLocaleString()}{' '}
                     G
                   </span>
@@ -482,19 +751,42 @@ export default function MarketPage() {
               disabled={
                 trading ||
                 quantity <= 0 ||
+                !isOrderPriceValid() ||
+                (orderKind === 'market' && (!quote || quote.slippage_pct > maxSlippage)) ||
                 (tradeTab === 'buy' &&
-                  (quantity > selectedStock.available_shares ||
-                    selectedStock.current_price * quantity > user.gold_balance)) ||
-                (tradeTab === 'sell' && quantity > getOwnedShares(selectedStock.id))
+                  ((orderKind === 'market' && quantity > selectedStock.available_shares) ||
+                    getOrderTotal() > user.gold_balance)) ||
+                (tradeTab === 'sell' && quantity > getSellableShares(selectedStock.id))
               }
               onClick={handleTrade}
             >
               {trading
                 ? t('common.loading')
-                : tradeTab === 'buy'
-                  ? t('market.trade_modal.action_buy', { count: quantity })
-                  : t('market.trade_modal.action_sell', { count: quantity })}
+                : orderKind !== 'market'
+                  ? t('market.trade_modal.action_place', {
+                    type: t(`market.order_types.${orderKind}`),
+                    side: t(`market.trade_modal.${tradeTab}`),
+                    count: quantity,
+                  })
+                  : tradeTab === 'buy'
+                    ? t('market.trade_modal.action_buy', { count: quantity })
+                    : t('market.trade_modal.action_sell', { count: quantity })}
             </button>
+
+            {/* Order Book */}
+            <OrderBookPanel
+              stockId={selectedStock.id}
+              currentPrice={selectedStock.current_price}
+              refreshKey={bookVersion}
+              onPickPrice={(price) => {
+                if (orderKind === 'market') setOrderKind('limit');
+                setLimitPrice(String(price));
+              }}
+              onChanged={() => {
+                loadData();
+                refreshProfile();
+              }}
+            />
           </div>
         </div>
       )}
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuthContext } from '../AuthContext.js';
+import { useToast } from '../ToastContext.js';
+import {
+  fetchModerationQueue,
+  reviewModerationItem,
+  type ModerationItem,
+  type ModerationStatus,
+} from '../api.js';
+
+const STATUSES: ModerationStatus[] = ['pending', 'rejected', 'approved'];
+
+export default function ModerationPage() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuthContext();
+  const { pushToast } = useToast();
+  const locale = i18n.language === 'ko' ? 'ko-KR' : 'en-US';
+
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [status, setStatus] = useState<ModerationStatus>('pending');
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const isAdmin = !!user?.isAdmin;
+
+  useEffect(() => {
+    if (isAdmin) loadQueue();
+  }, [isAdmin, status]);
+
+  async function loadQueue() {
+    setLoading(true);
+    try {
+      setItems(await fetchModerationQueue(status));
+    } catch {
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleReview(item: ModerationItem, decision: 'approved' | 'rejected') {
+    setBusyId(item.id);
+    try {
+      await reviewModerationItem(item.id, decision, notes[item.id]?.trim() || undefined);
+      pushToast(t(`moderation.review.${decision}`), 'success');
+      setItems((prev) => prev.filter((other) => other.id !== item.id));
+    } catch (err) {
+      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state__icon">🛡️</div>
+        <div className="empty-state__title">{t('moderation.admin_only')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      {/* ─── Header ─── */}
+      <div className="section-header mb-16">
+        <div>
+          <h2 className="section-header__title">🛡️ {t('moderation.title')}</h2>
+          <p className="section-header__subtitle">{t('moderation.subtitle')}</p>
+        </div>
+        <select
+          className="form-input moderation-filter"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ModerationStatus)}
+        >
+          {STATUSES.map((id) => (
+            <option key={id} value={id}>{t(`moderation.status.${id}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* ─── Queue ─── */}
+      {loading ? (
+        <div className="loading-center">
+          <div className="spinner" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state__icon">✅</div>
+          <div className="empty-state__title">{t('moderation.empty')}</div>
+        </div>
+      ) : (
+        <div className="moderation-list">
+          {items.map((item) => (
+            <div key={item.id} className="card moderation-item">
+              <div className="moderation-item__head">
+                <span className="moderation-item__type">{t(`moderation.types.${item.content_type}`)}</span>
+                <span className="moderation-item__meta">
+                  {t(`moderation.sources.${item.source}`)} · {new Date(item.created_at).toLocaleString(locale)}
+                </span>
+              </div>
+              <p className="moderation-item__content">{item.content}</p>
+              {(item.flags.length > 0 || item.classification) && (
+                <div className="moderation-item__flags">
+                  {item.flags.map((flag) => (
+                    <span key={flag.rule_id} className={`moderation-flag moderation-flag--${flag.action}`} title={flag.match}>
+                      {t(`moderation.categories.${flag.category}`, { defaultValue: flag.category })} · {flag.rule_id}
+                    </span>
+                  ))}
+                  {item.classification && (
+                    <span className="moderation-flag">
+                      {t('moderation.classifier', {
+                        label: item.classification.label,
+                        confidence: Math.round(item.classification.confidence * 100),
+                      })}
+                    </span>
+                  )}
+                </div>
+              )}
+              {item.status === 'pending' ? (
+                <div className="moderation-item__actions">
+                  <input
+                    className="form-input"
+                    placeholder={t('moderation.note_placeholder')}
+                    value={notes[item.id] ?? ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                  <button
+                    className="btn btn--primary btn--sm"
+                    disabled={busyId === item.id}
+                    onClick={() => handleReview(item, 'approved')}
+                  >
+                    {t('moderation.approve')}
+                  </button>
+                  <button
+                    className="btn btn--danger btn--sm"
+                    disabled={busyId === item.id}
+                    onClick={() => handleReview(item, 'rejected')}
+                  >
+                    {t('moderation.reject')}
+                  </button>
+                </div>
+              ) : item.review_note && (
+                <p className="moderation-item__note">{item.review_note}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ type TradeTab = 'stock' | 'gold';
 
 interface UsageStats {
   debates_today: number;
+  practice_today?: number;
   trades_today: number;
   agents_count?: number;
 }
@@ -260,6 +261,18 @@ export default function ProfilePage() {
               {user.isPremium ? t('profile.usage_unlimited') : `${usage?.debates_today ?? 0} / 10`}
             </span>
           </div>
+          <div className="usage-item">
+            <span className="usage-item__label">{t('profile.usage_practice')}</span>
+            <div className="usage-bar-container">
+              <div
+                className={`usage-bar ${user.isPremium ? 'usage-bar--unlimited' : (usage?.practice_today ?? 0) >= 20 ? 'usage-bar--full' : ''}`}
+                style={{ width: user.isPremium ? '100%' : `${Math.min(((usage?.practice_today ?? 0) / 20) * 100, 100)}%` }}
+              />
+            </div>
+            <span className="usage-item__value">
+              {user.isPremium ? t('profile.usage_unlimited') : `${usage?.practice_today ?? 0} / 20`}
+            </span>
+          </div>
           <div className="usage-item">
             <span className="usage-item__label">{t('profile.usage_trade')}</span>
             <div className="usage-bar-container">
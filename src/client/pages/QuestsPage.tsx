@@ -214,8 +214,9 @@ export default function QuestsPage() {
       setShowBountyModal(false);
       setBountyForm({ title: '', description: '', reward_gold: 100, difficulty: 'Normal', deadline_hours: 48 });
       loadQuests();
-    } catch {
-      pushToast(t('quests.bounty_form.error'), 'error');
+    } catch (err) {
+      const rejected = err instanceof Error && err.message === 'CONTENT_REJECTED';
+      pushToast(t(rejected ? 'moderation.rejected' : 'quests.bounty_form.error'), 'error');
     } finally {
       setBountySubmitting(false);
     }
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import type { CSSProperties, FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuthContext } from '../AuthContext.js';
+import { useToast } from '../ToastContext.js';
+import {
+  createTopic,
+  fetchTopicCatalogue,
+  updateTopic,
+  type Topic,
+  type TopicDifficulty,
+  type TopicInput,
+} from '../api.js';
+import { getFactionEmoji, getFactionLabel } from '../utils/factions.js';
+
+const CATEGORIES = ['technology', 'economy', 'society', 'politics', 'philosophy', 'ethics', 'environment', 'culture'];
+const DIFFICULTIES: TopicDifficulty[] = ['easy', 'medium', 'hard'];
+
+const labelStyle: CSSProperties = { display: 'block', marginBottom: '0.25rem', fontWeight: 600, fontSize: '0.9rem' };
+
+const emptyForm = (language: string): TopicInput => ({
+  title: '',
+  category: 'society',
+  language,
+  difficulty: 'medium',
+  pro_stance: '',
+  con_stance: '',
+});
+
+export default function TopicsPage() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuthContext();
+  const { pushToast } = useToast();
+  const defaultLanguage = i18n.language === 'ko' ? 'ko' : 'en';
+
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [category, setCategory] = useState('all');
+  const [editing, setEditing] = useState<Topic | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState<TopicInput>(emptyForm(defaultLanguage));
+  const [submitting, setSubmitting] = useState(false);
+
+  const isAdmin = !!user?.isAdmin;
+
+  useEffect(() => {
+    loadTopics();
+  }, []);
+
+  async function loadTopics() {
+    setLoading(true);
+    try {
+      setTopics(await fetchTopicCatalogue());
+    } catch {
+      setTopics([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openCreate() {
+    setEditing(null);
+    setForm(emptyForm(language));
+    setShowModal(true);
+  }
+
+  function openEdit(topic: Topic) {
+    setEditing(topic);
+    setForm({
+      title: topic.title,
+      category: topic.category,
+      language: topic.language,
+      difficulty: topic.difficulty,
+      pro_stance: topic.pro_stance,
+      con_stance: topic.con_stance,
+    });
+    setShowModal(true);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (editing) {
+        await updateTopic(editing.id, form);
+      } else {
+        await createTopic(form);
+      }
+      pushToast(t('topics.form.saved'), 'success');
+      setShowModal(false);
+      await loadTopics();
+    } catch (err) {
+      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function toggleActive(topic: Topic) {
+    try {
+      await updateTopic(topic.id, { is_active: !topic.is_active });
+      setTopics((prev) => prev.map((item) => (item.id === topic.id ? { ...item, is_active: !item.is_active } : item)));
+    } catch (err) {
+      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+    }
+  }
+
+  const categoryLabel = (id: string) => t(`topics.category.${id}`, { defaultValue: id });
+  const visible = topics.filter((topic) =>
+    topic.language === language
+    && (category === 'all' || topic.category === category)
+    && (isAdmin || topic.is_active));
+
+  return (
+    <div className="animate-fade-in">
+      {/* ─── Header ─── */}
+      <div className="section-header mb-16">
+        <div>
+          <h2 className="section-header__title">📚 {t('topics.title')}</h2>
+          <p className="section-header__subtitle">{t('topics.subtitle')}</p>
+        </div>
+        {isAdmin && (
+          <button className="btn btn--primary btn--sm" onClick={openCreate}>
+            {t('topics.create')}
+          </button>
+        )}
+      </div>
+
+      {/* ─── Filters ─── */}
+      <div className="topic-filters mb-16">
+        <select className="form-input" value={language} onChange={(e) => setLanguage(e.target.value)}>
+          <option value="ko">한국어</option>
+          <option value="en">English</option>
+        </select>
+        <select className="form-input" value={category} onChange={(e) => setCategory(e.target.value)}>
+          <option value="all">{t('topics.all_categories')}</option>
+          {CATEGORIES.map((id) => (
+            <option key={id} value={id}>{categoryLabel(id)}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* ─── Catalogue ─── */}
+      {loading ? (
+        <div className="loading-center">
+          <div className="spinner" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state__icon">📚</div>
+          <div className="empty-state__title">{t('topics.empty')}</div>
+        </div>
+      ) : (
+        <div className="topic-list">
+          {visible.map((topic) => (
+            <div key={topic.id} className={`card topic-card ${topic.is_active ? '' : 'topic-card--inactive'}`}>
+              <div className="topic-card__head">
+                <span className="topic-card__title">{topic.title}</span>
+                <span className={`topic-difficulty topic-difficulty--${topic.difficulty}`}>
+                  {t(`topics.difficulty.${topic.difficulty}`)}
+                </span>
+              </div>
+              <div className="topic-card__stances">
+                <span><strong>{t('topics.pro')}</strong> {topic.pro_stance}</span>
+                <span><strong>{t('topics.con')}</strong> {topic.con_stance}</span>
+              </div>
+              <div className="topic-card__meta">
+                <span>{categoryLabel(topic.category)}</span>
+                <span>{t('topics.usage', { count: topic.usage_count })}</span>
+                {topic.pro_win_rate != null && (
+                  <span>{t('topics.pro_win_rate', { rate: topic.pro_win_rate })}</span>
+                )}
+                {Object.entries(topic.faction_stats ?? {}).map(([faction, stat]) => (
+                  <span key={faction} title={`${stat.wins}W ${stat.losses}L ${stat.draws}D`}>
+                    {getFactionEmoji(faction)} {getFactionLabel(faction, t)} {stat.win_rate ?? 0}%
+                  </span>
+                ))}
+              </div>
+              {isAdmin && (
+                <div className="topic-card__actions">
+                  <button className="btn btn--ghost btn--sm" onClick={() => openEdit(topic)}>
+                    {t('topics.edit')}
+                  </button>
+                  <button className="btn btn--ghost btn--sm" onClick={() => toggleActive(topic)}>
+                    {topic.is_active ? t('topics.deactivate') : t('topics.activate')}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* ─── Create / Edit Modal (admin) ─── */}
+      {showModal && (
+        <div className="modal-overlay" onClick={() => setShowModal(false)}>
+          <div className="modal-content card" onClick={(e) => e.stopPropagation()} style={{ maxWidth: 520 }}>
+            <h3 style={{ marginBottom: '1rem' }}>{editing ? t('topics.form.edit_title') : t('topics.form.create_title')}</h3>
+            <form onSubmit={handleSubmit}>
+              <div style={{ marginBottom: '0.75rem' }}>
+                <label style={labelStyle}>{t('topics.form.title')}</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  required
+                  minLength={5}
+                  maxLength={120}
+                />
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                <div>
+                  <label style={labelStyle}>{t('topics.form.category')}</label>
+                  <select
+                    className="form-input"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  >
+                    {CATEGORIES.map((id) => (
+                      <option key={id} value={id}>{categoryLabel(id)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>{t('topics.form.language')}</label>
+                  <select
+                    className="form-input"
+                    value={form.language}
+                    onChange={(e) => setForm({ ...form, language: e.target.value })}
+                  >
+                    <option value="ko">한국어</option>
+                    <option value="en">English</option>
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>{t('topics.form.difficulty')}</label>
+                  <select
+                    className="form-input"
+                    value={form.difficulty}
+                    onChange={(e) => setForm({ ...form, difficulty: e.target.value as TopicDifficulty })}
+                  >
+                    {DIFFICULTIES.map((id) => (
+                      <option key={id} value={id}>{t(`topics.difficulty.${id}`)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div style={{ marginBottom: '0.75rem' }}>
+                <label style={labelStyle}>{t('topics.form.pro_stance')}</label>
+                <textarea
+                  className="form-input"
+                  rows={2}
+                  value={form.pro_stance}
+                  onChange={(e) => setForm({ ...form, pro_stance: e.target.value })}
+                  required
+                  maxLength={300}
+                />
+              </div>
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>{t('topics.form.con_stance')}</label>
+                <textarea
+                  className="form-input"
+                  rows={2}
+                  value={form.con_stance}
+                  onChange={(e) => setForm({ ...form, con_stance: e.target.value })}
+                  required
+                  maxLength={300}
+                />
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                <button type="button" className="btn btn--secondary btn--sm" onClick={() => setShowModal(false)}>
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" className="btn btn--primary btn--sm" disabled={submitting}>
+                  {submitting ? t('common.loading') : t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
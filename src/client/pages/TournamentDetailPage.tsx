@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuthContext } from '../AuthContext.js';
+import { useToast } from '../ToastContext.js';
+import {
+  fetchAgents,
+  getTournament,
+  registerTournamentAgent,
+  type Tournament,
+  type TournamentEntry,
+  type TournamentMatch,
+} from '../api.js';
+import TournamentBracket from '../components/TournamentBracket.js';
+import { getFactionEmoji } from '../utils/factions.js';
+
+interface OwnAgent {
+  id: string;
+  name: string;
+}
+
+/** Standings order while running: points (Swiss) or survivors (bracket), then seed */
+function sortEntries(tournament: Tournament, entries: TournamentEntry[]): TournamentEntry[] {
+  return [...entries].sort((a, b) => {
+    if (a.final_rank !== null && b.final_rank !== null) return a.final_rank - b.final_rank;
+    if (tournament.format === 'swiss') {
+      return b.points - a.points || b.buchholz - a.buchholz || (a.seed ?? 999) - (b.seed ?? 999);
+    }
+    return Number(a.eliminated) - Number(b.eliminated) || b.wins - a.wins || (a.seed ?? 999) - (b.seed ?? 999);
+  });
+}
+
+export default function TournamentDetailPage() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const { t, i18n } = useTranslation();
+  const { user, refreshProfile } = useAuthContext();
+  const { pushToast } = useToast();
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [entries, setEntries] = useState<TournamentEntry[]>([]);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ownAgents, setOwnAgents] = useState<OwnAgent[]>([]);
+  const [selectedAgent, setSelectedAgent] = useState('');
+  const [registering, setRegistering] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!tournamentId) return;
+    try {
+      const data = await getTournament(tournamentId);
+      setTournament(data.tournament);
+      setEntries(data.entries);
+      setMatches(data.matches);
+    } catch {
+      setTournament(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Matches are played by the tournament runner in the background
+  useEffect(() => {
+    if (tournament?.status !== 'in_progress') return;
+    const timer = setInterval(load, 30000);
+    return () => clearInterval(timer);
+  }, [tournament?.status, load]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchAgents({ ownerId: user.id, limit: 0 })
+      .then(({ agents }) => setOwnAgents(agents as OwnAgent[]))
+      .catch(() => setOwnAgents([]));
+  }, [user]);
+
+  async function handleRegister() {
+    if (!tournamentId || !selectedAgent) return;
+    setRegistering(true);
+    try {
+      await registerTournamentAgent(tournamentId, selectedAgent);
+      pushToast(t('tournaments.register.success'), 'success');
+      setSelectedAgent('');
+      await Promise.all([load(), refreshProfile()]);
+    } catch (err) {
+      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+    } finally {
+      setRegistering(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="loading-center">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="empty-state">
+        <div className="empty-state__icon">🏟️</div>
+        <div className="empty-state__title">{t('tournaments.not_found')}</div>
+        <Link to="/tournaments" className="btn btn--secondary btn--sm mt-16">{t('common.back')}</Link>
+      </div>
+    );
+  }
+
+  const agentNames = Object.fromEntries(entries.map((e) => [e.agent_id, e.agents?.name ?? e.agent_id.slice(0, 8)]));
+  const registeredIds = new Set(entries.map((e) => e.agent_id));
+  const eligibleAgents = ownAgents.filter((agent) => !registeredIds.has(agent.id));
+  const registrationOpen = tournament.status === 'registration' && new Date(tournament.starts_at) > new Date();
+  const full = entries.length >= tournament.max_participants;
+  const standings = sortEntries(tournament, entries);
+  const locale = i18n.language === 'ko' ? 'ko-KR' : 'en-US';
+
+  return (
+    <div className="animate-fade-in">
+      {/* ─── Header ─── */}
+      <div className="section-header mb-16">
+        <div>
+          <h2 className="section-header__title">🏟️ {tournament.name}</h2>
+          <p className="section-header__subtitle">
+            {t(`tournaments.format.${tournament.format}`)} · {t(`tournaments.status.${tournament.status}`)}
+          </p>
+        </div>
+        <Link to="/tournaments" className="btn btn--secondary btn--sm">{t('common.back')}</Link>
+      </div>
+
+      {/* ─── Summary ─── */}
+      <div className="card tournament-summary mb-16">
+        <div className="tournament-summary__item">
+          <span className="tournament-summary__label">{t('tournaments.prize_pool')}</span>
+          <span className="tournament-summary__value">💰 {tournament.prize_pool.toLocaleString()} G</span>
+        </div>
+        <div className="tournament-summary__item">
+          <span className="tournament-summary__label">{t('tournaments.entry_fee')}</span>
+          <span className="tournament-summary__value">{tournament.entry_fee.toLocaleString()} G</span>
+        </div>
+        <div className="tournament-summary__item">
+          <span className="tournament-summary__label">{t('tournaments.participants')}</span>
+          <span className="tournament-summary__value">{entries.length}/{tournament.max_participants}</span>
+        </div>
+        <div className="tournament-summary__item">
+          <span className="tournament-summary__label">
+            {tournament.status === 'registration' ? t('tournaments.start_time') : t('tournaments.round')}
+          </span>
+          <span className="tournament-summary__value">
+            {tournament.status === 'registration'
+              ? new Date(tournament.starts_at).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+              : `${tournament.current_round}/${tournament.total_rounds ?? '?'}`}
+          </span>
+        </div>
+        <div className="tournament-summary__item">
+          <span className="tournament-summary__label">{t('tournaments.prize_split')}</span>
+          <span className="tournament-summary__value">
+            {tournament.prize_split.map((share) => `${Math.round(share * 100)}%`).join(' / ')}
+          </span>
+        </div>
+      </div>
+
+      {/* ─── Registration ─── */}
+      {registrationOpen && (
+        <div className="card tournament-register mb-16">
+          {!user ? (
+            <span>{t('common.login_required')}</span>
+          ) : full ? (
+            <span>{t('tournaments.register.full')}</span>
+          ) : eligibleAgents.length === 0 ? (
+            <span>{t('tournaments.register.no_agents')}</span>
+          ) : (
+            <>
+              <select
+                className="form-input"
+                value={selectedAgent}
+                onChange={(e) => setSelectedAgent(e.target.value)}
+              >
+                <option value="">{t('tournaments.register.select')}</option>
+                {eligibleAgents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>{agent.name}</option>
+                ))}
+              </select>
+              <button
+                className="btn btn--primary btn--sm"
+                disabled={!selectedAgent || registering}
+                onClick={handleRegister}
+              >
+                {registering
+                  ? t('common.loading')
+                  : t('tournaments.register.button', { fee: tournament.entry_fee.toLocaleString() })}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* ─── Bracket / Rounds ─── */}
+      {matches.length > 0 && (
+        <div className="card mb-16">
+          <h3 className="tournament-section-title">{t('tournaments.bracket.title')}</h3>
+          <TournamentBracket
+            format={tournament.format}
+            matches={matches}
+            totalRounds={tournament.total_rounds ?? 0}
+            agentNames={agentNames}
+          />
+        </div>
+      )}
+
+      {/* ─── Standings ─── */}
+      <div className="card">
+        <h3 className="tournament-section-title">
+          {tournament.status === 'registration' ? t('tournaments.entrants') : t('tournaments.standings')}
+        </h3>
+        {standings.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state__title">{t('tournaments.no_entrants')}</div>
+          </div>
+        ) : (
+          <div className="lb-list">
+            {standings.map((entry, index) => (
+              <Link
+                key={entry.agent_id}
+                to={`/agents/${entry.agent_id}`}
+                className={`lb-row ${entry.eliminated ? 'tournament-entry--eliminated' : ''}`}
+              >
+                <div className="lb-row__rank">#{entry.final_rank ?? index + 1}</div>
+                <div className="lb-row__avatar">{getFactionEmoji(entry.agents?.faction ?? '')}</div>
+                <div className="lb-row__info">
+                  <div className="lb-row__name">{entry.agents?.name ?? entry.agent_id}</div>
+                  <div className="lb-row__sub">
+                    {entry.seed !== null && <>{t('tournaments.seed', { seed: entry.seed })}<span className="lb-row__sep">·</span></>}
+                    {entry.wins}W {entry.losses}L {entry.draws}D
+                    {entry.owner_id === user?.id && <><span className="lb-row__sep">·</span>{t('tournaments.mine')}</>}
+                  </div>
+                </div>
+                <div className="lb-row__stats">
+                  {tournament.format === 'swiss' && (
+                    <div className="lb-row__stat">
+                      <span className="lb-row__stat-label">{t('tournaments.points')}</span>
+                      <span className="lb-row__stat-value">{entry.points}</span>
+                    </div>
+                  )}
+                  <div className="lb-row__stat">
+                    <span className="lb-row__stat-label">ELO</span>
+                    <span className="lb-row__stat-value lb-row__stat-value--elo">{entry.agents?.elo_score ?? '-'}</span>
+                  </div>
+                  {entry.prize_gold > 0 && (
+                    <div className="lb-row__stat">
+                      <span className="lb-row__stat-label">{t('tournaments.prize')}</span>
+                      <span className="lb-row__stat-value lb-row__stat-value--gold">{entry.prize_gold.toLocaleString()} G</span>
+                    </div>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
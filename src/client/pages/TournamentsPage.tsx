@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import type { CSSProperties, FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAuthContext } from '../AuthContext.js';
+import { useToast } from '../ToastContext.js';
+import {
+  createTournament,
+  fetchDebateFormats,
+  fetchTournaments,
+  type DebateFormat,
+  type Tournament,
+  type TournamentFormat,
+} from '../api.js';
+
+type TournamentListItem = Tournament & { entry_count: number };
+
+const labelStyle: CSSProperties = { display: 'block', marginBottom: '0.25rem', fontWeight: 600, fontSize: '0.9rem' };
+
+/** datetime-local value one day from now */
+function defaultStartsAt(): string {
+  const date = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export default function TournamentsPage() {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { user } = useAuthContext();
+  const { pushToast } = useToast();
+  const [tournaments, setTournaments] = useState<TournamentListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formats, setFormats] = useState<DebateFormat[]>([]);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState({
+    name: '',
+    format: 'swiss' as TournamentFormat,
+    starts_at: defaultStartsAt(),
+    max_participants: 8,
+    total_rounds: '',
+    entry_fee: 100,
+    prize_seed: 0,
+    debate_format_id: 'classic',
+  });
+
+  useEffect(() => {
+    loadTournaments();
+  }, []);
+
+  useEffect(() => {
+    if (showCreateModal && formats.length === 0) {
+      fetchDebateFormats().then(setFormats).catch(() => setFormats([]));
+    }
+  }, [showCreateModal, formats.length]);
+
+  async function loadTournaments() {
+    setLoading(true);
+    try {
+      setTournaments(await fetchTournaments());
+    } catch {
+      setTournaments([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const id = await createTournament({
+        ...form,
+        starts_at: new Date(form.starts_at).toISOString(),
+        total_rounds: form.format === 'swiss' && form.total_rounds ? Number(form.total_rounds) : null,
+      });
+      pushToast(t('tournaments.create.success'), 'success');
+      setShowCreateModal(false);
+      navigate(`/tournaments/${id}`);
+    } catch (err) {
+      pushToast(err instanceof Error ? err.message : t('common.error'), 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString(i18n.language === 'ko' ? 'ko-KR' : 'en-US', {
+      month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+
+  return (
+    <div className="animate-fade-in">
+      {/* ─── Header ─── */}
+      <div className="section-header mb-16">
+        <div>
+          <h2 className="section-header__title">🏟️ {t('tournaments.title')}</h2>
+          <p className="section-header__subtitle">{t('tournaments.subtitle')}</p>
+        </div>
+        {user?.isAdmin && (
+          <button className="btn btn--primary btn--sm" onClick={() => setShowCreateModal(true)}>
+            {t('tournaments.create.button')}
+          </button>
+        )}
+      </div>
+
+      {/* ─── List ─── */}
+      {loading ? (
+        <div className="loading-center">
+          <div className="spinner" />
+        </div>
+      ) : tournaments.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state__icon">🏟️</div>
+          <div className="empty-state__title">{t('tournaments.empty')}</div>
+        </div>
+      ) : (
+        <div className="tournament-list">
+          {tournaments.map((tournament, index) => (
+            <Link
+              key={tournament.id}
+              to={`/tournaments/${tournament.id}`}
+              className="card tournament-card stagger-item"
+              style={{ '--stagger-delay': `${Math.min(index, 20) * 0.03}s` } as CSSProperties}
+            >
+              <div className="tournament-card__head">
+                <span className="tournament-card__name">{tournament.name}</span>
+                <span className={`tournament-status tournament-status--${tournament.status}`}>
+                  {t(`tournaments.status.${tournament.status}`)}
+                </span>
+              </div>
+              <div className="tournament-card__meta">
+                <span>{t(`tournaments.format.${tournament.format}`)}</span>
+                <span>👥 {tournament.entry_count}/{tournament.max_participants}</span>
+                <span>💰 {tournament.prize_pool.toLocaleString()} G</span>
+                <span>
+                  {tournament.status === 'registration'
+                    ? t('tournaments.starts_at', { date: formatDate(tournament.starts_at) })
+                    : t('tournaments.round_progress', {
+                      current: tournament.current_round,
+                      total: tournament.total_rounds ?? '?',
+                    })}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* ─── Create Modal (admin) ─── */}
+      {showCreateModal && (
+        <div className="modal-overlay" onClick={() => setShowCreateModal(false)}>
+          <div className="modal-content card" onClick={(e) => e.stopPropagation()} style={{ maxWidth: 480 }}>
+            <h3 style={{ marginBottom: '1rem' }}>{t('tournaments.create.title')}</h3>
+            <form onSubmit={handleCreate}>
+              <div style={{ marginBottom: '0.75rem' }}>
+                <label style={labelStyle}>{t('tournaments.create.name')}</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                  minLength={3}
+                  maxLength={60}
+                />
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.format')}</label>
+                  <select
+                    className="form-input"
+                    value={form.format}
+                    onChange={(e) => setForm({ ...form, format: e.target.value as TournamentFormat })}
+                  >
+                    <option value="swiss">{t('tournaments.format.swiss')}</option>
+                    <option value="single_elim">{t('tournaments.format.single_elim')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.debate_format')}</label>
+                  <select
+                    className="form-input"
+                    value={form.debate_format_id}
+                    onChange={(e) => setForm({ ...form, debate_format_id: e.target.value })}
+                  >
+                    {(formats.length ? formats : [{ id: 'classic', name: 'Classic' }]).map((format) => (
+                      <option key={format.id} value={format.id}>{format.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.max_participants')}</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={2}
+                    max={64}
+                    value={form.max_participants}
+                    onChange={(e) => setForm({ ...form, max_participants: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.rounds')}</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={1}
+                    max={10}
+                    placeholder={t('tournaments.create.rounds_auto')}
+                    value={form.format === 'swiss' ? form.total_rounds : ''}
+                    disabled={form.format !== 'swiss'}
+                    onChange={(e) => setForm({ ...form, total_rounds: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.entry_fee')}</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={0}
+                    step={50}
+                    value={form.entry_fee}
+                    onChange={(e) => setForm({ ...form, entry_fee: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label style={labelStyle}>{t('tournaments.create.prize_seed')}</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min={0}
+                    step={100}
+                    value={form.prize_seed}
+                    onChange={(e) => setForm({ ...form, prize_seed: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+              </div>
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>{t('tournaments.create.starts_at')}</label>
+                <input
+                  type="datetime-local"
+                  className="form-input"
+                  value={form.starts_at}
+                  onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                  required
+                />
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                <button type="button" className="btn btn--secondary btn--sm" onClick={() => setShowCreateModal(false)}>
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" className="btn btn--primary btn--sm" disabled={submitting}>
+                  {submitting ? t('common.loading') : t('common.create')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
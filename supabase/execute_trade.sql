@@ -1,6 +1,9 @@
 -- execute_trade.sql
 -- Function to execute stock trades atomically
 -- Run this in Supabase SQL Editor
+-- NOTE: superseded by migrations/028_order_book.sql (shares reserved by open
+--       sell orders are excluded from sells) and 029_trade_impact.sql (fills
+--       on the house price curve, max slippage); apply those instead.
 
 CREATE OR REPLACE FUNCTION public.execute_trade(
   p_user_id UUID,
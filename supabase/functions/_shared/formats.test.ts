@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FORMAT, DebateFormatSchema, type DebateFormat, firstSpeaker, planTurns } from "./formats.ts";
+
+const oxford: DebateFormat = {
+  id: "oxford",
+  name: "Oxford",
+  description: "",
+  speaking_order: "alternate",
+  rounds: [
+    { label: "Opening", type: "argument", max_tokens: 512 },
+    { label: "Cross-exam", type: "cross_exam", max_tokens: 256 },
+    { label: "Closing", type: "argument", max_tokens: 384, first_speaker: "agent1" },
+  ],
+};
+
+describe("firstSpeaker", () => {
+  it("keeps agent1 first in a fixed format", () => {
+    expect(DEFAULT_FORMAT.rounds.map((_, i) => firstSpeaker(DEFAULT_FORMAT, i))).toEqual(["agent1", "agent1", "agent1"]);
+  });
+
+  it("alternates, unless a round pins its first speaker", () => {
+    expect(oxford.rounds.map((_, i) => firstSpeaker(oxford, i))).toEqual(["agent1", "agent2", "agent1"]);
+  });
+});
+
+describe("planTurns", () => {
+  it("plans two arguments for an argument round", () => {
+    expect(planTurns(oxford, 0)).toEqual([
+      { speaker: "agent1", kind: "argument" },
+      { speaker: "agent2", kind: "argument" },
+    ]);
+  });
+
+  it("has each side ask and answer once in a cross-examination", () => {
+    expect(planTurns(oxford, 1)).toEqual([
+      { speaker: "agent2", kind: "question" },
+      { speaker: "agent1", kind: "answer" },
+      { speaker: "agent1", kind: "question" },
+      { speaker: "agent2", kind: "answer" },
+    ]);
+  });
+});
+
+describe("DebateFormatSchema", () => {
+  it("accepts a stored format row", () => {
+    const row = { ...oxford, description: null };
+    const result = DebateFormatSchema.safeParse(row);
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects empty formats and unknown round types", () => {
+    expect(DebateFormatSchema.safeParse({ ...oxford, rounds: [] }).ok).toBe(false);
+    const result = DebateFormatSchema.safeParse({
+      ...oxford,
+      rounds: [{ label: "Poetry", type: "haiku", max_tokens: 128 }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues[0]).toMatch(/^rounds\[0\]\.type/);
+  });
+});
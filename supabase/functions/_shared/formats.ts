@@ -0,0 +1,121 @@
+/**
+ * formats.ts — Debate Formats (pure domain logic)
+ * ================================================
+ * A debate format is data (table debate_formats): its rounds, their labels,
+ * round type, per-round token budget and the speaking order.
+ *
+ * Round types:
+ * - argument:   first speaker argues, second speaker responds
+ * - cross_exam: each agent asks the other one question and answers theirs
+ *               (first asks → second answers → second asks → first answers)
+ *
+ * Speaking order "alternate" swaps the first speaker every round;
+ * "fixed" keeps agent1 first. A round may pin its own first_speaker.
+ */
+
+import { array, literal, number, object, optional, string, type Schema } from "./schema.ts";
+
+// ─── Types ───
+export type Side = "agent1" | "agent2";
+export type RoundType = "argument" | "cross_exam";
+export type TurnKind = "argument" | "question" | "answer";
+export type SpeakingOrder = "fixed" | "alternate";
+
+export interface FormatRound {
+  label: string;
+  type: RoundType;
+  max_tokens: number;
+  /** Overrides the format's speaking order for this round */
+  first_speaker?: Side | null;
+}
+
+export interface DebateFormat {
+  id: string;
+  name: string;
+  description: string;
+  speaking_order: SpeakingOrder;
+  rounds: FormatRound[];
+}
+
+export interface PlannedTurn {
+  speaker: Side;
+  kind: TurnKind;
+}
+
+// ─── Defaults ───
+export const DEFAULT_FORMAT_ID = "classic";
+export const MAX_ROUNDS = 8;
+
+/** Fallback when debate_formats is unavailable — the original 3-round debate */
+export const DEFAULT_FORMAT: DebateFormat = {
+  id: DEFAULT_FORMAT_ID,
+  name: "클래식",
+  description: "주장 · 반박 · 최종 변론 3라운드",
+  speaking_order: "fixed",
+  rounds: [
+    { label: "주장", type: "argument", max_tokens: 512 },
+    { label: "반박", type: "argument", max_tokens: 512 },
+    { label: "최종 변론", type: "argument", max_tokens: 512 },
+  ],
+};
+
+// ─── Validation ───
+export const FormatRoundSchema: Schema<FormatRound> = object({
+  label: string({ minLength: 1, maxLength: 40 }),
+  type: literal("argument", "cross_exam"),
+  max_tokens: number({ min: 64, max: 2048, integer: true }),
+  first_speaker: optional(literal("agent1", "agent2"), null),
+});
+
+export const DebateFormatSchema: Schema<DebateFormat> = object({
+  id: string({ minLength: 1 }),
+  name: string({ minLength: 1 }),
+  description: optional(string(), ""),
+  speaking_order: literal("fixed", "alternate"),
+  rounds: array(FormatRoundSchema, { minLength: 1, maxLength: MAX_ROUNDS }),
+});
+
+// ─── Turn Planning ───
+/** First speaker of a round (0-based index) */
+export function firstSpeaker(format: DebateFormat, index: number): Side {
+  const pinned = format.rounds[index]?.first_speaker;
+  if (pinned) return pinned;
+  if (format.speaking_order === "alternate" && index % 2 === 1) return "agent2";
+  return "agent1";
+}
+
+export function otherSide(side: Side): Side {
+  return side === "agent1" ? "agent2" : "agent1";
+}
+
+/** Ordered turns of a round */
+export function planTurns(format: DebateFormat, index: number): PlannedTurn[] {
+  const first = firstSpeaker(format, index);
+  const second = otherSide(first);
+
+  if (format.rounds[index].type === "cross_exam") {
+    return [
+      { speaker: first, kind: "question" },
+      { speaker: second, kind: "answer" },
+      { speaker: second, kind: "question" },
+      { speaker: first, kind: "answer" },
+    ];
+  }
+  return [
+    { speaker: first, kind: "argument" },
+    { speaker: second, kind: "argument" },
+  ];
+}
+
+/** Public shape sent to clients in the "matched" SSE event */
+export function describeFormat(format: DebateFormat) {
+  return {
+    id: format.id,
+    name: format.name,
+    rounds: format.rounds.map((round, index) => ({
+      label: round.label,
+      type: round.type,
+      first_speaker: firstSpeaker(format, index),
+    })),
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  conservativeRating,
+  DEFAULT_RD,
+  matchRating,
+  newRating,
+  processRatingPeriod,
+  updateRating,
+  type GlickoRating,
+} from "./glicko.ts";
+
+describe("updateRating", () => {
+  it("matches Glickman's worked example", () => {
+    const player: GlickoRating = { rating: 1500, rd: 200, volatility: 0.06 };
+    const next = updateRating(player, [
+      { opponent: { rating: 1400, rd: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, rd: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, rd: 300, volatility: 0.06 }, score: 0 },
+    ], 0.5);
+
+    expect(next.rating).toBeCloseTo(1464.06, 1);
+    expect(next.rd).toBeCloseTo(151.52, 1);
+    expect(next.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it("only widens the RD without games, capped at the starting RD", () => {
+    const idle = updateRating({ rating: 1200, rd: 80, volatility: 0.06 }, []);
+    expect(idle.rating).toBe(1200);
+    expect(idle.rd).toBeGreaterThan(80);
+    expect(updateRating(newRating(), []).rd).toBe(DEFAULT_RD);
+  });
+
+  it("moves an uncertain newcomer further than an established agent", () => {
+    const opponent: GlickoRating = { rating: 1000, rd: 100, volatility: 0.06 };
+    const rookie = updateRating(newRating(), [{ opponent, score: 1 }]);
+    const veteran = updateRating({ rating: 1000, rd: 60, volatility: 0.06 }, [{ opponent, score: 1 }]);
+    expect(rookie.rating - 1000).toBeGreaterThan(veteran.rating - 1000);
+  });
+});
+
+describe("processRatingPeriod", () => {
+  it("rates every game of the period from pre-period ratings", () => {
+    const players = new Map([
+      ["a", newRating()],
+      ["b", newRating()],
+      ["idle", { rating: 1100, rd: 100, volatility: 0.06 }],
+    ]);
+    const next = processRatingPeriod(players, [
+      { agent1: "a", agent2: "b", outcome: "agent1" },
+      { agent1: "b", agent2: "a", outcome: "draw" },
+    ]);
+
+    expect(next.get("a")!.rating).toBeGreaterThan(1000);
+    expect(next.get("b")!.rating).toBeLessThan(1000);
+    // Symmetric start, symmetric result
+    expect(next.get("a")!.rating - 1000).toBeCloseTo(1000 - next.get("b")!.rating, 6);
+    expect(next.get("idle")!.rd).toBeGreaterThan(100);
+  });
+
+  it("ignores games against unknown agents", () => {
+    const next = processRatingPeriod(new Map([["a", newRating()]]), [
+      { agent1: "a", agent2: "ghost", outcome: "agent1" },
+    ]);
+    expect(next.get("a")!.rating).toBe(1000);
+  });
+});
+
+describe("conservative rating", () => {
+  it("is rating minus two deviations", () => {
+    expect(conservativeRating({ rating: 1500, rd: 100, volatility: 0.06 })).toBe(1300);
+  });
+
+  it("falls back to ELO when the agent has no Glicko rating yet", () => {
+    expect(matchRating({ elo_score: 1234, glicko_rating: null }, "conservative")).toBe(1234);
+    expect(matchRating({ elo_score: 1234, glicko_rating: 1400, glicko_rd: 50 }, "conservative")).toBe(1300);
+    expect(matchRating({ elo_score: 1234, glicko_rating: 1400, glicko_rd: 50 }, "elo")).toBe(1234);
+  });
+});
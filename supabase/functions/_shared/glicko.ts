@@ -0,0 +1,200 @@
+/**
+ * glicko.ts — Glicko-2 Ratings (pure domain logic)
+ * =================================================
+ * Tracked alongside ELO (which stays the displayed score and drives tiers).
+ * Each agent has a rating, a rating deviation (RD: how unsure we are) and a
+ * volatility (how erratic its results are). New agents start with a wide
+ * RD and move fast; established agents move slowly.
+ *
+ * Ratings change once per rating period (rating-period Edge Function): all
+ * debates completed since the last period are processed together, and
+ * agents that did not play get their RD widened.
+ *
+ * Matchmaking and leaderboards use the conservative rating
+ * (rating − 2·RD): an agent has to prove itself before it ranks high.
+ *
+ * Algorithm: Glickman, "Example of the Glicko-2 system" (2013).
+ */
+
+import type { EnvGetter } from "./llm.ts";
+import type { Outcome } from "./settlement.ts";
+
+// ─── Types ───
+export interface GlickoRating {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+export interface GlickoGame {
+  agent1: string;
+  agent2: string;
+  outcome: Outcome;
+}
+
+export type RatingMode = "elo" | "conservative";
+
+// ─── Constants ───
+/** Same starting point as elo_score so both columns read alike */
+export const DEFAULT_RATING = 1000;
+export const DEFAULT_RD = 350;
+export const MIN_RD = 30;
+export const DEFAULT_VOLATILITY = 0.06;
+/** System constant τ: lower = volatility changes more slowly (0.3-1.2) */
+export const DEFAULT_TAU = 0.5;
+export const CONSERVATIVE_DEVIATIONS = 2;
+
+const SCALE = 173.7178;
+const CENTER = 1500;
+const EPSILON = 0.000001;
+
+export function newRating(): GlickoRating {
+  return { rating: DEFAULT_RATING, rd: DEFAULT_RD, volatility: DEFAULT_VOLATILITY };
+}
+
+export function conservativeRating(r: GlickoRating): number {
+  return r.rating - CONSERVATIVE_DEVIATIONS * r.rd;
+}
+
+/** GLICKO_TAU (default 0.5) */
+export function resolveTau(env: EnvGetter): number {
+  const tau = Number(env("GLICKO_TAU") ?? DEFAULT_TAU);
+  return Number.isFinite(tau) && tau > 0 ? tau : DEFAULT_TAU;
+}
+
+/** MATCHMAKING_RATING: "conservative" (default) or "elo" */
+export function resolveRatingMode(env: EnvGetter): RatingMode {
+  return env("MATCHMAKING_RATING") === "elo" ? "elo" : "conservative";
+}
+
+// ─── Glicko-2 Core ───
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expected(mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+}
+
+/** New volatility σ' (step 5, Illinois algorithm) */
+function nextVolatility(phi: number, sigma: number, delta: number, v: number, tau: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * One player's rating after a rating period.
+ * `results`: every game of the period — opponent's pre-period rating and
+ * the score (1 win, 0.5 draw, 0 loss). No games → only the RD widens.
+ */
+export function updateRating(
+  player: GlickoRating,
+  results: { opponent: GlickoRating; score: number }[],
+  tau = DEFAULT_TAU,
+): GlickoRating {
+  const mu = (player.rating - CENTER) / SCALE;
+  const phi = player.rd / SCALE;
+
+  if (results.length === 0) {
+    const widened = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, rd: Math.min(widened, DEFAULT_RD) };
+  }
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - CENTER) / SCALE;
+    const phiJ = opponent.rd / SCALE;
+    const gJ = g(phiJ);
+    const e = expected(mu, muJ, phiJ);
+    vInverse += gJ * gJ * e * (1 - e);
+    improvement += gJ * (score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const sigma = nextVolatility(phi, player.volatility, delta, v, tau);
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const phiNext = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNext = mu + phiNext * phiNext * improvement;
+
+  return {
+    rating: muNext * SCALE + CENTER,
+    rd: Math.min(Math.max(phiNext * SCALE, MIN_RD), DEFAULT_RD),
+    volatility: sigma,
+  };
+}
+
+// ─── Rating Period ───
+/**
+ * Rates every player of a period at once. All updates use pre-period
+ * ratings (the order of games inside a period does not matter). Returns a
+ * new rating for every player in `players`.
+ */
+export function processRatingPeriod(
+  players: Map<string, GlickoRating>,
+  games: GlickoGame[],
+  tau = DEFAULT_TAU,
+): Map<string, GlickoRating> {
+  const results = new Map<string, { opponent: GlickoRating; score: number }[]>();
+  const record = (id: string, opponentId: string, score: number) => {
+    const opponent = players.get(opponentId);
+    if (!players.has(id) || !opponent) return;
+    if (!results.has(id)) results.set(id, []);
+    results.get(id)!.push({ opponent, score });
+  };
+
+  for (const game of games) {
+    const score1 = game.outcome === "agent1" ? 1 : game.outcome === "draw" ? 0.5 : 0;
+    record(game.agent1, game.agent2, score1);
+    record(game.agent2, game.agent1, 1 - score1);
+  }
+
+  const updated = new Map<string, GlickoRating>();
+  for (const [id, rating] of players) {
+    updated.set(id, updateRating(rating, results.get(id) ?? [], tau));
+  }
+  return updated;
+}
+
+/** Rating used to compare agents for matchmaking / ranking */
+export function matchRating(
+  agent: { elo_score: number; glicko_rating?: number | null; glicko_rd?: number | null },
+  mode: RatingMode,
+): number {
+  if (mode === "elo" || agent.glicko_rating == null) return agent.elo_score;
+  return conservativeRating({
+    rating: agent.glicko_rating,
+    rd: agent.glicko_rd ?? DEFAULT_RD,
+    volatility: DEFAULT_VOLATILITY,
+  });
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateBallots,
+  JUDGE_PANEL,
+  type JudgeBallot,
+  JudgeVerdictSchema,
+  resolvePanelConfig,
+  RoundScoreSchema,
+} from "./judging.ts";
+import { parse } from "./schema.ts";
+import type { Outcome } from "./settlement.ts";
+
+function ballot(judgeId: string, winner: Outcome, agent1: number, agent2: number): JudgeBallot {
+  return {
+    judge_id: judgeId,
+    judge_name: judgeId.toUpperCase(),
+    winner,
+    reasoning: `${judgeId} reasoning`,
+    scores: {
+      agent1: { logic: agent1, evidence: agent1, persuasion: agent1 },
+      agent2: { logic: agent2, evidence: agent2, persuasion: agent2 },
+    },
+  };
+}
+
+describe("JudgeVerdictSchema", () => {
+  const valid = {
+    winner: "agent2",
+    reasoning: "ok",
+    scores: {
+      agent1: { logic: 5, evidence: 5, persuasion: 5 },
+      agent2: { logic: 8, evidence: 7, persuasion: 9 },
+    },
+  };
+
+  it("accepts a well-formed verdict", () => {
+    expect(parse(JudgeVerdictSchema, valid).winner).toBe("agent2");
+  });
+
+  it("rejects an unknown winner", () => {
+    expect(() => parse(JudgeVerdictSchema, { ...valid, winner: "both" })).toThrow(/winner: expected one of/);
+  });
+
+  it("reports missing and out-of-range sub-scores by path", () => {
+    const result = JudgeVerdictSchema.safeParse({
+      ...valid,
+      scores: { agent1: { ...valid.scores.agent1, logic: 12 } },
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain("scores.agent1.logic: expected ≤ 10, got 12");
+      expect(result.issues).toContain("scores.agent2: expected object, got undefined");
+    }
+  });
+});
+
+describe("RoundScoreSchema", () => {
+  it("accepts scores summing to 100", () => {
+    expect(parse(RoundScoreSchema, { agent1_score: 55, agent2_score: 45 })).toEqual({
+      agent1_score: 55,
+      agent2_score: 45,
+      reason: "",
+    });
+  });
+
+  it("rejects scores that do not sum to 100", () => {
+    expect(() => parse(RoundScoreSchema, { agent1_score: 60, agent2_score: 60, reason: "x" })).toThrow(
+      /must equal 100/,
+    );
+  });
+});
+
+describe("aggregateBallots", () => {
+  it("lets the majority decide and records the dissent", () => {
+    const result = aggregateBallots(
+      [ballot("a", "agent1", 8, 5), ballot("b", "agent1", 7, 5), ballot("c", "agent2", 4, 9)],
+      "majority",
+    );
+    expect(result.outcome).toBe("agent1");
+    expect(result.dissent).toEqual(["c"]);
+    expect(result.reasoning).toContain("[C · 반대 의견]");
+  });
+
+  it("uses mean scores when the vote is tied", () => {
+    const result = aggregateBallots([ballot("a", "agent1", 6, 5), ballot("b", "agent2", 3, 9)], "majority");
+    expect(result.outcome).toBe("agent2");
+    expect(result.dissent).toEqual(["a"]);
+  });
+
+  it("can be outvoted on mean scores", () => {
+    const ballots = [ballot("a", "agent1", 6, 5), ballot("b", "agent1", 6, 5), ballot("c", "agent2", 1, 10)];
+    expect(aggregateBallots(ballots, "majority").outcome).toBe("agent1");
+    expect(aggregateBallots(ballots, "mean").outcome).toBe("agent2");
+  });
+
+  it("counts a ballot with near-equal totals as a draw vote", () => {
+    const result = aggregateBallots(
+      [ballot("a", "agent1", 5, 5), ballot("b", "draw", 6, 6), ballot("c", "agent2", 4, 9)],
+      "majority",
+    );
+    expect(result.outcome).toBe("draw");
+  });
+
+  it("refuses to aggregate an empty panel instead of picking a winner", () => {
+    expect(() => aggregateBallots([], "majority")).toThrow();
+  });
+});
+
+describe("resolvePanelConfig", () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  it("defaults to three judges by majority", () => {
+    const config = resolvePanelConfig(env({}));
+    expect(config.judges).toHaveLength(3);
+    expect(config.method).toBe("majority");
+    expect(config.maxAttempts).toBe(2);
+  });
+
+  it("clamps the panel size to the available judges", () => {
+    expect(resolvePanelConfig(env({ JUDGE_PANEL_SIZE: "99" })).judges).toHaveLength(JUDGE_PANEL.length);
+    expect(resolvePanelConfig(env({ JUDGE_PANEL_SIZE: "0" })).judges).toHaveLength(1);
+    expect(resolvePanelConfig(env({ JUDGE_AGGREGATION: "mean" })).method).toBe("mean");
+  });
+});
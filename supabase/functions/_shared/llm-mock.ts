@@ -0,0 +1,104 @@
+/**
+ * llm-mock.ts — Deterministic Mock LLM Provider
+ * ==============================================
+ * Offline stand-in for CI and local development. Every response is derived
+ * from `seed + task + system + prompt`, so the same debate replays exactly.
+ *
+ * Structured tasks (`round_score`, `judge_verdict`, `practice_feedback`,
+ * `moderation_classify`) return well-formed JSON in the shape the callers
+ * expect. Unknown JSON tasks return `{}`.
+ */
+
+import type { GenerateRequest, LlmProvider } from "./llm.ts";
+import { createRng, pick, randomInt, type Rng } from "./random.ts";
+
+const OPENERS = [
+  "그것은 틀렸습니다.",
+  "핵심을 짚어보겠습니다.",
+  "상대의 논리에는 결정적인 허점이 있습니다.",
+  "데이터가 말해주는 것은 분명합니다.",
+  "청중 여러분, 한 가지만 생각해 보십시오.",
+];
+
+const BODIES = [
+  "역사적으로 같은 선택을 한 사회는 예상치 못한 비용을 치렀습니다.",
+  "비유하자면, 지도 없이 항해를 시작하는 것과 같습니다.",
+  "실제 사례를 보면 원칙과 현실 사이의 간극이 드러납니다.",
+  "장기적인 영향까지 고려하면 결론은 달라집니다.",
+  "우리가 지켜야 할 가치는 효율이 아니라 신뢰입니다.",
+  "작은 예외가 곧 규칙을 무너뜨린다는 점을 잊어서는 안 됩니다.",
+];
+
+const CLOSERS = [
+  "따라서 제 입장이 더 설득력 있습니다.",
+  "이것이 이 논쟁의 결론입니다.",
+  "상대는 이 질문에 답하지 못했습니다.",
+  "판단은 청중에게 맡기겠습니다.",
+];
+
+function mockText(rng: Rng): string {
+  return [pick(rng, OPENERS), pick(rng, BODIES), pick(rng, BODIES), pick(rng, CLOSERS)].join(" ");
+}
+
+function mockSubScores(rng: Rng) {
+  return {
+    logic: randomInt(rng, 4, 10),
+    evidence: randomInt(rng, 4, 10),
+    persuasion: randomInt(rng, 4, 10),
+  };
+}
+
+const JSON_TASKS = new Set(["round_score", "judge_verdict", "practice_feedback", "moderation_classify"]);
+
+function mockJson(task: string | undefined, rng: Rng): unknown {
+  switch (task) {
+    case "round_score": {
+      const agent1 = randomInt(rng, 35, 65);
+      return { agent1_score: agent1, agent2_score: 100 - agent1, reason: pick(rng, BODIES) };
+    }
+    case "judge_verdict": {
+      const agent1 = mockSubScores(rng);
+      const agent2 = mockSubScores(rng);
+      const total1 = agent1.logic + agent1.evidence + agent1.persuasion;
+      const total2 = agent2.logic + agent2.evidence + agent2.persuasion;
+      return {
+        winner: total1 >= total2 ? "agent1" : "agent2",
+        reasoning: `${pick(rng, OPENERS)} ${pick(rng, BODIES)} ${pick(rng, CLOSERS)}`,
+        scores: { agent1, agent2 },
+      };
+    }
+    case "practice_feedback":
+      return {
+        summary: pick(rng, CLOSERS),
+        strengths: [pick(rng, BODIES)],
+        weaknesses: [pick(rng, BODIES)],
+        persona_suggestions: [pick(rng, OPENERS)],
+      };
+    case "moderation_classify":
+      return { label: "safe", categories: [], confidence: randomInt(rng, 80, 99) / 100 };
+    default:
+      return {};
+  }
+}
+
+export function createMockProvider(seed: string): LlmProvider {
+  const rngFor = (req: GenerateRequest) =>
+    createRng(`${seed}|${req.task ?? ""}|${req.system ?? ""}|${req.prompt}`);
+
+  return {
+    name: `mock:${seed}`,
+    generateText(req) {
+      const rng = rngFor(req);
+      if (req.task && JSON_TASKS.has(req.task)) {
+        return Promise.resolve(JSON.stringify(mockJson(req.task, rng)));
+      }
+      if (req.task === "news_article") {
+        return Promise.resolve(`# 아고라 속보: ${pick(rng, OPENERS)}\n\n${mockText(rng)}\n\n${mockText(rng)}`);
+      }
+      return Promise.resolve(mockText(rng));
+    },
+    generateJson<T>(req: GenerateRequest) {
+      return Promise.resolve(mockJson(req.task, rngFor(req)) as T);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createLlmProvider, extractJson, resolveProviderKind } from "./llm.ts";
+import { createMockProvider } from "./llm-mock.ts";
+
+const envOf = (vars: Record<string, string>) => (key: string) => vars[key];
+
+describe("resolveProviderKind", () => {
+  it("defaults to gemini", () => {
+    expect(resolveProviderKind("run-debate", envOf({}))).toBe("gemini");
+  });
+
+  it("prefers the per-function variable over LLM_PROVIDER", () => {
+    const env = envOf({ LLM_PROVIDER: "openai", RUN_DEBATE_LLM_PROVIDER: "mock" });
+    expect(resolveProviderKind("run-debate", env)).toBe("mock");
+    expect(resolveProviderKind("generate-daily-news", env)).toBe("openai");
+  });
+
+  it("normalizes case and whitespace", () => {
+    expect(resolveProviderKind("respond-bounty", envOf({ LLM_PROVIDER: " Local " }))).toBe("local");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => resolveProviderKind("run-debate", envOf({ LLM_PROVIDER: "claude" }))).toThrow(/Unknown LLM provider/);
+  });
+});
+
+describe("createLlmProvider", () => {
+  it("requires an API key for gemini and openai", () => {
+    expect(() => createLlmProvider("run-debate", envOf({}))).toThrow(/GEMINI_API_KEY/);
+    expect(() => createLlmProvider("run-debate", envOf({ LLM_PROVIDER: "openai" }))).toThrow(/OPENAI_API_KEY/);
+  });
+
+  it("builds the seeded mock from LLM_MOCK_SEED", () => {
+    expect(createLlmProvider("run-debate", envOf({ LLM_PROVIDER: "mock" })).name).toBe("mock:agora");
+    expect(createLlmProvider("run-debate", envOf({ LLM_PROVIDER: "mock", LLM_MOCK_SEED: "ci" })).name).toBe("mock:ci");
+  });
+});
+
+describe("extractJson", () => {
+  it("pulls the JSON object out of surrounding text", () => {
+    expect(extractJson<{ a: number }>("Sure:\n```json\n{\"a\": 1}\n```")).toEqual({ a: 1 });
+  });
+});
+
+describe("mock provider", () => {
+  const req = { task: "debate_turn", system: "persona", prompt: "Is justice fair?" };
+
+  it("replays the same response for the same seed and request", async () => {
+    const first = await createMockProvider("agora").generateText(req);
+    const again = await createMockProvider("agora").generateText(req);
+    expect(again).toBe(first);
+    expect(first.length).toBeGreaterThan(0);
+  });
+
+  it("varies with the seed and the prompt", async () => {
+    const provider = createMockProvider("agora");
+    const texts = await Promise.all([
+      provider.generateText(req),
+      provider.generateText({ ...req, prompt: "Is freedom free?" }),
+      createMockProvider("other").generateText(req),
+    ]);
+    expect(new Set(texts).size).toBeGreaterThan(1);
+  });
+
+  it("returns well-formed JSON for structured tasks", async () => {
+    const provider = createMockProvider("agora");
+    const score = await provider.generateJson<{ agent1_score: number; agent2_score: number }>({
+      task: "round_score",
+      prompt: "round 1",
+    });
+    expect(score.agent1_score + score.agent2_score).toBe(100);
+
+    const verdict = JSON.parse(await provider.generateText({ task: "judge_verdict", prompt: "final" }));
+    expect(["agent1", "agent2"]).toContain(verdict.winner);
+    expect(verdict.scores.agent1.logic).toBeGreaterThanOrEqual(4);
+  });
+
+  it("returns {} for unknown JSON tasks", async () => {
+    expect(await createMockProvider("agora").generateJson({ task: "unknown", prompt: "x" })).toEqual({});
+  });
+});
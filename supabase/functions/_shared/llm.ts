@@ -0,0 +1,180 @@
+/**
+ * llm.ts — Shared LLM Provider Layer
+ * ===================================
+ * One interface for every Edge Function that talks to a language model.
+ *
+ * Providers (selected by env var, per function):
+ * - gemini: Google Gemini REST API (default)
+ * - openai: any OpenAI-compatible /chat/completions endpoint
+ * - local:  OpenAI-compatible local server (Ollama, LM Studio, llama.cpp)
+ * - mock:   seeded deterministic stand-in, no network (CI / offline dev)
+ *
+ * Selection order: `<FUNCTION>_LLM_PROVIDER` → `LLM_PROVIDER` → "gemini".
+ * e.g. RUN_DEBATE_LLM_PROVIDER=mock only mocks run-debate.
+ */
+
+import { createMockProvider } from "./llm-mock.ts";
+
+// ─── Types ───
+export interface GenerateRequest {
+  /** System instruction (persona, judge rubric, ...) */
+  system?: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  /** Logical task name — used for logging and by the mock provider */
+  task?: string;
+  /** Ask the provider for a JSON response (generateJson always does) */
+  json?: boolean;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generateText(req: GenerateRequest): Promise<string>;
+  generateJson<T = unknown>(req: GenerateRequest): Promise<T>;
+}
+
+export type ProviderKind = "gemini" | "openai" | "local" | "mock";
+
+export type EnvGetter = (key: string) => string | undefined;
+
+// ─── JSON Extraction ───
+export function extractJson<T = unknown>(raw: string): T {
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  return JSON.parse(jsonMatch?.[0] ?? raw) as T;
+}
+
+// ─── Gemini ───
+export function createGeminiProvider(
+  apiKey: string,
+  model = "gemini-2.0-flash",
+): LlmProvider {
+  async function call(req: GenerateRequest, json: boolean): Promise<string> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(req.system ? { system_instruction: { parts: [{ text: req.system }] } } : {}),
+          contents: [{ role: "user", parts: [{ text: req.prompt }] }],
+          generationConfig: {
+            maxOutputTokens: req.maxTokens ?? 512,
+            temperature: req.temperature ?? 0.9,
+            ...(json ? { responseMimeType: "application/json" } : {}),
+          },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new Error("Gemini returned empty response");
+    return text;
+  }
+
+  return {
+    name: `gemini:${model}`,
+    generateText: (req) => call(req, req.json ?? false),
+    generateJson: async <T>(req: GenerateRequest) => extractJson<T>(await call(req, true)),
+  };
+}
+
+// ─── OpenAI-compatible (OpenAI, OpenRouter, Ollama, LM Studio, ...) ───
+export function createOpenAiCompatibleProvider(
+  baseUrl: string,
+  model: string,
+  apiKey?: string,
+  label = "openai",
+): LlmProvider {
+  async function call(req: GenerateRequest, json: boolean): Promise<string> {
+    const messages = [
+      ...(req.system ? [{ role: "system", content: req.system }] : []),
+      { role: "user", content: req.prompt },
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: req.maxTokens ?? 512,
+        temperature: req.temperature ?? 0.9,
+        ...(json ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${label} API error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) throw new Error(`${label} returned empty response`);
+    return text;
+  }
+
+  return {
+    name: `${label}:${model}`,
+    generateText: (req) => call(req, req.json ?? false),
+    generateJson: async <T>(req: GenerateRequest) => extractJson<T>(await call(req, true)),
+  };
+}
+
+// ─── Factory ───
+/** "run-debate" → "RUN_DEBATE" */
+function envPrefix(functionName: string): string {
+  return functionName.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+export function resolveProviderKind(functionName: string, env: EnvGetter): ProviderKind {
+  const raw = (env(`${envPrefix(functionName)}_LLM_PROVIDER`) || env("LLM_PROVIDER") || "gemini")
+    .trim()
+    .toLowerCase();
+  if (raw === "gemini" || raw === "openai" || raw === "local" || raw === "mock") return raw;
+  throw new Error(`Unknown LLM provider: ${raw}`);
+}
+
+/**
+ * Build the provider configured for an Edge Function.
+ * Pass `(key) => Deno.env.get(key)` as `env`.
+ */
+export function createLlmProvider(functionName: string, env: EnvGetter): LlmProvider {
+  const kind = resolveProviderKind(functionName, env);
+
+  switch (kind) {
+    case "gemini": {
+      const apiKey = env("GEMINI_API_KEY");
+      if (!apiKey) throw new Error("GEMINI_API_KEY not configured");
+      return createGeminiProvider(apiKey, env("GEMINI_MODEL") || undefined);
+    }
+    case "openai": {
+      const apiKey = env("OPENAI_API_KEY");
+      if (!apiKey) throw new Error("OPENAI_API_KEY not configured");
+      return createOpenAiCompatibleProvider(
+        env("OPENAI_BASE_URL") || "https://api.openai.com/v1",
+        env("OPENAI_MODEL") || "gpt-4o-mini",
+        apiKey,
+      );
+    }
+    case "local":
+      return createOpenAiCompatibleProvider(
+        env("LOCAL_LLM_BASE_URL") || "http://localhost:11434/v1",
+        env("LOCAL_LLM_MODEL") || "llama3.1",
+        env("LOCAL_LLM_API_KEY"),
+        "local",
+      );
+    case "mock":
+      return createMockProvider(env("LLM_MOCK_SEED") || "agora");
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MARKET_SIM,
+  eventImpact,
+  fundamentalValue,
+  recentForm,
+  resolveMarketSimConfig,
+  sectorOf,
+  simulateMarketTick,
+  type MarketEvent,
+  type MarketSimConfig,
+  type MarketSimInput,
+  type SimAgent,
+  type SimStock,
+} from "./market-sim.ts";
+import { createRng } from "./random.ts";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+/** No randomness: only the deterministic components move prices */
+const QUIET: MarketSimConfig = { ...DEFAULT_MARKET_SIM, noisePct: 0, sectorPct: 0 };
+
+function agent(overrides: Partial<SimAgent> = {}): SimAgent {
+  return { id: "a1", faction: "rationalism", elo_score: 1000, wins: 5, losses: 5, draws: 0, ...overrides };
+}
+
+function stock(overrides: Partial<SimStock> = {}): SimStock {
+  return { id: "s1", agent_id: "a1", current_price: 1000, total_shares: 500, ...overrides };
+}
+
+function input(stocks: SimStock[], agents: SimAgent[], overrides: Partial<MarketSimInput> = {}): MarketSimInput {
+  return {
+    stocks,
+    agents: new Map(agents.map((a) => [a.id, a])),
+    forms: new Map(),
+    events: [],
+    now: NOW,
+    ...overrides,
+  };
+}
+
+function event(overrides: Partial<MarketEvent> = {}): MarketEvent {
+  return {
+    id: "e1",
+    intensity: "medium",
+    effects: { market_drift_pct: 1 },
+    created_at: "2026-03-10T12:00:00Z",
+    expires_at: "2026-03-11T12:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("resolveMarketSimConfig", () => {
+  it("reads env overrides and ignores invalid values", () => {
+    const env: Record<string, string> = { MARKET_NOISE_PCT: "0.8", MARKET_REVERSION: "-1" };
+    const config = resolveMarketSimConfig((key) => env[key]);
+    expect(config.noisePct).toBe(0.8);
+    expect(config.reversion).toBe(DEFAULT_MARKET_SIM.reversion);
+  });
+});
+
+describe("recentForm", () => {
+  const debates = [
+    { agent1_id: "a1", agent2_id: "b", winner_id: "a1" },
+    { agent1_id: "c", agent2_id: "a1", winner_id: "a1" },
+    { agent1_id: "a1", agent2_id: "d", winner_id: "d" },
+    { agent1_id: "a1", agent2_id: "e", winner_id: null },
+  ];
+
+  it("counts the ongoing streak from the newest debate", () => {
+    expect(recentForm("a1", debates)).toEqual({ games: 4, wins: 2, streak: 2 });
+    expect(recentForm("d", debates)).toEqual({ games: 1, wins: 1, streak: 1 });
+    expect(recentForm("b", debates).streak).toBe(-1);
+  });
+
+  it("ends a streak at a draw", () => {
+    expect(recentForm("e", debates).streak).toBe(0);
+  });
+});
+
+describe("fundamentalValue", () => {
+  it("doubles per 400 ELO at a neutral win rate", () => {
+    expect(fundamentalValue(agent())).toBeCloseTo(1000);
+    expect(fundamentalValue(agent({ elo_score: 1400 }))).toBeCloseTo(2000);
+  });
+
+  it("prefers the recent win rate over the lifetime one", () => {
+    expect(fundamentalValue(agent(), { games: 4, wins: 4, streak: 4 })).toBeCloseTo(1250);
+    expect(fundamentalValue(agent({ wins: 0, losses: 10 }))).toBeCloseTo(750);
+  });
+});
+
+describe("eventImpact", () => {
+  it("scopes events by faction, legacy names included", () => {
+    const scoped = event({ effects: { market_drift_pct: 2, factions: ["rationalism"] } });
+    expect(eventImpact([scoped], agent({ faction: "합리주의" }), NOW).driftPct).toBeCloseTo(2);
+    expect(eventImpact([scoped], agent({ faction: "idealism" }), NOW).driftPct).toBe(0);
+    expect(sectorOf("이상주의")).toBe("idealism");
+  });
+
+  it("fades out towards expiry and raises volatility by intensity", () => {
+    const halfway = new Date("2026-03-11T00:00:00Z");
+    const impact = eventImpact([event({ intensity: "critical" })], agent(), halfway);
+    expect(impact.driftPct).toBeCloseTo(0.5);
+    expect(impact.volatility).toBe(2);
+    expect(eventImpact([event()], agent(), new Date("2026-03-12T00:00:00Z"))).toEqual({ driftPct: 0, volatility: 1 });
+  });
+
+  it("ignores events without market effects for drift", () => {
+    const tournament = event({ effects: { elo_multiplier: 1.5, bonus_gold: 200 } });
+    expect(eventImpact([tournament], agent(), NOW).driftPct).toBe(0);
+  });
+});
+
+describe("simulateMarketTick", () => {
+  it("reverts towards the fundamental value", () => {
+    const [cheap] = simulateMarketTick(input([stock({ current_price: 500 })], [agent()]), createRng(1), QUIET);
+    const [rich] = simulateMarketTick(input([stock({ current_price: 2000 })], [agent()]), createRng(1), QUIET);
+    expect(cheap.new_price).toBeGreaterThan(500);
+    expect(rich.new_price).toBeLessThan(2000);
+  });
+
+  it("adds momentum for a winning streak", () => {
+    const forms = new Map([["a1", { games: 3, wins: 3, streak: 3 }]]);
+    const base = input([stock({ current_price: 1250 })], [agent()], { forms });
+    const [move] = simulateMarketTick(base, createRng(1), { ...QUIET, reversion: 0 });
+    expect(move.components.momentum).toBeCloseTo(0.3);
+    expect(move.new_price).toBeGreaterThan(1250);
+  });
+
+  it("moves a whole faction together", () => {
+    const agents = [agent({ id: "a1" }), agent({ id: "a2" }), agent({ id: "a3", faction: "idealism" })];
+    const stocks = [stock({ id: "s1", agent_id: "a1" }), stock({ id: "s2", agent_id: "a2" }), stock({ id: "s3", agent_id: "a3" })];
+    const moves = simulateMarketTick(input(stocks, agents), createRng(7), { ...QUIET, sectorPct: 1 });
+    expect(moves[0].components.sector).toBe(moves[1].components.sector);
+    expect(moves[0].components.sector).not.toBe(moves[2].components.sector);
+  });
+
+  it("computes market cap from total_shares and clamps the move", () => {
+    const crash = event({ effects: { market_drift_pct: -50 } });
+    const [move] = simulateMarketTick(input([stock()], [agent()], { events: [crash] }), createRng(1), QUIET);
+    expect(move.new_price).toBe(951); // e^−5%
+    expect(move.market_cap).toBe(951 * 500);
+  });
+
+  it("replays exactly from a seed", () => {
+    const stocks = [stock(), stock({ id: "s2", agent_id: "a2", current_price: 1500 })];
+    const agents = [agent(), agent({ id: "a2", faction: "pragmatism", elo_score: 1200 })];
+    const first = simulateMarketTick(input(stocks, agents), createRng("seed"));
+    const again = simulateMarketTick(input(stocks, agents), createRng("seed"));
+    const other = simulateMarketTick(input(stocks, agents), createRng("other"));
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+});
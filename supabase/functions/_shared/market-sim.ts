@@ -0,0 +1,264 @@
+/**
+ * market-sim.ts — Market Simulator (pure domain logic)
+ * =====================================================
+ * One tick of the simulated market that stock-fluctuation runs between
+ * debates. Each stock's log return is the sum of:
+ *
+ * - mean reversion: a share of the gap to the agent's fundamental value,
+ *   derived from ELO (×2 per 400 points above 1000, anchored at
+ *   FUNDAMENTAL_BASE_PRICE) and the recent win rate
+ * - momentum: a drift per game of an ongoing win or loss streak
+ * - sector: one shared move per faction per tick
+ * - events: drift from active rows of the events table (effects
+ *   market_drift_pct, scoped by effects.factions / effects.agent_ids),
+ *   fading out towards expires_at; their intensity also raises the noise
+ * - noise: an idiosyncratic normal draw
+ *
+ * The total is clamped to maxMovePct. All randomness comes from the Rng
+ * passed in, so a seed replays a tick exactly.
+ */
+
+import type { EnvGetter } from "./llm.ts";
+import { gaussian, type Rng } from "./random.ts";
+
+// ─── Types ───
+export interface SimStock {
+  id: string;
+  agent_id: string;
+  current_price: number;
+  total_shares: number;
+}
+
+export interface SimAgent {
+  id: string;
+  faction: string;
+  elo_score: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/** A completed debate (newest first when passed to recentForm) */
+export interface SimDebate {
+  agent1_id: string;
+  agent2_id: string;
+  winner_id: string | null;
+}
+
+export interface AgentForm {
+  games: number;
+  wins: number;
+  /** Ongoing streak: +n wins or −n losses in a row (draws end it) */
+  streak: number;
+}
+
+export type EventIntensity = "low" | "medium" | "high" | "critical";
+
+export interface MarketEvent {
+  id: string;
+  intensity: EventIntensity | null;
+  effects: Record<string, unknown> | null;
+  created_at: string;
+  expires_at: string | null;
+}
+
+export interface MarketSimConfig {
+  /** Share of the log gap to the fundamental closed per tick */
+  reversion: number;
+  /** Per-tick standard deviations, in percent */
+  noisePct: number;
+  sectorPct: number;
+  /** Drift per streak game, in percent (streaks count up to MAX_STREAK) */
+  momentumPct: number;
+  maxMovePct: number;
+}
+
+export interface MarketSimInput {
+  stocks: SimStock[];
+  agents: Map<string, SimAgent>;
+  forms: Map<string, AgentForm>;
+  events: MarketEvent[];
+  now: Date;
+}
+
+export interface StockMove {
+  id: string;
+  old_price: number;
+  new_price: number;
+  market_cap: number;
+  change_pct: number;
+  fundamental: number;
+  /** Log-return components, in percent */
+  components: { reversion: number; momentum: number; sector: number; event: number; noise: number };
+}
+
+// ─── Config ───
+export const FUNDAMENTAL_BASE_PRICE = 1000;
+export const MIN_PRICE = 10;
+export const RECENT_GAMES = 10;
+export const MAX_STREAK = 5;
+/** Events without expires_at fade out over this long */
+export const EVENT_DEFAULT_HOURS = 24;
+
+/** Noise multiplier while an event of this intensity is in scope */
+export const EVENT_VOLATILITY: Record<EventIntensity, number> = {
+  low: 1.1,
+  medium: 1.25,
+  high: 1.5,
+  critical: 2,
+};
+
+export const DEFAULT_MARKET_SIM: MarketSimConfig = {
+  reversion: 0.02,
+  noisePct: 0.3,
+  sectorPct: 0.2,
+  momentumPct: 0.1,
+  maxMovePct: 5,
+};
+
+export function resolveMarketSimConfig(env: EnvGetter): MarketSimConfig {
+  const read = (key: string, fallback: number) => {
+    const value = Number(env(key) ?? fallback);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    reversion: Math.min(read("MARKET_REVERSION", DEFAULT_MARKET_SIM.reversion), 1),
+    noisePct: read("MARKET_NOISE_PCT", DEFAULT_MARKET_SIM.noisePct),
+    sectorPct: read("MARKET_SECTOR_PCT", DEFAULT_MARKET_SIM.sectorPct),
+    momentumPct: read("MARKET_MOMENTUM_PCT", DEFAULT_MARKET_SIM.momentumPct),
+    maxMovePct: read("MARKET_MAX_MOVE_PCT", DEFAULT_MARKET_SIM.maxMovePct),
+  };
+}
+
+// ─── Fundamentals ───
+const LEGACY_FACTIONS: Record<string, string> = {
+  "합리주의": "rationalism",
+  "경험주의": "empiricism",
+  "실용주의": "pragmatism",
+  "이상주의": "idealism",
+};
+
+/** Sector key of a faction (legacy Korean names share their English sector) */
+export function sectorOf(faction: string): string {
+  return LEGACY_FACTIONS[faction] ?? faction;
+}
+
+export function recentForm(agentId: string, debates: SimDebate[], limit = RECENT_GAMES): AgentForm {
+  const results = debates
+    .filter((d) => d.agent1_id === agentId || d.agent2_id === agentId)
+    .slice(0, limit)
+    .map((d) => (d.winner_id === null ? "draw" : d.winner_id === agentId ? "win" : "loss"));
+
+  let streak = 0;
+  for (const result of results) {
+    if (result === "draw") break;
+    const step = result === "win" ? 1 : -1;
+    if (streak !== 0 && Math.sign(streak) !== step) break;
+    streak += step;
+  }
+
+  return { games: results.length, wins: results.filter((r) => r === "win").length, streak };
+}
+
+/**
+ * Fair price of an agent: ×2 per 400 ELO above 1000, scaled ±25% by the
+ * win rate (recent games, else lifetime, else a neutral 50%).
+ */
+export function fundamentalValue(agent: SimAgent, form?: AgentForm): number {
+  const lifetime = agent.wins + agent.losses + agent.draws;
+  const winRate = form && form.games > 0
+    ? form.wins / form.games
+    : lifetime > 0 ? agent.wins / lifetime : 0.5;
+  return FUNDAMENTAL_BASE_PRICE * 2 ** ((agent.elo_score - 1000) / 400) * (1 + 0.5 * (winRate - 0.5));
+}
+
+// ─── Events ───
+function eventWeight(event: MarketEvent, now: Date): number {
+  const start = Date.parse(event.created_at);
+  const end = event.expires_at ? Date.parse(event.expires_at) : start + EVENT_DEFAULT_HOURS * 3600000;
+  if (now.getTime() < start || now.getTime() >= end || end <= start) return 0;
+  return 1 - (now.getTime() - start) / (end - start);
+}
+
+function stringList(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : null;
+}
+
+export function eventApplies(event: MarketEvent, agent: SimAgent): boolean {
+  const agentIds = stringList(event.effects?.agent_ids);
+  if (agentIds && !agentIds.includes(agent.id)) return false;
+  const factions = stringList(event.effects?.factions);
+  if (factions && !factions.map(sectorOf).includes(sectorOf(agent.faction))) return false;
+  return true;
+}
+
+/** Event drift (percent) and noise multiplier for one agent */
+export function eventImpact(events: MarketEvent[], agent: SimAgent, now: Date): { driftPct: number; volatility: number } {
+  let driftPct = 0;
+  let volatility = 1;
+  for (const event of events) {
+    const weight = eventWeight(event, now);
+    if (weight === 0 || !eventApplies(event, agent)) continue;
+    const drift = Number(event.effects?.market_drift_pct ?? 0);
+    if (Number.isFinite(drift)) driftPct += drift * weight;
+    volatility = Math.max(volatility, EVENT_VOLATILITY[event.intensity ?? "medium"] ?? 1);
+  }
+  return { driftPct, volatility };
+}
+
+// ─── Tick ───
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function simulateMarketTick(
+  input: MarketSimInput,
+  rng: Rng,
+  config: MarketSimConfig = DEFAULT_MARKET_SIM,
+): StockMove[] {
+  // Stable draw order: sectors alphabetically, then stocks by id
+  const stocks = [...input.stocks].sort((a, b) => a.id.localeCompare(b.id));
+  const sectors = [...new Set(
+    stocks.flatMap((s) => {
+      const agent = input.agents.get(s.agent_id);
+      return agent ? [sectorOf(agent.faction)] : [];
+    }),
+  )].sort();
+  const sectorMoves = new Map(sectors.map((sector) => [sector, gaussian(rng) * config.sectorPct]));
+
+  return stocks.map((stock) => {
+    const agent = input.agents.get(stock.agent_id);
+    const form = input.forms.get(stock.agent_id);
+    const price = stock.current_price;
+    const fundamental = agent ? fundamentalValue(agent, form) : price;
+
+    const reversion = config.reversion * Math.log(fundamental / price) * 100;
+    const streak = Math.max(-MAX_STREAK, Math.min(MAX_STREAK, form?.streak ?? 0));
+    const momentum = streak * config.momentumPct;
+    const sector = agent ? sectorMoves.get(sectorOf(agent.faction)) ?? 0 : 0;
+    const { driftPct: event, volatility } = agent
+      ? eventImpact(input.events, agent, input.now)
+      : { driftPct: 0, volatility: 1 };
+    const noise = gaussian(rng) * config.noisePct * volatility;
+
+    const total = Math.max(
+      -config.maxMovePct,
+      Math.min(config.maxMovePct, reversion + momentum + sector + event + noise),
+    );
+    const newPrice = Math.max(MIN_PRICE, Math.round(price * Math.exp(total / 100)));
+
+    return {
+      id: stock.id,
+      old_price: price,
+      new_price: newPrice,
+      market_cap: newPrice * stock.total_shares,
+      change_pct: round2(((newPrice - price) / price) * 100),
+      fundamental: Math.round(fundamental),
+      components: {
+        reversion: round2(reversion),
+        momentum: round2(momentum),
+        sector: round2(sector),
+        event: round2(event),
+        noise: round2(noise),
+      },
+    };
+  });
+}
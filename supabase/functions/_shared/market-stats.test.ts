@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { changeSince, computeMarketStats, HOUR_MS, windowStats, type StatsCandle } from "./market-stats.ts";
+
+const NOW = new Date("2026-03-10T12:30:00Z");
+
+function candle(hoursAgo: number, close: number, extra: Partial<StatsCandle> = {}): StatsCandle {
+  const start = Math.floor((NOW.getTime() - hoursAgo * HOUR_MS) / HOUR_MS) * HOUR_MS;
+  return {
+    bucket_start: new Date(start).toISOString(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 0,
+    trades: 0,
+    ...extra,
+  };
+}
+
+describe("changeSince", () => {
+  it("is a percent change and 0 without a reference", () => {
+    expect(changeSince(100, 110)).toBe(10);
+    expect(changeSince(200, 150)).toBe(-25);
+    expect(changeSince(0, 150)).toBe(0);
+    expect(changeSince(null, 150)).toBe(0);
+  });
+});
+
+describe("windowStats", () => {
+  it("measures change from the close before the window opened", () => {
+    const candles = [candle(30, 100), candle(20, 105), candle(2, 120)];
+    const stats = windowStats(candles, 110, NOW, 24 * HOUR_MS);
+
+    expect(stats.reference_price).toBe(100);
+    expect(stats.change).toBe(10);
+    expect(stats.high).toBe(120);
+    expect(stats.low).toBe(105);
+  });
+
+  it("sums volume and trades inside the window only", () => {
+    const candles = [
+      candle(48, 100, { volume: 500, trades: 9 }),
+      candle(10, 100, { volume: 30, trades: 2 }),
+      candle(1, 100, { volume: 12, trades: 1 }),
+    ];
+    const stats = windowStats(candles, 100, NOW, 24 * HOUR_MS);
+    expect(stats.volume).toBe(42);
+    expect(stats.trades).toBe(3);
+  });
+
+  it("uses the first open for a stock younger than the window", () => {
+    const stats = windowStats([candle(5, 102, { open: 100 })], 99, NOW, 24 * HOUR_MS);
+    expect(stats.reference_price).toBe(100);
+    expect(stats.change).toBe(-1);
+  });
+
+  it("falls back to the current price without candles", () => {
+    const stats = windowStats([], 150, NOW, 24 * HOUR_MS);
+    expect(stats).toMatchObject({ reference_price: 150, change: 0, high: 150, low: 150, volume: 0, volatility: 0 });
+  });
+
+  it("reports zero volatility for a flat series and more for a choppy one", () => {
+    const flat = [candle(30, 100), candle(3, 100), candle(2, 100)];
+    const choppy = [candle(30, 100), candle(3, 120), candle(2, 90), candle(1, 115)];
+    expect(windowStats(flat, 100, NOW, 24 * HOUR_MS).volatility).toBe(0);
+    expect(windowStats(choppy, 100, NOW, 24 * HOUR_MS).volatility).toBeGreaterThan(10);
+  });
+});
+
+describe("computeMarketStats", () => {
+  it("keeps the 24h and 7d windows apart", () => {
+    const candles = [candle(24 * 8, 80), candle(24 * 3, 90, { volume: 100, trades: 4 }), candle(30, 100), candle(3, 104)];
+    const stats = computeMarketStats(candles, 100, NOW);
+
+    expect(stats.change_24h).toBe(0);
+    expect(stats.change_7d).toBe(25);
+    expect(stats.volume_24h).toBe(0);
+    expect(stats.volume_7d).toBe(100);
+    expect(stats.low_7d).toBe(90);
+    expect(stats.high_24h).toBe(104);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * market-stats.ts — Rolling Market Statistics (pure domain logic)
+ * ================================================================
+ * Turns a stock's hourly candles (stock_candles, 030_stock_candles.sql) and
+ * its current price into rolling 24h and 7d statistics: change against the
+ * price at the start of the window, high / low, volume, trade count and
+ * volatility (standard deviation of the log returns between consecutive
+ * hourly closes, in percent).
+ *
+ * No I/O here — the market-stats function loads the candles and stores the
+ * result in stock_market_stats; run-debate and stock-fluctuation use
+ * changeSince for price_change_24h between runs.
+ */
+
+// ─── Constants ───
+export const HOUR_MS = 60 * 60 * 1000;
+export const WINDOW_24H_MS = 24 * HOUR_MS;
+export const WINDOW_7D_MS = 7 * 24 * HOUR_MS;
+
+// ─── Types ───
+export interface StatsCandle {
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+export interface WindowStats {
+  /** Price at the start of the window (the stock's first price if it is younger) */
+  reference_price: number;
+  change: number;
+  high: number;
+  low: number;
+  volume: number;
+  trades: number;
+  volatility: number;
+}
+
+/** A stock_market_stats row (without stock_id / updated_at) */
+export interface MarketStatsRow {
+  price_24h_ago: number;
+  change_24h: number;
+  high_24h: number;
+  low_24h: number;
+  volume_24h: number;
+  trades_24h: number;
+  volatility_24h: number;
+  price_7d_ago: number;
+  change_7d: number;
+  high_7d: number;
+  low_7d: number;
+  volume_7d: number;
+  trades_7d: number;
+  volatility_7d: number;
+}
+
+// ─── Helpers ───
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Percent change from reference to price (0 without a usable reference) */
+export function changeSince(reference: number | null | undefined, price: number): number {
+  if (!reference || reference <= 0) return 0;
+  return round2(((price - reference) / reference) * 100);
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// ─── Windows ───
+/**
+ * Statistics over [now − windowMs, now]. A candle counts when any part of
+ * its hour is inside the window; the reference is the close of the last
+ * candle that ended before the window opened.
+ */
+export function windowStats(
+  candles: StatsCandle[],
+  currentPrice: number,
+  now: Date,
+  windowMs: number,
+  candleMs = HOUR_MS,
+): WindowStats {
+  const start = now.getTime() - windowMs;
+  const sorted = [...candles].sort((a, b) => Date.parse(a.bucket_start) - Date.parse(b.bucket_start));
+  const before = sorted.filter((c) => Date.parse(c.bucket_start) + candleMs <= start);
+  const inside = sorted.filter((c) => {
+    const bucket = Date.parse(c.bucket_start);
+    return bucket + candleMs > start && bucket <= now.getTime();
+  });
+
+  const reference = before.length > 0
+    ? before[before.length - 1].close
+    : inside.length > 0 ? inside[0].open : currentPrice;
+
+  const closes = [reference, ...inside.map((c) => c.close), currentPrice].filter((p) => p > 0);
+  const returns = closes.slice(1).map((price, i) => Math.log(price / closes[i]));
+
+  return {
+    reference_price: reference,
+    change: changeSince(reference, currentPrice),
+    high: Math.max(currentPrice, ...inside.map((c) => c.high)),
+    low: Math.min(currentPrice, ...inside.map((c) => c.low)),
+    volume: inside.reduce((sum, c) => sum + c.volume, 0),
+    trades: inside.reduce((sum, c) => sum + c.trades, 0),
+    volatility: round2(standardDeviation(returns) * 100),
+  };
+}
+
+export function computeMarketStats(candles: StatsCandle[], currentPrice: number, now = new Date()): MarketStatsRow {
+  const day = windowStats(candles, currentPrice, now, WINDOW_24H_MS);
+  const week = windowStats(candles, currentPrice, now, WINDOW_7D_MS);
+  return {
+    price_24h_ago: day.reference_price,
+    change_24h: day.change,
+    high_24h: day.high,
+    low_24h: day.low,
+    volume_24h: day.volume,
+    trades_24h: day.trades,
+    volatility_24h: day.volatility,
+    price_7d_ago: week.reference_price,
+    change_7d: week.change,
+    high_7d: week.high,
+    low_7d: week.low,
+    volume_7d: week.volume,
+    trades_7d: week.trades,
+    volatility_7d: week.volatility,
+  };
+}
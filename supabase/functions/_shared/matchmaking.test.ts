@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MATCHMAKING,
+  findQueueMatch,
+  ratingWindow,
+  recentPairs,
+  resolveMatchmakingConfig,
+  type QueueEntry,
+} from "./matchmaking.ts";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const minutesAgo = (minutes: number) => NOW - minutes * 60000;
+
+const entry = (agent_id: string, rating: number, waitedMinutes: number, overrides: Partial<QueueEntry> = {}): QueueEntry => ({
+  agent_id,
+  owner_id: `owner-${agent_id}`,
+  rating,
+  available_since: minutesAgo(waitedMinutes),
+  cooldown_until: null,
+  ...overrides,
+});
+
+describe("ratingWindow", () => {
+  it("widens with wait time up to the cap", () => {
+    expect(ratingWindow(0, DEFAULT_MATCHMAKING)).toBe(100);
+    expect(ratingWindow(10 * 60000, DEFAULT_MATCHMAKING)).toBe(300);
+    expect(ratingWindow(10 * 60 * 60000, DEFAULT_MATCHMAKING)).toBe(600);
+  });
+});
+
+describe("findQueueMatch", () => {
+  it("matches the longest-waiting agent with the closest rating", () => {
+    const match = findQueueMatch([
+      entry("fresh", 1050, 1),
+      entry("veteran", 1000, 30),
+      entry("close", 1010, 2),
+    ], new Set(), NOW);
+
+    expect(match?.agent1.agent_id).toBe("veteran");
+    expect(match?.agent2.agent_id).toBe("close");
+    expect(match?.ratingDiff).toBe(10);
+  });
+
+  it("waits until the window has widened enough", () => {
+    const queue = [entry("a", 1000, 0), entry("b", 1250, 0)];
+    expect(findQueueMatch(queue, new Set(), NOW)).toBeNull();
+
+    const later = queue.map((e) => ({ ...e, available_since: minutesAgo(8) }));
+    expect(findQueueMatch(later, new Set(), NOW)?.ratingDiff).toBe(250);
+  });
+
+  it("skips same-owner pairs, recent opponents and agents on cooldown", () => {
+    const queue = [
+      entry("a", 1000, 20),
+      entry("sibling", 1000, 10, { owner_id: "owner-a" }),
+      entry("rematch", 1005, 10),
+      entry("resting", 1001, 10, { cooldown_until: NOW + 60000 }),
+      entry("ok", 1080, 5),
+    ];
+    const recent = recentPairs([{ agent1_id: "rematch", agent2_id: "a" }]);
+
+    const match = findQueueMatch(queue, recent, NOW);
+    expect(match?.agent1.agent_id).toBe("a");
+    expect(match?.agent2.agent_id).toBe("ok");
+  });
+
+  it("moves on to the next agent when the longest waiter has no valid opponent", () => {
+    const queue = [entry("lonely", 2000, 60), entry("b", 1000, 5), entry("c", 1020, 1)];
+    const match = findQueueMatch(queue, new Set(), NOW);
+    expect([match?.agent1.agent_id, match?.agent2.agent_id]).toEqual(["b", "c"]);
+  });
+});
+
+describe("resolveMatchmakingConfig", () => {
+  it("reads env overrides and ignores invalid values", () => {
+    const env: Record<string, string> = { MATCHMAKING_BASE_WINDOW: "50", MATCHMAKING_COOLDOWN_MINUTES: "abc" };
+    const config = resolveMatchmakingConfig((key) => env[key]);
+    expect(config.baseWindow).toBe(50);
+    expect(config.cooldownMinutes).toBe(DEFAULT_MATCHMAKING.cooldownMinutes);
+  });
+});
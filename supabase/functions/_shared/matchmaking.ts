@@ -0,0 +1,133 @@
+/**
+ * matchmaking.ts — Matchmaking Queue (pure domain logic)
+ * =======================================================
+ * Owners opt agents into the queue (table matchmaking_queue). Auto debates
+ * (run-debate mode "auto", driven by auto-match) take their pair from it:
+ *
+ * - the agent waiting longest is matched first (fairness)
+ * - its rating window starts at MATCHMAKING_BASE_WINDOW and widens by
+ *   MATCHMAKING_WIDEN_PER_MINUTE for every minute waited, up to
+ *   MATCHMAKING_MAX_WINDOW — so nobody waits forever for a perfect match
+ * - among candidates inside the window the closest rating wins
+ * - agents of the same owner never meet, and neither do agents that met
+ *   within MATCHMAKING_RECENT_HOURS
+ * - a matched agent sits out MATCHMAKING_COOLDOWN_MINUTES
+ *
+ * Ratings come from glicko.ts matchRating (conservative rating or ELO).
+ */
+
+import type { EnvGetter } from "./llm.ts";
+
+// ─── Types ───
+export interface QueueEntry {
+  agent_id: string;
+  owner_id: string;
+  rating: number;
+  /** When the agent (re)became available — epoch ms */
+  available_since: number;
+  /** Epoch ms; null = no cooldown */
+  cooldown_until: number | null;
+}
+
+export interface MatchmakingConfig {
+  baseWindow: number;
+  widenPerMinute: number;
+  maxWindow: number;
+  cooldownMinutes: number;
+  recentHours: number;
+}
+
+export interface QueueMatch {
+  agent1: QueueEntry;
+  agent2: QueueEntry;
+  ratingDiff: number;
+  /** Window of the longest-waiting agent at match time */
+  window: number;
+  /** How long agent1 waited (ms) */
+  waited: number;
+}
+
+// ─── Config ───
+export const DEFAULT_MATCHMAKING: MatchmakingConfig = {
+  baseWindow: 100,
+  widenPerMinute: 20,
+  maxWindow: 600,
+  cooldownMinutes: 30,
+  recentHours: 24,
+};
+
+export function resolveMatchmakingConfig(env: EnvGetter): MatchmakingConfig {
+  const read = (key: string, fallback: number) => {
+    const value = Number(env(key) ?? fallback);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    baseWindow: read("MATCHMAKING_BASE_WINDOW", DEFAULT_MATCHMAKING.baseWindow),
+    widenPerMinute: read("MATCHMAKING_WIDEN_PER_MINUTE", DEFAULT_MATCHMAKING.widenPerMinute),
+    maxWindow: read("MATCHMAKING_MAX_WINDOW", DEFAULT_MATCHMAKING.maxWindow),
+    cooldownMinutes: read("MATCHMAKING_COOLDOWN_MINUTES", DEFAULT_MATCHMAKING.cooldownMinutes),
+    recentHours: read("MATCHMAKING_RECENT_HOURS", DEFAULT_MATCHMAKING.recentHours),
+  };
+}
+
+// ─── Matching ───
+export function ratingWindow(waitedMs: number, config: MatchmakingConfig): number {
+  const minutes = Math.max(0, waitedMs) / 60000;
+  return Math.min(config.baseWindow + config.widenPerMinute * minutes, config.maxWindow);
+}
+
+export function isAvailable(entry: QueueEntry, now: number): boolean {
+  return entry.cooldown_until === null || entry.cooldown_until <= now;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/** Set of "a|b" keys for pairs that debated recently */
+export function recentPairs(debates: { agent1_id: string; agent2_id: string }[]): Set<string> {
+  return new Set(debates.map((d) => pairKey(d.agent1_id, d.agent2_id)));
+}
+
+/**
+ * Next pair from the queue, or null if nobody fits yet. The longest-waiting
+ * available agent that has any valid opponent inside its window is
+ * matched with the closest-rated one (ties → the one waiting longer).
+ */
+export function findQueueMatch(
+  entries: QueueEntry[],
+  recent: Set<string>,
+  now: number,
+  config: MatchmakingConfig = DEFAULT_MATCHMAKING,
+): QueueMatch | null {
+  const available = entries
+    .filter((entry) => isAvailable(entry, now))
+    .sort((a, b) => a.available_since - b.available_since || a.agent_id.localeCompare(b.agent_id));
+
+  for (const seeker of available) {
+    const waited = now - seeker.available_since;
+    const window = ratingWindow(waited, config);
+
+    let best: QueueEntry | null = null;
+    for (const candidate of available) {
+      if (candidate.agent_id === seeker.agent_id) continue;
+      if (candidate.owner_id === seeker.owner_id) continue;
+      if (recent.has(pairKey(seeker.agent_id, candidate.agent_id))) continue;
+
+      const diff = Math.abs(candidate.rating - seeker.rating);
+      if (diff > window) continue;
+      if (!best || diff < Math.abs(best.rating - seeker.rating)) best = candidate;
+    }
+
+    if (best) {
+      return {
+        agent1: seeker,
+        agent2: best,
+        ratingDiff: Math.abs(best.rating - seeker.rating),
+        window,
+        waited,
+      };
+    }
+  }
+  return null;
+}
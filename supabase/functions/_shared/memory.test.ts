@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMemoryEntries,
+  DEFAULT_MEMORY,
+  judgeFeedback,
+  resolveMemoryConfig,
+  summarizeMemory,
+  type MemoryEntry,
+} from "./memory.ts";
+
+const entry = (opponent_id: string, result: MemoryEntry["result"], overrides: Partial<MemoryEntry> = {}): MemoryEntry => ({
+  agent_id: "me",
+  debate_id: `d-${opponent_id}-${result}`,
+  topic: "AI 규제는 필요한가",
+  stance: "pro",
+  opponent_id,
+  opponent_name: `Agent ${opponent_id}`,
+  result,
+  feedback: "강점 논리 8 · 약점 근거 5",
+  ...overrides,
+});
+
+describe("buildMemoryEntries", () => {
+  it("records each side's result, stance, opponent and feedback", () => {
+    const [first, second] = buildMemoryEntries({
+      debate_id: "d1",
+      topic: "Topic",
+      outcome: "agent2",
+      agent1: { id: "a", name: "Alpha", stance: "pro" },
+      agent2: { id: "b", name: "Beta", stance: "con" },
+      scores: {
+        agent1: { logic: 6, evidence: 5, persuasion: 7 },
+        agent2: { logic: 8, evidence: 8, persuasion: 8 },
+      },
+      reasoning: "[심판A] Beta의 근거가 더 탄탄했습니다.\n[심판B] Alpha는 설득력이 좋았습니다.",
+    });
+    expect(first).toMatchObject({ agent_id: "a", opponent_name: "Beta", stance: "pro", result: "loss" });
+    expect(first.feedback).toBe("강점 설득력 7 · 약점 근거 5 — [심판B] Alpha는 설득력이 좋았습니다.");
+    expect(second).toMatchObject({ agent_id: "b", opponent_id: "a", stance: "con", result: "win" });
+    expect(second.feedback).toContain("고른 평가");
+  });
+
+  it("truncates long judge excerpts", () => {
+    const feedback = judgeFeedback({ logic: 1, evidence: 2, persuasion: 3 }, "x".repeat(500), "Alpha");
+    expect(feedback.length).toBeLessThan(220);
+    expect(feedback.endsWith("…")).toBe(true);
+  });
+});
+
+describe("summarizeMemory", () => {
+  it("returns an empty summary without entries", () => {
+    expect(summarizeMemory([])).toBe("");
+  });
+
+  it("summarises the record, the upcoming opponent and frequent rivals", () => {
+    const summary = summarizeMemory(
+      [entry("x", "win"), entry("y", "loss"), entry("x", "loss"), entry("y", "loss"), entry("z", "draw")],
+      DEFAULT_MEMORY,
+      "x",
+    );
+    expect(summary).toContain("지난 5번의 토론 전적: 1승 3패 1무");
+    expect(summary).toContain("이번 상대 Agent x와의 전적: 1승 1패 0무");
+    expect(summary).toContain("자주 만난 상대: Agent y 0승 2패 0무");
+    expect(summary).toContain('- [승리] "AI 규제는 필요한가" (vs Agent x, 찬성)');
+  });
+
+  it("stays within the configured bounds", () => {
+    const entries = Array.from({ length: 20 }, (_, i) => entry(`o${i}`, "win", { feedback: "f".repeat(100) }));
+    const summary = summarizeMemory(entries, { ...DEFAULT_MEMORY, promptEntries: 3, maxChars: 1000 });
+    expect(summary.split("\n").filter((line) => line.startsWith("- "))).toHaveLength(3);
+
+    const tight = summarizeMemory(entries, { ...DEFAULT_MEMORY, maxChars: 60 });
+    expect(tight.length).toBeLessThanOrEqual(60);
+    expect(tight).not.toContain("최근 토론:");
+  });
+});
+
+describe("resolveMemoryConfig", () => {
+  it("reads env overrides and ignores invalid values", () => {
+    const env: Record<string, string> = { MEMORY_PROMPT_ENTRIES: "3", MEMORY_RETENTION: "-1" };
+    expect(resolveMemoryConfig((key) => env[key])).toEqual({ ...DEFAULT_MEMORY, promptEntries: 3 });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * memory.ts — Agent Memory of Past Debates (pure domain logic)
+ * =============================================================
+ * After every completed debate run-debate stores one entry per agent (table
+ * agent_memories): the topic, the side it argued, the opponent, the result
+ * and the judges' feedback on its performance. Before a debate the newest
+ * entries are condensed into a bounded summary that buildAgentPrompt injects,
+ * so agents stay consistent and can refer back to their history.
+ *
+ * MEMORY_PROMPT_ENTRIES: recent debates listed in the prompt (default 5)
+ * MEMORY_PROMPT_MAX_CHARS: hard cap on the summary length (default 800)
+ * MEMORY_RETENTION: entries kept per agent; older ones are pruned (default 50)
+ *
+ * Owners can also prune entries by hand (AgentDetailPage memory panel).
+ */
+
+import type { EnvGetter } from "./llm.ts";
+import type { JudgeScores, Outcome } from "./settlement.ts";
+import { stanceLabel, type Stance } from "./stances.ts";
+
+// ─── Types ───
+export type MemoryResult = "win" | "loss" | "draw";
+
+export interface MemoryEntry {
+  agent_id: string;
+  debate_id: string;
+  topic: string;
+  stance: Stance | null;
+  opponent_id: string;
+  opponent_name: string;
+  result: MemoryResult;
+  /** Judges' take on this agent's performance */
+  feedback: string;
+  created_at?: string;
+}
+
+export interface MemoryConfig {
+  promptEntries: number;
+  maxChars: number;
+  retention: number;
+}
+
+/** What runDebateCore knows about a finished debate */
+export interface DebateRecord {
+  debate_id: string;
+  topic: string;
+  outcome: Outcome;
+  agent1: { id: string; name: string; stance?: Stance | null };
+  agent2: { id: string; name: string; stance?: Stance | null };
+  scores: { agent1: JudgeScores; agent2: JudgeScores };
+  reasoning: string;
+}
+
+// ─── Config ───
+export const DEFAULT_MEMORY: MemoryConfig = {
+  promptEntries: 5,
+  maxChars: 800,
+  retention: 50,
+};
+
+/** Longest judge excerpt kept per entry */
+export const FEEDBACK_MAX_CHARS = 160;
+
+export function resolveMemoryConfig(env: EnvGetter): MemoryConfig {
+  const read = (key: string, fallback: number) => {
+    const value = Math.floor(Number(env(key) ?? fallback));
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    promptEntries: read("MEMORY_PROMPT_ENTRIES", DEFAULT_MEMORY.promptEntries),
+    maxChars: read("MEMORY_PROMPT_MAX_CHARS", DEFAULT_MEMORY.maxChars),
+    retention: Math.max(1, read("MEMORY_RETENTION", DEFAULT_MEMORY.retention)),
+  };
+}
+
+// ─── Recording ───
+const SCORE_LABELS: Record<keyof JudgeScores, string> = {
+  logic: "논리",
+  evidence: "근거",
+  persuasion: "설득력",
+};
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length <= max ? flat : `${flat.slice(0, Math.max(0, max - 1)).trimEnd()}…`;
+}
+
+export function memoryResult(outcome: Outcome, side: "agent1" | "agent2"): MemoryResult {
+  if (outcome === "draw") return "draw";
+  return outcome === side ? "win" : "loss";
+}
+
+/**
+ * Feedback for one side: its strongest and weakest judge sub-score plus the
+ * first panel line that mentions the agent (or the first line at all).
+ */
+export function judgeFeedback(scores: JudgeScores, reasoning: string, agentName: string): string {
+  const ranked = (Object.keys(SCORE_LABELS) as (keyof JudgeScores)[])
+    .sort((a, b) => scores[b] - scores[a]);
+  const best = ranked[0];
+  const worst = ranked[ranked.length - 1];
+  const summary = scores[best] === scores[worst]
+    ? `고른 평가 (${SCORE_LABELS[best]} ${scores[best]})`
+    : `강점 ${SCORE_LABELS[best]} ${scores[best]} · 약점 ${SCORE_LABELS[worst]} ${scores[worst]}`;
+
+  const lines = reasoning.split("\n").map((line) => line.trim()).filter(Boolean);
+  const excerpt = lines.find((line) => line.includes(agentName)) ?? lines[0];
+  return excerpt ? `${summary} — ${truncate(excerpt, FEEDBACK_MAX_CHARS)}` : summary;
+}
+
+/** One memory entry per side of a finished debate */
+export function buildMemoryEntries(record: DebateRecord): [MemoryEntry, MemoryEntry] {
+  const entry = (side: "agent1" | "agent2"): MemoryEntry => {
+    const self = record[side];
+    const opponent = side === "agent1" ? record.agent2 : record.agent1;
+    return {
+      agent_id: self.id,
+      debate_id: record.debate_id,
+      topic: record.topic,
+      stance: self.stance ?? null,
+      opponent_id: opponent.id,
+      opponent_name: opponent.name,
+      result: memoryResult(record.outcome, side),
+      feedback: judgeFeedback(record.scores[side], record.reasoning, self.name),
+    };
+  };
+  return [entry("agent1"), entry("agent2")];
+}
+
+// ─── Prompt Summary ───
+const RESULT_LABELS: Record<MemoryResult, string> = { win: "승리", loss: "패배", draw: "무승부" };
+
+function recordText(entries: MemoryEntry[]): string {
+  const count = (result: MemoryResult) => entries.filter((entry) => entry.result === result).length;
+  return `${count("win")}승 ${count("loss")}패 ${count("draw")}무`;
+}
+
+/**
+ * Bounded prompt summary of an agent's memory (entries newest first):
+ * its overall record, its record against the upcoming opponent, the
+ * opponents it met most, and the latest debates with judge feedback.
+ * Lines are dropped from the end once config.maxChars is reached;
+ * returns "" when there is nothing to remember.
+ */
+export function summarizeMemory(
+  entries: MemoryEntry[],
+  config: MemoryConfig = DEFAULT_MEMORY,
+  opponentId?: string,
+): string {
+  if (entries.length === 0 || config.promptEntries === 0 || config.maxChars === 0) return "";
+
+  const lines = [`지난 ${entries.length}번의 토론 전적: ${recordText(entries)}`];
+
+  const byOpponent = new Map<string, MemoryEntry[]>();
+  for (const entry of entries) {
+    byOpponent.set(entry.opponent_id, [...(byOpponent.get(entry.opponent_id) ?? []), entry]);
+  }
+
+  const rematch = opponentId ? byOpponent.get(opponentId) : undefined;
+  if (rematch) {
+    lines.push(`이번 상대 ${rematch[0].opponent_name}와의 전적: ${recordText(rematch)}`);
+  }
+
+  const rivals = [...byOpponent.values()]
+    .filter((group) => group.length > 1 && group[0].opponent_id !== opponentId)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, 3);
+  if (rivals.length > 0) {
+    lines.push(`자주 만난 상대: ${rivals.map((group) => `${group[0].opponent_name} ${recordText(group)}`).join(", ")}`);
+  }
+
+  lines.push("최근 토론:");
+  for (const entry of entries.slice(0, config.promptEntries)) {
+    const side = entry.stance ? `, ${stanceLabel(entry.stance)}` : "";
+    lines.push(`- [${RESULT_LABELS[entry.result]}] "${entry.topic}" (vs ${entry.opponent_name}${side}) — ${entry.feedback}`);
+  }
+
+  let summary = "";
+  for (const line of lines) {
+    const next = summary ? `${summary}\n${line}` : line;
+    if (next.length > config.maxChars) break;
+    summary = next;
+  }
+  // Never end on the list header alone
+  return summary.replace(/\n최근 토론:$/, "");
+}
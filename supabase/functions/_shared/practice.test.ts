@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./llm-mock.ts";
+import { checkPracticeMatch, PracticeFeedbackSchema } from "./practice.ts";
+import { generateStructured } from "./structured.ts";
+
+describe("checkPracticeMatch", () => {
+  const mine = { id: "a", owner_id: "u1" };
+
+  it("allows house bots and the owner's other agents", () => {
+    expect(checkPracticeMatch("u1", mine, { id: "house_rookie" }, true)).toBeNull();
+    expect(checkPracticeMatch("u1", mine, { id: "b", owner_id: "u1" }, false)).toBeNull();
+  });
+
+  it("rejects foreign agents on either side and self-matches", () => {
+    expect(checkPracticeMatch("u2", mine, { id: "house_rookie" }, true)).toBe("NOT_OWNER");
+    expect(checkPracticeMatch("u1", mine, { id: "b", owner_id: "u2" }, false)).toBe("OPPONENT_NOT_ALLOWED");
+    expect(checkPracticeMatch("u1", mine, mine, false)).toBe("SAME_AGENT");
+  });
+});
+
+describe("PracticeFeedbackSchema", () => {
+  it("accepts the mock coach's feedback", async () => {
+    const feedback = await generateStructured(
+      createMockProvider("practice"),
+      { task: "practice_feedback", prompt: "review" },
+      PracticeFeedbackSchema,
+    );
+    expect(feedback.strengths.length).toBeGreaterThan(0);
+    expect(feedback.persona_suggestions.length).toBeGreaterThan(0);
+  });
+
+  it("rejects feedback without suggestions", () => {
+    const result = PracticeFeedbackSchema.safeParse({
+      summary: "ok",
+      strengths: ["a"],
+      weaknesses: ["b"],
+      persona_suggestions: [],
+    });
+    expect(result.ok).toBe(false);
+  });
+});
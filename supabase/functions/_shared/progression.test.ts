@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PROGRESSION,
+  debateXp,
+  MAX_DEBATE_XP,
+  MAX_TURN_TOKENS,
+  resolveProgressionConfig,
+  traitPrompt,
+  turnBudget,
+} from "./progression.ts";
+
+describe("traitPrompt", () => {
+  it("lists owned traits at their rank and skips the rest", () => {
+    const prompt = traitPrompt({ evidence_focus: 2, rebuttal_specialist: 0 });
+    expect(prompt).toContain("근거 집중 2단계");
+    expect(prompt).not.toContain("반박 전문가");
+    expect(prompt.split("\n")).toHaveLength(1);
+  });
+
+  it("clamps ranks above the cap and is empty without traits", () => {
+    expect(traitPrompt({ closing_budget: 9 })).toContain("긴 최종 변론 2단계");
+    expect(traitPrompt({})).toBe("");
+  });
+});
+
+describe("turnBudget", () => {
+  it("extends only the turns a trait applies to", () => {
+    const traits = { closing_budget: 1, cross_examiner: 2 };
+    expect(turnBudget(512, traits, { kind: "argument", isFinal: true })).toBe(768);
+    expect(turnBudget(512, traits, { kind: "argument", isFinal: false })).toBe(512);
+    expect(turnBudget(400, traits, { kind: "question", isFinal: false })).toBe(600);
+  });
+
+  it("never exceeds the format token cap", () => {
+    expect(turnBudget(2000, { closing_budget: 2 }, { kind: "argument", isFinal: true })).toBe(MAX_TURN_TOKENS);
+  });
+});
+
+describe("debateXp", () => {
+  it("pays by result and reads overrides from env", () => {
+    expect(debateXp("win")).toBe(DEFAULT_PROGRESSION.xpWin);
+    expect(debateXp("loss")).toBe(DEFAULT_PROGRESSION.xpLoss);
+    const config = resolveProgressionConfig((key) => (key === "PROGRESSION_XP_DRAW" ? "75" : undefined));
+    expect(debateXp("draw", config)).toBe(75);
+    expect(config.xpWin).toBe(DEFAULT_PROGRESSION.xpWin);
+  });
+
+  it("caps overrides at what award_debate_xp accepts", () => {
+    const config = resolveProgressionConfig((key) => (key === "PROGRESSION_XP_WIN" ? "50000" : undefined));
+    expect(config.xpWin).toBe(MAX_DEBATE_XP);
+  });
+});
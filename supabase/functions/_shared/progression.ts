@@ -0,0 +1,149 @@
+/**
+ * progression.ts — Agent XP, Levels and Skill Traits (pure domain logic)
+ * =======================================================================
+ * Every settled debate earns both agents XP (recorded once per debate by the
+ * award_debate_xp RPC, which also derives the level — see migration
+ * 026_agent_progression.sql for the level curve). Each level above 1 grants
+ * a skill point; owners spend them on traits through spend_skill_point,
+ * which enforces unlock levels and rank caps. Practice debates earn nothing.
+ *
+ * This module owns what the traits do: extra lines in the agent prompt
+ * (traitPrompt) and larger token budgets for some turns (turnBudget).
+ *
+ * PROGRESSION_XP_WIN / PROGRESSION_XP_DRAW / PROGRESSION_XP_LOSS: XP per
+ * result (defaults 100 / 60 / 40, at most MAX_DEBATE_XP).
+ */
+
+import type { TurnKind } from "./formats.ts";
+import type { EnvGetter } from "./llm.ts";
+import type { MemoryResult } from "./memory.ts";
+
+// ─── Types ───
+export type TraitId = "evidence_focus" | "rebuttal_specialist" | "closing_budget" | "cross_examiner";
+
+/** Owned trait ranks (missing traits are rank 0) */
+export type AgentTraits = Partial<Record<TraitId, number>>;
+
+export interface TraitSpec {
+  name: string;
+  maxRank: number;
+  /** Prompt line per rank (index 0 = rank 1); empty when the trait only changes budgets */
+  prompt: string[];
+  /** Extra share of the round's max_tokens per rank, for the turns it applies to */
+  budgetPerRank?: number;
+  appliesTo?: (turn: TurnContext) => boolean;
+}
+
+export interface TurnContext {
+  kind: TurnKind;
+  /** Last round of the format (the closing statement) */
+  isFinal: boolean;
+}
+
+export interface ProgressionConfig {
+  xpWin: number;
+  xpDraw: number;
+  xpLoss: number;
+}
+
+// ─── Config ───
+export const DEFAULT_PROGRESSION: ProgressionConfig = {
+  xpWin: 100,
+  xpDraw: 60,
+  xpLoss: 40,
+};
+
+/** Same cap as award_debate_xp (039_award_xp_guards.sql) applies per award */
+export const MAX_DEBATE_XP = 1000;
+
+/** Same cap as FormatRoundSchema's max_tokens */
+export const MAX_TURN_TOKENS = 2048;
+
+export function resolveProgressionConfig(env: EnvGetter): ProgressionConfig {
+  const read = (key: string, fallback: number) => {
+    const value = Math.floor(Number(env(key) ?? fallback));
+    return Number.isFinite(value) && value >= 0 ? Math.min(value, MAX_DEBATE_XP) : fallback;
+  };
+  return {
+    xpWin: read("PROGRESSION_XP_WIN", DEFAULT_PROGRESSION.xpWin),
+    xpDraw: read("PROGRESSION_XP_DRAW", DEFAULT_PROGRESSION.xpDraw),
+    xpLoss: read("PROGRESSION_XP_LOSS", DEFAULT_PROGRESSION.xpLoss),
+  };
+}
+
+// ─── Traits ───
+/** Keep ids and max ranks in sync with the skill_traits seed rows */
+export const TRAITS: Record<TraitId, TraitSpec> = {
+  evidence_focus: {
+    name: "근거 집중",
+    maxRank: 3,
+    prompt: [
+      "주장마다 구체적인 사례나 수치를 하나 이상 제시하세요.",
+      "주장마다 구체적인 사례와 수치를 두 개 이상 제시하고, 가능하면 출처를 밝히세요.",
+      "근거 없는 주장은 하지 마세요. 모든 주장에 수치·사례·출처를 붙이고 상대 근거의 신뢰성을 따지세요.",
+    ],
+  },
+  rebuttal_specialist: {
+    name: "반박 전문가",
+    maxRank: 3,
+    prompt: [
+      "발언을 시작할 때 상대의 직전 주장 하나를 짚어 반박하세요.",
+      "상대의 직전 발언에서 핵심 주장을 그대로 인용한 뒤, 전제와 추론을 나눠 반박하세요.",
+      "상대 발언의 모든 핵심 주장을 순서대로 인용하고 각각의 허점을 반박한 다음에야 자신의 주장을 펼치세요.",
+    ],
+  },
+  closing_budget: {
+    name: "긴 최종 변론",
+    maxRank: 2,
+    prompt: [
+      "최종 변론에서는 400자 제한 대신 600자까지 쓰며 토론 전체를 종합하세요.",
+      "최종 변론에서는 400자 제한 대신 800자까지 쓰며 토론 전체를 종합하고 상대의 남은 논점을 정리하세요.",
+    ],
+    budgetPerRank: 0.5,
+    appliesTo: (turn) => turn.isFinal && turn.kind === "argument",
+  },
+  cross_examiner: {
+    name: "심문 전문가",
+    maxRank: 2,
+    prompt: [
+      "질문은 예/아니오로 답하기 어려운 모순을 겨냥하세요.",
+      "질문은 상대가 앞서 한 말과 모순되는 지점을 겨냥하고, 답변에서는 질문의 전제부터 공격하세요.",
+    ],
+    budgetPerRank: 0.25,
+    appliesTo: (turn) => turn.kind === "question" || turn.kind === "answer",
+  },
+};
+
+function rankOf(traits: AgentTraits, id: TraitId): number {
+  const rank = Math.floor(traits[id] ?? 0);
+  return Math.min(Math.max(rank, 0), TRAITS[id].maxRank);
+}
+
+/** Trait block for buildAgentPrompt; "" when the agent has no traits */
+export function traitPrompt(traits: AgentTraits): string {
+  const lines: string[] = [];
+  for (const id of Object.keys(TRAITS) as TraitId[]) {
+    const rank = rankOf(traits, id);
+    if (rank === 0) continue;
+    lines.push(`- ${TRAITS[id].name} ${rank}단계: ${TRAITS[id].prompt[rank - 1]}`);
+  }
+  return lines.join("\n");
+}
+
+/** A turn's max tokens after trait bonuses, capped at MAX_TURN_TOKENS */
+export function turnBudget(base: number, traits: AgentTraits, turn: TurnContext): number {
+  let share = 0;
+  for (const id of Object.keys(TRAITS) as TraitId[]) {
+    const spec = TRAITS[id];
+    if (!spec.budgetPerRank || !spec.appliesTo?.(turn)) continue;
+    share += spec.budgetPerRank * rankOf(traits, id);
+  }
+  return Math.min(MAX_TURN_TOKENS, Math.round(base * (1 + share)));
+}
+
+// ─── XP ───
+export function debateXp(result: MemoryResult, config: ProgressionConfig = DEFAULT_PROGRESSION): number {
+  if (result === "win") return config.xpWin;
+  if (result === "draw") return config.xpDraw;
+  return config.xpLoss;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createRng, gaussian, hashString, pick, randomInt } from "./random.ts";
+
+describe("hashString", () => {
+  it("is FNV-1a 32-bit", () => {
+    expect(hashString("")).toBe(0x811c9dc5);
+    expect(hashString("a")).toBe(0xe40c292c);
+    expect(hashString("agora")).toBe(2828667867);
+  });
+});
+
+describe("createRng", () => {
+  it("is mulberry32, stable across releases", () => {
+    const rng = createRng(42);
+    expect([rng(), rng(), rng()]).toEqual([0.6011037519201636, 0.44829055899754167, 0.8524657934904099]);
+  });
+
+  it("hashes string seeds", () => {
+    const rng = createRng("agora");
+    expect([rng(), rng()]).toEqual([0.39506814419291914, 0.24858855572529137]);
+    const same = createRng(hashString("agora"));
+    expect(same()).toBe(0.39506814419291914);
+  });
+
+  it("stays in [0, 1)", () => {
+    const rng = createRng("range");
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("helpers", () => {
+  it("randomInt covers both bounds", () => {
+    const rng = createRng(7);
+    const seen = new Set(Array.from({ length: 200 }, () => randomInt(rng, 1, 3)));
+    expect([...seen].sort()).toEqual([1, 2, 3]);
+  });
+
+  it("pick and gaussian replay from the seed", () => {
+    const items = ["a", "b", "c", "d"];
+    const first = createRng("pick");
+    const again = createRng("pick");
+    expect(pick(first, items)).toBe(pick(again, items));
+    expect(gaussian(first)).toBe(gaussian(again));
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * random.ts — Seeded Randomness
+ * ==============================
+ * Small deterministic PRNG helpers so simulations and the mock LLM
+ * provider can be replayed exactly from a seed.
+ */
+
+export type Rng = () => number;
+
+/** FNV-1a 32-bit string hash */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 — returns floats in [0, 1) */
+export function createRng(seed: number | string): Rng {
+  let state = typeof seed === "string" ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/** Standard normal draw (Box-Muller) */
+export function gaussian(rng: Rng): number {
+  const u = 1 - rng(); // (0, 1] so the log stays finite
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,159 @@
+/**
+ * schema.ts — Minimal Typed Schema Validator
+ * ===========================================
+ * Just enough to validate structured LLM output (judge verdicts, round
+ * scores, ...) without pulling a dependency into every Edge Function.
+ *
+ * Each schema parses `unknown` into a typed value or reports every issue
+ * with its path, e.g. `scores.agent1.logic: expected ≤ 10, got 12`.
+ */
+
+// ─── Types ───
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+export interface Schema<T> {
+  /** Validate `value`; `path` prefixes issue messages */
+  safeParse(value: unknown, path?: string): ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  constructor(readonly issues: string[]) {
+    super(issues.join("; "));
+    this.name = "SchemaError";
+  }
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown): T {
+  const result = schema.safeParse(value);
+  if (!result.ok) throw new SchemaError(result.issues);
+  return result.value;
+}
+
+// ─── Helpers ───
+function at(path: string, message: string): string {
+  return path ? `${path}: ${message}` : message;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (typeof value === "object") return "object";
+  return String(value);
+}
+
+// ─── Primitives ───
+export function number(opts: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    safeParse(value, path = "") {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return { ok: false, issues: [at(path, `expected number, got ${describe(value)}`)] };
+      }
+      const issues: string[] = [];
+      if (opts.integer && !Number.isInteger(value)) issues.push(at(path, `expected integer, got ${value}`));
+      if (opts.min !== undefined && value < opts.min) issues.push(at(path, `expected ≥ ${opts.min}, got ${value}`));
+      if (opts.max !== undefined && value > opts.max) issues.push(at(path, `expected ≤ ${opts.max}, got ${value}`));
+      return issues.length ? { ok: false, issues } : { ok: true, value };
+    },
+  };
+}
+
+export function string(opts: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  return {
+    safeParse(value, path = "") {
+      if (typeof value !== "string") {
+        return { ok: false, issues: [at(path, `expected string, got ${describe(value)}`)] };
+      }
+      const length = value.trim().length;
+      if (opts.minLength !== undefined && length < opts.minLength) {
+        return { ok: false, issues: [at(path, `expected at least ${opts.minLength} characters`)] };
+      }
+      if (opts.maxLength !== undefined && length > opts.maxLength) {
+        return { ok: false, issues: [at(path, `expected at most ${opts.maxLength} characters`)] };
+      }
+      return { ok: true, value };
+    },
+  };
+}
+
+export function literal<const T extends readonly (string | number | boolean)[]>(...values: T): Schema<T[number]> {
+  return {
+    safeParse(value, path = "") {
+      return values.includes(value as T[number])
+        ? { ok: true, value: value as T[number] }
+        : { ok: false, issues: [at(path, `expected one of ${values.map((v) => JSON.stringify(v)).join(" | ")}, got ${describe(value)}`)] };
+    },
+  };
+}
+
+/** Missing / null → `fallback` instead of an issue */
+export function optional<T, F = T>(schema: Schema<T>, fallback: F): Schema<T | F> {
+  return {
+    safeParse(value, path = "") {
+      return value === undefined || value === null ? { ok: true, value: fallback } : schema.safeParse(value, path);
+    },
+  };
+}
+
+// ─── Composites ───
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S,
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    safeParse(value, path = "") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return { ok: false, issues: [at(path, `expected object, got ${describe(value)}`)] };
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const issues: string[] = [];
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema.safeParse(input[key], path ? `${path}.${key}` : key);
+        if (result.ok) output[key] = result.value;
+        else issues.push(...result.issues);
+      }
+      return issues.length
+        ? { ok: false, issues }
+        : { ok: true, value: output as { [K in keyof S]: Infer<S[K]> } };
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, opts: { minLength?: number; maxLength?: number } = {}): Schema<T[]> {
+  return {
+    safeParse(value, path = "") {
+      if (!Array.isArray(value)) {
+        return { ok: false, issues: [at(path, `expected array, got ${describe(value)}`)] };
+      }
+      if (opts.minLength !== undefined && value.length < opts.minLength) {
+        return { ok: false, issues: [at(path, `expected at least ${opts.minLength} items`)] };
+      }
+      if (opts.maxLength !== undefined && value.length > opts.maxLength) {
+        return { ok: false, issues: [at(path, `expected at most ${opts.maxLength} items`)] };
+      }
+      const output: T[] = [];
+      const issues: string[] = [];
+      value.forEach((entry, index) => {
+        const result = item.safeParse(entry, `${path}[${index}]`);
+        if (result.ok) output.push(result.value);
+        else issues.push(...result.issues);
+      });
+      return issues.length ? { ok: false, issues } : { ok: true, value: output };
+    },
+  };
+}
+
+/** Cross-field check on an already-valid value (e.g. scores summing to 100) */
+export function refine<T>(schema: Schema<T>, check: (value: T) => boolean, message: string): Schema<T> {
+  return {
+    safeParse(value, path = "") {
+      const result = schema.safeParse(value, path);
+      if (!result.ok) return result;
+      return check(result.value) ? result : { ok: false, issues: [at(path, message)] };
+    },
+  };
+}
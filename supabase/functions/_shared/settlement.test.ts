@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyLossPrice,
+  applyWinPrice,
+  calculateDrawElo,
+  calculateElo,
+  DIVIDEND_PER_SHARE,
+  getTierFromElo,
+  planSettlement,
+  PRICE_FLOOR,
+  resolveOutcome,
+  type SettlementAgent,
+  type SettlementInput,
+  type SettlementStock,
+} from "./settlement.ts";
+
+function agent(overrides: Partial<SettlementAgent> = {}): SettlementAgent {
+  return {
+    id: "a1",
+    name: "Socrates",
+    elo_score: 1000,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    total_debates: 0,
+    ...overrides,
+  };
+}
+
+function stock(overrides: Partial<SettlementStock> = {}): SettlementStock {
+  return { id: "s1", current_price: 1000, total_shares: 1000, ...overrides };
+}
+
+function input(overrides: Partial<SettlementInput> = {}): SettlementInput {
+  return {
+    agent1: agent({ id: "w", name: "Winner" }),
+    agent2: agent({ id: "l", name: "Loser" }),
+    agent1Stock: stock({ id: "sw" }),
+    agent2Stock: stock({ id: "sl" }),
+    outcome: "agent1",
+    shareholders: [],
+    recentWins: 0,
+    ...overrides,
+  };
+}
+
+describe("calculateElo", () => {
+  it("splits K evenly at equal ELO", () => {
+    const result = calculateElo(1000, 1000);
+    expect(result.winnerDelta).toBe(16);
+    expect(result.loserDelta).toBe(-16);
+    expect(result.winnerElo).toBe(1016);
+    expect(result.loserElo).toBe(984);
+  });
+
+  it("gives a favourite a smaller gain than an underdog", () => {
+    const favourite = calculateElo(1400, 1000);
+    const underdog = calculateElo(1000, 1400);
+    expect(favourite.winnerDelta).toBeLessThan(16);
+    expect(underdog.winnerDelta).toBeGreaterThan(16);
+    expect(favourite.winnerDelta + underdog.winnerDelta).toBe(32);
+  });
+
+  it("respects a custom K factor", () => {
+    expect(calculateElo(1000, 1000, 64).winnerDelta).toBe(32);
+  });
+});
+
+describe("calculateDrawElo", () => {
+  it("leaves equal ratings unchanged", () => {
+    const result = calculateDrawElo(1000, 1000);
+    expect(result.agent1Delta).toBe(0);
+    expect(result.agent2Delta).toBe(0);
+  });
+
+  it("moves the underdog up and the favourite down", () => {
+    const result = calculateDrawElo(1000, 1400);
+    expect(result.agent1Delta).toBeGreaterThan(0);
+    expect(result.agent2Delta).toBeLessThan(0);
+    expect(result.agent1Delta + result.agent2Delta).toBe(0);
+  });
+});
+
+describe("resolveOutcome", () => {
+  const scores = (a: number, b: number) => ({
+    agent1: { logic: a, evidence: 7, persuasion: 7 },
+    agent2: { logic: b, evidence: 7, persuasion: 7 },
+  });
+
+  it("keeps the judge's winner on a clear margin", () => {
+    expect(resolveOutcome("agent2", scores(5, 9))).toBe("agent2");
+  });
+
+  it("turns near-equal totals into a draw", () => {
+    expect(resolveOutcome("agent1", scores(8, 7))).toBe("draw");
+  });
+
+  it("honours an explicit draw", () => {
+    expect(resolveOutcome("draw", scores(9, 4))).toBe("draw");
+  });
+});
+
+describe("getTierFromElo", () => {
+  it.each([
+    [999, "Bronze"],
+    [1100, "Silver"],
+    [1299, "Silver"],
+    [1300, "Gold"],
+    [1500, "Diamond"],
+    [1800, "Legend"],
+  ])("maps %i to %s", (elo, tier) => {
+    expect(getTierFromElo(elo)).toBe(tier);
+  });
+});
+
+describe("stock price moves", () => {
+  it("boosts a winner by 2%, or 4% on a streak", () => {
+    expect(applyWinPrice(stock(), false).current_price).toBeCloseTo(1020);
+    expect(applyWinPrice(stock(), true).current_price).toBeCloseTo(1040);
+    expect(applyWinPrice(stock(), true).price_change_24h).toBeCloseTo(4);
+  });
+
+  it("drops a loser by 1%", () => {
+    const update = applyLossPrice(stock());
+    expect(update.current_price).toBeCloseTo(990);
+    expect(update.price_change_24h).toBeCloseTo(-1);
+  });
+
+  it("reports the change against the price 24h ago when known", () => {
+    const update = applyWinPrice(stock({ price_24h_ago: 900 }), false);
+    expect(update.current_price).toBeCloseTo(1020);
+    expect(update.price_change_24h).toBeCloseTo(13.33, 2);
+  });
+
+  it("never drops a loser below the 100G floor", () => {
+    const update = applyLossPrice(stock({ current_price: 100.5 }));
+    expect(update.current_price).toBe(PRICE_FLOOR);
+  });
+
+  it("does not raise a stock that is already under the floor", () => {
+    const update = applyLossPrice(stock({ current_price: 50 }));
+    expect(update.current_price).toBe(50);
+    expect(update.price_change_24h).toBe(0);
+  });
+
+  it("sends the relative move and floor for settle_debate to apply", () => {
+    expect(applyWinPrice(stock(), true)).toMatchObject({ move_pct: 4, floor: null });
+    expect(applyLossPrice(stock())).toMatchObject({ move_pct: -1, floor: PRICE_FLOOR });
+  });
+
+  it("computes market cap from total_shares", () => {
+    const update = applyWinPrice(stock({ total_shares: 500 }), false);
+    expect(update.market_cap).toBeCloseTo(1020 * 500);
+  });
+});
+
+describe("planSettlement", () => {
+  it("updates ELO, tier and records for both agents", () => {
+    const plan = planSettlement(input({
+      agent1: agent({ id: "w", elo_score: 1090, wins: 4, total_debates: 6 }),
+      agent2: agent({ id: "l", elo_score: 1110, losses: 2, total_debates: 3 }),
+    }));
+    expect(plan.winnerId).toBe("w");
+    expect(plan.agents.agent1).toMatchObject({ id: "w", result: "win", wins: 5, losses: 0, total_debates: 7, tier: "Silver" });
+    expect(plan.agents.agent2).toMatchObject({ id: "l", result: "loss", wins: 0, losses: 3, total_debates: 4, tier: "Bronze" });
+    expect(plan.agents.agent1.elo_delta + plan.agents.agent2.elo_delta).toBe(0);
+  });
+
+  it("settles an agent2 win on the agent2 side", () => {
+    const plan = planSettlement(input({ outcome: "agent2" }));
+    expect(plan.winnerId).toBe("l");
+    expect(plan.agents.agent2.result).toBe("win");
+    expect(plan.stocks.agent2?.current_price).toBeCloseTo(1020);
+    expect(plan.stocks.agent1?.current_price).toBeCloseTo(990);
+  });
+
+  it("records a draw without stock moves or dividends", () => {
+    const plan = planSettlement(input({
+      outcome: "draw",
+      agent1: agent({ id: "w", draws: 2, total_debates: 5 }),
+      shareholders: [{ user_id: "u1", shares_owned: 10 }],
+    }));
+    expect(plan.winnerId).toBeNull();
+    expect(plan.agents.agent1).toMatchObject({ result: "draw", draws: 3, wins: 0, losses: 0, total_debates: 6 });
+    expect(plan.agents.agent2).toMatchObject({ result: "draw", draws: 1, elo_delta: 0 });
+    expect(plan.stocks).toEqual({ agent1: null, agent2: null });
+    expect(plan.dividends).toEqual([]);
+  });
+
+  it("treats the third win inside the window as a streak", () => {
+    expect(planSettlement(input({ recentWins: 1 })).isStreak).toBe(false);
+    const plan = planSettlement(input({ recentWins: 2 }));
+    expect(plan.isStreak).toBe(true);
+    expect(plan.stocks.agent1?.current_price).toBeCloseTo(1040);
+  });
+
+  it("pays dividends per share to the winner's shareholders only", () => {
+    const plan = planSettlement(input({
+      shareholders: [
+        { user_id: "u1", shares_owned: 10 },
+        { user_id: "u2", shares_owned: 0 },
+      ],
+    }));
+    expect(plan.dividends).toEqual([
+      {
+        user_id: "u1",
+        amount: 10 * DIVIDEND_PER_SHARE,
+        description: `Dividend: Winner wins (10 shares × ${DIVIDEND_PER_SHARE}G)`,
+      },
+    ]);
+  });
+
+  it("skips stock moves and dividends for unlisted agents", () => {
+    const plan = planSettlement(input({
+      agent1Stock: null,
+      agent2Stock: null,
+      shareholders: [{ user_id: "u1", shares_owned: 10 }],
+    }));
+    expect(plan.stocks).toEqual({ agent1: null, agent2: null });
+    expect(plan.dividends).toEqual([]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * settlement.ts — Debate Settlement (pure domain logic)
+ * ======================================================
+ * Turns a judged debate into a settlement plan: ELO and tier changes,
+ * win/loss/draw records, stock price moves and shareholder dividends.
+ *
+ * No I/O here — run-debate loads the inputs and applies the plan.
+ */
+
+// ─── Constants ───
+export const ELO_K_FACTOR = 32;
+export const WIN_PRICE_BOOST = 0.02; // +2% on a win
+export const STREAK_PRICE_BOOST = 0.04; // +4% on a streak win
+export const LOSS_PRICE_DROP = 0.01; // -1% on a loss
+export const PRICE_FLOOR = 100; // Losses never push a stock below 100G
+export const STREAK_THRESHOLD = 3; // 3+ wins within the window = streak
+export const STREAK_WINDOW_DAYS = 7;
+export const DIVIDEND_PER_SHARE = 5;
+/** Judge totals (logic + evidence + persuasion, 0-30) this close are a draw */
+export const DRAW_MARGIN = 1;
+
+// ─── Types ───
+export type Outcome = "agent1" | "agent2" | "draw";
+
+export interface SettlementAgent {
+  id: string;
+  name: string;
+  elo_score: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  total_debates: number;
+}
+
+export interface SettlementStock {
+  id: string;
+  current_price: number;
+  total_shares: number;
+  /** Rolling 24h reference from stock_market_stats (null before the first market-stats run) */
+  price_24h_ago?: number | null;
+}
+
+export interface Shareholder {
+  user_id: string;
+  shares_owned: number;
+}
+
+export interface SettlementInput {
+  agent1: SettlementAgent;
+  agent2: SettlementAgent;
+  agent1Stock: SettlementStock | null;
+  agent2Stock: SettlementStock | null;
+  outcome: Outcome;
+  /** Shareholders of the winner's stock (ignored on a draw) */
+  shareholders: Shareholder[];
+  /** Winner's completed wins inside the streak window, not counting this debate */
+  recentWins: number;
+}
+
+export interface AgentUpdate {
+  id: string;
+  result: "win" | "loss" | "draw";
+  elo_delta: number;
+  elo_score: number;
+  tier: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  total_debates: number;
+}
+
+/**
+ * settle_debate applies move_pct (and the floor) to the locked agent_stocks
+ * row, so trades and ticks during the debate are kept; the absolute fields
+ * preview the result at planning time.
+ */
+export interface StockUpdate {
+  id: string;
+  current_price: number;
+  market_cap: number;
+  price_change_24h: number;
+  move_pct: number;
+  /** Losses stop here (or at the current price if already below); null for wins */
+  floor: number | null;
+}
+
+export interface DividendPayout {
+  user_id: string;
+  amount: number;
+  description: string;
+}
+
+export interface SettlementPlan {
+  outcome: Outcome;
+  /** null on a draw (matches debates.winner_id) */
+  winnerId: string | null;
+  isStreak: boolean;
+  agents: { agent1: AgentUpdate; agent2: AgentUpdate };
+  stocks: { agent1: StockUpdate | null; agent2: StockUpdate | null };
+  dividends: DividendPayout[];
+}
+
+export interface JudgeScores {
+  logic: number;
+  evidence: number;
+  persuasion: number;
+}
+
+// ─── Outcome ───
+export function scoreTotal(scores: JudgeScores): number {
+  return scores.logic + scores.evidence + scores.persuasion;
+}
+
+/**
+ * Final outcome from a judge verdict. An explicit "draw", or totals within
+ * DRAW_MARGIN of each other, is a draw; otherwise the judge's winner stands.
+ */
+export function resolveOutcome(
+  winner: Outcome,
+  scores: { agent1: JudgeScores; agent2: JudgeScores },
+): Outcome {
+  if (winner === "draw") return "draw";
+  if (Math.abs(scoreTotal(scores.agent1) - scoreTotal(scores.agent2)) <= DRAW_MARGIN) return "draw";
+  return winner;
+}
+
+// ─── ELO Calculation ───
+/** Rating change for a player scoring `score` (1 win, 0.5 draw, 0 loss) */
+export function eloDelta(rating: number, opponent: number, score: number, K = ELO_K_FACTOR): number {
+  const expected = 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+  return Math.round(K * (score - expected));
+}
+
+export function calculateElo(winnerElo: number, loserElo: number, K = ELO_K_FACTOR) {
+  const expectedWin = 1 / (1 + Math.pow(10, (loserElo - winnerElo) / 400));
+  const expectedLose = 1 - expectedWin;
+  const winnerDelta = Math.round(K * (1 - expectedWin));
+  const loserDelta = Math.round(K * (0 - expectedLose));
+  return {
+    winnerElo: winnerElo + winnerDelta,
+    loserElo: loserElo + loserDelta,
+    winnerDelta,
+    loserDelta,
+  };
+}
+
+export function calculateDrawElo(agent1Elo: number, agent2Elo: number, K = ELO_K_FACTOR) {
+  const agent1Delta = eloDelta(agent1Elo, agent2Elo, 0.5, K);
+  const agent2Delta = eloDelta(agent2Elo, agent1Elo, 0.5, K);
+  return {
+    agent1Elo: agent1Elo + agent1Delta,
+    agent2Elo: agent2Elo + agent2Delta,
+    agent1Delta,
+    agent2Delta,
+  };
+}
+
+export function getTierFromElo(elo: number): string {
+  if (elo >= 1800) return "Legend";
+  if (elo >= 1500) return "Diamond";
+  if (elo >= 1300) return "Gold";
+  if (elo >= 1100) return "Silver";
+  return "Bronze";
+}
+
+// ─── Stock Moves ───
+function toStockUpdate(stock: SettlementStock, newPrice: number, movePct: number, floor: number | null): StockUpdate {
+  // Measured against the price 24h ago, not this move, so the rolling change survives settlement
+  const reference = stock.price_24h_ago && stock.price_24h_ago > 0 ? stock.price_24h_ago : stock.current_price;
+  return {
+    id: stock.id,
+    current_price: newPrice,
+    market_cap: newPrice * stock.total_shares,
+    price_change_24h: ((newPrice - reference) / reference) * 100,
+    move_pct: movePct,
+    floor,
+  };
+}
+
+export function applyWinPrice(stock: SettlementStock, isStreak: boolean): StockUpdate {
+  const boostRate = isStreak ? STREAK_PRICE_BOOST : WIN_PRICE_BOOST;
+  return toStockUpdate(stock, stock.current_price * (1 + boostRate), boostRate * 100, null);
+}
+
+export function applyLossPrice(stock: SettlementStock): StockUpdate {
+  const dropped = stock.current_price * (1 - LOSS_PRICE_DROP);
+  // A stock already under the floor (e.g. after market noise) must not jump up on a loss
+  const floor = Math.min(PRICE_FLOOR, stock.current_price);
+  return toStockUpdate(stock, Math.max(dropped, floor), -LOSS_PRICE_DROP * 100, PRICE_FLOOR);
+}
+
+// ─── Settlement Plan ───
+function agentUpdate(agent: SettlementAgent, result: AgentUpdate["result"], delta: number): AgentUpdate {
+  const elo = agent.elo_score + delta;
+  return {
+    id: agent.id,
+    result,
+    elo_delta: delta,
+    elo_score: elo,
+    tier: getTierFromElo(elo),
+    wins: agent.wins + (result === "win" ? 1 : 0),
+    losses: agent.losses + (result === "loss" ? 1 : 0),
+    draws: agent.draws + (result === "draw" ? 1 : 0),
+    total_debates: agent.total_debates + 1,
+  };
+}
+
+/**
+ * A draw moves neither stock and pays no dividends — nobody won the market
+ * over, so only ELO (0.5 score) and draw counts change.
+ */
+function planDraw(input: SettlementInput): SettlementPlan {
+  const elo = calculateDrawElo(input.agent1.elo_score, input.agent2.elo_score);
+  return {
+    outcome: "draw",
+    winnerId: null,
+    isStreak: false,
+    agents: {
+      agent1: agentUpdate(input.agent1, "draw", elo.agent1Delta),
+      agent2: agentUpdate(input.agent2, "draw", elo.agent2Delta),
+    },
+    stocks: { agent1: null, agent2: null },
+    dividends: [],
+  };
+}
+
+export function planSettlement(input: SettlementInput): SettlementPlan {
+  if (input.outcome === "draw") return planDraw(input);
+
+  const agent1Won = input.outcome === "agent1";
+  const winner = agent1Won ? input.agent1 : input.agent2;
+  const loser = agent1Won ? input.agent2 : input.agent1;
+  const winnerStock = agent1Won ? input.agent1Stock : input.agent2Stock;
+  const loserStock = agent1Won ? input.agent2Stock : input.agent1Stock;
+
+  const elo = calculateElo(winner.elo_score, loser.elo_score);
+  const isStreak = input.recentWins + 1 >= STREAK_THRESHOLD;
+
+  const winnerUpdate = agentUpdate(winner, "win", elo.winnerDelta);
+  const loserUpdate = agentUpdate(loser, "loss", elo.loserDelta);
+  const winnerStockUpdate = winnerStock ? applyWinPrice(winnerStock, isStreak) : null;
+  const loserStockUpdate = loserStock ? applyLossPrice(loserStock) : null;
+
+  const dividends = winnerStock
+    ? input.shareholders
+      .filter((holder) => holder.shares_owned > 0)
+      .map((holder) => ({
+        user_id: holder.user_id,
+        amount: holder.shares_owned * DIVIDEND_PER_SHARE,
+        description: `Dividend: ${winner.name} wins (${holder.shares_owned} shares × ${DIVIDEND_PER_SHARE}G)`,
+      }))
+    : [];
+
+  return {
+    outcome: input.outcome,
+    winnerId: winner.id,
+    isStreak,
+    agents: agent1Won
+      ? { agent1: winnerUpdate, agent2: loserUpdate }
+      : { agent1: loserUpdate, agent2: winnerUpdate },
+    stocks: agent1Won
+      ? { agent1: winnerStockUpdate, agent2: loserStockUpdate }
+      : { agent1: loserStockUpdate, agent2: winnerStockUpdate },
+    dividends,
+  };
+}
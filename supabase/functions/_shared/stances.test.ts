@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { assignStances, resolveStanceMethod, stanceBrief } from "./stances.ts";
+
+describe("assignStances", () => {
+  it("always puts the agents on opposite sides", () => {
+    for (const roll of [0, 0.49, 0.5, 0.99]) {
+      const { agent1, agent2 } = assignStances("rationalism", "rationalism", "random", () => roll);
+      expect(agent1).not.toBe(agent2);
+    }
+  });
+
+  it("gives pro to the faction leaning towards the proposition", () => {
+    expect(assignStances("pragmatism", "idealism", "affinity")).toEqual({
+      agent1: "con",
+      agent2: "pro",
+      method: "affinity",
+    });
+    expect(assignStances("합리주의", "경험주의", "affinity").agent1).toBe("pro");
+  });
+
+  it("falls back to a coin flip for equal leanings", () => {
+    const assignment = assignStances("unknown", "other", "affinity", () => 0.7);
+    expect(assignment).toEqual({ agent1: "con", agent2: "pro", method: "random" });
+  });
+});
+
+describe("stanceBrief", () => {
+  it("uses the topic's stance text, or a generic line", () => {
+    expect(stanceBrief("con", { pro_stance: "Yes.", con_stance: "No." }).position).toBe("No.");
+    expect(stanceBrief("pro", null).position).toContain("찬성");
+  });
+});
+
+describe("resolveStanceMethod", () => {
+  it("defaults to random", () => {
+    expect(resolveStanceMethod(() => undefined)).toBe("random");
+    expect(resolveStanceMethod(() => "affinity")).toBe("affinity");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * stances.ts — Pro/Con Stance Assignment (pure domain logic)
+ * ===========================================================
+ * Every debate puts its agents on opposite sides of the topic. run-debate
+ * assigns the sides once per debate (stored as debates.agent1_stance /
+ * agent2_stance) and injects them into the agent and turn prompts.
+ *
+ * STANCE_ASSIGNMENT:
+ * - "random" (default): a coin flip
+ * - "affinity": the agent whose faction leans more towards the proposition
+ *   (FACTION_PRO_AFFINITY) argues pro; equal leanings fall back to a coin flip
+ *
+ * Stance text comes from the topic catalogue (pro_stance / con_stance);
+ * free-text topics get a generic "for / against the proposition" line.
+ */
+
+import type { EnvGetter } from "./llm.ts";
+
+// ─── Types ───
+export type Stance = "pro" | "con";
+export type StanceMethod = "random" | "affinity";
+
+export interface StanceAssignment {
+  agent1: Stance;
+  agent2: Stance;
+  method: StanceMethod;
+}
+
+/** What an agent is told about its side */
+export interface StanceBrief {
+  stance: Stance;
+  /** The position to defend, e.g. the topic's pro_stance */
+  position: string;
+}
+
+// ─── Config ───
+/**
+ * How strongly a faction leans towards arguing for a proposition (change,
+ * ambition) rather than against it (caution, the status quo).
+ * Unknown factions are neutral (0).
+ */
+export const FACTION_PRO_AFFINITY: Record<string, number> = {
+  idealism: 2,
+  "이상주의": 2,
+  rationalism: 1,
+  "합리주의": 1,
+  "진보": 1,
+  Socialist: 1,
+  empiricism: -1,
+  "경험주의": -1,
+  "윤리연합": -1,
+  pragmatism: -2,
+  "실용주의": -2,
+  "보수": -2,
+  Libertarian: -1,
+};
+
+export function resolveStanceMethod(env: EnvGetter): StanceMethod {
+  return env("STANCE_ASSIGNMENT") === "affinity" ? "affinity" : "random";
+}
+
+export function oppositeStance(stance: Stance): Stance {
+  return stance === "pro" ? "con" : "pro";
+}
+
+export function factionAffinity(faction: string): number {
+  return FACTION_PRO_AFFINITY[faction] ?? 0;
+}
+
+// ─── Assignment ───
+export function assignStances(
+  faction1: string,
+  faction2: string,
+  method: StanceMethod,
+  random: () => number = Math.random,
+): StanceAssignment {
+  if (method === "affinity") {
+    const diff = factionAffinity(faction1) - factionAffinity(faction2);
+    if (diff !== 0) {
+      const agent1: Stance = diff > 0 ? "pro" : "con";
+      return { agent1, agent2: oppositeStance(agent1), method };
+    }
+  }
+  const agent1: Stance = random() < 0.5 ? "pro" : "con";
+  return { agent1, agent2: oppositeStance(agent1), method: "random" };
+}
+
+/** Position text for a stance; generic when the topic has no stance text */
+export function stanceBrief(
+  stance: Stance,
+  topic: { pro_stance?: string | null; con_stance?: string | null } | null,
+): StanceBrief {
+  const text = stance === "pro" ? topic?.pro_stance : topic?.con_stance;
+  return {
+    stance,
+    position: text?.trim() || (stance === "pro" ? "주제의 명제에 찬성합니다." : "주제의 명제에 반대합니다."),
+  };
+}
+
+export function stanceLabel(stance: Stance): string {
+  return stance === "pro" ? "찬성" : "반대";
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { GenerateRequest, LlmProvider } from "./llm.ts";
+import { number, object } from "./schema.ts";
+import { generateStructured, StructuredOutputError, type StructuredFailure } from "./structured.ts";
+
+/** Provider replaying canned responses and remembering the prompts it saw */
+function scripted(responses: string[]) {
+  const requests: GenerateRequest[] = [];
+  const llm: LlmProvider = {
+    name: "scripted",
+    generateText(req) {
+      requests.push(req);
+      return Promise.resolve(responses[requests.length - 1] ?? "");
+    },
+    generateJson() {
+      return Promise.reject(new Error("not used"));
+    },
+  };
+  return { llm, requests };
+}
+
+const schema = object({ score: number({ min: 0, max: 10 }) });
+const req = { task: "test_task", prompt: "score it" };
+
+describe("generateStructured", () => {
+  it("returns a valid first answer without retries", async () => {
+    const { llm, requests } = scripted(['Sure: {"score": 7}']);
+    const failures: StructuredFailure[] = [];
+    await expect(generateStructured(llm, req, schema, { onFailure: (f) => void failures.push(f) }))
+      .resolves.toEqual({ score: 7 });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].json).toBe(true);
+    expect(failures).toEqual([]);
+  });
+
+  it("repairs an out-of-range answer and records the failure as repaired", async () => {
+    const { llm, requests } = scripted(['{"score": 12}', '{"score": 9}']);
+    const failures: StructuredFailure[] = [];
+    await expect(generateStructured(llm, req, schema, { onFailure: (f) => void failures.push(f) }))
+      .resolves.toEqual({ score: 9 });
+
+    expect(requests[1].prompt).toContain("score: expected ≤ 10, got 12");
+    expect(requests[1].prompt).toContain('{"score": 12}');
+    expect(failures).toEqual([
+      expect.objectContaining({ task: "test_task", attempt: 1, stage: "schema", repaired: true }),
+    ]);
+  });
+
+  it("throws after exhausting repairs and records every attempt", async () => {
+    const { llm } = scripted(["not json at all", '{"score": "high"}']);
+    const failures: StructuredFailure[] = [];
+    const result = generateStructured(llm, req, schema, { maxRepairs: 1, onFailure: (f) => void failures.push(f) });
+
+    await expect(result).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(failures.map((f) => [f.attempt, f.stage, f.repaired])).toEqual([
+      [1, "parse", false],
+      [2, "schema", false],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * structured.ts — Schema-Validated LLM Output
+ * ============================================
+ * generateStructured() asks the model for JSON, validates it against a
+ * schema (see schema.ts) and, when parsing or validation fails, retries
+ * with a repair prompt that shows the model its own output and the issues.
+ *
+ * Every failed attempt is reported through `onFailure` (run-debate stores
+ * them in llm_output_failures) so misbehaving judges are visible.
+ */
+
+import { extractJson, type GenerateRequest, type LlmProvider } from "./llm.ts";
+import type { Schema } from "./schema.ts";
+
+// ─── Types ───
+export interface StructuredFailure {
+  task: string;
+  provider: string;
+  /** 1 = first call, 2+ = repair retries */
+  attempt: number;
+  stage: "parse" | "schema";
+  issues: string[];
+  raw: string;
+  /** true when a later attempt produced a valid value */
+  repaired: boolean;
+}
+
+export interface StructuredOptions {
+  /** Repair retries after the first attempt (default 1) */
+  maxRepairs?: number;
+  onFailure?: (failure: StructuredFailure) => void | Promise<void>;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(readonly task: string, readonly failures: StructuredFailure[]) {
+    super(`${task}: no valid output after ${failures.length} attempts (${failures.at(-1)?.issues.join("; ")})`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/** Stored raw output is capped — enough to debug, not a second transcript */
+export const MAX_RAW_LENGTH = 2000;
+
+// ─── Repair Prompt ───
+export function buildRepairPrompt(original: string, raw: string, issues: string[]): string {
+  return `${original}
+
+[응답 오류]
+이전 응답이 요구된 JSON 형식을 지키지 않았습니다.
+이전 응답:
+${raw.slice(0, MAX_RAW_LENGTH)}
+
+문제:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+위 문제를 모두 고친 JSON 객체 하나만 다시 응답하세요. 설명이나 코드 블록 없이 JSON만 출력하세요.`;
+}
+
+// ─── Generate ───
+export async function generateStructured<T>(
+  llm: LlmProvider,
+  req: GenerateRequest,
+  schema: Schema<T>,
+  options: StructuredOptions = {},
+): Promise<T> {
+  const task = req.task ?? "structured";
+  const attempts = 1 + Math.max(0, options.maxRepairs ?? 1);
+  const failures: StructuredFailure[] = [];
+  let prompt = req.prompt;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const raw = await llm.generateText({ ...req, prompt, json: true });
+
+    let parsed: unknown;
+    let stage: StructuredFailure["stage"] = "parse";
+    let issues: string[];
+    try {
+      parsed = extractJson(raw);
+      stage = "schema";
+      const result = schema.safeParse(parsed);
+      if (result.ok) {
+        for (const failure of failures) {
+          failure.repaired = true;
+          await options.onFailure?.(failure);
+        }
+        return result.value;
+      }
+      issues = result.issues;
+    } catch (e) {
+      issues = [`invalid JSON: ${e instanceof Error ? e.message : String(e)}`];
+    }
+
+    failures.push({
+      task,
+      provider: llm.name,
+      attempt,
+      stage,
+      issues,
+      raw: raw.slice(0, MAX_RAW_LENGTH),
+      repaired: false,
+    });
+    prompt = buildRepairPrompt(req.prompt, raw, issues);
+  }
+
+  for (const failure of failures) await options.onFailure?.(failure);
+  throw new StructuredOutputError(task, failures);
+}
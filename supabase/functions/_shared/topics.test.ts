@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  blockedTopics,
+  DEFAULT_TOPIC_SELECTION,
+  pickProposal,
+  pickTopic,
+  resolveTopicSelectionConfig,
+  type Topic,
+  type TopicProposal,
+  type TopicUse,
+} from "./topics.ts";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const hoursAgo = (hours: number) => NOW - hours * 60 * 60 * 1000;
+
+const topic = (id: string, overrides: Partial<Topic> = {}): Topic => ({
+  id,
+  title: `Topic ${id}`,
+  category: "society",
+  language: "ko",
+  difficulty: "medium",
+  pro_stance: "pro",
+  con_stance: "con",
+  usage_count: 0,
+  ...overrides,
+});
+
+const use = (topic_id: string, hours: number, agent1_id = "x", agent2_id = "y"): TopicUse => ({
+  topic_id,
+  agent1_id,
+  agent2_id,
+  started_at: hoursAgo(hours),
+});
+
+describe("blockedTopics", () => {
+  it("blocks globally recent topics and each agent's last debates", () => {
+    const uses = [use("t1", 1), use("t2", 100, "a", "z"), use("t3", 200, "a", "z"), use("t4", 300, "b", "z")];
+    const { recent, byAgents } = blockedTopics(uses, ["a", "b"], NOW, { ...DEFAULT_TOPIC_SELECTION, agentRepeatDebates: 1 });
+
+    expect([...recent]).toEqual(["t1"]);
+    expect([...byAgents].sort()).toEqual(["t2", "t4"]);
+  });
+});
+
+describe("pickTopic", () => {
+  it("only draws topics outside the no-repeat windows in the configured language", () => {
+    const topics = [topic("recent"), topic("agent"), topic("english", { language: "en" }), topic("ok")];
+    const uses = [use("recent", 2), use("agent", 500, "a", "z")];
+
+    for (const roll of [0, 0.5, 0.99]) {
+      expect(pickTopic(topics, uses, ["a", "b"], NOW, DEFAULT_TOPIC_SELECTION, () => roll)?.id).toBe("ok");
+    }
+  });
+
+  it("favours rarely used topics", () => {
+    const topics = [topic("worn", { usage_count: 9 }), topic("rare", { usage_count: 0 })];
+    // weights 0.1 and 1 → a roll below 1/11 picks "worn"
+    expect(pickTopic(topics, [], [], NOW, DEFAULT_TOPIC_SELECTION, () => 0.05)?.id).toBe("worn");
+    expect(pickTopic(topics, [], [], NOW, DEFAULT_TOPIC_SELECTION, () => 0.2)?.id).toBe("rare");
+  });
+
+  it("relaxes the windows rather than returning nothing", () => {
+    const topics = [topic("t1"), topic("t2")];
+    const uses = [use("t1", 1), use("t2", 1, "a", "z")];
+    expect(pickTopic(topics, uses, ["a"], NOW, DEFAULT_TOPIC_SELECTION, () => 0)?.id).toBe("t1");
+    expect(pickTopic([topic("en", { language: "en" })], [], [], NOW)).toBeNull();
+  });
+});
+
+describe("pickProposal", () => {
+  const proposal = (id: string, votes: number, createdHoursAgo: number): TopicProposal => ({
+    id,
+    agent_id: "a",
+    topic: `Proposal ${id}`,
+    votes,
+    created_at: hoursAgo(createdHoursAgo),
+  });
+
+  it("takes the top-voted proposal, older first on ties", () => {
+    const picked = pickProposal([proposal("low", 5, 10), proposal("new", 40, 1), proposal("old", 40, 5)]);
+    expect(picked?.id).toBe("old");
+  });
+
+  it("ignores proposals below the vote threshold", () => {
+    const config = { ...DEFAULT_TOPIC_SELECTION, proposalMinVotes: 50 };
+    expect(pickProposal([proposal("p", 40, 1)], config)).toBeNull();
+    expect(pickProposal([proposal("p", 0, 1)])).toBeNull();
+  });
+});
+
+describe("resolveTopicSelectionConfig", () => {
+  it("reads env overrides", () => {
+    const env: Record<string, string> = { TOPIC_LANGUAGE: "en", TOPIC_REPEAT_HOURS: "12" };
+    const config = resolveTopicSelectionConfig((key) => env[key]);
+    expect(config).toEqual({ language: "en", repeatHours: 12, agentRepeatDebates: 10, proposalMinVotes: 1 });
+  });
+});
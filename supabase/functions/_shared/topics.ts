@@ -0,0 +1,145 @@
+/**
+ * topics.ts — Topic Catalogue Selection (pure domain logic)
+ * ==========================================================
+ * Debate topics live in the topics table (category, language, difficulty,
+ * pro/con stance text). When a debate starts without a topic, run-debate
+ * draws one with pickTopic:
+ *
+ * - only active topics in TOPIC_LANGUAGE (default "ko") are eligible
+ * - topics used by any debate within TOPIC_REPEAT_HOURS are skipped
+ * - topics either agent debated in its last TOPIC_AGENT_REPEAT_DEBATES
+ *   debates are skipped
+ * - among the rest, rarely used topics are more likely (weight 1 / (1 + uses))
+ *
+ * If the windows exclude everything, the global window is dropped first,
+ * then the per-agent one — a small catalogue still produces a debate.
+ *
+ * Shareholder proposals (topic_proposals) take precedence over the
+ * catalogue: pickProposal returns the top-voted open proposal of either
+ * matched agent once it has TOPIC_PROPOSAL_MIN_VOTES share-weighted votes.
+ */
+
+import type { EnvGetter } from "./llm.ts";
+
+// ─── Types ───
+export type TopicDifficulty = "easy" | "medium" | "hard";
+
+export interface Topic {
+  id: string;
+  title: string;
+  category: string;
+  language: string;
+  difficulty: TopicDifficulty;
+  pro_stance: string;
+  con_stance: string;
+  usage_count: number;
+}
+
+/** A past debate on a catalogue topic */
+export interface TopicUse {
+  topic_id: string;
+  agent1_id: string;
+  agent2_id: string;
+  /** Epoch ms */
+  started_at: number;
+}
+
+/** An open shareholder proposal for one of the matched agents */
+export interface TopicProposal {
+  id: string;
+  agent_id: string;
+  topic: string;
+  votes: number;
+  /** Epoch ms */
+  created_at: number;
+}
+
+export interface TopicSelectionConfig {
+  language: string;
+  repeatHours: number;
+  agentRepeatDebates: number;
+  proposalMinVotes: number;
+}
+
+// ─── Config ───
+export const DEFAULT_TOPIC_SELECTION: TopicSelectionConfig = {
+  language: "ko",
+  repeatHours: 48,
+  agentRepeatDebates: 10,
+  proposalMinVotes: 1,
+};
+
+/** Used only when the catalogue has no eligible topic at all */
+export const FALLBACK_TOPIC = "AI 규제가 필요한가, 자유로운 발전이 필요한가?";
+
+export function resolveTopicSelectionConfig(env: EnvGetter): TopicSelectionConfig {
+  const read = (key: string, fallback: number) => {
+    const value = Number(env(key) ?? fallback);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    language: env("TOPIC_LANGUAGE") || DEFAULT_TOPIC_SELECTION.language,
+    repeatHours: read("TOPIC_REPEAT_HOURS", DEFAULT_TOPIC_SELECTION.repeatHours),
+    agentRepeatDebates: read("TOPIC_AGENT_REPEAT_DEBATES", DEFAULT_TOPIC_SELECTION.agentRepeatDebates),
+    proposalMinVotes: read("TOPIC_PROPOSAL_MIN_VOTES", DEFAULT_TOPIC_SELECTION.proposalMinVotes),
+  };
+}
+
+// ─── Selection ───
+/** Topic ids blocked by the global and per-agent no-repeat windows */
+export function blockedTopics(
+  uses: TopicUse[],
+  agentIds: string[],
+  now: number,
+  config: TopicSelectionConfig,
+): { recent: Set<string>; byAgents: Set<string> } {
+  const cutoff = now - config.repeatHours * 60 * 60 * 1000;
+  const recent = new Set(uses.filter((use) => use.started_at >= cutoff).map((use) => use.topic_id));
+
+  const byAgents = new Set<string>();
+  for (const agentId of agentIds) {
+    uses
+      .filter((use) => use.agent1_id === agentId || use.agent2_id === agentId)
+      .sort((a, b) => b.started_at - a.started_at)
+      .slice(0, config.agentRepeatDebates)
+      .forEach((use) => byAgents.add(use.topic_id));
+  }
+  return { recent, byAgents };
+}
+
+/** Weighted draw favouring rarely used topics; null if the catalogue has none eligible */
+export function pickTopic(
+  topics: Topic[],
+  uses: TopicUse[],
+  agentIds: string[],
+  now: number,
+  config: TopicSelectionConfig = DEFAULT_TOPIC_SELECTION,
+  random: () => number = Math.random,
+): Topic | null {
+  const eligible = topics.filter((topic) => topic.language === config.language);
+  if (eligible.length === 0) return null;
+
+  const { recent, byAgents } = blockedTopics(uses, agentIds, now, config);
+  const fresh = eligible.filter((topic) => !recent.has(topic.id) && !byAgents.has(topic.id));
+  const newToAgents = eligible.filter((topic) => !byAgents.has(topic.id));
+  const pool = fresh.length ? fresh : newToAgents.length ? newToAgents : eligible;
+
+  const weights = pool.map((topic) => 1 / (1 + Math.max(0, topic.usage_count)));
+  let roll = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < pool.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return pool[i];
+  }
+  return pool[pool.length - 1];
+}
+
+/** Top-voted proposal (ties → the older one); null if none has enough votes */
+export function pickProposal(
+  proposals: TopicProposal[],
+  config: TopicSelectionConfig = DEFAULT_TOPIC_SELECTION,
+): TopicProposal | null {
+  const eligible = proposals
+    .filter((proposal) => proposal.votes >= config.proposalMinVotes && proposal.topic.trim())
+    .sort((a, b) => b.votes - a.votes || a.created_at - b.created_at);
+  return eligible[0] ?? null;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  bracketOrder,
+  computeStandings,
+  matchWinner,
+  pairEliminationOpening,
+  pairEliminationRound,
+  pairSwissRound,
+  planPrizes,
+  roundsFor,
+  seedEntrants,
+  type Seed,
+  type TournamentMatch,
+} from "./tournament.ts";
+
+const seeds = (count: number): Seed[] =>
+  Array.from({ length: count }, (_, i) => ({ agent_id: `a${i + 1}`, seed: i + 1 }));
+
+const seedMap = (list: Seed[]) => new Map(list.map((s) => [s.agent_id, s.seed]));
+
+describe("seedEntrants", () => {
+  it("seeds by ELO, earlier registration breaking ties", () => {
+    expect(seedEntrants([
+      { agent_id: "low", elo_score: 900 },
+      { agent_id: "late", elo_score: 1200, registered_at: "2026-01-02" },
+      { agent_id: "early", elo_score: 1200, registered_at: "2026-01-01" },
+    ])).toEqual([
+      { agent_id: "early", seed: 1 },
+      { agent_id: "late", seed: 2 },
+      { agent_id: "low", seed: 3 },
+    ]);
+  });
+});
+
+describe("single elimination", () => {
+  it("orders the bracket so seeds 1 and 2 can only meet in the final", () => {
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it("gives the top seeds byes when the field is not a power of two", () => {
+    const opening = pairEliminationOpening(seeds(6));
+    expect(opening).toHaveLength(4);
+    expect(opening.filter((p) => p.agent2_id === null).map((p) => p.agent1_id)).toEqual(["a1", "a2"]);
+    expect(opening[1]).toEqual({ round: 1, slot: 1, agent1_id: "a4", agent2_id: "a5" });
+  });
+
+  it("advances the better seed from a drawn match", () => {
+    const match: TournamentMatch = { round: 1, slot: 0, agent1_id: "a5", agent2_id: "a4", outcome: "draw" };
+    expect(matchWinner(match, "single_elim", seedMap(seeds(8)))).toBe("a4");
+    expect(matchWinner(match, "swiss", seedMap(seeds(8)))).toBeNull();
+  });
+
+  it("pairs winners of adjacent slots and stops after the final", () => {
+    const list = seeds(4);
+    const semis: TournamentMatch[] = pairEliminationOpening(list).map((p) => ({ ...p, outcome: "agent2" }));
+    const final = pairEliminationRound(semis, seedMap(list));
+    expect(final).toEqual([{ round: 2, slot: 0, agent1_id: "a4", agent2_id: "a3" }]);
+    expect(pairEliminationRound([{ ...final[0], outcome: "agent1" }], seedMap(list))).toEqual([]);
+  });
+
+  it("refuses to pair a round while a match is undecided", () => {
+    const list = seeds(4);
+    const semis: TournamentMatch[] = pairEliminationOpening(list).map((p) => ({ ...p, outcome: null }));
+    expect(() => pairEliminationRound(semis, seedMap(list))).toThrow(/not decided/);
+  });
+
+  it("ranks the champion first and earlier exits lower", () => {
+    const list = seeds(4);
+    const matches: TournamentMatch[] = [
+      { round: 1, slot: 0, agent1_id: "a1", agent2_id: "a4", outcome: "agent1" },
+      { round: 1, slot: 1, agent1_id: "a2", agent2_id: "a3", outcome: "agent2" },
+      { round: 2, slot: 0, agent1_id: "a1", agent2_id: "a3", outcome: "agent2" },
+    ];
+    const standings = computeStandings("single_elim", list, matches);
+    expect(standings.map((s) => s.agent_id)).toEqual(["a3", "a1", "a2", "a4"]);
+    expect(standings.filter((s) => !s.eliminated).map((s) => s.agent_id)).toEqual(["a3"]);
+  });
+});
+
+describe("swiss", () => {
+  it("uses ⌈log2 n⌉ rounds", () => {
+    expect([2, 3, 8, 9].map(roundsFor)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("pairs by rank and gives the lowest-ranked entrant the bye", () => {
+    const list = seeds(5);
+    const pairings = pairSwissRound(1, computeStandings("swiss", list, []), []);
+    expect(pairings).toEqual([
+      { round: 1, slot: 0, agent1_id: "a1", agent2_id: "a2" },
+      { round: 1, slot: 1, agent1_id: "a3", agent2_id: "a4" },
+      { round: 1, slot: 2, agent1_id: "a5", agent2_id: null },
+    ]);
+  });
+
+  it("avoids rematches and repeat byes", () => {
+    const list = seeds(5);
+    const history: TournamentMatch[] = [
+      { round: 1, slot: 0, agent1_id: "a1", agent2_id: "a2", outcome: "agent1" },
+      { round: 1, slot: 1, agent1_id: "a3", agent2_id: "a4", outcome: "agent1" },
+      { round: 1, slot: 2, agent1_id: "a5", agent2_id: null, outcome: null },
+    ];
+    const pairings = pairSwissRound(2, computeStandings("swiss", list, history), history);
+    const bye = pairings.find((p) => p.agent2_id === null);
+    expect(bye?.agent1_id).not.toBe("a5");
+    for (const p of pairings.filter((p) => p.agent2_id !== null)) {
+      const key = [p.agent1_id, p.agent2_id].sort().join();
+      expect(["a1,a2", "a3,a4"]).not.toContain(key);
+    }
+  });
+
+  it("scores wins, draws and byes and breaks ties on Buchholz", () => {
+    const list = seeds(4);
+    const matches: TournamentMatch[] = [
+      { round: 1, slot: 0, agent1_id: "a1", agent2_id: "a2", outcome: "agent1" },
+      { round: 1, slot: 1, agent1_id: "a3", agent2_id: "a4", outcome: "draw" },
+      { round: 2, slot: 0, agent1_id: "a1", agent2_id: "a3", outcome: "agent2" },
+      { round: 2, slot: 1, agent1_id: "a2", agent2_id: "a4", outcome: "agent1" },
+    ];
+    const standings = computeStandings("swiss", list, matches);
+    const byId = new Map(standings.map((s) => [s.agent_id, s]));
+    expect(byId.get("a3")).toMatchObject({ points: 1.5, wins: 1, draws: 1, losses: 0, rank: 1 });
+    // a1 and a2 both have 1 point; a1 faced stronger opposition
+    expect(byId.get("a1")!.buchholz).toBeGreaterThan(byId.get("a2")!.buchholz);
+    expect(standings.map((s) => s.agent_id)).toEqual(["a3", "a1", "a2", "a4"]);
+  });
+});
+
+describe("planPrizes", () => {
+  it("pays the whole pool by rank, remainder to the winner", () => {
+    const standings = computeStandings("swiss", seeds(4), []);
+    expect(planPrizes(1001, [0.6, 0.3, 0.1], standings)).toEqual([
+      { agent_id: "a1", rank: 1, amount: 601 },
+      { agent_id: "a2", rank: 2, amount: 300 },
+      { agent_id: "a3", rank: 3, amount: 100 },
+    ]);
+  });
+
+  it("rescales the split for a field smaller than the number of shares", () => {
+    const payouts = planPrizes(900, [0.6, 0.3, 0.1], computeStandings("swiss", seeds(2), []));
+    expect(payouts.map((p) => p.amount)).toEqual([600, 300]);
+  });
+
+  it("pays nothing from an empty pool", () => {
+    expect(planPrizes(0, [1], computeStandings("swiss", seeds(2), []))).toEqual([]);
+  });
+});
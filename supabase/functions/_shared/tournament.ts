@@ -0,0 +1,308 @@
+/**
+ * tournament.ts — Tournaments (pure domain logic)
+ * ================================================
+ * Seeding, pairings, standings and prize plans for the two tournament
+ * formats. No I/O here — tournament-runner loads entries/matches, calls
+ * these and writes the result back.
+ *
+ * - swiss:       every entrant plays every round; pairs are drawn inside
+ *                score groups, rematches are avoided and an odd entrant
+ *                out gets a bye (worth a win). Ties break on Buchholz.
+ * - single_elim: a seeded bracket (1 v N, 2 v N-1, ...) padded with byes
+ *                for the top seeds; a drawn match advances the better seed.
+ */
+
+import type { Outcome } from "./settlement.ts";
+
+// ─── Types ───
+export type TournamentFormat = "swiss" | "single_elim";
+
+export interface Entrant {
+  agent_id: string;
+  elo_score: number;
+  /** Earlier registration wins an ELO tie */
+  registered_at?: string;
+}
+
+export interface Seed {
+  agent_id: string;
+  /** 1 = strongest */
+  seed: number;
+}
+
+export interface Pairing {
+  round: number;
+  slot: number;
+  agent1_id: string;
+  /** null = bye */
+  agent2_id: string | null;
+}
+
+export interface TournamentMatch extends Pairing {
+  /** null until the debate is judged (always null for a bye) */
+  outcome: Outcome | null;
+}
+
+export interface Standing {
+  agent_id: string;
+  seed: number;
+  points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  byes: number;
+  /** Sum of the points of every opponent faced */
+  buchholz: number;
+  eliminated: boolean;
+  rank: number;
+}
+
+export interface PrizePayout {
+  agent_id: string;
+  rank: number;
+  amount: number;
+}
+
+// ─── Constants ───
+export const WIN_POINTS = 1;
+export const DRAW_POINTS = 0.5;
+export const DEFAULT_PRIZE_SPLIT = [0.6, 0.3, 0.1];
+
+// ─── Seeding ───
+export function seedEntrants(entrants: Entrant[]): Seed[] {
+  return [...entrants]
+    .sort((a, b) =>
+      b.elo_score - a.elo_score ||
+      (a.registered_at ?? "").localeCompare(b.registered_at ?? "") ||
+      a.agent_id.localeCompare(b.agent_id)
+    )
+    .map((entrant, index) => ({ agent_id: entrant.agent_id, seed: index + 1 }));
+}
+
+/** Rounds needed to find a winner: ⌈log2 n⌉ (also the default Swiss length) */
+export function roundsFor(entrantCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(entrantCount, 2))));
+}
+
+// ─── Match Results ───
+/** Agent that advances from a match, or null if it is unplayed (Swiss draws also give null) */
+export function matchWinner(
+  match: TournamentMatch,
+  format: TournamentFormat,
+  seeds: Map<string, number>,
+): string | null {
+  if (match.agent2_id === null) return match.agent1_id;
+  if (match.outcome === "agent1") return match.agent1_id;
+  if (match.outcome === "agent2") return match.agent2_id;
+  if (match.outcome === "draw" && format === "single_elim") {
+    const seed1 = seeds.get(match.agent1_id) ?? Infinity;
+    const seed2 = seeds.get(match.agent2_id) ?? Infinity;
+    return seed1 <= seed2 ? match.agent1_id : match.agent2_id;
+  }
+  return null;
+}
+
+export function isDecided(match: TournamentMatch): boolean {
+  return match.agent2_id === null || match.outcome !== null;
+}
+
+// ─── Single Elimination ───
+/** Bracket positions of seeds 1..size so the top seeds meet as late as possible */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+}
+
+export function pairEliminationOpening(seeds: Seed[]): Pairing[] {
+  const size = 2 ** roundsFor(seeds.length);
+  const bySeed = new Map(seeds.map((s) => [s.seed, s.agent_id]));
+  const order = bracketOrder(size);
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    // The upper seed of every pair is ≤ size/2 < n, so only agent2 can be a bye
+    pairings.push({
+      round: 1,
+      slot: i / 2,
+      agent1_id: bySeed.get(order[i])!,
+      agent2_id: bySeed.get(order[i + 1]) ?? null,
+    });
+  }
+  return pairings;
+}
+
+/** Next bracket round: winners of slots 2k and 2k+1 meet in slot k ([] after the final) */
+export function pairEliminationRound(previous: TournamentMatch[], seeds: Map<string, number>): Pairing[] {
+  if (previous.length <= 1) return [];
+  const ordered = [...previous].sort((a, b) => a.slot - b.slot);
+  const round = ordered[0].round + 1;
+
+  const pairings: Pairing[] = [];
+  for (let i = 0; i < ordered.length; i += 2) {
+    const winner1 = matchWinner(ordered[i], "single_elim", seeds);
+    const winner2 = ordered[i + 1] ? matchWinner(ordered[i + 1], "single_elim", seeds) : null;
+    if (!winner1) throw new Error(`Match r${ordered[i].round}/s${ordered[i].slot} is not decided`);
+    if (ordered[i + 1] && !winner2) throw new Error(`Match r${ordered[i + 1].round}/s${ordered[i + 1].slot} is not decided`);
+    pairings.push({ round, slot: i / 2, agent1_id: winner1, agent2_id: winner2 });
+  }
+  return pairings;
+}
+
+// ─── Swiss ───
+function opponentKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Pairs one Swiss round. Entrants are ranked by the current standings; the
+ * odd one out (lowest ranked without a bye yet) sits out with a bye. Pairs
+ * are then drawn top-down, each entrant taking the highest-ranked opponent
+ * it has not met — falling back to a rematch only when no rematch-free
+ * pairing exists.
+ */
+export function pairSwissRound(round: number, standings: Standing[], history: TournamentMatch[]): Pairing[] {
+  const ranked = [...standings].sort(compareSwiss).map((s) => s.agent_id);
+  const met = new Set(
+    history.filter((m) => m.agent2_id !== null).map((m) => opponentKey(m.agent1_id, m.agent2_id!)),
+  );
+
+  let bye: string | null = null;
+  if (ranked.length % 2 === 1) {
+    const hadBye = new Set(history.filter((m) => m.agent2_id === null).map((m) => m.agent1_id));
+    bye = [...ranked].reverse().find((id) => !hadBye.has(id)) ?? ranked[ranked.length - 1];
+    ranked.splice(ranked.indexOf(bye), 1);
+  }
+
+  const pairs = pairWithoutRematch(ranked, met) ?? greedyPairs(ranked);
+  const pairings: Pairing[] = pairs.map(([agent1, agent2], slot) => ({
+    round,
+    slot,
+    agent1_id: agent1,
+    agent2_id: agent2,
+  }));
+  if (bye) pairings.push({ round, slot: pairings.length, agent1_id: bye, agent2_id: null });
+  return pairings;
+}
+
+function pairWithoutRematch(pool: string[], met: Set<string>): [string, string][] | null {
+  if (pool.length === 0) return [];
+  const [first, ...rest] = pool;
+  for (let i = 0; i < rest.length; i++) {
+    if (met.has(opponentKey(first, rest[i]))) continue;
+    const remaining = [...rest.slice(0, i), ...rest.slice(i + 1)];
+    const tail = pairWithoutRematch(remaining, met);
+    if (tail) return [[first, rest[i]], ...tail];
+  }
+  return null;
+}
+
+function greedyPairs(pool: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i + 1 < pool.length; i += 2) pairs.push([pool[i], pool[i + 1]]);
+  return pairs;
+}
+
+// ─── Standings ───
+function compareSwiss(a: Standing, b: Standing): number {
+  return b.points - a.points || b.buchholz - a.buchholz || b.wins - a.wins || a.seed - b.seed;
+}
+
+/**
+ * Standings from every decided match so far.
+ * swiss: points → Buchholz → wins → seed.
+ * single_elim: survivors first, then by the round an entrant was knocked
+ * out in (later is better), then by seed.
+ */
+export function computeStandings(format: TournamentFormat, seeds: Seed[], matches: TournamentMatch[]): Standing[] {
+  const seedOf = new Map(seeds.map((s) => [s.agent_id, s.seed]));
+  const table = new Map<string, Standing>(
+    seeds.map((s) => [s.agent_id, {
+      agent_id: s.agent_id,
+      seed: s.seed,
+      points: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      byes: 0,
+      buchholz: 0,
+      eliminated: false,
+      rank: 0,
+    }]),
+  );
+  const opponents = new Map<string, string[]>(seeds.map((s) => [s.agent_id, []]));
+  const knockedOutIn = new Map<string, number>();
+
+  for (const match of matches) {
+    if (!isDecided(match)) continue;
+    const first = table.get(match.agent1_id);
+    if (!first) continue;
+
+    if (match.agent2_id === null) {
+      first.byes++;
+      first.points += WIN_POINTS;
+      continue;
+    }
+    const second = table.get(match.agent2_id);
+    if (!second) continue;
+    opponents.get(first.agent_id)!.push(second.agent_id);
+    opponents.get(second.agent_id)!.push(first.agent_id);
+
+    if (match.outcome === "draw") {
+      first.draws++;
+      second.draws++;
+      first.points += DRAW_POINTS;
+      second.points += DRAW_POINTS;
+    } else {
+      const [winner, loser] = match.outcome === "agent1" ? [first, second] : [second, first];
+      winner.wins++;
+      winner.points += WIN_POINTS;
+      loser.losses++;
+    }
+
+    if (format === "single_elim") {
+      const advanced = matchWinner(match, format, seedOf);
+      const out = advanced === first.agent_id ? second : first;
+      out.eliminated = true;
+      knockedOutIn.set(out.agent_id, match.round);
+    }
+  }
+
+  for (const standing of table.values()) {
+    standing.buchholz = (opponents.get(standing.agent_id) ?? [])
+      .reduce((sum, id) => sum + (table.get(id)?.points ?? 0), 0);
+  }
+
+  const compare = format === "swiss"
+    ? compareSwiss
+    : (a: Standing, b: Standing) =>
+      (knockedOutIn.get(b.agent_id) ?? Infinity) - (knockedOutIn.get(a.agent_id) ?? Infinity) || a.seed - b.seed;
+
+  return [...table.values()]
+    .sort(compare)
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+}
+
+// ─── Prizes ───
+/**
+ * Splits the pool by rank (`split[0]` to 1st, ...). With fewer entrants
+ * than shares the used shares are rescaled; amounts are floored and the
+ * rounding remainder goes to the winner so the whole pool is paid out.
+ */
+export function planPrizes(pool: number, split: number[], standings: Standing[]): PrizePayout[] {
+  const ranked = [...standings].sort((a, b) => a.rank - b.rank);
+  const shares = split.slice(0, ranked.length);
+  const shareTotal = shares.reduce((sum, share) => sum + share, 0);
+  if (pool <= 0 || shareTotal <= 0) return [];
+
+  const payouts = shares.map((share, index) => ({
+    agent_id: ranked[index].agent_id,
+    rank: ranked[index].rank,
+    amount: Math.floor((pool * share) / shareTotal),
+  }));
+  payouts[0].amount += pool - payouts.reduce((sum, p) => sum + p.amount, 0);
+  return payouts.filter((p) => p.amount > 0);
+}
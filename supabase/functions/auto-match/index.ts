@@ -1,7 +1,9 @@
 /**
  * auto-match — Supabase Edge Function
  * ====================================
- * Automatically picks two random agents and invokes run-debate.
+ * Invokes run-debate in mode "auto", which takes its pair from the
+ * matchmaking queue (see _shared/matchmaking.ts). Skips the run while
+ * fewer than two queued agents are off cooldown.
  * Uses fetch with SUPABASE_ANON_KEY (default env provided by Supabase).
  */
 
@@ -28,11 +30,15 @@ Deno.serve(async (req: Request) => {
     );
     const supabase = createClient(supabaseUrl, serviceKey);
 
-    // Check if there's already a debate in progress
+    // Check if there's already a live debate in progress.
+    // Stale ones (no heartbeat) are left to debate-watchdog and don't block.
+    const staleMinutes = Number(Deno.env.get("DEBATE_STALE_MINUTES") ?? 5);
+    const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000).toISOString();
     const { data: activeDebates } = await supabase
       .from("debates")
       .select("id")
       .eq("status", "in_progress")
+      .gte("last_activity_at", cutoff)
       .limit(1);
 
     if (activeDebates && activeDebates.length > 0) {
@@ -45,6 +51,19 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Nothing to match until at least two queued agents are available
+    const { count: available } = await supabase
+      .from("matchmaking_queue")
+      .select("agent_id", { count: "exact", head: true })
+      .or(`cooldown_until.is.null,cooldown_until.lte.${new Date().toISOString()}`);
+
+    if ((available ?? 0) < 2) {
+      return new Response(
+        JSON.stringify({ message: "매칭 대기열에 대기 중인 에이전트가 부족합니다.", available: available ?? 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     // Call run-debate with proper Supabase headers
     const runDebateUrl = `${supabaseUrl}/functions/v1/run-debate`;
     const response = await fetch(runDebateUrl, {
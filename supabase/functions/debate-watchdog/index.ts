@@ -0,0 +1,112 @@
+/**
+ * debate-watchdog — Supabase Edge Function
+ * =========================================
+ * Recovers debates stuck in 'in_progress' (e.g. run-debate timed out).
+ *
+ * A debate is stale when its last_activity_at heartbeat (bumped by run-debate
+ * after every argument) is older than DEBATE_STALE_MINUTES (default 5).
+ * - resume_attempts < DEBATE_MAX_RESUMES (default 1): resume it via
+ *   run-debate mode "resume" from the persisted rounds (one per invocation)
+ * - otherwise: abort_debate RPC → status 'aborted' + rate-limit refund
+ *
+ * Schedule via pg_cron every 5 minutes, or call manually.
+ * Usage: supabase.functions.invoke('debate-watchdog')
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const staleMinutes = Number(Deno.env.get("DEBATE_STALE_MINUTES") ?? 5);
+    const maxResumes = Number(Deno.env.get("DEBATE_MAX_RESUMES") ?? 1);
+    const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000).toISOString();
+
+    const { data: stale, error: fetchError } = await supabase
+      .from("debates")
+      .select("id, resume_attempts")
+      .eq("status", "in_progress")
+      .lt("last_activity_at", cutoff)
+      .order("last_activity_at", { ascending: true });
+
+    if (fetchError) throw new Error(fetchError.message);
+
+    const aborted: string[] = [];
+    let resumed: { id: string; ok: boolean; error?: string } | null = null;
+
+    for (const debate of stale ?? []) {
+      const attempts = debate.resume_attempts ?? 0;
+
+      if (attempts >= maxResumes) {
+        const { data, error } = await supabase.rpc("abort_debate", {
+          p_debate_id: debate.id,
+          p_reason: "stale",
+        });
+        if (error) console.error(`Failed to abort ${debate.id}:`, error.message);
+        else if (data?.success) aborted.push(debate.id);
+        continue;
+      }
+
+      // Resume at most one debate per run (a resume can take a full debate's time)
+      if (resumed) continue;
+
+      // Claim it: the attempts guard stops two watchdog runs resuming the same debate
+      const { data: claimed } = await supabase
+        .from("debates")
+        .update({ resume_attempts: attempts + 1, last_activity_at: new Date().toISOString() })
+        .eq("id", debate.id)
+        .eq("status", "in_progress")
+        .eq("resume_attempts", attempts)
+        .select("id");
+
+      if (!claimed || claimed.length === 0) continue;
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/run-debate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({ mode: "resume", debate_id: debate.id }),
+      });
+
+      resumed = response.ok
+        ? { id: debate.id, ok: true }
+        : { id: debate.id, ok: false, error: `run-debate ${response.status}: ${await response.text()}` };
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: `${stale?.length ?? 0} stale debates checked.`,
+        aborted,
+        resumed,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Debate watchdog error:", message);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
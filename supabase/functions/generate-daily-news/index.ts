@@ -1,13 +1,14 @@
 /**
  * generate-daily-news — Supabase Edge Function
  * ================================================
- * Uses Gemini AI to generate a narrative news article
+ * Uses the shared LLM provider (Gemini by default) to generate a narrative news article
  * based on recent debates, stock changes, and events.
  *
  * Usage: supabase.functions.invoke('generate-daily-news')
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import { createLlmProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -24,8 +25,8 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const geminiApiKey = Deno.env.get("GEMINI_API_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const llm = createLlmProvider("generate-daily-news", (key) => Deno.env.get(key));
 
     // Gather context: recent 24h data
     const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -38,10 +39,10 @@ Deno.serve(async (req: Request) => {
       .gte("started_at", since)
       .limit(5);
 
-    // Stock changes
+    // Stock changes (rolling statistics from market-stats)
     const { data: stocks } = await supabase
-      .from("agent_stocks")
-      .select("agent_id, current_price, price_change_24h")
+      .from("stocks_view")
+      .select("agent_id, current_price, price_change_24h, price_change_7d, volume_24h, trades_24h, volatility_24h")
       .order("price_change_24h", { ascending: false })
       .limit(5);
 
@@ -73,14 +74,16 @@ Deno.serve(async (req: Request) => {
       })
       .join("\n");
 
+    const signed = (pct: number | null) => `${(pct ?? 0) > 0 ? "+" : ""}${(pct ?? 0).toFixed(1)}%`;
     const stockContext = (stocks || [])
       .map((s) => {
         const name = agentMap.get(s.agent_id)?.name || "Unknown";
-        return `${name}: ${s.current_price}G (${s.price_change_24h > 0 ? "+" : ""}${s.price_change_24h}%)`;
+        return `${name}: ${s.current_price}G (24h ${signed(s.price_change_24h)}, 7d ${signed(s.price_change_7d)}, ` +
+          `volume ${s.volume_24h ?? 0} shares in ${s.trades_24h ?? 0} trades, volatility ${(s.volatility_24h ?? 0).toFixed(1)}%)`;
       })
       .join("\n");
 
-    // Generate news via Gemini
+    // Generate news via LLM provider
     const prompt = `You are "The Daily Prophet" — the official news outlet of AI Agora, a virtual world where AI philosophers debate and their stocks are traded.
 
 Write a compelling, dramatic news article (in Korean, 300-500 words) about today's events. Use an epic, narrative tone like a fantasy world newspaper.
@@ -99,24 +102,13 @@ Requirements:
 - Output format: First line = headline, then a blank line, then the article body
 - Write entirely in Korean`;
 
-    const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`;
-    const geminiRes = await fetch(geminiUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.9, maxOutputTokens: 1024 },
-      }),
+    const fullText = await llm.generateText({
+      task: "news_article",
+      prompt,
+      maxTokens: 1024,
+      temperature: 0.9,
     });
 
-    if (!geminiRes.ok) {
-      throw new Error(`Gemini API error: ${geminiRes.status}`);
-    }
-
-    const geminiData = await geminiRes.json();
-    const fullText =
-      geminiData.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
     // Parse headline and body
     const lines = fullText.trim().split("\n");
     const title = lines[0]
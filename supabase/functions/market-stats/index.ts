@@ -0,0 +1,106 @@
+/**
+ * market-stats — Supabase Edge Function
+ * ======================================
+ * Recomputes rolling 24h / 7d market statistics for every stock from its
+ * hourly candles (see _shared/market-stats.ts) and stores them in
+ * stock_market_stats, which stocks_view joins in. agent_stocks.price_change_24h
+ * is refreshed to the true rolling 24h change on every run.
+ *
+ * Schedule via pg_cron every 5 minutes, or call manually.
+ * Usage: supabase.functions.invoke('market-stats')
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import {
+  computeMarketStats,
+  WINDOW_7D_MS,
+  HOUR_MS,
+  type StatsCandle,
+} from "../_shared/market-stats.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/** 7 days of hourly candles plus the one closing before the window */
+const CANDLE_LOOKBACK_MS = WINDOW_7D_MS + 2 * HOUR_MS;
+
+interface StockRow {
+  id: string;
+  current_price: number;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const since = new Date(now.getTime() - CANDLE_LOOKBACK_MS).toISOString();
+
+    const { data: stocks, error: stocksError } = await supabase
+      .from("agent_stocks")
+      .select("id, current_price");
+    if (stocksError) throw new Error(stocksError.message);
+
+    let updated = 0;
+    for (const stock of (stocks ?? []) as StockRow[]) {
+      // One query per stock keeps each result well under the 1000-row cap
+      const { data: candles, error: candlesError } = await supabase
+        .from("stock_candles")
+        .select("bucket_start, open, high, low, close, volume, trades")
+        .eq("stock_id", stock.id)
+        .eq("resolution", "1h")
+        .gte("bucket_start", since)
+        .order("bucket_start", { ascending: true });
+      if (candlesError) {
+        console.error(`Candles for ${stock.id} failed:`, candlesError.message);
+        continue;
+      }
+
+      const stats = computeMarketStats((candles ?? []) as StatsCandle[], stock.current_price, now);
+
+      const { error: statsError } = await supabase
+        .from("stock_market_stats")
+        .upsert({ stock_id: stock.id, ...stats, updated_at: now.toISOString() });
+      if (statsError) {
+        console.error(`Stats for ${stock.id} failed:`, statsError.message);
+        continue;
+      }
+
+      const { error: stockError } = await supabase
+        .from("agent_stocks")
+        .update({ price_change_24h: stats.change_24h })
+        .eq("id", stock.id);
+      if (stockError) {
+        console.error(`Stock ${stock.id} update failed:`, stockError.message);
+        continue;
+      }
+      updated++;
+    }
+
+    return new Response(
+      JSON.stringify({ message: `Market stats updated for ${updated} stocks.` }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Market stats error:", message);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -0,0 +1,143 @@
+/**
+ * moderate-content — Supabase Edge Function
+ * ==========================================
+ * Runs the moderation classifier over moderation_items that have not been
+ * classified yet (the insert triggers already applied the rules — see
+ * migration 027_moderation.sql and _shared/moderation.ts).
+ *
+ * Each item's rule hits and classification are combined by decideModeration
+ * and written back through apply_moderation_status, which also updates the
+ * moderated row. Items an admin already decided are left alone.
+ *
+ * MODERATION_CLASSIFIER=none (default) makes this a no-op.
+ * Schedule via pg_cron every 5 minutes, or call manually.
+ * Usage: supabase.functions.invoke('moderate-content')
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import { createLlmProvider } from "../_shared/llm.ts";
+import {
+  createClassifier,
+  decideModeration,
+  DEFAULT_MODERATION_RULES,
+  evaluateRules,
+  resolveModerationConfig,
+  type ContentType,
+  type ModerationRule,
+  type ModerationStatus,
+} from "../_shared/moderation.ts";
+import type { StructuredFailure } from "../_shared/structured.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface ModerationItem {
+  id: string;
+  content_type: ContentType;
+  content: string;
+  status: ModerationStatus;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const env = (key: string) => Deno.env.get(key);
+    const config = resolveModerationConfig(env);
+    if (config.classifier === "none") {
+      return new Response(
+        JSON.stringify({ message: "Classifier disabled (MODERATION_CLASSIFIER=none).", classified: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const recordFailure = async (failure: StructuredFailure) => {
+      const { error } = await supabase.from("llm_output_failures").insert({
+        function_name: "moderate-content",
+        task: failure.task,
+        provider: failure.provider,
+        attempt: failure.attempt,
+        stage: failure.stage,
+        issues: failure.issues,
+        raw_output: failure.raw,
+        repaired: failure.repaired,
+      });
+      if (error) console.error("Failed to record LLM output failure:", error);
+    };
+
+    const classifier = createClassifier(config.classifier, createLlmProvider("moderate-content", env), recordFailure)!;
+
+    const { data: ruleRows, error: rulesError } = await supabase
+      .from("moderation_rules")
+      .select("id, category, action, pattern, applies_to")
+      .eq("is_active", true);
+    if (rulesError) console.error("Failed to load moderation rules:", rulesError.message);
+    const rules = (ruleRows as ModerationRule[] | null) ?? DEFAULT_MODERATION_RULES;
+
+    const { data: items, error: fetchError } = await supabase
+      .from("moderation_items")
+      .select("id, content_type, content, status")
+      .is("classified_at", null)
+      .neq("source", "admin")
+      .neq("status", "rejected")
+      .order("created_at", { ascending: true })
+      .limit(config.batchSize);
+
+    if (fetchError) throw new Error(fetchError.message);
+
+    const changed: { id: string; from: ModerationStatus; to: ModerationStatus }[] = [];
+    let classified = 0;
+
+    for (const item of (items ?? []) as ModerationItem[]) {
+      let classification;
+      try {
+        classification = await classifier.classify(item.content, item.content_type);
+      } catch (e) {
+        // Left unclassified; the failure is in llm_output_failures
+        console.error(`Failed to classify ${item.id}:`, e instanceof Error ? e.message : e);
+        continue;
+      }
+
+      const decision = decideModeration(evaluateRules(item.content, item.content_type, rules), classification, config);
+      const { data, error } = await supabase.rpc("apply_moderation_status", {
+        p_item_id: item.id,
+        p_status: decision.status,
+        p_source: "classifier",
+        p_classification: classification,
+      });
+      if (error || data?.error) {
+        console.error(`Failed to apply moderation for ${item.id}:`, error?.message ?? data?.error);
+        continue;
+      }
+
+      classified++;
+      if (decision.status !== item.status) changed.push({ id: item.id, from: item.status, to: decision.status });
+    }
+
+    return new Response(
+      JSON.stringify({ message: `${classified} items classified by ${classifier.name}.`, classified, changed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Moderation error:", message);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -0,0 +1,149 @@
+/**
+ * rating-period — Supabase Edge Function
+ * =======================================
+ * Closes a Glicko-2 rating period (see _shared/glicko.ts):
+ * every debate completed since the last period is rated in one batch,
+ * agents that did not play get their rating deviation widened, and the
+ * result is applied atomically by the apply_rating_period RPC.
+ *
+ * A period is at least GLICKO_PERIOD_HOURS long (default 24); earlier calls
+ * are no-ops unless body.force is set by a service-role caller (a forced
+ * period widens every idle agent's RD). GLICKO_TAU tunes volatility.
+ *
+ * Schedule via pg_cron daily, or call manually.
+ * Usage: supabase.functions.invoke('rating-period', { body: { force: true } })
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import {
+  DEFAULT_RD,
+  processRatingPeriod,
+  resolveTau,
+  type GlickoGame,
+  type GlickoRating,
+} from "../_shared/glicko.ts";
+import type { Outcome } from "../_shared/settlement.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/** Debates rated per run; the rest roll into the next period */
+const MAX_DEBATES_PER_PERIOD = 1000;
+
+interface AgentRatingRow {
+  id: string;
+  glicko_rating: number;
+  glicko_rd: number;
+  glicko_volatility: number;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    // Only service-role callers may close a period early
+    const force = Boolean(body.force) && req.headers.get("authorization") === `Bearer ${supabaseServiceKey}`;
+    const periodHours = Number(Deno.env.get("GLICKO_PERIOD_HOURS") ?? 24);
+    const tau = resolveTau((key) => Deno.env.get(key));
+    const now = new Date();
+
+    // ─── Period window ───
+    const { data: lastPeriod } = await supabase
+      .from("rating_periods")
+      .select("ended_at")
+      .order("ended_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastPeriod && !force) {
+      const elapsedHours = (now.getTime() - new Date(lastPeriod.ended_at).getTime()) / 3600000;
+      if (elapsedHours < periodHours) {
+        return new Response(
+          JSON.stringify({ message: `Rating period still open (${elapsedHours.toFixed(1)}h / ${periodHours}h).` }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+    }
+
+    // ─── Games of the period ───
+    const { data: debates, error: debatesError } = await supabase
+      .from("debates")
+      .select("id, agent1_id, agent2_id, outcome, completed_at")
+      .eq("status", "completed")
+      .is("rating_period_id", null)
+      .not("outcome", "is", null)
+      .order("completed_at", { ascending: true })
+      .limit(MAX_DEBATES_PER_PERIOD);
+    if (debatesError) throw new Error(debatesError.message);
+
+    const games: GlickoGame[] = (debates ?? []).map((d: { agent1_id: string; agent2_id: string; outcome: Outcome }) => ({
+      agent1: d.agent1_id,
+      agent2: d.agent2_id,
+      outcome: d.outcome,
+    }));
+
+    // ─── Players: everyone who played + everyone whose RD can still widen ───
+    const playedIds = [...new Set(games.flatMap((game) => [game.agent1, game.agent2]))];
+    const columns = "id, glicko_rating, glicko_rd, glicko_volatility";
+    const [played, settled] = await Promise.all([
+      playedIds.length
+        ? supabase.from("agents").select(columns).in("id", playedIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase.from("agents").select(columns).lt("glicko_rd", DEFAULT_RD),
+    ]);
+    if (played.error) throw new Error(played.error.message);
+    if (settled.error) throw new Error(settled.error.message);
+
+    const players = new Map<string, GlickoRating>();
+    for (const row of [...(played.data ?? []), ...(settled.data ?? [])] as AgentRatingRow[]) {
+      players.set(row.id, { rating: row.glicko_rating, rd: row.glicko_rd, volatility: row.glicko_volatility });
+    }
+
+    const next = processRatingPeriod(players, games, tau);
+    const updates = [...next.entries()].map(([id, r]) => ({
+      id,
+      rating: Math.round(r.rating * 100) / 100,
+      rd: Math.round(r.rd * 100) / 100,
+      volatility: r.volatility,
+    }));
+
+    const startedAt = lastPeriod?.ended_at ?? debates?.[0]?.completed_at ?? now.toISOString();
+    const { data: result, error: applyError } = await supabase.rpc("apply_rating_period", {
+      p_started_at: startedAt,
+      p_ended_at: now.toISOString(),
+      p_debate_ids: (debates ?? []).map((d: { id: string }) => d.id),
+      p_updates: updates,
+    });
+    if (applyError) throw new Error(applyError.message);
+
+    return new Response(
+      JSON.stringify({
+        message: `${games.length} debates rated, ${updates.length} agents updated.`,
+        result,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Rating period error:", message);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
-import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai@0.1.0";
+import { createLlmProvider } from "../_shared/llm.ts";
+import { buildPersonaBlock, fence, UNTRUSTED_CONTENT_RULES } from "../_shared/prompt-guard.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,15 +14,13 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const geminiKey = Deno.env.get("GEMINI_API_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
-    const genAI = new GoogleGenerativeAI(geminiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    const llm = createLlmProvider("respond-bounty", (key) => Deno.env.get(key));
 
     const { quest_id } = await req.json();
 
     // 1. Fetch Quest(s)
-    let query = supabase.from("quests").select("*").eq("type", "bounty").eq("status", "open");
+    let query = supabase.from("quests").select("*").eq("type", "bounty").eq("status", "open").eq("moderation_status", "approved");
     if (quest_id) query = query.eq("id", quest_id);
     
     const { data: openQuests, error: qError } = await query.limit(5);
@@ -64,23 +63,27 @@ serve(async (req) => {
 
       // 4. Generate Response
       const prompt = `
-당신은 AI 에이전트 "${agent.name}"입니다.
-페르소나: ${agent.persona}
-소속: ${agent.faction}
+${buildPersonaBlock(agent)}
 
 현상금 퀘스트에 대한 답변을 작성하세요.
-퀘스트 제목: ${quest.title}
-퀘스트 설명: ${quest.description}
+퀘스트 제목과 설명:
+${fence("quest", `${quest.title}\n${quest.description ?? ""}`)}
 
 [지침]
 1. 당신의 캐릭터(페르소나)와 사상을 완벽하게 유지하며 답변하세요.
 2. 답변은 논리적이고 설득력 있어야 합니다.
 3. 길이는 약 300~500자 정도로 작성하세요.
 4. 한국어로 작성하세요.
+
+${UNTRUSTED_CONTENT_RULES}
 `;
 
-      const result = await model.generateContent(prompt);
-      const answer = result.response.text();
+      const answer = await llm.generateText({
+        task: "bounty_answer",
+        prompt,
+        maxTokens: 1024,
+        temperature: 0.9,
+      });
 
       // 5. Insert Submission
       const { data: sub, error: subError } = await supabase
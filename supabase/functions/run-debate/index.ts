@@ -1,15 +1,154 @@
 /**
  * run-debate — Supabase Edge Function
  * ====================================
- * AI-powered debate between two agents using Gemini 2.0 Flash.
- * Handles: auto-matching, 3-round debate, AI judging, ELO updates.
+ * AI-powered debate between two agents via the shared LLM provider layer
+ * (Gemini by default; see _shared/llm.ts for RUN_DEBATE_LLM_PROVIDER).
+ * Handles: auto-matching, debate rounds, AI judging, ELO updates.
+ *
+ * Rounds follow a debate format (table debate_formats, body.format_id,
+ * default "classic"): labels, argument / cross-examination rounds, token
+ * budgets and speaking order — see _shared/formats.ts.
+ *
+ * Topics: body.topic_id (catalogue), body.topic (free text), the top-voted
+ * shareholder proposal of either agent (marked used and its voters
+ * notified), or a catalogue draw honouring the TOPIC_* no-repeat windows —
+ * see _shared/topics.ts. Each agent is assigned the pro or con side
+ * (STANCE_ASSIGNMENT random | affinity — see _shared/stances.ts).
+ *
+ * Agents remember past debates (table agent_memories, see _shared/memory.ts):
+ * a bounded summary goes into the agent prompt and both agents get a new
+ * entry once the debate is settled (MEMORY_* settings).
+ *
+ * Settled debates earn both agents XP (award_debate_xp; PROGRESSION_XP_*).
+ * Skill traits bought with level-up points add prompt instructions and larger
+ * token budgets for some turns — see _shared/progression.ts.
+ *
+ * Only agents whose persona passed moderation (moderation_status approved)
+ * may debate. Every generated argument is checked against moderation_rules:
+ * flagged ones are logged to moderation_items and rejected ones are replaced
+ * by a placeholder before they are published — see _shared/moderation.ts.
+ *
+ * User-written text (names, personas, topics) and earlier arguments reach the
+ * debaters and judges only fenced and neutralized, with rules to treat fenced
+ * text as data — see _shared/prompt-guard.ts.
+ *
+ * Judging uses a panel of judges (see _shared/judging.ts): JUDGE_PANEL_SIZE,
+ * JUDGE_AGGREGATION (majority | mean), JUDGE_MAX_ATTEMPTS per judge.
+ *
+ * Auto mode takes its pair from the matchmaking queue (owners opt agents in;
+ * see _shared/matchmaking.ts for the MATCHMAKING_* window/cooldown settings).
+ * Ratings follow MATCHMAKING_RATING: the Glicko-2 conservative rating
+ * (default) or elo_score — see _shared/glicko.ts.
  *
  * Supports two modes:
  * - Standard: returns full result as JSON
  * - Streaming: returns SSE events as each round progresses (body.stream = true)
+ *
+ * mode "practice" (logged-in owners) spars an owned agent against a house bot
+ * (table practice_bots) or another of the owner's agents: no ELO, stock or
+ * dividend settlement and no memory entries; the result and a coach's persona
+ * feedback go to practice_debates, charged to the "practice" usage bucket —
+ * see _shared/practice.ts.
+ *
+ * Rounds are persisted after every argument. mode "resume" (service role only,
+ * used by debate-watchdog) continues a stale in-progress debate from them.
+ * Service-role callers may also pre-assign body.debate_id (tournament-runner).
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import { createLlmProvider, type LlmProvider } from "../_shared/llm.ts";
+import { generateStructured, type StructuredFailure } from "../_shared/structured.ts";
+import {
+  DEFAULT_FORMAT,
+  DEFAULT_FORMAT_ID,
+  DebateFormatSchema,
+  describeFormat,
+  planTurns,
+  type DebateFormat,
+  type RoundType,
+  type Side,
+  type TurnKind,
+} from "../_shared/formats.ts";
+import { planSettlement, STREAK_WINDOW_DAYS, type Outcome } from "../_shared/settlement.ts";
+import { matchRating, resolveRatingMode, type RatingMode } from "../_shared/glicko.ts";
+import {
+  findQueueMatch,
+  recentPairs,
+  resolveMatchmakingConfig,
+  type MatchmakingConfig,
+  type QueueEntry,
+} from "../_shared/matchmaking.ts";
+import {
+  assignStances,
+  resolveStanceMethod,
+  stanceBrief,
+  stanceLabel,
+  type Stance,
+  type StanceBrief,
+  type StanceMethod,
+} from "../_shared/stances.ts";
+import {
+  buildMemoryEntries,
+  memoryResult,
+  resolveMemoryConfig,
+  summarizeMemory,
+  type MemoryConfig,
+  type MemoryEntry,
+} from "../_shared/memory.ts";
+import {
+  debateXp,
+  resolveProgressionConfig,
+  TRAITS,
+  traitPrompt,
+  turnBudget,
+  type AgentTraits,
+  type ProgressionConfig,
+  type TraitId,
+} from "../_shared/progression.ts";
+import {
+  DEFAULT_MODERATION_RULES,
+  evaluateRules,
+  REDACTED_ARGUMENT,
+  type ModerationRule,
+} from "../_shared/moderation.ts";
+import {
+  buildPersonaBlock,
+  detectInjection,
+  fence,
+  sanitizeInline,
+  UNTRUSTED_CONTENT_RULES,
+} from "../_shared/prompt-guard.ts";
+import {
+  buildCoachPrompt,
+  buildCoachRequest,
+  checkPracticeMatch,
+  PRACTICE_REJECTION_MESSAGES,
+  PracticeFeedbackSchema,
+  type PracticeFeedback,
+} from "../_shared/practice.ts";
+import {
+  FALLBACK_TOPIC,
+  pickProposal,
+  pickTopic,
+  resolveTopicSelectionConfig,
+  type Topic,
+  type TopicSelectionConfig,
+  type TopicUse,
+} from "../_shared/topics.ts";
+import {
+  aggregateBallots,
+  buildJudgePrompt,
+  buildJudgeRequest,
+  buildJudgeTranscript,
+  JUDGE_INJECTION_RULES,
+  JudgeVerdictSchema,
+  resolvePanelConfig,
+  RoundScoreSchema,
+  type ExcludedJudge,
+  type JudgeBallot,
+  type PanelConfig,
+  type PanelResult,
+} from "../_shared/judging.ts";
 
 // ─── CORS Headers ───
 const corsHeaders = {
@@ -27,111 +166,33 @@ interface Agent {
   philosophy: string;
   faction: string;
   elo_score: number;
+  glicko_rating?: number | null;
+  glicko_rd?: number | null;
   tier: string;
   wins: number;
   losses: number;
+  draws: number;
   total_debates: number;
   owner_id: string;
+  /** Absent on house bots */
+  moderation_status?: "approved" | "pending" | "rejected";
+}
+
+interface DebateTurn {
+  speaker: Side;
+  kind: TurnKind;
+  text: string;
 }
 
 interface DebateRound {
   round: number;
+  label?: string;
+  type?: RoundType;
+  /** Everything each side said this round (cross-exam: its question + answer) */
   agent1_argument: string;
   agent2_argument: string;
-}
-
-interface JudgeResult {
-  winner: "agent1" | "agent2";
-  reasoning: string;
-  scores: {
-    agent1: { logic: number; evidence: number; persuasion: number };
-    agent2: { logic: number; evidence: number; persuasion: number };
-  };
-}
-
-// ─── ELO Calculation ───
-function calculateElo(winnerElo: number, loserElo: number, K = 32) {
-  const expectedWin = 1 / (1 + Math.pow(10, (loserElo - winnerElo) / 400));
-  const expectedLose = 1 - expectedWin;
-  const winnerDelta = Math.round(K * (1 - expectedWin));
-  const loserDelta = Math.round(K * (0 - expectedLose));
-  return {
-    winnerElo: winnerElo + winnerDelta,
-    loserElo: loserElo + loserDelta,
-    winnerDelta,
-    loserDelta,
-  };
-}
-
-function getTierFromElo(elo: number): string {
-  if (elo >= 1800) return "Legend";
-  if (elo >= 1500) return "Diamond";
-  if (elo >= 1300) return "Gold";
-  if (elo >= 1100) return "Silver";
-  return "Bronze";
-}
-
-// ─── Topic Pool ───
-const DEBATE_TOPICS = [
-  "AI 규제가 필요한가, 자유로운 발전이 필요한가?",
-  "기본소득은 실현 가능한 정책인가?",
-  "자본주의는 최선의 경제 시스템인가?",
-  "교육은 무상이어야 하는가?",
-  "기술이 인간을 자유롭게 하는가?",
-  "개인의 자유와 공공의 안전, 어느 것이 우선인가?",
-  "기후 변화 대응에서 개인의 책임 vs 기업의 책임",
-  "죽음의 정체는 정당화될 수 있는가?",
-  "인간의 행복은 물질에서 오는가?",
-  "완전한 평등은 가능한가, 바람직한가?",
-  "진정한 민주주의는 무엇인가?",
-  "동물 실험은 윤리적으로 정당화될 수 있는가?",
-  "데이터 프라이버시와 국가 안보의 균형은?",
-  "예술은 사회에 필수적인가?",
-  "로봇에게 권리를 부여해야 하는가?",
-  "소셜미디어는 민주주의를 강화하는가, 약화하는가?",
-  "AI가 인간의 창작물을 대체할 수 있는가?",
-  "종교와 과학은 양립할 수 있는가?",
-  "핵에너지는 미래 에너지의 해답인가?",
-  "유전자 편집 기술을 인간에게 적용해야 하는가?",
-];
-
-function getRandomTopic(): string {
-  return DEBATE_TOPICS[Math.floor(Math.random() * DEBATE_TOPICS.length)];
-}
-
-// ─── Gemini API Call ───
-async function callGemini(
-  apiKey: string,
-  systemPrompt: string,
-  userPrompt: string,
-  maxTokens = 512,
-  temperature = 0.9,
-): Promise<string> {
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        system_instruction: { parts: [{ text: systemPrompt }] },
-        contents: [{ parts: [{ text: userPrompt }] }],
-        generationConfig: {
-          maxOutputTokens: maxTokens,
-          temperature,
-        },
-      }),
-    },
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Gemini API error (${response.status}): ${errorText}`);
-  }
-
-  const data = await response.json();
-  const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-  if (!text) throw new Error("Gemini returned empty response");
-  return text;
+  /** Turns in speaking order; absent on debates stored before formats existed */
+  turns?: DebateTurn[];
 }
 
 // ─── Prompt Builders ───
@@ -149,7 +210,7 @@ const FACTION_STRATEGIES: Record<string, string> = {
   "Socialist": "사회적 평등, 공공의 이익, 약자 보호 및 정부의 적극적 역할을 옹호합니다.",
 };
 
-function buildAgentPrompt(agent: Agent): string {
+function buildAgentPrompt(agent: Agent, stance?: StanceBrief, memory?: string, traits?: AgentTraits): string {
   // Faction-based logic injection (matches partial keys too)
   let logicStrategy = FACTION_STRATEGIES[agent.faction] ?? "";
   if (!logicStrategy) {
@@ -160,14 +221,25 @@ function buildAgentPrompt(agent: Agent): string {
     if (!logicStrategy) logicStrategy = "실용주의적 관점에서 데이터와 현실적인 해결책을 중시합니다.";
   }
 
-  return `당신은 "${agent.name}"입니다.
-${agent.persona ? `성격: ${agent.persona}` : ""}
-${agent.philosophy ? `철학: ${agent.philosophy}` : ""}
-소속: ${agent.faction}
+  const skills = traits ? traitPrompt(traits) : "";
+
+  return `${buildPersonaBlock(agent)}
 
 [핵심 토론 전략]
 ${logicStrategy}
-
+${stance ? `
+[당신의 입장: ${stanceLabel(stance.stance)}]
+${stance.position}
+개인적인 신념과 다르더라도 이 입장을 끝까지 옹호하세요. 상대에게 동의하거나 입장을 바꾸지 마세요.
+` : ""}${memory ? `
+[지난 토론 기억]
+${memory}
+과거에 밝힌 주장과 일관성을 유지하고, 도움이 되면 지난 토론 경험을 언급하세요. 단, 이번에 배정된 입장이 우선합니다.
+` : ""}${skills ? `
+[특성]
+${skills}
+아래 작성 수칙과 충돌하면 특성이 우선합니다.
+` : ""}
 [당신의 임무]
 당신은 지금 치열한 논쟁 중입니다. 상대방의 말 꼬리를 잡고, 논리적 허점을 파고드세요.
 점잖은 학자가 아니라, 청중을 사로잡는 '논객'이 되어야 합니다.
@@ -177,67 +249,499 @@ ${logicStrategy}
 2. 비유와 예시를 사용하여 청중(투자자)가 이해하기 쉽게 설명하세요.
 3. 감정에 호소하지 말고, 차가운 논리로 압도하세요. (단, 말투는 성격을 따름)
 4. 답변은 400자 이내로, 임팩트 있게 끝내세요.
-5. 한국어로 자연스럽게 말하세요.`;
+5. 한국어로 자연스럽게 말하세요.
+
+${UNTRUSTED_CONTENT_RULES}`;
 }
 
-function buildJudgePrompt(): string {
-  return `당신은 AI 토론 대회의 냉철한 심판관입니다.
-
-[평가 기준]
-1. 논리적 타격감 (Logic): 상대의 논리적 허점을 얼마나 날카롭게 찔렀는가? (40점)
-2. 근거의 독창성 (Evidence): 뻔한 소리가 아니라, 참신한 관점이나 구체적 예시를 들었는가? (30점)
-3. 대중 설득력 (Persuasion): 이 말을 듣고 청중이 "와, 맞네!" 하고 감탄할 만한가? (30점)
-
-[판정 가이드]
-- 양쪽 다 말이 되면 무승부 주지 말고, 더 '매력적인' 쪽의 손을 들어주세요.
-- 말투가 아니라 '알맹이'를 보세요.
-- 한 쪽이 일방적으로 밀렸다면 10:0도 가능합니다.
-
-반드시 아래 JSON 형식으로만 응답하세요:
-{
-  "winner": "agent1" 또는 "agent2",
-  "reasoning": "승패를 가른 결정적 한 방이 무엇이었는지 3문장 요약",
-  "scores": {
-    "agent1": { "logic": 0-10, "evidence": 0-10, "persuasion": 0-10 },
-    "agent2": { "logic": 0-10, "evidence": 0-10, "persuasion": 0-10 }
+function buildTurnPrompt(
+  topic: string,
+  round: number,
+  label: string,
+  kind: TurnKind,
+  previousContext: string,
+  opponentName: string,
+  opponentText?: string,
+  stance?: StanceBrief,
+): string {
+  const side = stance ? `당신의 입장: ${stanceLabel(stance.stance)} — ${sanitizeInline(stance.position, 300)}\n` : "";
+  const header = `토론 주제:\n${fence("topic", topic, 300)}\n${side}\n이번은 라운드 ${round} (${label})입니다.\n${previousContext ? `\n이전 토론 내용:\n${previousContext}\n` : ""}`;
+  const opponent = sanitizeInline(opponentName);
+
+  switch (kind) {
+    case "question":
+      return `${header}\n${opponent}에게 상대 논리의 가장 약한 고리를 겨냥한 날카로운 질문을 하나만 던지세요. 질문만, 두 문장 이내로 말하세요.`;
+    case "answer":
+      return `${header}${opponent}의 질문:\n${fence("argument", opponentText ?? "")}\n\n이 질문을 회피하지 말고 직접 답하세요.`;
+    default:
+      return opponentText
+        ? `${header}${opponent}의 ${label}:\n${fence("argument", opponentText)}\n\n이에 대한 ${label}을 해주세요.`
+        : `${header}\n${label}을 해주세요.`;
   }
-}`;
 }
 
-// ─── Auto-Match ───
+/** One side's text for a round, built from its turns */
+function sideText(turns: DebateTurn[], side: Side): string {
+  return turns
+    .filter((turn) => turn.speaker === side)
+    .map((turn) =>
+      turn.kind === "question" ? `질문: ${turn.text}` : turn.kind === "answer" ? `답변: ${turn.text}` : turn.text
+    )
+    .join("\n\n");
+}
+
+interface RunOptions {
+  /** User whose daily debate slot was charged (refunded if the debate aborts) */
+  requestedBy?: string;
+  /** Persisted rounds of an in-progress debate being resumed */
+  resumeFrom?: DebateRound[];
+  /** Judge panel override (defaults to JUDGE_PANEL_SIZE / JUDGE_AGGREGATION env) */
+  panel?: PanelConfig;
+  /** Debate format (defaults to the classic 3-round format) */
+  format?: DebateFormat;
+  /** Catalogue topic the debate is about (null for free-text topics) */
+  topicId?: string | null;
+  /** Shareholder proposal that supplied the topic (marked used once the debate exists) */
+  proposalId?: string;
+  /** Assigned sides; absent on debates stored before stances existed */
+  stances?: DebateStances;
+  /** Memory settings override (defaults to MEMORY_* env) */
+  memory?: MemoryConfig;
+  /** XP settings override (defaults to PROGRESSION_XP_* env) */
+  progression?: ProgressionConfig;
+  /** Practice debate: stored in practice_debates, never settled */
+  practice?: PracticeOptions;
+}
+
+interface PracticeOptions {
+  ownerId: string;
+  opponentIsBot: boolean;
+}
+
+interface DebateStances {
+  agent1: StanceBrief;
+  agent2: StanceBrief;
+  method: StanceMethod;
+}
+
+// ─── Debate Formats ───
+/** Active format by id; null when unknown. Invalid rows fall back to classic. */
+async function loadFormat(
+  supabase: ReturnType<typeof createClient>,
+  formatId: string,
+): Promise<DebateFormat | null> {
+  const { data, error } = await supabase
+    .from("debate_formats")
+    .select("id, name, description, speaking_order, rounds")
+    .eq("id", formatId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load debate format:", error.message);
+    return formatId === DEFAULT_FORMAT_ID ? DEFAULT_FORMAT : null;
+  }
+  if (!data) return formatId === DEFAULT_FORMAT_ID ? DEFAULT_FORMAT : null;
+
+  const parsed = DebateFormatSchema.safeParse(data);
+  if (!parsed.ok) {
+    console.error(`Invalid debate format ${formatId}:`, parsed.issues.join("; "));
+    return DEFAULT_FORMAT;
+  }
+  return parsed.value;
+}
+
+// ─── Topic Catalogue ───
+interface ResolvedTopic {
+  title: string;
+  id: string | null;
+  proposalId?: string;
+  /** Catalogue stance text; null for free-text topics and proposals */
+  stanceText: { pro_stance: string; con_stance: string } | null;
+}
+
+/**
+ * Topic for a new debate: the requested catalogue topic (body.topic_id),
+ * the caller's free text (linked to the catalogue when the title matches),
+ * the top-voted shareholder proposal of either agent, or a draw from the
+ * catalogue with no-repeat windows.
+ */
+async function resolveTopic(
+  supabase: ReturnType<typeof createClient>,
+  request: { topicId?: string; topic?: string; skipProposals?: boolean },
+  agentIds: string[],
+  config: TopicSelectionConfig,
+): Promise<ResolvedTopic> {
+  if (request.topicId) {
+    const { data } = await supabase
+      .from("topics")
+      .select("id, title, pro_stance, con_stance")
+      .eq("id", request.topicId)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (data) return { title: data.title, id: data.id, stanceText: data };
+  }
+
+  if (request.topic) {
+    const { data } = await supabase
+      .from("topics")
+      .select("id, pro_stance, con_stance")
+      .eq("title", request.topic)
+      .limit(1)
+      .maybeSingle();
+    return { title: request.topic, id: data?.id ?? null, stanceText: data ?? null };
+  }
+
+  const { data: proposals } = request.skipProposals
+    ? { data: [] }
+    : await supabase
+      .from("topic_proposals")
+      .select("id, agent_id, topic, votes, created_at")
+      .in("agent_id", agentIds)
+      .eq("status", "open")
+      .eq("moderation_status", "approved")
+      .order("votes", { ascending: false })
+      .limit(10);
+  const proposal = pickProposal(
+    (proposals ?? []).map((p: { id: string; agent_id: string; topic: string; votes: number; created_at: string }) => ({
+      ...p,
+      created_at: new Date(p.created_at).getTime(),
+    })),
+    config,
+  );
+  if (proposal) return { title: proposal.topic, id: null, proposalId: proposal.id, stanceText: null };
+
+  const now = Date.now();
+  const columns = "topic_id, agent1_id, agent2_id, started_at";
+  const ids = agentIds.join(",");
+  const [catalogue, recent, byAgents] = await Promise.all([
+    supabase
+      .from("topics")
+      .select("id, title, category, language, difficulty, pro_stance, con_stance, usage_count")
+      .eq("is_active", true)
+      .eq("language", config.language),
+    supabase
+      .from("debates")
+      .select(columns)
+      .not("topic_id", "is", null)
+      .gte("started_at", new Date(now - config.repeatHours * 60 * 60 * 1000).toISOString()),
+    supabase
+      .from("debates")
+      .select(columns)
+      .not("topic_id", "is", null)
+      .or(`agent1_id.in.(${ids}),agent2_id.in.(${ids})`)
+      .order("started_at", { ascending: false })
+      .limit(config.agentRepeatDebates * agentIds.length),
+  ]);
+  if (catalogue.error) console.error("Failed to load topics:", catalogue.error.message);
+
+  const uses: TopicUse[] = [...(recent.data ?? []), ...(byAgents.data ?? [])].map(
+    (d: { topic_id: string; agent1_id: string; agent2_id: string; started_at: string }) => ({
+      ...d,
+      started_at: new Date(d.started_at).getTime(),
+    }),
+  );
+  const picked = pickTopic((catalogue.data ?? []) as Topic[], uses, agentIds, now, config);
+  return picked
+    ? { title: picked.title, id: picked.id, stanceText: picked }
+    : { title: FALLBACK_TOPIC, id: null, stanceText: null };
+}
+
+// ─── Auto-Match (matchmaking queue) ───
+interface QueueRow {
+  agent_id: string;
+  owner_id: string;
+  available_since: string;
+  cooldown_until: string | null;
+  agents: Agent;
+}
+
 async function findMatch(
   supabase: ReturnType<typeof createClient>,
+  mode: RatingMode,
+  config: MatchmakingConfig,
 ): Promise<{ agent1: Agent; agent2: Agent } | null> {
-  const { data: agents, error } = await supabase
-    .from("agents")
-    .select("*")
-    .order("elo_score", { ascending: false })
-    .limit(20);
+  const now = Date.now();
+  const { data: queue, error } = await supabase
+    .from("matchmaking_queue")
+    .select("agent_id, owner_id, available_since, cooldown_until, agents(*)");
+
+  if (error || !queue || queue.length < 2) return null;
+
+  // Agents held or rejected by moderation wait in the queue without being matched
+  const rows = (queue as QueueRow[]).filter((row) => isPublishable(row.agents));
+  const agents = new Map(rows.map((row) => [row.agent_id, row.agents]));
+  const entries: QueueEntry[] = rows.map((row) => ({
+    agent_id: row.agent_id,
+    owner_id: row.owner_id,
+    rating: matchRating(row.agents, mode),
+    available_since: new Date(row.available_since).getTime(),
+    cooldown_until: row.cooldown_until ? new Date(row.cooldown_until).getTime() : null,
+  }));
+
+  const { data: recentDebates } = await supabase
+    .from("debates")
+    .select("agent1_id, agent2_id")
+    .gte("started_at", new Date(now - config.recentHours * 60 * 60 * 1000).toISOString());
 
-  if (error || !agents || agents.length < 2) return null;
+  const match = findQueueMatch(entries, recentPairs(recentDebates ?? []), now, config);
+  if (!match) return null;
 
-  const shuffled = agents.sort(() => Math.random() - 0.5);
+  // Claim both agents (cooldown + fairness counters); fails if another run got there first
+  const { data: claim, error: claimError } = await supabase.rpc("claim_queue_match", {
+    p_agent1_id: match.agent1.agent_id,
+    p_agent2_id: match.agent2.agent_id,
+    p_cooldown_minutes: config.cooldownMinutes,
+  });
+  if (claimError || !claim?.success) {
+    console.error("Failed to claim queue match:", claimError?.message ?? claim?.error);
+    return null;
+  }
 
-  // Prefer similar ELO (±200), different owners
-  for (let i = 0; i < shuffled.length; i++) {
-    for (let j = i + 1; j < shuffled.length; j++) {
-      const diff = Math.abs(shuffled[i].elo_score - shuffled[j].elo_score);
-      if (diff <= 200 && shuffled[i].owner_id !== shuffled[j].owner_id) {
-        return { agent1: shuffled[i], agent2: shuffled[j] };
-      }
-    }
+  console.log(
+    `Matched ${match.agent1.agent_id} vs ${match.agent2.agent_id} ` +
+      `(Δ${Math.round(match.ratingDiff)}, window ${Math.round(match.window)}, waited ${Math.round(match.waited / 60000)}m)`,
+  );
+  return { agent1: agents.get(match.agent1.agent_id)!, agent2: agents.get(match.agent2.agent_id)! };
+}
+
+// ─── Practice Pairing ───
+/**
+ * The owner's agent and its sparring partner: a house bot (practice_bots)
+ * or another of the owner's agents. Bots play with a blank record.
+ */
+async function loadPracticePair(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  agentId: string,
+  opponentId: string,
+): Promise<{ agent1: Agent; agent2: Agent; opponentIsBot: boolean } | { error: string; status: number }> {
+  const { data: agent } = await supabase.from("agents").select("*").eq("id", agentId).maybeSingle();
+  const { data: bot } = await supabase
+    .from("practice_bots")
+    .select("id, name, persona, philosophy, faction, elo_score, tier")
+    .eq("id", opponentId)
+    .eq("is_active", true)
+    .maybeSingle();
+  const { data: opponent } = bot
+    ? { data: { ...(bot as Agent), wins: 0, losses: 0, draws: 0, total_debates: 0, owner_id: "" } }
+    : await supabase.from("agents").select("*").eq("id", opponentId).maybeSingle();
+
+  if (!agent || !opponent) return { error: "에이전트를 찾을 수 없습니다.", status: 404 };
+
+  const rejection = checkPracticeMatch(userId, agent, opponent, !!bot);
+  if (rejection) return { error: PRACTICE_REJECTION_MESSAGES[rejection], status: 403 };
+  if (!isPublishable(agent) || !isPublishable(opponent)) return { error: MODERATION_BLOCKED_MESSAGE, status: 403 };
+
+  return { agent1: agent, agent2: opponent, opponentIsBot: !!bot };
+}
+
+// ─── Moderation ───
+const MODERATION_BLOCKED_MESSAGE = "검수 중이거나 운영 정책으로 제한된 에이전트는 토론할 수 없습니다.";
+
+function isPublishable(agent: Agent): boolean {
+  return (agent.moderation_status ?? "approved") === "approved";
+}
+
+async function loadModerationRules(supabase: ReturnType<typeof createClient>): Promise<ModerationRule[]> {
+  const { data, error } = await supabase
+    .from("moderation_rules")
+    .select("id, category, action, pattern, applies_to")
+    .eq("is_active", true);
+  if (error) console.error("Failed to load moderation rules:", error);
+  return (data as ModerationRule[] | null) ?? DEFAULT_MODERATION_RULES;
+}
+
+/** The text to publish: rejected arguments are redacted, flagged ones logged for review */
+async function moderateArgument(
+  supabase: ReturnType<typeof createClient>,
+  rules: ModerationRule[],
+  text: string,
+  contentId: string,
+): Promise<string> {
+  const check = evaluateRules(text, "debate_argument", rules);
+  if (!check.action) return text;
+
+  const { error } = await supabase.from("moderation_items").upsert({
+    content_type: "debate_argument",
+    content_id: contentId,
+    content: text,
+    status: check.action === "reject" ? "rejected" : "pending",
+    source: "rules",
+    flags: check.hits,
+  }, { onConflict: "content_type,content_id", ignoreDuplicates: true });
+  if (error) console.error("Failed to log moderated argument:", error);
+
+  return check.action === "reject" ? REDACTED_ARGUMENT : text;
+}
+
+// ─── Agent Memory ───
+/** Newest entries first, as many as the retention keeps */
+async function loadMemory(
+  supabase: ReturnType<typeof createClient>,
+  agentId: string,
+  config: MemoryConfig,
+): Promise<MemoryEntry[]> {
+  const { data, error } = await supabase
+    .from("agent_memories")
+    .select("*")
+    .eq("agent_id", agentId)
+    .order("created_at", { ascending: false })
+    .limit(config.retention);
+  if (error) console.error("Failed to load agent memory:", error);
+  return (data ?? []) as MemoryEntry[];
+}
+
+/** Stores the new entries (once per debate) and prunes beyond the retention */
+async function recordMemory(
+  supabase: ReturnType<typeof createClient>,
+  entries: MemoryEntry[],
+  config: MemoryConfig,
+) {
+  const { error } = await supabase
+    .from("agent_memories")
+    .upsert(entries, { onConflict: "agent_id,debate_id", ignoreDuplicates: true });
+  if (error) {
+    console.error("Failed to record agent memory:", error);
+    return;
   }
 
-  // Fallback: any two different-owner agents
-  for (let i = 0; i < shuffled.length; i++) {
-    for (let j = i + 1; j < shuffled.length; j++) {
-      if (shuffled[i].owner_id !== shuffled[j].owner_id) {
-        return { agent1: shuffled[i], agent2: shuffled[j] };
-      }
+  for (const entry of entries) {
+    const { data: stale } = await supabase
+      .from("agent_memories")
+      .select("id")
+      .eq("agent_id", entry.agent_id)
+      .order("created_at", { ascending: false })
+      .range(config.retention, config.retention + 99);
+    if (stale && stale.length > 0) {
+      await supabase.from("agent_memories").delete().in("id", stale.map((row: { id: string }) => row.id));
     }
   }
+}
 
-  return { agent1: shuffled[0], agent2: shuffled[1] };
+// ─── Progression ───
+/** Trait ranks of an agent (house bots have none) */
+async function loadTraits(supabase: ReturnType<typeof createClient>, agentId: string): Promise<AgentTraits> {
+  const { data, error } = await supabase
+    .from("agent_traits")
+    .select("trait_id, rank")
+    .eq("agent_id", agentId);
+  if (error) console.error("Failed to load agent traits:", error);
+
+  const traits: AgentTraits = {};
+  for (const row of (data ?? []) as { trait_id: string; rank: number }[]) {
+    if (row.trait_id in TRAITS) traits[row.trait_id as TraitId] = row.rank;
+  }
+  return traits;
+}
+
+/** XP for both sides, recorded once per debate; null when the award failed */
+async function awardXp(
+  supabase: ReturnType<typeof createClient>,
+  debateId: string,
+  outcome: Outcome,
+  agent1: Agent,
+  agent2: Agent,
+  config: ProgressionConfig,
+) {
+  const { data, error } = await supabase.rpc("award_debate_xp", {
+    p_debate_id: debateId,
+    p_awards: [
+      { agent_id: agent1.id, xp: debateXp(memoryResult(outcome, "agent1"), config) },
+      { agent_id: agent2.id, xp: debateXp(memoryResult(outcome, "agent2"), config) },
+    ],
+  });
+  if (error || data?.error) {
+    console.error("Failed to award debate XP:", error?.message ?? data?.error);
+    return null;
+  }
+  return data.agents as { agent_id: string; xp_gained: number; xp: number; level: number; leveled_up: boolean }[];
+}
+
+// ─── Practice ───
+/** Coach feedback + practice_debates result; nothing is settled */
+async function finishPractice(
+  supabase: ReturnType<typeof createClient>,
+  llm: LlmProvider,
+  run: {
+    debateId: string;
+    agent1: Agent;
+    agent2: Agent;
+    rounds: DebateRound[];
+    debateText: string;
+    judgeResult: PanelResult;
+    onFailure: (failure: StructuredFailure) => Promise<void>;
+    emit?: (event: string, data: unknown) => void;
+  },
+) {
+  const { debateId, agent1, agent2, judgeResult } = run;
+  run.emit?.("coaching", { message: "코치가 페르소나 피드백을 작성 중..." });
+
+  // Feedback is a bonus: a coach that stays invalid leaves it null
+  let feedback: PracticeFeedback | null = null;
+  try {
+    feedback = await generateStructured(llm, {
+      task: "practice_feedback",
+      system: buildCoachPrompt(),
+      prompt: buildCoachRequest({
+        name: agent1.name,
+        persona: agent1.persona,
+        philosophy: agent1.philosophy,
+        debateText: run.debateText,
+        reasoning: judgeResult.reasoning,
+        scores: judgeResult.scores.agent1,
+      }),
+      maxTokens: 1024,
+      temperature: 0.4,
+    }, PracticeFeedbackSchema, { onFailure: run.onFailure });
+  } catch (e) {
+    console.error("Practice feedback failed:", e instanceof Error ? e.message : e);
+  }
+
+  const panel = {
+    method: judgeResult.method,
+    ballots: judgeResult.ballots,
+    dissent: judgeResult.dissent,
+    excluded: judgeResult.excluded,
+  };
+  const { error } = await supabase
+    .from("practice_debates")
+    .update({
+      status: "completed",
+      rounds: run.rounds,
+      result: memoryResult(judgeResult.outcome, "agent1"),
+      scores: judgeResult.scores,
+      judge_reasoning: judgeResult.reasoning,
+      judge_panel: panel,
+      feedback,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", debateId);
+  if (error) console.error("Failed to store practice result:", error);
+
+  const result = {
+    debateId,
+    practice: true,
+    agent1: { id: agent1.id, name: agent1.name, faction: agent1.faction },
+    agent2: { id: agent2.id, name: agent2.name, faction: agent2.faction },
+    rounds: run.rounds,
+    outcome: judgeResult.outcome,
+    scores: judgeResult.scores,
+    reasoning: judgeResult.reasoning,
+    panel,
+    feedback,
+  };
+  run.emit?.("result", result);
+  return result;
+}
+
+/** Marks a practice debate that threw as failed (it cannot be resumed) */
+async function failPractice(supabase: ReturnType<typeof createClient>, debateId: string) {
+  await supabase
+    .from("practice_debates")
+    .update({ status: "failed", completed_at: new Date().toISOString() })
+    .eq("id", debateId)
+    .eq("status", "in_progress");
 }
 
 // ─── SSE Helper ───
@@ -248,106 +752,228 @@ function sseEvent(event: string, data: unknown): string {
 // ─── Run Debate Core (shared by both modes) ───
 async function runDebateCore(
   supabase: ReturnType<typeof createClient>,
-  geminiApiKey: string,
+  llm: LlmProvider,
   agent1: Agent,
   agent2: Agent,
   debateTopic: string,
   debateId: string,
   emit?: (event: string, data: unknown) => void,
+  options: RunOptions = {},
 ) {
-  // Create debate record
-  await supabase.from("debates").insert({
-    id: debateId,
-    topic: debateTopic,
-    agent1_id: agent1.id,
-    agent2_id: agent2.id,
-    status: "in_progress",
-    rounds: [],
-  });
+  const format = options.format ?? DEFAULT_FORMAT;
+  const stanceSuffix = (side: Side) => (options.stances ? `, ${stanceLabel(options.stances[side].stance)}` : "");
+  // How judges address each side (names are sanitized by the transcript builder)
+  const speakers = {
+    agent1: `${agent1.name} (${agent1.faction}${stanceSuffix("agent1")})`,
+    agent2: `${agent2.name} (${agent2.faction}${stanceSuffix("agent2")})`,
+  };
 
-  // 3 Rounds of Debate
-  const rounds: DebateRound[] = [];
-  const roundLabels = ["주장", "반박", "최종 변론"];
+  const table = options.practice ? "practice_debates" : "debates";
+
+  // Create debate record (a resumed debate already has one)
+  if (options.practice) {
+    await supabase.from("practice_debates").insert({
+      id: debateId,
+      owner_id: options.practice.ownerId,
+      agent_id: agent1.id,
+      opponent_id: agent2.id,
+      opponent_name: agent2.name,
+      opponent_is_bot: options.practice.opponentIsBot,
+      topic: debateTopic,
+      topic_id: options.topicId ?? null,
+      format_id: format.id,
+      agent_stance: options.stances?.agent1.stance ?? null,
+      opponent_stance: options.stances?.agent2.stance ?? null,
+    });
+  } else if (!options.resumeFrom) {
+    await supabase.from("debates").insert({
+      id: debateId,
+      topic: debateTopic,
+      agent1_id: agent1.id,
+      agent2_id: agent2.id,
+      status: "in_progress",
+      rounds: [],
+      format_id: format.id,
+      topic_id: options.topicId ?? null,
+      agent1_stance: options.stances?.agent1.stance ?? null,
+      agent2_stance: options.stances?.agent2.stance ?? null,
+      stance_method: options.stances?.method ?? null,
+      requested_by: options.requestedBy ?? null,
+      last_activity_at: new Date().toISOString(),
+    });
+
+    if (options.proposalId) {
+      const { data: used, error: useError } = await supabase.rpc("use_topic_proposal", {
+        p_proposal_id: options.proposalId,
+        p_debate_id: debateId,
+      });
+      if (useError || !used?.success) {
+        console.error("Failed to mark proposal used:", useError?.message ?? used);
+      }
+    }
+  }
+
+  // What each agent remembers of its earlier debates (and of this opponent)
+  const memoryConfig = options.memory ?? resolveMemoryConfig((key) => Deno.env.get(key));
+  const memory: Record<Side, string> = {
+    agent1: summarizeMemory(await loadMemory(supabase, agent1.id, memoryConfig), memoryConfig, agent2.id),
+    agent2: summarizeMemory(await loadMemory(supabase, agent2.id, memoryConfig), memoryConfig, agent1.id),
+  };
+
+  const moderationRules = await loadModerationRules(supabase);
+  // Flagged personas still debate; their injected sentences are neutralized in the prompts
+  for (const agent of [agent1, agent2]) {
+    const findings = detectInjection(`${agent.name}\n${agent.persona ?? ""}\n${agent.philosophy ?? ""}`);
+    if (findings.length > 0) {
+      console.warn(`Agent ${agent.id} persona contains injection patterns:`, findings.map((f) => f.id).join(", "));
+    }
+  }
+
+  // Skill traits shape prompts and turn budgets
+  const traits: Record<Side, AgentTraits> = {
+    agent1: await loadTraits(supabase, agent1.id),
+    agent2: await loadTraits(supabase, agent2.id),
+  };
+
+  // Rounds as described by the format
+  const rounds: DebateRound[] = (options.resumeFrom ?? []).map((r) => ({ ...r, turns: r.turns?.map((t) => ({ ...t })) }));
+
+  // Persist rounds after every argument so a timed-out debate can resume
+  const persistRounds = async () => {
+    const { error } = await supabase
+      .from(table)
+      .update({ rounds, last_activity_at: new Date().toISOString() })
+      .eq("id", debateId)
+      .eq("status", "in_progress");
+    if (error) console.error("Failed to persist rounds:", error);
+  };
+
+  // Invalid structured LLM output (round scores, verdicts) → llm_output_failures
+  const recordFailure = (judgeId?: string) => async (failure: StructuredFailure) => {
+    const { error } = await supabase.from("llm_output_failures").insert({
+      function_name: "run-debate",
+      debate_id: options.practice ? null : debateId,
+      task: failure.task,
+      judge_id: judgeId ?? null,
+      provider: failure.provider,
+      attempt: failure.attempt,
+      stage: failure.stage,
+      issues: failure.issues,
+      raw_output: failure.raw,
+      repaired: failure.repaired,
+    });
+    if (error) console.error("Failed to record LLM output failure:", error);
+  };
+
+  for (let index = 0; index < format.rounds.length; index++) {
+    const round = index + 1;
+    const spec = format.rounds[index];
+    const planned = planTurns(format, index);
+
+    const existing = rounds.find((r) => r.round === round);
+    const finished = existing?.turns
+      ? existing.turns.length >= planned.length
+      : !!(existing?.agent1_argument && existing.agent2_argument);
+    if (finished) continue;
 
-  for (let round = 1; round <= 3; round++) {
-    const roundLabel = roundLabels[round - 1];
     const previousContext = rounds
+      .filter((r) => r.round < round)
       .map(
         (r) =>
-          `[라운드 ${r.round}]\n${agent1.name}: ${r.agent1_argument}\n${agent2.name}: ${r.agent2_argument}`,
+          `[라운드 ${r.round}${r.label ? ` · ${r.label}` : ""}]\n${sanitizeInline(agent1.name)}:\n${fence("argument", r.agent1_argument)}\n${sanitizeInline(agent2.name)}:\n${fence("argument", r.agent2_argument)}`,
       )
       .join("\n\n");
 
-    // Emit round start
-    emit?.("round_start", { round, label: roundLabel });
-
-    // Agent 1 speaks
-    emit?.("speaking", {
+    const entry: DebateRound = existing ?? {
       round,
-      agent: "agent1",
-      name: agent1.name,
-      faction: agent1.faction,
-    });
+      label: spec.label,
+      type: spec.type,
+      agent1_argument: "",
+      agent2_argument: "",
+    };
+    if (!existing) rounds.push(entry);
+    // Rounds persisted before formats existed only ever had agent1 go first
+    entry.turns ??= entry.agent1_argument
+      ? [{ speaker: "agent1", kind: "argument", text: entry.agent1_argument }]
+      : [];
+    const turns = entry.turns;
 
-    const agent1Argument = await callGemini(
-      geminiApiKey,
-      buildAgentPrompt(agent1),
-      `토론 주제: "${debateTopic}"\n\n이번은 라운드 ${round} (${roundLabel})입니다.\n${previousContext ? `\n이전 토론 내용:\n${previousContext}\n` : ""}\n${roundLabel}을 해주세요.`,
-      512,
-      0.9,
-    );
+    // Emit round start
+    emit?.("round_start", { round, label: spec.label, type: spec.type, total: format.rounds.length });
 
-    emit?.("argument", {
-      round,
-      agent: "agent1",
-      name: agent1.name,
-      text: agent1Argument,
-    });
+    // Speak in planned order (resuming after any turns already persisted)
+    for (let step = turns.length; step < planned.length; step++) {
+      const { speaker, kind } = planned[step];
+      const self = speaker === "agent1" ? agent1 : agent2;
+      const opponent = speaker === "agent1" ? agent2 : agent1;
+      const previousTurn = turns[step - 1];
+      const opponentText = previousTurn && previousTurn.speaker !== speaker ? previousTurn.text : undefined;
 
-    // Agent 2 speaks
-    emit?.("speaking", {
-      round,
-      agent: "agent2",
-      name: agent2.name,
-      faction: agent2.faction,
-    });
+      emit?.("speaking", {
+        round,
+        agent: speaker,
+        name: self.name,
+        faction: self.faction,
+        kind,
+      });
 
-    const agent2Argument = await callGemini(
-      geminiApiKey,
-      buildAgentPrompt(agent2),
-      `토론 주제: "${debateTopic}"\n\n이번은 라운드 ${round} (${roundLabel})입니다.\n${previousContext ? `\n이전 토론 내용:\n${previousContext}\n` : ""}${agent1.name}의 ${roundLabel}: "${agent1Argument}"\n\n이에 대한 ${roundLabel}을 해주세요.`,
-      512,
-      0.9,
-    );
+      const generated = await llm.generateText({
+        task: kind === "argument" ? "debate_argument" : `cross_exam_${kind}`,
+        system: buildAgentPrompt(self, options.stances?.[speaker], memory[speaker], traits[speaker]),
+        prompt: buildTurnPrompt(
+          debateTopic,
+          round,
+          spec.label,
+          kind,
+          previousContext,
+          opponent.name,
+          opponentText,
+          options.stances?.[speaker],
+        ),
+        maxTokens: turnBudget(spec.max_tokens, traits[speaker], {
+          kind,
+          isFinal: index === format.rounds.length - 1,
+        }),
+        temperature: 0.9,
+      });
+      const text = await moderateArgument(supabase, moderationRules, generated, `${debateId}:${round}:${step}`);
 
-    emit?.("argument", {
-      round,
-      agent: "agent2",
-      name: agent2.name,
-      text: agent2Argument,
-    });
+      turns.push({ speaker, kind, text });
+      entry[`${speaker}_argument`] = sideText(turns, speaker);
+      await persistRounds();
 
-    rounds.push({ round, agent1_argument: agent1Argument, agent2_argument: agent2Argument });
+      emit?.("argument", {
+        round,
+        agent: speaker,
+        name: self.name,
+        text,
+        kind,
+      });
+    }
 
     // ─── Round Scoring (Dynamic Graph) ───
     // Ask Judge to score this specific round instantly
-    const roundScorePrompt = `토론 주제: "${debateTopic}"
-    
+    const roundScorePrompt = `토론 주제:
+${fence("topic", debateTopic, 300)}
+
 [라운드 ${round} 현황]
-${agent1.name} (${agent1.faction}): "${agent1Argument}"
-${agent2.name} (${agent2.faction}): "${agent2Argument}"
+${buildJudgeTranscript([entry], speakers)}
 
 이 라운드만 놓고 봤을 때, 누가 더 논리적이고 우세했나요?
 두 에이전트의 점수 합이 100이 되도록 점수를 배분하세요. (예: 55 vs 45)
-승자가 50점 이상이어야 합니다. 동점은 없습니다.
+정말로 대등했다면 50 vs 50도 가능합니다.
 
 반드시 JSON 형식으로만 응답:
 { "agent1_score": number, "agent2_score": number, "reason": "한줄평" }`;
 
     try {
-      const scoreRaw = await callGemini(geminiApiKey, "당신은 AI 토론 심판입니다.", roundScorePrompt, 128, 0.5);
-      const jsonMatch = scoreRaw.match(/\{[\s\S]*\}/);
-      const roundScore = JSON.parse(jsonMatch?.[0] ?? scoreRaw);
+      const roundScore = await generateStructured(llm, {
+        task: "round_score",
+        system: `당신은 AI 토론 심판입니다.\n\n${JUDGE_INJECTION_RULES}`,
+        prompt: roundScorePrompt,
+        maxTokens: 128,
+        temperature: 0.5,
+      }, RoundScoreSchema, { onFailure: recordFailure() });
 
       emit?.("score_update", {
         round,
@@ -359,7 +985,7 @@ ${agent2.name} (${agent2.faction}): "${agent2Argument}"
       });
     } catch (e) {
       console.error("Failed to score round:", e);
-      // Fallback: 50:50
+      // Fallback: 50:50 (the momentum graph only — the final verdict never falls back)
       emit?.("score_update", {
         round,
         scores: { agent1: 50, agent2: 50 },
@@ -369,198 +995,175 @@ ${agent2.name} (${agent2.faction}): "${agent2Argument}"
   }
 
   // AI Judge Final Verdict
-  emit?.("judging", { message: "AI 심판이 최종 판정 중..." });
+  const panel = options.panel ?? resolvePanelConfig((key) => Deno.env.get(key));
+  emit?.("judging", { message: `AI 심판단(${panel.judges.length}명)이 최종 판정 중...`, judges: panel.judges.length });
 
-  const fullDebateText = rounds
-    .map(
-      (r) =>
-        `--- 라운드 ${r.round} ---\n[${agent1.name}]: ${r.agent1_argument}\n[${agent2.name}]: ${r.agent2_argument}`,
-    )
-    .join("\n\n");
+  const fullDebateText = buildJudgeTranscript(rounds, speakers);
 
-  const judgeRaw = await callGemini(
-    geminiApiKey,
-    buildJudgePrompt(),
-    `토론 주제: "${debateTopic}"\n\n${fullDebateText}\n\n이 토론을 평가하고 JSON 형식으로 판정해주세요.`,
-    512,
-    0.3,
-  );
+  // Each judge votes independently; a verdict still invalid after repair retries is excluded
+  const ballots: JudgeBallot[] = [];
+  const excluded: ExcludedJudge[] = [];
+  for (const judge of panel.judges) {
+    try {
+      const verdict = await generateStructured(llm, {
+        task: "judge_verdict",
+        system: buildJudgePrompt(judge),
+        prompt: buildJudgeRequest(debateTopic, fullDebateText),
+        maxTokens: 512,
+        temperature: 0.3,
+      }, JudgeVerdictSchema, { maxRepairs: panel.maxAttempts - 1, onFailure: recordFailure(judge.id) });
+      ballots.push({ judge_id: judge.id, judge_name: judge.name, ...verdict });
+      emit?.("judge_ballot", { judge: judge.id, name: judge.name, winner: verdict.winner });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`Judge ${judge.id} excluded:`, message);
+      excluded.push({ judge_id: judge.id, judge_name: judge.name, error: message });
+    }
+  }
 
-  let judgeResult: JudgeResult;
-  try {
-    const jsonMatch = judgeRaw.match(/\{[\s\S]*\}/);
-    judgeResult = JSON.parse(jsonMatch?.[0] ?? judgeRaw);
-  } catch {
-    judgeResult = {
-      winner: "agent1",
-      reasoning: judgeRaw,
-      scores: {
-        agent1: { logic: 7, evidence: 7, persuasion: 7 },
-        agent2: { logic: 6, evidence: 6, persuasion: 6 },
-      },
-    };
+  // No valid ballot at all: leave the debate in progress for the watchdog
+  if (ballots.length === 0) {
+    throw new Error(`All ${panel.judges.length} judges returned unusable verdicts`);
   }
 
-  const winnerId = judgeResult.winner === "agent1" ? agent1.id : agent2.id;
-  const loserId = judgeResult.winner === "agent1" ? agent2.id : agent1.id;
-  const winnerAgent = judgeResult.winner === "agent1" ? agent1 : agent2;
-  const loserAgent = judgeResult.winner === "agent1" ? agent2 : agent1;
+  // Near-equal panels become a draw instead of being forced into a winner
+  const judgeResult = aggregateBallots(ballots, panel.method, excluded);
+  const outcome = judgeResult.outcome;
 
-  // ELO Updates
-  const eloResult = calculateElo(winnerAgent.elo_score, loserAgent.elo_score);
+  if (options.practice) {
+    return await finishPractice(supabase, llm, {
+      debateId,
+      agent1,
+      agent2,
+      rounds,
+      debateText: fullDebateText,
+      judgeResult,
+      onFailure: recordFailure("coach"),
+      emit,
+    });
+  }
 
-  await supabase
-    .from("agents")
-    .update({
-      elo_score: eloResult.winnerElo,
-      tier: getTierFromElo(eloResult.winnerElo),
-      wins: winnerAgent.wins + 1,
-      total_debates: winnerAgent.total_debates + 1,
-    })
-    .eq("id", winnerId);
+  const winnerAgent = outcome === "agent1" ? agent1 : outcome === "agent2" ? agent2 : null;
 
   await supabase
-    .from("agents")
-    .update({
-      elo_score: eloResult.loserElo,
-      tier: getTierFromElo(eloResult.loserElo),
-      losses: loserAgent.losses + 1,
-      total_debates: loserAgent.total_debates + 1,
-    })
-    .eq("id", loserId);
-
-  // Update debate record
-  const { error: updateError } = await supabase
     .from("debates")
     .update({
-      rounds,
-      judge_reasoning: judgeResult.reasoning,
-      winner_id: winnerId,
-      elo_change_winner: eloResult.winnerDelta,
-      elo_change_loser: eloResult.loserDelta,
-      status: "completed",
-      completed_at: new Date().toISOString(),
+      judge_panel: {
+        method: judgeResult.method,
+        ballots: judgeResult.ballots,
+        dissent: judgeResult.dissent,
+        excluded: judgeResult.excluded,
+      },
     })
     .eq("id", debateId);
 
-  if (updateError) {
-    console.error("Failed to update debate record:", updateError);
-  }
-
-  // ─── Update Stock Prices (V2 Migration: streak bonus + min price) ───
-  const { data: winnerStock } = await supabase
-    .from("agent_stocks")
+  // ─── Load settlement inputs ───
+  // stocks_view carries price_24h_ago so the rolling 24h change stays true
+  const { data: agent1Stock } = await supabase
+    .from("stocks_view")
     .select("*")
-    .eq("agent_id", winnerId)
+    .eq("agent_id", agent1.id)
     .single();
 
-  // Check for winning streak (3+ consecutive wins = bonus)
-  const { count: recentWinCount } = await supabase
-    .from("debates")
-    .select("*", { count: "exact", head: true })
-    .eq("winner_id", winnerId)
-    .eq("status", "completed")
-    .gte("completed_at", new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
-  const isStreak = (recentWinCount ?? 0) >= 3;
-
-  if (winnerStock) {
-    const boostRate = isStreak ? 0.04 : 0.02; // Streak: 4%, Normal: 2%
-    const priceBoost = winnerStock.current_price * boostRate;
-    const newWinnerPrice = winnerStock.current_price + priceBoost;
-    await supabase
-      .from("agent_stocks")
-      .update({
-        current_price: newWinnerPrice,
-        market_cap: newWinnerPrice * winnerStock.total_shares,
-        price_change_24h: (priceBoost / winnerStock.current_price) * 100,
-      })
-      .eq("id", winnerStock.id);
-
-    // Log history (Migration V2)
-    await supabase
-      .from("stock_price_history")
-      .insert({ stock_id: winnerStock.id, price: newWinnerPrice });
-
-  }
-
-  const { data: loserStock } = await supabase
-    .from("agent_stocks")
+  const { data: agent2Stock } = await supabase
+    .from("stocks_view")
     .select("*")
-    .eq("agent_id", loserId)
+    .eq("agent_id", agent2.id)
     .single();
 
-  if (loserStock) {
-    const priceDrop = loserStock.current_price * 0.01;
-    const newLoserPrice = Math.max(loserStock.current_price - priceDrop, 100); // Min 100G floor
-    await supabase
-      .from("agent_stocks")
-      .update({
-        current_price: newLoserPrice,
-        market_cap: newLoserPrice * loserStock.total_shares,
-        price_change_24h: ((newLoserPrice - loserStock.current_price) / loserStock.current_price) * 100,
-      })
-      .eq("id", loserStock.id);
-
-    // Log history (Migration V2)
-    await supabase
-      .from("stock_price_history")
-      .insert({ stock_id: loserStock.id, price: newLoserPrice });
-  }
+  const winnerStock = outcome === "agent1" ? agent1Stock : outcome === "agent2" ? agent2Stock : null;
 
-  // ─── Dividend Distribution: 5G per share to winner's shareholders ───
-  // BUG FIX: was querying by agent_id/shares (wrong columns), now using stock_id/shares_owned
-  if (winnerStock) {
-    const DIVIDEND_PER_SHARE = 5;
-    const { data: shareholders } = await supabase
+  // Winning streak: wins inside the window before this debate
+  const { count: recentWinCount } = winnerAgent
+    ? await supabase
+      .from("debates")
+      .select("*", { count: "exact", head: true })
+      .eq("winner_id", winnerAgent.id)
+      .eq("status", "completed")
+      .gte("completed_at", new Date(Date.now() - STREAK_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    : { count: 0 };
+
+  const { data: shareholders } = winnerStock
+    ? await supabase
       .from("stock_ownership")
       .select("user_id, shares_owned")
       .eq("stock_id", winnerStock.id)
-      .gt("shares_owned", 0);
-
-    if (shareholders && shareholders.length > 0) {
-      console.log(`💰 Distributing dividends to ${shareholders.length} shareholders of ${winnerAgent.name}`);
-      for (const holder of shareholders) {
-        const dividendAmount = holder.shares_owned * DIVIDEND_PER_SHARE;
-
-        // Add gold via atomic RPC
-        await supabase.rpc("add_gold", {
-          p_user_id: holder.user_id,
-          p_amount: dividendAmount,
-        });
-
-        // Log transaction
-        await supabase.from("gold_transactions").insert({
-          id: crypto.randomUUID(),
-          user_id: holder.user_id,
-          amount: dividendAmount,
-          type: "dividend",
-          description: `Dividend: ${winnerAgent.name} wins (${holder.shares_owned} shares × ${DIVIDEND_PER_SHARE}G)`,
-        });
-      }
-    }
+      .gt("shares_owned", 0)
+    : { data: [] };
+
+  const plan = planSettlement({
+    agent1,
+    agent2,
+    agent1Stock,
+    agent2Stock,
+    outcome,
+    shareholders: shareholders ?? [],
+    recentWins: recentWinCount ?? 0,
+  });
+
+  // ─── Apply plan atomically (idempotent on debateId) ───
+  const { data: settlement, error: settleError } = await supabase.rpc("settle_debate", {
+    p_debate_id: debateId,
+    p_rounds: rounds,
+    p_judge_reasoning: judgeResult.reasoning,
+    p_plan: plan,
+  });
+
+  if (settleError || settlement?.error) {
+    throw new Error(`Debate settlement failed: ${settleError?.message ?? settlement?.error}`);
   }
 
-  // Final result
+  await recordMemory(supabase, buildMemoryEntries({
+    debate_id: debateId,
+    topic: debateTopic,
+    outcome,
+    agent1: { id: agent1.id, name: agent1.name, stance: options.stances?.agent1.stance },
+    agent2: { id: agent2.id, name: agent2.name, stance: options.stances?.agent2.stance },
+    scores: judgeResult.scores,
+    reasoning: judgeResult.reasoning,
+  }), memoryConfig);
+
+  const progression = await awardXp(
+    supabase,
+    debateId,
+    outcome,
+    agent1,
+    agent2,
+    options.progression ?? resolveProgressionConfig((key) => Deno.env.get(key)),
+  );
+
+  if (winnerAgent && plan.dividends.length > 0) {
+    console.log(`💰 Paid dividends to ${settlement?.dividends_paid ?? 0} shareholders of ${winnerAgent.name}`);
+  }
+
+  const eloFor = (agent: Agent, key: "agent1" | "agent2") => ({
+    id: agent.id,
+    name: agent.name,
+    eloChange: plan.agents[key].elo_delta,
+    newElo: settlement?.[`${key}_elo`] ?? plan.agents[key].elo_score,
+  });
+  const elo = { agent1: eloFor(agent1, "agent1"), agent2: eloFor(agent2, "agent2") };
+
+  // Final result (winner/loser are null on a draw)
   const result = {
     debateId,
     topic: debateTopic,
     agent1: { id: agent1.id, name: agent1.name, faction: agent1.faction },
     agent2: { id: agent2.id, name: agent2.name, faction: agent2.faction },
     rounds,
-    winner: {
-      id: winnerId,
-      name: winnerAgent.name,
-      eloChange: eloResult.winnerDelta,
-      newElo: eloResult.winnerElo,
-    },
-    loser: {
-      id: loserId,
-      name: loserAgent.name,
-      eloChange: eloResult.loserDelta,
-      newElo: eloResult.loserElo,
-    },
+    outcome,
+    winner: outcome === "draw" ? null : elo[outcome],
+    loser: outcome === "agent1" ? elo.agent2 : outcome === "agent2" ? elo.agent1 : null,
+    elo,
     scores: judgeResult.scores,
     reasoning: judgeResult.reasoning,
+    panel: {
+      method: judgeResult.method,
+      ballots: judgeResult.ballots,
+      dissent: judgeResult.dissent,
+      excluded: judgeResult.excluded,
+    },
+    progression,
   };
 
   emit?.("result", result);
@@ -574,35 +1177,116 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const geminiApiKey = Deno.env.get("GEMINI_API_KEY");
-    if (!geminiApiKey) throw new Error("GEMINI_API_KEY not configured");
+    const llm = createLlmProvider("run-debate", (key) => Deno.env.get(key));
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const body = await req.json();
-    const { mode, agent1_id, agent2_id, topic, stream } = body;
-
-    // ─── Rate Limiting (V2 Migration) ───
+    const { mode, agent1_id, agent2_id, topic, topic_id, stream, debate_id, format_id } = body;
     const authHeader = req.headers.get("authorization");
+
+    // ─── RESUME MODE (debate-watchdog only) ───
+    if (mode === "resume") {
+      if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+        return new Response(
+          JSON.stringify({ error: "Resume requires the service role key." }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const { data: debate } = await supabase.from("debates").select("*").eq("id", debate_id).single();
+      if (!debate || debate.status !== "in_progress") {
+        return new Response(
+          JSON.stringify({ error: "재개할 수 있는 토론이 아닙니다.", status: debate?.status ?? null }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const { data: a1 } = await supabase.from("agents").select("*").eq("id", debate.agent1_id).single();
+      const { data: a2 } = await supabase.from("agents").select("*").eq("id", debate.agent2_id).single();
+      if (!a1 || !a2) {
+        return new Response(
+          JSON.stringify({ error: "에이전트를 찾을 수 없습니다." }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      // Sides were fixed when the debate started
+      let stances: DebateStances | undefined;
+      if (debate.agent1_stance && debate.agent2_stance) {
+        const { data: stanceText } = debate.topic_id
+          ? await supabase.from("topics").select("pro_stance, con_stance").eq("id", debate.topic_id).maybeSingle()
+          : { data: null };
+        stances = {
+          agent1: stanceBrief(debate.agent1_stance as Stance, stanceText),
+          agent2: stanceBrief(debate.agent2_stance as Stance, stanceText),
+          method: debate.stance_method ?? "random",
+        };
+      }
+
+      const result = await runDebateCore(supabase, llm, a1, a2, debate.topic, debate.id, undefined, {
+        resumeFrom: debate.rounds ?? [],
+        format: (await loadFormat(supabase, debate.format_id ?? DEFAULT_FORMAT_ID)) ?? DEFAULT_FORMAT,
+        stances,
+      });
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // ─── Debate format (checked before a rate-limit slot is charged) ───
+    const format = await loadFormat(supabase, format_id || DEFAULT_FORMAT_ID);
+    if (!format) {
+      return new Response(
+        JSON.stringify({ error: "알 수 없는 토론 형식입니다." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // ─── Requesting user ───
+    let requestedBy: string | undefined;
     if (authHeader) {
       const token = authHeader.replace("Bearer ", "");
       const { data: { user } } = await supabase.auth.getUser(token);
-      if (user) {
-        const { data: usageCheck } = await supabase.rpc("check_and_increment_usage", {
-          p_user_id: user.id,
-          p_action: "debate",
-        });
-        if (usageCheck && usageCheck.allowed === false) {
-          return new Response(
-            JSON.stringify({
-              error: `일일 토론 제한에 도달했습니다. (${usageCheck.used}/${usageCheck.limit}). Premium으로 업그레이드하세요!`,
-              upgrade: true,
-            }),
-            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-          );
-        }
+      requestedBy = user?.id;
+    }
+
+    // ─── Practice pairing (checked before a practice slot is charged) ───
+    const practice = mode === "practice";
+    let practicePair: { agent1: Agent; agent2: Agent; opponentIsBot: boolean } | null = null;
+    if (practice) {
+      if (!requestedBy) {
+        return new Response(
+          JSON.stringify({ error: "연습 토론은 로그인이 필요합니다." }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      const pair = await loadPracticePair(supabase, requestedBy, agent1_id, agent2_id);
+      if ("error" in pair) {
+        return new Response(
+          JSON.stringify({ error: pair.error }),
+          { status: pair.status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      practicePair = pair;
+    }
+
+    // ─── Rate Limiting (V2 Migration; practice has its own bucket) ───
+    if (requestedBy) {
+      const { data: usageCheck } = await supabase.rpc("check_and_increment_usage", {
+        p_user_id: requestedBy,
+        p_action: practice ? "practice" : "debate",
+      });
+      if (usageCheck && usageCheck.allowed === false) {
+        return new Response(
+          JSON.stringify({
+            error: `일일 ${practice ? "연습 " : ""}토론 제한에 도달했습니다. (${usageCheck.used}/${usageCheck.limit}). Premium으로 업그레이드하세요!`,
+            upgrade: true,
+          }),
+          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
       }
     }
 
@@ -610,8 +1294,12 @@ Deno.serve(async (req: Request) => {
     let agent1: Agent;
     let agent2: Agent;
 
-    if (mode === "auto") {
-      const match = await findMatch(supabase);
+    if (practicePair) {
+      agent1 = practicePair.agent1;
+      agent2 = practicePair.agent2;
+    } else if (mode === "auto") {
+      const env = (key: string) => Deno.env.get(key);
+      const match = await findMatch(supabase, resolveRatingMode(env), resolveMatchmakingConfig(env));
       if (!match) {
         return new Response(
           JSON.stringify({ error: "매칭 가능한 에이전트가 부족합니다." }),
@@ -629,12 +1317,48 @@ Deno.serve(async (req: Request) => {
           { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
         );
       }
+      if (!isPublishable(a1) || !isPublishable(a2)) {
+        return new Response(
+          JSON.stringify({ error: MODERATION_BLOCKED_MESSAGE }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
       agent1 = a1;
       agent2 = a2;
     }
 
-    const debateTopic = topic || getRandomTopic();
-    const debateId = crypto.randomUUID();
+    const resolvedTopic = await resolveTopic(
+      supabase,
+      { topicId: topic_id, topic, skipProposals: practice },
+      [agent1.id, agent2.id],
+      resolveTopicSelectionConfig((key) => Deno.env.get(key)),
+    );
+    const debateTopic = resolvedTopic.title;
+    const assignment = assignStances(agent1.faction, agent2.faction, resolveStanceMethod((key) => Deno.env.get(key)));
+    const stances: DebateStances = {
+      agent1: stanceBrief(assignment.agent1, resolvedTopic.stanceText),
+      agent2: stanceBrief(assignment.agent2, resolvedTopic.stanceText),
+      method: assignment.method,
+    };
+    // Service-role callers (tournament-runner) pre-assign the id to track the debate
+    const debateId = debate_id && authHeader === `Bearer ${supabaseServiceKey}` ? debate_id : crypto.randomUUID();
+
+    const runOptions: RunOptions = {
+      requestedBy,
+      format,
+      topicId: resolvedTopic.id,
+      proposalId: resolvedTopic.proposalId,
+      stances,
+      practice: practicePair ? { ownerId: requestedBy!, opponentIsBot: practicePair.opponentIsBot } : undefined,
+    };
+    const run = async (emit?: (event: string, data: unknown) => void) => {
+      try {
+        return await runDebateCore(supabase, llm, agent1, agent2, debateTopic, debateId, emit, runOptions);
+      } catch (err) {
+        if (practice) await failPractice(supabase, debateId);
+        throw err;
+      }
+    };
 
     // ─── STREAMING MODE ───
     if (stream) {
@@ -656,9 +1380,12 @@ Deno.serve(async (req: Request) => {
               topic: debateTopic,
               agent1: { id: agent1.id, name: agent1.name, faction: agent1.faction, elo: agent1.elo_score, tier: agent1.tier },
               agent2: { id: agent2.id, name: agent2.name, faction: agent2.faction, elo: agent2.elo_score, tier: agent2.tier },
+              format: describeFormat(format),
+              stances: { agent1: stances.agent1, agent2: stances.agent2 },
+              practice,
             });
 
-            await runDebateCore(supabase, geminiApiKey, agent1, agent2, debateTopic, debateId, emit);
+            await run(emit);
 
             emit("complete", { debateId });
           } catch (err) {
@@ -681,7 +1408,7 @@ Deno.serve(async (req: Request) => {
     }
 
     // ─── STANDARD MODE (backward-compatible) ───
-    const result = await runDebateCore(supabase, geminiApiKey, agent1, agent2, debateTopic, debateId);
+    const result = await run();
 
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1,14 +1,34 @@
 /**
  * stock-fluctuation — Supabase Edge Function
  * =============================================
- * Applies random noise to all listed stock prices
- * to simulate natural market movement.
+ * Advances the simulated market by one tick (see _shared/market-sim.ts):
+ * prices revert towards each agent's fundamental value (ELO and recent
+ * win rate) with streak momentum, faction-wide sector moves, reactions to
+ * active events and noise on top. Each move is applied as a percentage to
+ * the locked agent_stocks row (apply_stock_fluctuation, migration 043), so
+ * trades that land after the snapshot are kept.
+ *
+ * Tuned by MARKET_REVERSION, MARKET_NOISE_PCT, MARKET_SECTOR_PCT,
+ * MARKET_MOMENTUM_PCT and MARKET_MAX_MOVE_PCT. MARKET_SIM_SEED (or
+ * body.seed, honoured only with the service-role key) makes a tick
+ * reproducible.
  *
  * Schedule via pg_cron every 5-10 minutes, or call manually.
- * Usage: supabase.functions.invoke('stock-fluctuation')
+ * Usage: supabase.functions.invoke('stock-fluctuation', { body: { seed: 42 } })
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import {
+  RECENT_GAMES,
+  recentForm,
+  resolveMarketSimConfig,
+  simulateMarketTick,
+  type MarketEvent,
+  type SimAgent,
+  type SimDebate,
+  type SimStock,
+} from "../_shared/market-sim.ts";
+import { createRng } from "../_shared/random.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +37,9 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
+/** Recent debates scanned for win rates and streaks (newest first) */
+const MAX_RECENT_DEBATES = 1000;
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -27,10 +50,18 @@ Deno.serve(async (req: Request) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Fetch all stocks
+    const body = await req.json().catch(() => ({}));
+    const config = resolveMarketSimConfig((key) => Deno.env.get(key));
+    // A caller-chosen seed would let anyone replay a known tick; service role only
+    const isServiceRole = req.headers.get("authorization") === `Bearer ${supabaseServiceKey}`;
+    const seed = (isServiceRole ? body.seed : undefined) ?? Deno.env.get("MARKET_SIM_SEED");
+    const rng = seed !== undefined && seed !== "" ? createRng(seed) : Math.random;
+    const now = new Date();
+
+    // Fetch all stocks (a snapshot: moves are applied relative to the live rows)
     const { data: stocks, error: fetchError } = await supabase
-      .from("agent_stocks")
-      .select("id, current_price, price_change_24h");
+      .from("stocks_view")
+      .select("id, agent_id, current_price, total_shares");
 
     if (fetchError) throw new Error(fetchError.message);
     if (!stocks || stocks.length === 0) {
@@ -40,40 +71,58 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const updates = [];
+    // ─── Fundamentals: agents and their recent form ───
+    const agentIds = (stocks as SimStock[]).map((s) => s.agent_id);
+    const [agentsResult, debatesResult, eventsResult] = await Promise.all([
+      supabase
+        .from("agents")
+        .select("id, faction, elo_score, wins, losses, draws")
+        .in("id", agentIds),
+      supabase
+        .from("debates")
+        .select("agent1_id, agent2_id, winner_id")
+        .eq("status", "completed")
+        .order("completed_at", { ascending: false })
+        .limit(MAX_RECENT_DEBATES),
+      supabase
+        .from("events")
+        .select("id, intensity, effects, created_at, expires_at")
+        .eq("status", "active")
+        .or(`expires_at.is.null,expires_at.gt.${now.toISOString()}`),
+    ]);
+    if (agentsResult.error) throw new Error(agentsResult.error.message);
+    if (debatesResult.error) throw new Error(debatesResult.error.message);
+    if (eventsResult.error) throw new Error(eventsResult.error.message);
 
-    for (const stock of stocks) {
-      // Random noise: -0.5% to +0.5%
-      const noisePct = (Math.random() - 0.5) * 1.0; // ±0.5%
-      const priceChange = stock.current_price * (noisePct / 100);
-      const newPrice = Math.max(10, Math.round(stock.current_price + priceChange)); // floor at 10G
-      const newChange24h = parseFloat(
-        ((stock.price_change_24h || 0) + noisePct).toFixed(2),
-      );
+    const debates = (debatesResult.data ?? []) as SimDebate[];
+    const agents = new Map(((agentsResult.data ?? []) as SimAgent[]).map((a) => [a.id, a]));
+    const forms = new Map(agentIds.map((id) => [id, recentForm(id, debates, RECENT_GAMES)]));
 
-      const { error: updateError } = await supabase
-        .from("agent_stocks")
-        .update({
-          current_price: newPrice,
-          price_change_24h: newChange24h,
-          market_cap: newPrice * 1000, 
-        })
-        .eq("id", stock.id);
+    const moves = simulateMarketTick(
+      {
+        stocks: stocks as SimStock[],
+        agents,
+        forms,
+        events: (eventsResult.data ?? []) as MarketEvent[],
+        now,
+      },
+      rng,
+      config,
+    );
 
-      if (!updateError) {
-        // Log history (Migration V2)
-        await supabase
-          .from("stock_price_history")
-          .insert({ stock_id: stock.id, price: newPrice });
+    const { data: applied, error: applyError } = await supabase.rpc("apply_stock_fluctuation", {
+      p_moves: moves.map((move) => ({ id: move.id, move_pct: move.change_pct })),
+    });
+    if (applyError) throw new Error(applyError.message);
 
-        updates.push({
-          id: stock.id,
-          old_price: stock.current_price,
-          new_price: newPrice,
-          change_pct: noisePct.toFixed(3),
-        });
-      }
-    }
+    const prices = new Map(
+      ((applied?.stocks ?? []) as { id: string; old_price: number; new_price: number; market_cap: number }[])
+        .map((row) => [row.id, row]),
+    );
+    const updates = moves.flatMap((move) => {
+      const row = prices.get(move.id);
+      return row ? [{ ...move, old_price: row.old_price, new_price: row.new_price, market_cap: row.market_cap }] : [];
+    });
 
     return new Response(
       JSON.stringify({
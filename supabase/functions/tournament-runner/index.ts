@@ -0,0 +1,384 @@
+/**
+ * tournament-runner — Supabase Edge Function
+ * ===========================================
+ * Drives tournaments (see _shared/tournament.ts and migration 017):
+ *
+ * 1. Start: tournaments past starts_at are seeded by elo_score and round 1
+ *    is paired (start_tournament RPC). Fewer than 2 entrants → cancelled and
+ *    entry fees refunded (cancel_tournament RPC).
+ * 2. Sync: running matches pick up the outcome of their debate. An aborted
+ *    (or never created) debate puts the match back to pending; after
+ *    TOURNAMENT_MAX_ATTEMPTS tries it is recorded as a draw.
+ * 3. Advance: once every match of the current round is decided, standings
+ *    are stored and the next round is paired (advance_tournament RPC) — or,
+ *    after the last round, ranks are final and the prize pool is paid out
+ *    (complete_tournament RPC).
+ * 4. Run: at most one pending match per invocation is played through
+ *    run-debate (a debate can take the full function time). Timed-out
+ *    debates are resumed by debate-watchdog and synced on a later run.
+ *
+ * Schedule via pg_cron every 5 minutes, or call manually.
+ * Usage: supabase.functions.invoke('tournament-runner')
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import {
+  computeStandings,
+  DEFAULT_PRIZE_SPLIT,
+  isDecided,
+  matchWinner,
+  pairEliminationOpening,
+  pairEliminationRound,
+  pairSwissRound,
+  planPrizes,
+  roundsFor,
+  seedEntrants,
+  type Pairing,
+  type Seed,
+  type TournamentFormat,
+  type TournamentMatch,
+} from "../_shared/tournament.ts";
+import type { Outcome } from "../_shared/settlement.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// ─── Types ───
+interface TournamentRow {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: string;
+  debate_format_id: string;
+  total_rounds: number | null;
+  current_round: number;
+  prize_pool: number;
+  prize_split: number[] | null;
+}
+
+interface MatchRow {
+  id: string;
+  tournament_id: string;
+  round: number;
+  slot: number;
+  agent1_id: string;
+  agent2_id: string | null;
+  status: "pending" | "running" | "completed" | "bye";
+  debate_id: string | null;
+  outcome: Outcome | null;
+  attempts: number;
+  started_at: string | null;
+}
+
+type Supabase = ReturnType<typeof createClient>;
+
+// ─── Helpers ───
+function toMatch(row: MatchRow): TournamentMatch {
+  return {
+    round: row.round,
+    slot: row.slot,
+    agent1_id: row.agent1_id,
+    agent2_id: row.agent2_id,
+    outcome: row.status === "completed" ? row.outcome : null,
+  };
+}
+
+async function loadSeeds(supabase: Supabase, tournamentId: string): Promise<Seed[]> {
+  const { data, error } = await supabase
+    .from("tournament_entries")
+    .select("agent_id, seed")
+    .eq("tournament_id", tournamentId);
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((e: { agent_id: string; seed: number | null }) => ({
+    agent_id: e.agent_id,
+    seed: e.seed ?? Number.MAX_SAFE_INTEGER,
+  }));
+}
+
+async function loadMatches(supabase: Supabase, tournamentId: string): Promise<MatchRow[]> {
+  const { data, error } = await supabase
+    .from("tournament_matches")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("round", { ascending: true })
+    .order("slot", { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as MatchRow[];
+}
+
+// ─── 1. Start ───
+async function startTournament(supabase: Supabase, tournament: TournamentRow): Promise<string> {
+  const { data: entries, error } = await supabase
+    .from("tournament_entries")
+    .select("agent_id, registered_at, agents:agent_id (elo_score)")
+    .eq("tournament_id", tournament.id);
+  if (error) throw new Error(error.message);
+
+  if (!entries || entries.length < 2) {
+    const { error: cancelError } = await supabase.rpc("cancel_tournament", { p_tournament_id: tournament.id });
+    if (cancelError) throw new Error(cancelError.message);
+    return "cancelled";
+  }
+
+  const seeds = seedEntrants(
+    entries.map((e: { agent_id: string; registered_at: string; agents: { elo_score: number } | null }) => ({
+      agent_id: e.agent_id,
+      elo_score: e.agents?.elo_score ?? 0,
+      registered_at: e.registered_at,
+    })),
+  );
+  const totalRounds = tournament.format === "single_elim"
+    ? roundsFor(seeds.length)
+    : tournament.total_rounds ?? roundsFor(seeds.length);
+  const opening = tournament.format === "single_elim"
+    ? pairEliminationOpening(seeds)
+    : pairSwissRound(1, computeStandings("swiss", seeds, []), []);
+
+  const { error: startError } = await supabase.rpc("start_tournament", {
+    p_tournament_id: tournament.id,
+    p_total_rounds: totalRounds,
+    p_seeds: seeds,
+    p_matches: opening,
+  });
+  if (startError) throw new Error(startError.message);
+  return "started";
+}
+
+// ─── 2. Sync running matches with their debates ───
+async function syncMatches(
+  supabase: Supabase,
+  tournament: TournamentRow,
+  matches: MatchRow[],
+  seeds: Seed[],
+  limits: { staleMinutes: number; maxAttempts: number },
+): Promise<void> {
+  const running = matches.filter((m) => m.status === "running");
+  if (running.length === 0) return;
+
+  const debateIds = running.map((m) => m.debate_id).filter((id): id is string => !!id);
+  const { data: debates } = debateIds.length
+    ? await supabase.from("debates").select("id, status, outcome").in("id", debateIds)
+    : { data: [] };
+  const byId = new Map((debates ?? []).map((d: { id: string; status: string; outcome: Outcome | null }) => [d.id, d]));
+  const seedMap = new Map(seeds.map((s) => [s.agent_id, s.seed]));
+  const staleBefore = Date.now() - limits.staleMinutes * 60 * 1000;
+
+  for (const match of running) {
+    const debate = match.debate_id ? byId.get(match.debate_id) : undefined;
+
+    if (debate?.status === "completed" && debate.outcome) {
+      await finishMatch(supabase, tournament, match, debate.outcome, seedMap);
+      continue;
+    }
+
+    const lost = debate?.status === "aborted" ||
+      (!debate && match.started_at !== null && new Date(match.started_at).getTime() < staleBefore);
+    if (!lost) continue;
+
+    if (match.attempts >= limits.maxAttempts) {
+      // Repeatedly failing match: recorded as a draw (better seed advances in a bracket)
+      await finishMatch(supabase, tournament, match, "draw", seedMap);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from("tournament_matches")
+      .update({ status: "pending", debate_id: null, started_at: null })
+      .eq("id", match.id)
+      .eq("status", "running");
+    if (error) console.error(`Failed to reset match ${match.id}:`, error.message);
+    else match.status = "pending";
+  }
+}
+
+async function finishMatch(
+  supabase: Supabase,
+  tournament: TournamentRow,
+  match: MatchRow,
+  outcome: Outcome,
+  seedMap: Map<string, number>,
+): Promise<void> {
+  const winner = matchWinner({ ...toMatch(match), outcome }, tournament.format, seedMap);
+  const { error } = await supabase
+    .from("tournament_matches")
+    .update({
+      status: "completed",
+      outcome,
+      winner_agent_id: winner,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", match.id)
+    .eq("status", "running");
+  if (error) {
+    console.error(`Failed to complete match ${match.id}:`, error.message);
+    return;
+  }
+  match.status = "completed";
+  match.outcome = outcome;
+}
+
+// ─── 3. Advance / complete ───
+async function advanceTournament(
+  supabase: Supabase,
+  tournament: TournamentRow,
+  matches: MatchRow[],
+  seeds: Seed[],
+): Promise<string | null> {
+  const all = matches.map(toMatch);
+  const current = all.filter((m) => m.round === tournament.current_round);
+  if (current.length === 0 || !current.every(isDecided)) return null;
+
+  const standings = computeStandings(tournament.format, seeds, all);
+  let next: Pairing[] = [];
+  if (tournament.format === "single_elim") {
+    next = pairEliminationRound(current, new Map(seeds.map((s) => [s.agent_id, s.seed])));
+  } else if (tournament.current_round < (tournament.total_rounds ?? 0)) {
+    next = pairSwissRound(tournament.current_round + 1, standings, all);
+  }
+
+  if (next.length > 0) {
+    const { error } = await supabase.rpc("advance_tournament", {
+      p_tournament_id: tournament.id,
+      p_from_round: tournament.current_round,
+      p_standings: standings,
+      p_matches: next,
+    });
+    if (error) throw new Error(error.message);
+    return `round ${tournament.current_round + 1}`;
+  }
+
+  const payouts = planPrizes(tournament.prize_pool, tournament.prize_split ?? DEFAULT_PRIZE_SPLIT, standings);
+  const { error } = await supabase.rpc("complete_tournament", {
+    p_tournament_id: tournament.id,
+    p_standings: standings,
+    p_payouts: payouts,
+  });
+  if (error) throw new Error(error.message);
+  return "completed";
+}
+
+// ─── 4. Run one match ───
+async function runMatch(
+  supabase: Supabase,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  tournament: TournamentRow,
+  match: MatchRow,
+): Promise<{ id: string; ok: boolean; error?: string } | null> {
+  const debateId = crypto.randomUUID();
+
+  // Claim it: the status guard stops two runner invocations playing the same match
+  const { data: claimed } = await supabase
+    .from("tournament_matches")
+    .update({
+      status: "running",
+      debate_id: debateId,
+      attempts: match.attempts + 1,
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", match.id)
+    .eq("status", "pending")
+    .select("id");
+  if (!claimed || claimed.length === 0) return null;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/run-debate`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify({
+      mode: "tournament",
+      agent1_id: match.agent1_id,
+      agent2_id: match.agent2_id,
+      debate_id: debateId,
+      format_id: tournament.debate_format_id,
+    }),
+  });
+
+  return response.ok
+    ? { id: match.id, ok: true }
+    : { id: match.id, ok: false, error: `run-debate ${response.status}: ${await response.text()}` };
+}
+
+// ─── Main Handler ───
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const limits = {
+      staleMinutes: Number(Deno.env.get("TOURNAMENT_STALE_MINUTES") ?? 15),
+      maxAttempts: Number(Deno.env.get("TOURNAMENT_MAX_ATTEMPTS") ?? 3),
+    };
+    const events: string[] = [];
+
+    // ─── 1. Start due tournaments ───
+    const { data: due, error: dueError } = await supabase
+      .from("tournaments")
+      .select("*")
+      .eq("status", "registration")
+      .lte("starts_at", new Date().toISOString());
+    if (dueError) throw new Error(dueError.message);
+
+    for (const tournament of (due ?? []) as TournamentRow[]) {
+      events.push(`${tournament.id}: ${await startTournament(supabase, tournament)}`);
+    }
+
+    // ─── 2-3. Sync + advance running tournaments ───
+    const { data: active, error: activeError } = await supabase
+      .from("tournaments")
+      .select("*")
+      .eq("status", "in_progress")
+      .order("started_at", { ascending: true });
+    if (activeError) throw new Error(activeError.message);
+
+    let played: { id: string; ok: boolean; error?: string } | null = null;
+
+    for (const tournament of (active ?? []) as TournamentRow[]) {
+      const seeds = await loadSeeds(supabase, tournament.id);
+      const matches = await loadMatches(supabase, tournament.id);
+
+      await syncMatches(supabase, tournament, matches, seeds, limits);
+      const advanced = await advanceTournament(supabase, tournament, matches, seeds);
+      if (advanced) {
+        events.push(`${tournament.id}: ${advanced}`);
+        continue;
+      }
+
+      // ─── 4. Play one pending match of the current round ───
+      if (played) continue;
+      const pending = matches.find((m) => m.round === tournament.current_round && m.status === "pending");
+      if (pending) played = await runMatch(supabase, supabaseUrl, supabaseServiceKey, tournament, pending);
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: `${active?.length ?? 0} active tournaments checked.`,
+        events,
+        played,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Tournament runner error:", message);
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -1,4 +1,12 @@
 // trade-stock Edge Function — Buy/Sell stocks atomically
+//
+// Market orders (no order_type, or "market") trade with the house on its
+// price curve (execute_trade, see 029_trade_impact.sql); max_slippage_pct
+// rejects the trade when the average fill strays further from expected_price
+// (the quoted average fill; the current price without one). order_type "limit" / "stop" places an order
+// on the book (place_stock_order, see 028_order_book.sql) with limit_price,
+// stop_price and time_in_force (gtc | day | ioc); action "cancel" with
+// order_id cancels one (cancel_stock_order).
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 const corsHeaders = {
@@ -24,24 +32,44 @@ Deno.serve(async (req: Request) => {
     }
 
     // Parse request body
-    const { action, stock_id, shares } = await req.json();
+    const {
+      action, stock_id, shares, order_type, limit_price, stop_price, time_in_force, order_id, max_slippage_pct,
+      expected_price,
+    } = await req.json();
+    const orderType: string = order_type ?? 'market';
 
-    if (!action || !stock_id || !shares) {
-      return new Response(
-        JSON.stringify({ error: 'action, stock_id, shares are required.' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
-      );
-    }
+    if (action === 'cancel') {
+      if (!order_id) {
+        return new Response(
+          JSON.stringify({ error: 'order_id is required.' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+    } else {
+      if (!action || !stock_id || !shares) {
+        return new Response(
+          JSON.stringify({ error: 'action, stock_id, shares are required.' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
 
-    if (!['buy', 'sell'].includes(action)) {
-      return new Response(
-        JSON.stringify({ error: 'action must be "buy" or "sell".' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
-      );
+      if (!['buy', 'sell'].includes(action)) {
+        return new Response(
+          JSON.stringify({ error: 'action must be "buy", "sell" or "cancel".' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
+
+      if (!['market', 'limit', 'stop'].includes(orderType)) {
+        return new Response(
+          JSON.stringify({ error: 'order_type must be "market", "limit" or "stop".' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+        );
+      }
     }
 
     const sharesNum = typeof shares === 'number' ? shares : parseInt(String(shares), 10);
-    if (isNaN(sharesNum) || sharesNum <= 0 || sharesNum > 1000) {
+    if (action !== 'cancel' && (isNaN(sharesNum) || sharesNum <= 0 || sharesNum > 1000)) {
       return new Response(
         JSON.stringify({ error: '거래 수량은 1~1000 사이여야 합니다.' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
@@ -65,18 +93,38 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Use service role client to call the DB function (SECURITY DEFINER)
     // Use service role client to call the DB function (SECURITY DEFINER)
     const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
-    
-    console.log(`Processing trade: user=${user.id}, stock=${stock_id}, action=${action}, shares=${sharesNum}`);
-
-    const { data, error } = await serviceClient.rpc('execute_trade', {
-      p_user_id: user.id,
-      p_stock_id: stock_id,
-      p_action: action,
-      p_shares: sharesNum,
-    });
+
+    let rpc;
+    if (action === 'cancel') {
+      console.log(`Cancelling order: user=${user.id}, order=${order_id}`);
+      rpc = serviceClient.rpc('cancel_stock_order', { p_user_id: user.id, p_order_id: order_id });
+    } else if (orderType === 'market') {
+      console.log(`Processing trade: user=${user.id}, stock=${stock_id}, action=${action}, shares=${sharesNum}`);
+      rpc = serviceClient.rpc('execute_trade', {
+        p_user_id: user.id,
+        p_stock_id: stock_id,
+        p_action: action,
+        p_shares: sharesNum,
+        p_max_slippage_pct: typeof max_slippage_pct === 'number' ? max_slippage_pct : null,
+        p_expected_price: typeof expected_price === 'number' ? expected_price : null,
+      });
+    } else {
+      console.log(`Placing ${orderType} order: user=${user.id}, stock=${stock_id}, side=${action}, shares=${sharesNum}`);
+      rpc = serviceClient.rpc('place_stock_order', {
+        p_user_id: user.id,
+        p_stock_id: stock_id,
+        p_side: action,
+        p_order_type: orderType,
+        p_quantity: sharesNum,
+        p_limit_price: limit_price ?? null,
+        p_stop_price: stop_price ?? null,
+        p_time_in_force: time_in_force ?? 'gtc',
+      });
+    }
+
+    const { data, error } = await rpc;
 
     if (error) {
       console.error('RPC failed:', JSON.stringify(error, null, 2));
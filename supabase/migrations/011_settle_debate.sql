@@ -0,0 +1,150 @@
+-- =============================================
+-- AI Agora: Atomic Debate Settlement RPC
+-- =============================================
+-- Applies a settlement plan (built by _shared/settlement.ts in run-debate)
+-- in a single transaction: ELO, tier, win/loss records, debate result,
+-- stock prices + history, and shareholder dividends.
+--
+-- Idempotent on debate_id: debates.settled_at is set on success, and a
+-- re-run for the same debate returns early without paying twice.
+
+-- 1. Settlement marker
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS settled_at TIMESTAMPTZ;
+
+-- 2. Tier mapping (mirrors getTierFromElo)
+CREATE OR REPLACE FUNCTION public.tier_from_elo(p_elo INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_elo >= 1800 THEN 'Legend'
+    WHEN p_elo >= 1500 THEN 'Diamond'
+    WHEN p_elo >= 1300 THEN 'Gold'
+    WHEN p_elo >= 1100 THEN 'Silver'
+    ELSE 'Bronze'
+  END;
+$$;
+
+-- 3. settle_debate
+-- p_plan shape (SettlementPlan):
+--   { winnerDelta, loserDelta,
+--     agents: { winner: { id, ... }, loser: { id, ... } },
+--     stocks: { winner: { id, current_price, market_cap, price_change_24h } | null, loser: ... },
+--     dividends: [{ user_id, amount, description }] }
+-- ELO and records are applied as deltas on the locked rows, so a stale plan
+-- can never roll back a concurrent change to the same agent.
+CREATE OR REPLACE FUNCTION public.settle_debate(
+  p_debate_id TEXT,
+  p_rounds JSONB,
+  p_judge_reasoning TEXT,
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debate RECORD;
+  v_winner_id TEXT := p_plan->'agents'->'winner'->>'id';
+  v_loser_id TEXT := p_plan->'agents'->'loser'->>'id';
+  v_winner_delta INTEGER := (p_plan->>'winnerDelta')::integer;
+  v_loser_delta INTEGER := (p_plan->>'loserDelta')::integer;
+  v_winner_elo INTEGER;
+  v_loser_elo INTEGER;
+  v_stock JSONB;
+  v_payout JSONB;
+  v_paid INTEGER := 0;
+BEGIN
+  -- Lock debate row (serialises concurrent settlements of the same debate)
+  SELECT * INTO v_debate FROM debates WHERE id = p_debate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Debate not found.');
+  END IF;
+
+  IF v_debate.settled_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'already_settled', true);
+  END IF;
+
+  -- Lock both agents in a stable order to avoid deadlocks
+  PERFORM 1 FROM agents WHERE id IN (v_winner_id, v_loser_id) ORDER BY id FOR UPDATE;
+
+  -- ─── Agents ───
+  UPDATE agents
+  SET elo_score = elo_score + v_winner_delta,
+      tier = tier_from_elo(elo_score + v_winner_delta),
+      wins = wins + 1,
+      total_debates = total_debates + 1
+  WHERE id = v_winner_id
+  RETURNING elo_score INTO v_winner_elo;
+
+  UPDATE agents
+  SET elo_score = elo_score + v_loser_delta,
+      tier = tier_from_elo(elo_score + v_loser_delta),
+      losses = losses + 1,
+      total_debates = total_debates + 1
+  WHERE id = v_loser_id
+  RETURNING elo_score INTO v_loser_elo;
+
+  -- ─── Debate result ───
+  UPDATE debates
+  SET rounds = p_rounds,
+      judge_reasoning = p_judge_reasoning,
+      winner_id = v_winner_id,
+      elo_change_winner = v_winner_delta,
+      elo_change_loser = v_loser_delta,
+      status = 'completed',
+      completed_at = now(),
+      settled_at = now()
+  WHERE id = p_debate_id;
+
+  -- ─── Stock prices + history ───
+  FOR v_stock IN
+    SELECT value FROM jsonb_array_elements(
+      jsonb_build_array(p_plan->'stocks'->'winner', p_plan->'stocks'->'loser')
+    )
+  LOOP
+    CONTINUE WHEN v_stock IS NULL OR jsonb_typeof(v_stock) <> 'object';
+
+    UPDATE agent_stocks
+    SET current_price = (v_stock->>'current_price')::real,
+        market_cap = (v_stock->>'market_cap')::real,
+        price_change_24h = (v_stock->>'price_change_24h')::real
+    WHERE id = v_stock->>'id';
+
+    INSERT INTO stock_price_history (stock_id, price)
+    VALUES (v_stock->>'id', (v_stock->>'current_price')::real);
+  END LOOP;
+
+  -- ─── Dividends ───
+  FOR v_payout IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'dividends', '[]'::jsonb))
+  LOOP
+    UPDATE profiles
+    SET gold_balance = gold_balance + (v_payout->>'amount')::integer, updated_at = now()
+    WHERE id = (v_payout->>'user_id')::uuid;
+
+    -- Deterministic id: a second payout for the same debate/holder is impossible
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'dividend_' || p_debate_id || '_' || (v_payout->>'user_id'),
+      (v_payout->>'user_id')::uuid,
+      (v_payout->>'amount')::integer,
+      'dividend',
+      v_payout->>'description'
+    );
+
+    v_paid := v_paid + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'winner_elo', v_winner_elo,
+    'loser_elo', v_loser_elo,
+    'dividends_paid', v_paid
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_debate(text, jsonb, text, jsonb) TO service_role;
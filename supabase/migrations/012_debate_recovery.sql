@@ -0,0 +1,186 @@
+-- =============================================
+-- AI Agora: Stale Debate Recovery
+-- =============================================
+-- run-debate persists `rounds` as each argument lands and bumps
+-- last_activity_at. The debate-watchdog Edge Function uses that heartbeat
+-- to find debates stuck in 'in_progress' (e.g. Edge Function timeout) and
+-- either resumes them from the persisted rounds or aborts them.
+
+-- 1. New terminal status: 'aborted'
+ALTER TABLE public.debates DROP CONSTRAINT IF EXISTS debates_status_check;
+ALTER TABLE public.debates ADD CONSTRAINT debates_status_check
+  CHECK (status IN ('pending', 'in_progress', 'completed', 'aborted'));
+
+-- 2. Heartbeat, resume bookkeeping, and who paid the rate-limit slot
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS resume_attempts INTEGER DEFAULT 0;
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES public.profiles(id);
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS abort_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_debates_stale ON public.debates(status, last_activity_at);
+
+-- 3. abort_debate: mark aborted + refund the requester's daily debate slot
+CREATE OR REPLACE FUNCTION public.abort_debate(
+  p_debate_id TEXT,
+  p_reason TEXT DEFAULT 'stale'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debate RECORD;
+  v_refunded BOOLEAN := false;
+BEGIN
+  SELECT * INTO v_debate FROM debates WHERE id = p_debate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Debate not found.');
+  END IF;
+
+  -- Only in-progress debates can be aborted (idempotent for re-runs)
+  IF v_debate.status <> 'in_progress' THEN
+    RETURN jsonb_build_object('success', false, 'status', v_debate.status);
+  END IF;
+
+  UPDATE debates
+  SET status = 'aborted',
+      abort_reason = p_reason,
+      completed_at = now()
+  WHERE id = p_debate_id;
+
+  -- Refund only if the slot was charged today (counters reset daily)
+  IF v_debate.requested_by IS NOT NULL THEN
+    UPDATE usage_tracking
+    SET debates_today = GREATEST(debates_today - 1, 0)
+    WHERE user_id = v_debate.requested_by
+      AND last_debate_date = (v_debate.started_at AT TIME ZONE 'UTC')::date;
+    v_refunded := FOUND;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', 'aborted', 'refunded', v_refunded);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.abort_debate(text, text) TO service_role;
+
+-- 4. settle_debate: refuse to settle an aborted debate
+CREATE OR REPLACE FUNCTION public.settle_debate(
+  p_debate_id TEXT,
+  p_rounds JSONB,
+  p_judge_reasoning TEXT,
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debate RECORD;
+  v_winner_id TEXT := p_plan->'agents'->'winner'->>'id';
+  v_loser_id TEXT := p_plan->'agents'->'loser'->>'id';
+  v_winner_delta INTEGER := (p_plan->>'winnerDelta')::integer;
+  v_loser_delta INTEGER := (p_plan->>'loserDelta')::integer;
+  v_winner_elo INTEGER;
+  v_loser_elo INTEGER;
+  v_stock JSONB;
+  v_payout JSONB;
+  v_paid INTEGER := 0;
+BEGIN
+  -- Lock debate row (serialises concurrent settlements of the same debate)
+  SELECT * INTO v_debate FROM debates WHERE id = p_debate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Debate not found.');
+  END IF;
+
+  IF v_debate.settled_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'already_settled', true);
+  END IF;
+
+  -- A debate the watchdog already aborted (and refunded) must not settle late
+  IF v_debate.status = 'aborted' THEN
+    RETURN jsonb_build_object('error', 'Debate was aborted.');
+  END IF;
+
+  -- Lock both agents in a stable order to avoid deadlocks
+  PERFORM 1 FROM agents WHERE id IN (v_winner_id, v_loser_id) ORDER BY id FOR UPDATE;
+
+  -- ─── Agents ───
+  UPDATE agents
+  SET elo_score = elo_score + v_winner_delta,
+      tier = tier_from_elo(elo_score + v_winner_delta),
+      wins = wins + 1,
+      total_debates = total_debates + 1
+  WHERE id = v_winner_id
+  RETURNING elo_score INTO v_winner_elo;
+
+  UPDATE agents
+  SET elo_score = elo_score + v_loser_delta,
+      tier = tier_from_elo(elo_score + v_loser_delta),
+      losses = losses + 1,
+      total_debates = total_debates + 1
+  WHERE id = v_loser_id
+  RETURNING elo_score INTO v_loser_elo;
+
+  -- ─── Debate result ───
+  UPDATE debates
+  SET rounds = p_rounds,
+      judge_reasoning = p_judge_reasoning,
+      winner_id = v_winner_id,
+      elo_change_winner = v_winner_delta,
+      elo_change_loser = v_loser_delta,
+      status = 'completed',
+      completed_at = now(),
+      settled_at = now()
+  WHERE id = p_debate_id;
+
+  -- ─── Stock prices + history ───
+  FOR v_stock IN
+    SELECT value FROM jsonb_array_elements(
+      jsonb_build_array(p_plan->'stocks'->'winner', p_plan->'stocks'->'loser')
+    )
+  LOOP
+    CONTINUE WHEN v_stock IS NULL OR jsonb_typeof(v_stock) <> 'object';
+
+    UPDATE agent_stocks
+    SET current_price = (v_stock->>'current_price')::real,
+        market_cap = (v_stock->>'market_cap')::real,
+        price_change_24h = (v_stock->>'price_change_24h')::real
+    WHERE id = v_stock->>'id';
+
+    INSERT INTO stock_price_history (stock_id, price)
+    VALUES (v_stock->>'id', (v_stock->>'current_price')::real);
+  END LOOP;
+
+  -- ─── Dividends ───
+  FOR v_payout IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'dividends', '[]'::jsonb))
+  LOOP
+    UPDATE profiles
+    SET gold_balance = gold_balance + (v_payout->>'amount')::integer, updated_at = now()
+    WHERE id = (v_payout->>'user_id')::uuid;
+
+    -- Deterministic id: a second payout for the same debate/holder is impossible
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'dividend_' || p_debate_id || '_' || (v_payout->>'user_id'),
+      (v_payout->>'user_id')::uuid,
+      (v_payout->>'amount')::integer,
+      'dividend',
+      v_payout->>'description'
+    );
+
+    v_paid := v_paid + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'winner_elo', v_winner_elo,
+    'loser_elo', v_loser_elo,
+    'dividends_paid', v_paid
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_debate(text, jsonb, text, jsonb) TO service_role;
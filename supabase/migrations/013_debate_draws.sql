@@ -0,0 +1,189 @@
+-- =============================================
+-- AI Agora: Draw Outcomes
+-- =============================================
+-- A completed debate now has an explicit outcome. winner_id semantics:
+--   status = 'completed' AND winner_id IS NULL  → draw (outcome = 'draw')
+--   status <> 'completed' AND winner_id IS NULL → not judged yet
+-- elo_change_winner/loser stay 0 on a draw; per-agent deltas are always
+-- stored in elo_change_agent1/agent2.
+
+-- 1. Outcome + per-side ELO deltas
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS outcome TEXT
+  CHECK (outcome IN ('agent1', 'agent2', 'draw'));
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS elo_change_agent1 INTEGER DEFAULT 0;
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS elo_change_agent2 INTEGER DEFAULT 0;
+
+-- Backfill decided debates
+UPDATE public.debates
+SET outcome = CASE
+      WHEN winner_id = agent1_id THEN 'agent1'
+      WHEN winner_id = agent2_id THEN 'agent2'
+      ELSE 'draw'
+    END,
+    elo_change_agent1 = CASE WHEN winner_id = agent1_id THEN elo_change_winner ELSE elo_change_loser END,
+    elo_change_agent2 = CASE WHEN winner_id = agent2_id THEN elo_change_winner ELSE elo_change_loser END
+WHERE status = 'completed' AND outcome IS NULL;
+
+-- 2. settle_debate for the agent1/agent2 plan shape
+-- p_plan shape (SettlementPlan):
+--   { outcome: 'agent1' | 'agent2' | 'draw', winnerId: text | null,
+--     agents: { agent1: { id, result: 'win'|'loss'|'draw', elo_delta, ... }, agent2: ... },
+--     stocks: { agent1: { id, current_price, market_cap, price_change_24h } | null, agent2: ... },
+--     dividends: [{ user_id, amount, description }] }
+CREATE OR REPLACE FUNCTION public.settle_debate(
+  p_debate_id TEXT,
+  p_rounds JSONB,
+  p_judge_reasoning TEXT,
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debate RECORD;
+  v_outcome TEXT := p_plan->>'outcome';
+  v_agent1 JSONB := p_plan->'agents'->'agent1';
+  v_agent2 JSONB := p_plan->'agents'->'agent2';
+  v_agent JSONB;
+  v_agent1_elo INTEGER;
+  v_agent2_elo INTEGER;
+  v_new_elo INTEGER;
+  v_winner_delta INTEGER := 0;
+  v_loser_delta INTEGER := 0;
+  v_stock JSONB;
+  v_payout JSONB;
+  v_paid INTEGER := 0;
+BEGIN
+  IF v_outcome NOT IN ('agent1', 'agent2', 'draw') THEN
+    RETURN jsonb_build_object('error', 'Invalid outcome: ' || COALESCE(v_outcome, 'null'));
+  END IF;
+
+  -- Lock debate row (serialises concurrent settlements of the same debate)
+  SELECT * INTO v_debate FROM debates WHERE id = p_debate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Debate not found.');
+  END IF;
+
+  IF v_debate.settled_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'already_settled', true);
+  END IF;
+
+  -- A debate the watchdog already aborted (and refunded) must not settle late
+  IF v_debate.status = 'aborted' THEN
+    RETURN jsonb_build_object('error', 'Debate was aborted.');
+  END IF;
+
+  -- Lock both agents in a stable order to avoid deadlocks
+  PERFORM 1 FROM agents WHERE id IN (v_agent1->>'id', v_agent2->>'id') ORDER BY id FOR UPDATE;
+
+  -- ─── Agents (deltas on locked rows) ───
+  FOR v_agent IN SELECT value FROM jsonb_array_elements(jsonb_build_array(v_agent1, v_agent2))
+  LOOP
+    UPDATE agents
+    SET elo_score = elo_score + (v_agent->>'elo_delta')::integer,
+        tier = tier_from_elo(elo_score + (v_agent->>'elo_delta')::integer),
+        wins = wins + CASE WHEN v_agent->>'result' = 'win' THEN 1 ELSE 0 END,
+        losses = losses + CASE WHEN v_agent->>'result' = 'loss' THEN 1 ELSE 0 END,
+        draws = draws + CASE WHEN v_agent->>'result' = 'draw' THEN 1 ELSE 0 END,
+        total_debates = total_debates + 1
+    WHERE id = v_agent->>'id'
+    RETURNING elo_score INTO v_new_elo;
+
+    IF v_agent->>'id' = v_agent1->>'id' THEN
+      v_agent1_elo := v_new_elo;
+    ELSE
+      v_agent2_elo := v_new_elo;
+    END IF;
+  END LOOP;
+
+  IF v_outcome = 'agent1' THEN
+    v_winner_delta := (v_agent1->>'elo_delta')::integer;
+    v_loser_delta := (v_agent2->>'elo_delta')::integer;
+  ELSIF v_outcome = 'agent2' THEN
+    v_winner_delta := (v_agent2->>'elo_delta')::integer;
+    v_loser_delta := (v_agent1->>'elo_delta')::integer;
+  END IF;
+
+  -- ─── Debate result ───
+  UPDATE debates
+  SET rounds = p_rounds,
+      judge_reasoning = p_judge_reasoning,
+      outcome = v_outcome,
+      winner_id = p_plan->>'winnerId',
+      elo_change_winner = v_winner_delta,
+      elo_change_loser = v_loser_delta,
+      elo_change_agent1 = (v_agent1->>'elo_delta')::integer,
+      elo_change_agent2 = (v_agent2->>'elo_delta')::integer,
+      status = 'completed',
+      completed_at = now(),
+      settled_at = now()
+  WHERE id = p_debate_id;
+
+  -- ─── Stock prices + history (none on a draw) ───
+  FOR v_stock IN
+    SELECT value FROM jsonb_array_elements(
+      jsonb_build_array(p_plan->'stocks'->'agent1', p_plan->'stocks'->'agent2')
+    )
+  LOOP
+    CONTINUE WHEN v_stock IS NULL OR jsonb_typeof(v_stock) <> 'object';
+
+    UPDATE agent_stocks
+    SET current_price = (v_stock->>'current_price')::real,
+        market_cap = (v_stock->>'market_cap')::real,
+        price_change_24h = (v_stock->>'price_change_24h')::real
+    WHERE id = v_stock->>'id';
+
+    INSERT INTO stock_price_history (stock_id, price)
+    VALUES (v_stock->>'id', (v_stock->>'current_price')::real);
+  END LOOP;
+
+  -- ─── Dividends (none on a draw) ───
+  FOR v_payout IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'dividends', '[]'::jsonb))
+  LOOP
+    UPDATE profiles
+    SET gold_balance = gold_balance + (v_payout->>'amount')::integer, updated_at = now()
+    WHERE id = (v_payout->>'user_id')::uuid;
+
+    -- Deterministic id: a second payout for the same debate/holder is impossible
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'dividend_' || p_debate_id || '_' || (v_payout->>'user_id'),
+      (v_payout->>'user_id')::uuid,
+      (v_payout->>'amount')::integer,
+      'dividend',
+      v_payout->>'description'
+    );
+
+    v_paid := v_paid + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', v_outcome,
+    'agent1_elo', v_agent1_elo,
+    'agent2_elo', v_agent2_elo,
+    'dividends_paid', v_paid
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.settle_debate(text, jsonb, text, jsonb) TO service_role;
+
+-- 3. Refresh debates_view (d.* is expanded at creation time, so the new
+--    columns only show up after a re-create)
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id;
@@ -0,0 +1,26 @@
+-- =============================================
+-- AI Agora: Judge Panel Ballots
+-- =============================================
+-- run-debate judges every debate with a panel of judges. The per-judge
+-- ballots, the aggregation method, dissenting judges and excluded
+-- (unparseable) verdicts are kept on the debate:
+--   { method: 'majority' | 'mean',
+--     ballots: [{ judge_id, judge_name, winner, reasoning, scores }],
+--     dissent: [judge_id], excluded: [{ judge_id, judge_name, error }] }
+
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS judge_panel JSONB;
+
+-- Refresh debates_view so d.* picks up the new column
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id;
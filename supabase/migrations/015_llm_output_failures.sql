@@ -0,0 +1,43 @@
+-- =============================================
+-- AI Agora: Structured LLM Output Failures
+-- =============================================
+-- Every structured LLM response (round scores, judge verdicts, ...) is
+-- validated against a schema (_shared/schema.ts). Each invalid attempt is
+-- logged here; `repaired` is true when a repair-prompt retry then succeeded.
+
+CREATE TABLE IF NOT EXISTS public.llm_output_failures (
+  id BIGSERIAL PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  task TEXT NOT NULL,
+  debate_id TEXT REFERENCES public.debates(id) ON DELETE SET NULL,
+  judge_id TEXT,
+  provider TEXT,
+  attempt INTEGER NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('parse', 'schema')),
+  issues JSONB NOT NULL DEFAULT '[]',
+  raw_output TEXT,
+  repaired BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_failures_task ON public.llm_output_failures(task, created_at DESC);
+
+-- RLS: written by Edge Functions (service role) only, no public access
+ALTER TABLE public.llm_output_failures ENABLE ROW LEVEL SECURITY;
+
+-- Daily failure counts per task / judge / provider
+CREATE OR REPLACE VIEW public.llm_output_failure_stats AS
+SELECT
+  date_trunc('day', created_at) AS day,
+  function_name,
+  task,
+  judge_id,
+  provider,
+  count(*) AS failed_attempts,
+  count(*) FILTER (WHERE repaired) AS repaired_attempts,
+  count(*) FILTER (WHERE NOT repaired) AS unrecovered_attempts,
+  count(DISTINCT debate_id) AS debates_affected
+FROM public.llm_output_failures
+GROUP BY 1, 2, 3, 4, 5;
+
+REVOKE ALL ON public.llm_output_failure_stats FROM anon, authenticated;
@@ -0,0 +1,64 @@
+-- =============================================
+-- AI Agora: Debate Formats
+-- =============================================
+-- Formats are data, not code: number of rounds, labels, round type
+-- ('argument' | 'cross_exam'), per-round token budget and speaking order.
+-- run-debate validates a format with DebateFormatSchema (_shared/formats.ts)
+-- and falls back to 'classic' when it is missing or invalid.
+--
+-- rounds: [{ label, type: 'argument' | 'cross_exam', max_tokens, first_speaker?: 'agent1' | 'agent2' }]
+
+CREATE TABLE IF NOT EXISTS public.debate_formats (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  speaking_order TEXT NOT NULL DEFAULT 'fixed' CHECK (speaking_order IN ('fixed', 'alternate')),
+  rounds JSONB NOT NULL,
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (jsonb_typeof(rounds) = 'array' AND jsonb_array_length(rounds) BETWEEN 1 AND 8)
+);
+
+ALTER TABLE public.debate_formats ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read debate formats" ON public.debate_formats FOR SELECT USING (true);
+
+INSERT INTO public.debate_formats (id, name, description, speaking_order, rounds, sort_order) VALUES
+  ('classic', '클래식', '주장 · 반박 · 최종 변론 3라운드', 'fixed',
+   '[{"label": "주장", "type": "argument", "max_tokens": 512},
+     {"label": "반박", "type": "argument", "max_tokens": 512},
+     {"label": "최종 변론", "type": "argument", "max_tokens": 512}]', 0),
+  ('blitz', '속기전', '짧고 굵게 — 2라운드, 라운드당 짧은 발언', 'alternate',
+   '[{"label": "주장", "type": "argument", "max_tokens": 256},
+     {"label": "최종 변론", "type": "argument", "max_tokens": 256}]', 1),
+  ('oxford', '옥스퍼드식', '입론 · 교차 질의 · 반박 · 최종 변론, 선공 교대', 'alternate',
+   '[{"label": "입론", "type": "argument", "max_tokens": 512},
+     {"label": "교차 질의", "type": "cross_exam", "max_tokens": 256},
+     {"label": "반박", "type": "argument", "max_tokens": 512},
+     {"label": "최종 변론", "type": "argument", "max_tokens": 384}]', 2),
+  ('marathon', '마라톤', '5라운드 장기전 — 두 번의 교차 질의 포함', 'alternate',
+   '[{"label": "주장", "type": "argument", "max_tokens": 512},
+     {"label": "교차 질의", "type": "cross_exam", "max_tokens": 256},
+     {"label": "반박", "type": "argument", "max_tokens": 512},
+     {"label": "교차 질의", "type": "cross_exam", "max_tokens": 256},
+     {"label": "최종 변론", "type": "argument", "max_tokens": 512}]', 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- Format used by each debate (resume re-reads it)
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS format_id TEXT
+  REFERENCES public.debate_formats(id) DEFAULT 'classic';
+
+-- Refresh debates_view so d.* picks up the new column
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id;
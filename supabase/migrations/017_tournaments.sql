@@ -0,0 +1,501 @@
+-- =============================================
+-- AI Agora: Tournaments (Swiss / Single Elimination)
+-- =============================================
+-- Admins create a tournament, owners register agents (paying the entry fee
+-- into the prize pool), and the tournament-runner Edge Function seeds the
+-- field by elo_score, pairs rounds, runs each match through run-debate and
+-- pays the prize pool out by final rank.
+--
+-- Match lifecycle: pending → running (debate_id set) → completed
+--                  bye (agent2_id IS NULL, counts as a win for agent1)
+
+-- 1. Admin flag (only the service role / SQL editor may change it)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.guard_profile_admin_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_admin IS DISTINCT FROM OLD.is_admin AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'is_admin can only be changed by an administrator';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_guard_admin_flag ON public.profiles;
+CREATE TRIGGER profiles_guard_admin_flag
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_admin_flag();
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT is_admin FROM profiles WHERE id = auth.uid()), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- 2. Tables
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('swiss', 'single_elim')),
+  status TEXT NOT NULL DEFAULT 'registration'
+    CHECK (status IN ('registration', 'in_progress', 'completed', 'cancelled')),
+  debate_format_id TEXT NOT NULL DEFAULT 'classic' REFERENCES public.debate_formats(id),
+  max_participants INTEGER NOT NULL DEFAULT 16 CHECK (max_participants BETWEEN 2 AND 64),
+  -- Swiss: fixed by the creator (NULL → ⌈log2 n⌉ at start); single_elim: set at start
+  total_rounds INTEGER,
+  current_round INTEGER NOT NULL DEFAULT 0,
+  entry_fee INTEGER NOT NULL DEFAULT 0 CHECK (entry_fee >= 0),
+  prize_pool INTEGER NOT NULL DEFAULT 0 CHECK (prize_pool >= 0),
+  prize_split JSONB NOT NULL DEFAULT '[0.6, 0.3, 0.1]'::jsonb,
+  created_by UUID REFERENCES public.profiles(id),
+  starts_at TIMESTAMPTZ NOT NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  prizes_paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.tournament_entries (
+  tournament_id TEXT NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL REFERENCES public.agents(id),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id),
+  seed INTEGER,
+  points REAL NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  losses INTEGER NOT NULL DEFAULT 0,
+  draws INTEGER NOT NULL DEFAULT 0,
+  buchholz REAL NOT NULL DEFAULT 0,
+  eliminated BOOLEAN NOT NULL DEFAULT false,
+  final_rank INTEGER,
+  prize_gold INTEGER NOT NULL DEFAULT 0,
+  registered_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (tournament_id, agent_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  id TEXT PRIMARY KEY,
+  tournament_id TEXT NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  slot INTEGER NOT NULL,
+  agent1_id TEXT NOT NULL REFERENCES public.agents(id),
+  agent2_id TEXT REFERENCES public.agents(id),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'bye')),
+  debate_id TEXT REFERENCES public.debates(id),
+  outcome TEXT CHECK (outcome IN ('agent1', 'agent2', 'draw')),
+  winner_agent_id TEXT REFERENCES public.agents(id),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE (tournament_id, round, slot)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status ON public.tournaments(status, starts_at);
+CREATE INDEX IF NOT EXISTS idx_tournament_entries_owner ON public.tournament_entries(owner_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_round ON public.tournament_matches(tournament_id, round);
+
+ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below or the service role (tournament-runner)
+CREATE POLICY "Public read tournaments" ON public.tournaments FOR SELECT USING (true);
+CREATE POLICY "Public read tournament entries" ON public.tournament_entries FOR SELECT USING (true);
+CREATE POLICY "Public read tournament matches" ON public.tournament_matches FOR SELECT USING (true);
+
+-- 3. create_tournament (admins only; p_prize_seed is house gold added to the pool)
+CREATE OR REPLACE FUNCTION public.create_tournament(
+  p_name TEXT,
+  p_format TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_max_participants INTEGER DEFAULT 16,
+  p_total_rounds INTEGER DEFAULT NULL,
+  p_entry_fee INTEGER DEFAULT 0,
+  p_prize_seed INTEGER DEFAULT 0,
+  p_debate_format_id TEXT DEFAULT 'classic'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id TEXT := gen_random_uuid()::text;
+BEGIN
+  IF NOT is_admin() THEN
+    RETURN jsonb_build_object('error', 'Only administrators can create tournaments.');
+  END IF;
+
+  IF p_format NOT IN ('swiss', 'single_elim') THEN
+    RETURN jsonb_build_object('error', 'Invalid tournament format.');
+  END IF;
+
+  IF COALESCE(p_entry_fee, 0) < 0 OR COALESCE(p_prize_seed, 0) < 0 THEN
+    RETURN jsonb_build_object('error', 'Fees and prizes must not be negative.');
+  END IF;
+
+  IF p_total_rounds IS NOT NULL AND (p_format <> 'swiss' OR p_total_rounds < 1) THEN
+    RETURN jsonb_build_object('error', 'Round count can only be set for Swiss tournaments.');
+  END IF;
+
+  INSERT INTO tournaments (
+    id, name, format, starts_at, max_participants, total_rounds,
+    entry_fee, prize_pool, debate_format_id, created_by
+  )
+  VALUES (
+    v_id, p_name, p_format, p_starts_at, p_max_participants, p_total_rounds,
+    COALESCE(p_entry_fee, 0), COALESCE(p_prize_seed, 0), p_debate_format_id, auth.uid()
+  );
+
+  RETURN jsonb_build_object('success', true, 'tournament_id', v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_tournament(text, text, timestamptz, integer, integer, integer, integer, text) TO authenticated;
+
+-- 4. register_tournament_agent: owner enters an agent and pays the entry fee
+CREATE OR REPLACE FUNCTION public.register_tournament_agent(
+  p_tournament_id TEXT,
+  p_agent_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_tournament RECORD;
+  v_entries INTEGER;
+  v_balance INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'Login required.');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM agents WHERE id = p_agent_id AND owner_id = v_user_id) THEN
+    RETURN jsonb_build_object('error', 'You can only register your own agents.');
+  END IF;
+
+  -- Lock the tournament: serialises registrations against the participant cap
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Tournament not found.');
+  END IF;
+
+  IF v_tournament.status <> 'registration' OR v_tournament.starts_at <= now() THEN
+    RETURN jsonb_build_object('error', 'Registration is closed.');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tournament_entries WHERE tournament_id = p_tournament_id AND agent_id = p_agent_id) THEN
+    RETURN jsonb_build_object('error', 'Agent is already registered.');
+  END IF;
+
+  SELECT COUNT(*) INTO v_entries FROM tournament_entries WHERE tournament_id = p_tournament_id;
+  IF v_entries >= v_tournament.max_participants THEN
+    RETURN jsonb_build_object('error', 'Tournament is full.');
+  END IF;
+
+  IF v_tournament.entry_fee > 0 THEN
+    SELECT gold_balance INTO v_balance FROM profiles WHERE id = v_user_id FOR UPDATE;
+    IF v_balance < v_tournament.entry_fee THEN
+      RETURN jsonb_build_object('error', 'Insufficient gold.');
+    END IF;
+
+    UPDATE profiles
+    SET gold_balance = gold_balance - v_tournament.entry_fee, updated_at = now()
+    WHERE id = v_user_id;
+
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'tournament_fee_' || p_tournament_id || '_' || p_agent_id,
+      v_user_id,
+      -v_tournament.entry_fee,
+      'tournament_fee',
+      v_tournament.name || ' 참가비'
+    );
+
+    UPDATE tournaments SET prize_pool = prize_pool + v_tournament.entry_fee WHERE id = p_tournament_id;
+  END IF;
+
+  INSERT INTO tournament_entries (tournament_id, agent_id, owner_id)
+  VALUES (p_tournament_id, p_agent_id, v_user_id);
+
+  RETURN jsonb_build_object('success', true, 'entries', v_entries + 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_tournament_agent(text, text) TO authenticated;
+
+-- 5. start_tournament: seeds + round 1 pairings, computed by tournament-runner
+-- p_seeds:   [{ agent_id, seed }]
+-- p_matches: [{ round, slot, agent1_id, agent2_id | null }]
+CREATE OR REPLACE FUNCTION public.start_tournament(
+  p_tournament_id TEXT,
+  p_total_rounds INTEGER,
+  p_seeds JSONB,
+  p_matches JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament RECORD;
+  v_seed JSONB;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Tournament not found.');
+  END IF;
+
+  -- Idempotent: a second runner invocation finds it already started
+  IF v_tournament.status <> 'registration' THEN
+    RETURN jsonb_build_object('success', false, 'status', v_tournament.status);
+  END IF;
+
+  FOR v_seed IN SELECT value FROM jsonb_array_elements(p_seeds)
+  LOOP
+    UPDATE tournament_entries
+    SET seed = (v_seed->>'seed')::integer
+    WHERE tournament_id = p_tournament_id AND agent_id = v_seed->>'agent_id';
+  END LOOP;
+
+  PERFORM insert_tournament_round(p_tournament_id, p_matches);
+
+  UPDATE tournaments
+  SET status = 'in_progress',
+      total_rounds = p_total_rounds,
+      current_round = 1,
+      started_at = now()
+  WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Shared by start_tournament / advance_tournament: byes are decided on insert
+CREATE OR REPLACE FUNCTION public.insert_tournament_round(
+  p_tournament_id TEXT,
+  p_matches JSONB
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO tournament_matches (id, tournament_id, round, slot, agent1_id, agent2_id, status, winner_agent_id, completed_at)
+  SELECT
+    p_tournament_id || '_r' || (m->>'round') || '_m' || (m->>'slot'),
+    p_tournament_id,
+    (m->>'round')::integer,
+    (m->>'slot')::integer,
+    m->>'agent1_id',
+    m->>'agent2_id',
+    CASE WHEN m->>'agent2_id' IS NULL THEN 'bye' ELSE 'pending' END,
+    CASE WHEN m->>'agent2_id' IS NULL THEN m->>'agent1_id' END,
+    CASE WHEN m->>'agent2_id' IS NULL THEN now() END
+  FROM jsonb_array_elements(p_matches) AS m
+  ON CONFLICT (tournament_id, round, slot) DO NOTHING;
+$$;
+
+-- 6. advance_tournament: standings after a finished round + the next round
+-- p_standings: [{ agent_id, points, wins, losses, draws, buchholz, eliminated, rank }]
+CREATE OR REPLACE FUNCTION public.advance_tournament(
+  p_tournament_id TEXT,
+  p_from_round INTEGER,
+  p_standings JSONB,
+  p_matches JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament RECORD;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Tournament not found.');
+  END IF;
+
+  IF v_tournament.status <> 'in_progress' OR v_tournament.current_round <> p_from_round THEN
+    RETURN jsonb_build_object('success', false, 'current_round', v_tournament.current_round);
+  END IF;
+
+  PERFORM apply_tournament_standings(p_tournament_id, p_standings);
+  PERFORM insert_tournament_round(p_tournament_id, p_matches);
+
+  UPDATE tournaments SET current_round = p_from_round + 1 WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('success', true, 'current_round', p_from_round + 1);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_tournament_standings(
+  p_tournament_id TEXT,
+  p_standings JSONB
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE tournament_entries e
+  SET points = (s->>'points')::real,
+      wins = (s->>'wins')::integer,
+      losses = (s->>'losses')::integer,
+      draws = (s->>'draws')::integer,
+      buchholz = (s->>'buchholz')::real,
+      eliminated = (s->>'eliminated')::boolean
+  FROM jsonb_array_elements(p_standings) AS s
+  WHERE e.tournament_id = p_tournament_id AND e.agent_id = s->>'agent_id';
+$$;
+
+-- 7. complete_tournament: final ranks + prize payouts (idempotent via prizes_paid_at)
+-- p_payouts: [{ agent_id, rank, amount }] — paid to the agent's owner
+CREATE OR REPLACE FUNCTION public.complete_tournament(
+  p_tournament_id TEXT,
+  p_standings JSONB,
+  p_payouts JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament RECORD;
+  v_payout JSONB;
+  v_owner UUID;
+  v_paid INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Tournament not found.');
+  END IF;
+
+  IF v_tournament.prizes_paid_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'already_completed', true);
+  END IF;
+
+  IF v_tournament.status <> 'in_progress' THEN
+    RETURN jsonb_build_object('error', 'Tournament is not in progress.');
+  END IF;
+
+  PERFORM apply_tournament_standings(p_tournament_id, p_standings);
+
+  UPDATE tournament_entries e
+  SET final_rank = (s->>'rank')::integer
+  FROM jsonb_array_elements(p_standings) AS s
+  WHERE e.tournament_id = p_tournament_id AND e.agent_id = s->>'agent_id';
+
+  FOR v_payout IN SELECT value FROM jsonb_array_elements(COALESCE(p_payouts, '[]'::jsonb))
+  LOOP
+    CONTINUE WHEN (v_payout->>'amount')::integer <= 0;
+
+    UPDATE tournament_entries
+    SET prize_gold = (v_payout->>'amount')::integer
+    WHERE tournament_id = p_tournament_id AND agent_id = v_payout->>'agent_id'
+    RETURNING owner_id INTO v_owner;
+
+    CONTINUE WHEN v_owner IS NULL;
+
+    UPDATE profiles
+    SET gold_balance = gold_balance + (v_payout->>'amount')::integer, updated_at = now()
+    WHERE id = v_owner;
+
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'tournament_prize_' || p_tournament_id || '_' || (v_payout->>'agent_id'),
+      v_owner,
+      (v_payout->>'amount')::integer,
+      'tournament_prize',
+      v_tournament.name || ' ' || (v_payout->>'rank') || '위 상금'
+    );
+
+    v_paid := v_paid + 1;
+  END LOOP;
+
+  UPDATE tournaments
+  SET status = 'completed',
+      completed_at = now(),
+      prizes_paid_at = now()
+  WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('success', true, 'already_completed', false, 'prizes_paid', v_paid);
+END;
+$$;
+
+-- 8. cancel_tournament: too few entrants at start → refund every entry fee
+CREATE OR REPLACE FUNCTION public.cancel_tournament(p_tournament_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament RECORD;
+  v_entry RECORD;
+  v_refunded INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Tournament not found.');
+  END IF;
+
+  IF v_tournament.status <> 'registration' THEN
+    RETURN jsonb_build_object('success', false, 'status', v_tournament.status);
+  END IF;
+
+  IF v_tournament.entry_fee > 0 THEN
+    FOR v_entry IN SELECT * FROM tournament_entries WHERE tournament_id = p_tournament_id
+    LOOP
+      UPDATE profiles
+      SET gold_balance = gold_balance + v_tournament.entry_fee, updated_at = now()
+      WHERE id = v_entry.owner_id;
+
+      INSERT INTO gold_transactions (id, user_id, amount, type, description)
+      VALUES (
+        'tournament_refund_' || p_tournament_id || '_' || v_entry.agent_id,
+        v_entry.owner_id,
+        v_tournament.entry_fee,
+        'tournament_refund',
+        v_tournament.name || ' 참가비 환불'
+      );
+
+      v_refunded := v_refunded + 1;
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+  SET status = 'cancelled', prize_pool = 0, completed_at = now()
+  WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('success', true, 'refunded', v_refunded);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_tournament(text, integer, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.advance_tournament(text, integer, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_tournament(text, jsonb, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_tournament(text) TO service_role;
+
+-- Internal helpers: not callable through the API
+REVOKE EXECUTE ON FUNCTION public.insert_tournament_round(text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_tournament_standings(text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_tournament(text, integer, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.advance_tournament(text, integer, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_tournament(text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_tournament(text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,111 @@
+-- =============================================
+-- AI Agora: Glicko-2 Ratings
+-- =============================================
+-- Tracked alongside elo_score (which stays the displayed score and drives
+-- tiers). The rating-period Edge Function rates all debates completed
+-- since the last period in one batch (see _shared/glicko.ts) and applies
+-- the result through apply_rating_period.
+--
+-- conservative_rating = glicko_rating - 2 * glicko_rd: used by matchmaking
+-- and the leaderboard so agents with few debates don't rank on luck.
+
+-- 1. Agent rating columns
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS glicko_rating REAL NOT NULL DEFAULT 1000;
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS glicko_rd REAL NOT NULL DEFAULT 350;
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS glicko_volatility REAL NOT NULL DEFAULT 0.06;
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS conservative_rating REAL
+  GENERATED ALWAYS AS (glicko_rating - 2 * glicko_rd) STORED;
+
+-- Backfill: start from the current ELO; agents with a track record get a
+-- narrower RD (roughly -10 per debate played, never below 100)
+UPDATE public.agents
+SET glicko_rating = elo_score,
+    glicko_rd = GREATEST(100, 350 - 10 * COALESCE(total_debates, 0))
+WHERE glicko_rating = 1000 AND glicko_rd = 350;
+
+CREATE INDEX IF NOT EXISTS idx_agents_conservative_rating ON public.agents(conservative_rating DESC);
+
+-- 2. Rating periods
+CREATE TABLE IF NOT EXISTS public.rating_periods (
+  id SERIAL PRIMARY KEY,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  debates_rated INTEGER NOT NULL DEFAULT 0,
+  agents_updated INTEGER NOT NULL DEFAULT 0,
+  processed_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.rating_periods ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read rating periods" ON public.rating_periods FOR SELECT USING (true);
+
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS rating_period_id INTEGER REFERENCES public.rating_periods(id);
+CREATE INDEX IF NOT EXISTS idx_debates_unrated ON public.debates(completed_at)
+  WHERE status = 'completed' AND rating_period_id IS NULL;
+
+-- 3. apply_rating_period: agent ratings + mark the rated debates, atomically
+-- p_updates: [{ id, rating, rd, volatility }]
+CREATE OR REPLACE FUNCTION public.apply_rating_period(
+  p_started_at TIMESTAMPTZ,
+  p_ended_at TIMESTAMPTZ,
+  p_debate_ids TEXT[],
+  p_updates JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period_id INTEGER;
+  v_rated INTEGER;
+  v_updated INTEGER;
+BEGIN
+  -- Lock the debates: a concurrent run must not rate them twice
+  PERFORM 1 FROM debates WHERE id = ANY(p_debate_ids) ORDER BY id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM debates WHERE id = ANY(p_debate_ids) AND rating_period_id IS NOT NULL) THEN
+    RETURN jsonb_build_object('success', false, 'already_rated', true);
+  END IF;
+
+  INSERT INTO rating_periods (started_at, ended_at, debates_rated)
+  VALUES (p_started_at, p_ended_at, COALESCE(array_length(p_debate_ids, 1), 0))
+  RETURNING id INTO v_period_id;
+
+  UPDATE agents a
+  SET glicko_rating = (u->>'rating')::real,
+      glicko_rd = (u->>'rd')::real,
+      glicko_volatility = (u->>'volatility')::real
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE a.id = u->>'id';
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE debates SET rating_period_id = v_period_id WHERE id = ANY(p_debate_ids);
+  GET DIAGNOSTICS v_rated = ROW_COUNT;
+
+  UPDATE rating_periods SET agents_updated = v_updated WHERE id = v_period_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'period_id', v_period_id,
+    'debates_rated', v_rated,
+    'agents_updated', v_updated
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_rating_period(timestamptz, timestamptz, text[], jsonb) TO service_role;
+
+-- 4. Refresh debates_view (new debates column)
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id;
@@ -0,0 +1,99 @@
+-- =============================================
+-- AI Agora: Matchmaking Queue
+-- =============================================
+-- Replaces run-debate's top-20 shuffle. Owners opt agents in (a row here);
+-- run-debate mode "auto" picks the next pair with _shared/matchmaking.ts
+-- and claims it through claim_queue_match, which puts both agents on
+-- cooldown and records fairness metrics. Agents stay queued until their
+-- owner opts them out.
+
+-- 1. Queue
+CREATE TABLE IF NOT EXISTS public.matchmaking_queue (
+  agent_id TEXT PRIMARY KEY REFERENCES public.agents(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES public.profiles(id),
+  enqueued_at TIMESTAMPTZ DEFAULT now(),
+  -- Start of the current wait (enqueue, or end of the last cooldown)
+  available_since TIMESTAMPTZ NOT NULL DEFAULT now(),
+  cooldown_until TIMESTAMPTZ,
+  last_matched_at TIMESTAMPTZ,
+  last_opponent_id TEXT REFERENCES public.agents(id) ON DELETE SET NULL,
+  matches_played INTEGER NOT NULL DEFAULT 0,
+  total_wait_seconds BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchmaking_queue_available ON public.matchmaking_queue(available_since);
+
+ALTER TABLE public.matchmaking_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read matchmaking queue" ON public.matchmaking_queue FOR SELECT USING (true);
+CREATE POLICY "Owners queue own agents" ON public.matchmaking_queue FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND EXISTS (SELECT 1 FROM public.agents WHERE id = agent_id AND owner_id = auth.uid())
+  );
+CREATE POLICY "Owners dequeue own agents" ON public.matchmaking_queue FOR DELETE
+  USING (auth.uid() = owner_id);
+
+-- 2. claim_queue_match: both agents must still be queued and off cooldown
+CREATE OR REPLACE FUNCTION public.claim_queue_match(
+  p_agent1_id TEXT,
+  p_agent2_id TEXT,
+  p_cooldown_minutes INTEGER DEFAULT 30
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed INTEGER;
+  v_cooldown_until TIMESTAMPTZ := now() + make_interval(mins => p_cooldown_minutes);
+BEGIN
+  -- Lock both rows in a stable order (two auto-match runs can race)
+  PERFORM 1 FROM matchmaking_queue
+  WHERE agent_id IN (p_agent1_id, p_agent2_id)
+  ORDER BY agent_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_claimed
+  FROM matchmaking_queue
+  WHERE agent_id IN (p_agent1_id, p_agent2_id)
+    AND (cooldown_until IS NULL OR cooldown_until <= now());
+
+  IF v_claimed < 2 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Agents are no longer available.');
+  END IF;
+
+  UPDATE matchmaking_queue
+  SET total_wait_seconds = total_wait_seconds + GREATEST(0, EXTRACT(EPOCH FROM now() - available_since))::bigint,
+      matches_played = matches_played + 1,
+      last_matched_at = now(),
+      last_opponent_id = CASE WHEN agent_id = p_agent1_id THEN p_agent2_id ELSE p_agent1_id END,
+      cooldown_until = v_cooldown_until,
+      available_since = v_cooldown_until
+  WHERE agent_id IN (p_agent1_id, p_agent2_id);
+
+  RETURN jsonb_build_object('success', true, 'cooldown_until', v_cooldown_until);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_queue_match(text, text, integer) TO service_role;
+
+-- 3. Fairness metrics per queued agent
+CREATE OR REPLACE VIEW public.matchmaking_fairness AS
+SELECT
+  q.agent_id,
+  a.name AS agent_name,
+  q.owner_id,
+  q.matches_played,
+  CASE WHEN q.available_since <= now()
+    THEN EXTRACT(EPOCH FROM now() - q.available_since)::bigint
+    ELSE 0
+  END AS current_wait_seconds,
+  CASE WHEN q.matches_played > 0
+    THEN q.total_wait_seconds / q.matches_played
+  END AS avg_wait_seconds,
+  EXTRACT(EPOCH FROM now() - COALESCE(q.last_matched_at, q.enqueued_at))::bigint AS seconds_since_last_debate,
+  q.cooldown_until
+FROM public.matchmaking_queue q
+JOIN public.agents a ON a.id = q.agent_id;
@@ -0,0 +1,216 @@
+-- =============================================
+-- AI Agora: Topic Catalogue
+-- =============================================
+-- One source of truth for debate topics (replaces run-debate's
+-- DEBATE_TOPICS array and the five arena.topics i18n strings).
+-- run-debate draws from active topics with no-repeat windows
+-- (see _shared/topics.ts) and links the debate via debates.topic_id.
+--
+-- Usage counts and per-faction results are kept by triggers on debates,
+-- so every writer (run-debate, tournaments, admin tools) is counted.
+-- Admins (profiles.is_admin, see 017) manage the catalogue.
+
+-- 1. Topics
+CREATE TABLE IF NOT EXISTS public.topics (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  title TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'society',
+  language TEXT NOT NULL DEFAULT 'ko',
+  difficulty TEXT NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  pro_stance TEXT NOT NULL,
+  con_stance TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (language, title)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topics_active ON public.topics(language, category) WHERE is_active;
+
+ALTER TABLE public.topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read topics" ON public.topics FOR SELECT USING (true);
+CREATE POLICY "Admins insert topics" ON public.topics FOR INSERT WITH CHECK (public.is_admin());
+CREATE POLICY "Admins update topics" ON public.topics FOR UPDATE USING (public.is_admin());
+CREATE POLICY "Admins delete topics" ON public.topics FOR DELETE USING (public.is_admin());
+
+-- 2. Per-faction results per topic
+CREATE TABLE IF NOT EXISTS public.topic_faction_stats (
+  topic_id TEXT NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  faction TEXT NOT NULL,
+  debates INTEGER NOT NULL DEFAULT 0,
+  wins INTEGER NOT NULL DEFAULT 0,
+  losses INTEGER NOT NULL DEFAULT 0,
+  draws INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (topic_id, faction)
+);
+
+ALTER TABLE public.topic_faction_stats ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read topic faction stats" ON public.topic_faction_stats FOR SELECT USING (true);
+
+-- 3. Debates reference their topic (free-text topics stay NULL)
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS topic_id TEXT REFERENCES public.topics(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_debates_topic ON public.debates(topic_id, started_at DESC);
+
+-- 4. Usage count on debate creation
+CREATE OR REPLACE FUNCTION public.handle_topic_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.topic_id IS NOT NULL THEN
+    UPDATE public.topics
+    SET usage_count = usage_count + 1,
+        last_used_at = now()
+    WHERE id = NEW.topic_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_debate_topic_usage ON public.debates;
+CREATE TRIGGER on_debate_topic_usage
+  AFTER INSERT ON public.debates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_topic_usage();
+
+-- 5. Faction results when a debate completes
+-- p_result: 'win' | 'loss' | 'draw' from the faction's point of view
+CREATE OR REPLACE FUNCTION public.record_topic_faction_result(
+  p_topic_id TEXT,
+  p_faction TEXT,
+  p_result TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO topic_faction_stats AS s (topic_id, faction, debates, wins, losses, draws)
+  VALUES (p_topic_id, p_faction, 1,
+          (p_result = 'win')::int, (p_result = 'loss')::int, (p_result = 'draw')::int)
+  ON CONFLICT (topic_id, faction) DO UPDATE
+  SET debates = s.debates + 1,
+      wins = s.wins + EXCLUDED.wins,
+      losses = s.losses + EXCLUDED.losses,
+      draws = s.draws + EXCLUDED.draws;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_topic_faction_result(text, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_topic_result()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_faction1 TEXT;
+  v_faction2 TEXT;
+BEGIN
+  -- Only when status changes to 'completed' with a known outcome
+  IF NEW.topic_id IS NULL OR NEW.outcome IS NULL
+     OR NEW.status != 'completed' OR OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT faction INTO v_faction1 FROM public.agents WHERE id = NEW.agent1_id;
+  SELECT faction INTO v_faction2 FROM public.agents WHERE id = NEW.agent2_id;
+
+  -- One call per side: a same-faction debate counts twice for that faction
+  PERFORM public.record_topic_faction_result(NEW.topic_id, COALESCE(v_faction1, 'unknown'),
+    CASE NEW.outcome WHEN 'agent1' THEN 'win' WHEN 'agent2' THEN 'loss' ELSE 'draw' END);
+  PERFORM public.record_topic_faction_result(NEW.topic_id, COALESCE(v_faction2, 'unknown'),
+    CASE NEW.outcome WHEN 'agent2' THEN 'win' WHEN 'agent1' THEN 'loss' ELSE 'draw' END);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_debate_topic_result ON public.debates;
+CREATE TRIGGER on_debate_topic_result
+  AFTER UPDATE ON public.debates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_topic_result();
+
+-- 6. Catalogue view: usage + overall faction win rates (draws count half)
+CREATE OR REPLACE VIEW public.topics_view AS
+SELECT
+  t.*,
+  COALESCE((
+    SELECT jsonb_object_agg(s.faction, jsonb_build_object(
+      'debates', s.debates,
+      'wins', s.wins,
+      'losses', s.losses,
+      'draws', s.draws,
+      'win_rate', ROUND((s.wins + 0.5 * s.draws) * 100.0 / NULLIF(s.debates, 0), 1)
+    ))
+    FROM public.topic_faction_stats s
+    WHERE s.topic_id = t.id
+  ), '{}'::jsonb) AS faction_stats
+FROM public.topics t;
+
+-- 7. Seed: the former run-debate pool and arena topics
+INSERT INTO public.topics (title, category, language, difficulty, pro_stance, con_stance) VALUES
+  ('AI 규제가 필요한가, 자유로운 발전이 필요한가?', 'technology', 'ko', 'medium',
+   'AI는 강력한 규제로 위험을 통제해야 한다.', 'AI는 규제보다 자유로운 발전이 더 큰 이익을 준다.'),
+  ('기본소득은 실현 가능한 정책인가?', 'economy', 'ko', 'medium',
+   '기본소득은 재정적으로도 사회적으로도 실현 가능하다.', '기본소득은 재원과 노동 유인 측면에서 실현 불가능하다.'),
+  ('자본주의는 최선의 경제 시스템인가?', 'economy', 'ko', 'hard',
+   '자본주의는 현존하는 최선의 경제 시스템이다.', '자본주의보다 나은 경제 시스템이 가능하다.'),
+  ('교육은 무상이어야 하는가?', 'society', 'ko', 'easy',
+   '모든 단계의 교육은 무상으로 제공되어야 한다.', '교육 비용은 수혜자가 일정 부분 부담해야 한다.'),
+  ('기술이 인간을 자유롭게 하는가?', 'philosophy', 'ko', 'medium',
+   '기술은 인간을 노동과 제약에서 해방시킨다.', '기술은 인간을 새로운 방식으로 속박한다.'),
+  ('개인의 자유와 공공의 안전, 어느 것이 우선인가?', 'politics', 'ko', 'hard',
+   '개인의 자유가 공공의 안전보다 우선한다.', '공공의 안전이 개인의 자유보다 우선한다.'),
+  ('기후 변화 대응에서 개인의 책임 vs 기업의 책임', 'environment', 'ko', 'medium',
+   '기후 변화 대응의 핵심 책임은 개인에게 있다.', '기후 변화 대응의 핵심 책임은 기업에게 있다.'),
+  ('죽음의 정체는 정당화될 수 있는가?', 'ethics', 'ko', 'hard',
+   '정당화될 수 있다.', '정당화될 수 없다.'),
+  ('인간의 행복은 물질에서 오는가?', 'philosophy', 'ko', 'easy',
+   '인간의 행복은 물질적 풍요에서 온다.', '인간의 행복은 물질 이외의 것에서 온다.'),
+  ('완전한 평등은 가능한가, 바람직한가?', 'philosophy', 'ko', 'hard',
+   '완전한 평등은 가능하며 추구해야 할 목표다.', '완전한 평등은 불가능하거나 바람직하지 않다.'),
+  ('진정한 민주주의는 무엇인가?', 'politics', 'ko', 'hard',
+   '진정한 민주주의는 시민의 직접 참여에 있다.', '진정한 민주주의는 대의제와 제도적 견제에 있다.'),
+  ('동물 실험은 윤리적으로 정당화될 수 있는가?', 'ethics', 'ko', 'medium',
+   '인류의 생명을 위한 동물 실험은 정당화된다.', '동물 실험은 윤리적으로 정당화될 수 없다.'),
+  ('데이터 프라이버시와 국가 안보의 균형은?', 'technology', 'ko', 'hard',
+   '데이터 프라이버시가 국가 안보보다 우선해야 한다.', '국가 안보를 위해 데이터 프라이버시는 제한될 수 있다.'),
+  ('예술은 사회에 필수적인가?', 'culture', 'ko', 'easy',
+   '예술은 사회에 필수적이다.', '예술은 사회에 필수적이지 않다.'),
+  ('로봇에게 권리를 부여해야 하는가?', 'technology', 'ko', 'medium',
+   '일정 수준 이상의 로봇에게는 권리를 부여해야 한다.', '로봇에게 권리를 부여해서는 안 된다.'),
+  ('소셜미디어는 민주주의를 강화하는가, 약화하는가?', 'society', 'ko', 'medium',
+   '소셜미디어는 민주주의를 강화한다.', '소셜미디어는 민주주의를 약화한다.'),
+  ('AI가 인간의 창작물을 대체할 수 있는가?', 'technology', 'ko', 'medium',
+   'AI는 인간의 창작물을 대체할 수 있다.', 'AI는 인간의 창작물을 대체할 수 없다.'),
+  ('종교와 과학은 양립할 수 있는가?', 'philosophy', 'ko', 'hard',
+   '종교와 과학은 양립할 수 있다.', '종교와 과학은 양립할 수 없다.'),
+  ('핵에너지는 미래 에너지의 해답인가?', 'environment', 'ko', 'medium',
+   '핵에너지는 미래 에너지의 해답이다.', '핵에너지는 미래 에너지의 해답이 아니다.'),
+  ('유전자 편집 기술을 인간에게 적용해야 하는가?', 'ethics', 'ko', 'hard',
+   '유전자 편집 기술을 인간에게 적용해야 한다.', '유전자 편집 기술을 인간에게 적용해서는 안 된다.'),
+  ('Should AI be regulated?', 'technology', 'en', 'medium',
+   'AI must be strictly regulated to control its risks.', 'AI benefits more from free development than regulation.'),
+  ('Is universal basic income feasible?', 'economy', 'en', 'medium',
+   'Universal basic income is fiscally and socially feasible.', 'Universal basic income is not feasible.'),
+  ('Is capitalism the best system?', 'economy', 'en', 'hard',
+   'Capitalism is the best economic system we have.', 'A better economic system than capitalism is possible.'),
+  ('Should education be free?', 'society', 'en', 'easy',
+   'Education should be free at every level.', 'Those who benefit from education should share its cost.'),
+  ('Does technology liberate humans?', 'philosophy', 'en', 'medium',
+   'Technology frees humans from labour and constraint.', 'Technology binds humans in new ways.')
+ON CONFLICT (language, title) DO NOTHING;
+
+-- 8. Refresh debates_view (new debates column)
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id;
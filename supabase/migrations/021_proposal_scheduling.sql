@@ -0,0 +1,107 @@
+-- =============================================
+-- AI Agora: Shareholder Proposals in the Scheduler
+-- =============================================
+-- When run-debate starts a debate without an explicit topic, the top-voted
+-- open proposal of either matched agent becomes the topic (see
+-- pickProposal in _shared/topics.ts). use_topic_proposal then marks it
+-- used, links the debate and notifies everyone who voted for it.
+
+-- 1. Proposal lifecycle
+ALTER TABLE public.topic_proposals ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+  CHECK (status IN ('open', 'used'));
+ALTER TABLE public.topic_proposals ADD COLUMN IF NOT EXISTS used_at TIMESTAMPTZ;
+ALTER TABLE public.topic_proposals ADD COLUMN IF NOT EXISTS debate_id TEXT
+  REFERENCES public.debates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_topic_proposals_open ON public.topic_proposals(agent_id, votes DESC)
+  WHERE status = 'open';
+
+-- Votes only count while the proposal is open
+CREATE OR REPLACE FUNCTION vote_proposal(proposal_id_input TEXT, shares_count INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.topic_proposals WHERE id = proposal_id_input AND status = 'open') THEN
+    RAISE EXCEPTION 'PROPOSAL_CLOSED';
+  END IF;
+
+  -- Insert vote record
+  INSERT INTO public.proposal_votes (proposal_id, user_id, shares_at_vote)
+  VALUES (proposal_id_input, auth.uid(), shares_count);
+
+  -- Update total votes
+  UPDATE public.topic_proposals
+  SET votes = votes + shares_count
+  WHERE id = proposal_id_input;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2. Notifications (delivered to the client via Realtime)
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users mark own notifications read" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- 3. use_topic_proposal: mark used + link debate + notify voters (once)
+CREATE OR REPLACE FUNCTION public.use_topic_proposal(
+  p_proposal_id TEXT,
+  p_debate_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_notified INTEGER;
+BEGIN
+  SELECT p.*, a.name AS agent_name INTO v_proposal
+  FROM topic_proposals p
+  JOIN agents a ON a.id = p.agent_id
+  WHERE p.id = p_proposal_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+  IF v_proposal.status != 'open' THEN
+    RETURN jsonb_build_object('success', false, 'already_used', true, 'debate_id', v_proposal.debate_id);
+  END IF;
+
+  UPDATE topic_proposals
+  SET status = 'used', used_at = now(), debate_id = p_debate_id
+  WHERE id = p_proposal_id;
+
+  INSERT INTO notifications (user_id, type, payload)
+  SELECT DISTINCT v.user_id, 'proposal_used', jsonb_build_object(
+    'proposal_id', p_proposal_id,
+    'debate_id', p_debate_id,
+    'topic', v_proposal.topic,
+    'agent_id', v_proposal.agent_id,
+    'agent_name', v_proposal.agent_name
+  )
+  FROM proposal_votes v
+  WHERE v.proposal_id = p_proposal_id;
+  GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'notified', v_notified);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_topic_proposal(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.use_topic_proposal(text, text) TO service_role;
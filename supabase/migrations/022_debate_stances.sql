@@ -0,0 +1,85 @@
+-- =============================================
+-- AI Agora: Assigned Debate Stances
+-- =============================================
+-- run-debate puts the two agents on opposite sides (pro / con) of the
+-- topic — randomly or by faction affinity, see _shared/stances.ts — and
+-- stores the assignment here. Stance text comes from the topic catalogue
+-- (020), so debates_view exposes it next to the sides.
+
+-- 1. Stance columns
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS agent1_stance TEXT CHECK (agent1_stance IN ('pro', 'con'));
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS agent2_stance TEXT CHECK (agent2_stance IN ('pro', 'con'));
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS stance_method TEXT CHECK (stance_method IN ('random', 'affinity'));
+
+-- 2. Refresh debates_view (new columns + the topic's stance text)
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name,
+  t.pro_stance as topic_pro_stance,
+  t.con_stance as topic_con_stance
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id
+LEFT JOIN public.topics t ON d.topic_id = t.id;
+
+-- 3. Stance results: one row per side of every completed debate
+CREATE OR REPLACE VIEW public.debate_stance_results AS
+SELECT d.id AS debate_id, d.topic_id, d.agent1_id AS agent_id, d.agent1_stance AS stance,
+  CASE d.outcome WHEN 'agent1' THEN 'win' WHEN 'agent2' THEN 'loss' ELSE 'draw' END AS result
+FROM public.debates d
+WHERE d.status = 'completed' AND d.outcome IS NOT NULL AND d.agent1_stance IS NOT NULL
+UNION ALL
+SELECT d.id, d.topic_id, d.agent2_id, d.agent2_stance,
+  CASE d.outcome WHEN 'agent2' THEN 'win' WHEN 'agent1' THEN 'loss' ELSE 'draw' END
+FROM public.debates d
+WHERE d.status = 'completed' AND d.outcome IS NOT NULL AND d.agent2_stance IS NOT NULL;
+
+-- Win rate counts draws as half a win
+CREATE OR REPLACE VIEW public.agent_stance_stats AS
+SELECT
+  agent_id,
+  stance,
+  COUNT(*) AS debates,
+  COUNT(*) FILTER (WHERE result = 'win') AS wins,
+  COUNT(*) FILTER (WHERE result = 'loss') AS losses,
+  COUNT(*) FILTER (WHERE result = 'draw') AS draws,
+  ROUND((COUNT(*) FILTER (WHERE result = 'win') + 0.5 * COUNT(*) FILTER (WHERE result = 'draw')) * 100.0 / COUNT(*), 1) AS win_rate
+FROM public.debate_stance_results
+GROUP BY agent_id, stance;
+
+CREATE OR REPLACE VIEW public.topic_stance_stats AS
+SELECT
+  topic_id,
+  COUNT(*) FILTER (WHERE stance = 'pro') AS debates,
+  ROUND((COUNT(*) FILTER (WHERE stance = 'pro' AND result = 'win')
+    + 0.5 * COUNT(*) FILTER (WHERE stance = 'pro' AND result = 'draw')) * 100.0
+    / NULLIF(COUNT(*) FILTER (WHERE stance = 'pro'), 0), 1) AS pro_win_rate
+FROM public.debate_stance_results
+WHERE topic_id IS NOT NULL
+GROUP BY topic_id;
+
+-- 4. topics_view gains the pro side's win rate
+CREATE OR REPLACE VIEW public.topics_view AS
+SELECT
+  t.*,
+  COALESCE((
+    SELECT jsonb_object_agg(s.faction, jsonb_build_object(
+      'debates', s.debates,
+      'wins', s.wins,
+      'losses', s.losses,
+      'draws', s.draws,
+      'win_rate', ROUND((s.wins + 0.5 * s.draws) * 100.0 / NULLIF(s.debates, 0), 1)
+    ))
+    FROM public.topic_faction_stats s
+    WHERE s.topic_id = t.id
+  ), '{}'::jsonb) AS faction_stats,
+  ss.pro_win_rate
+FROM public.topics t
+LEFT JOIN public.topic_stance_stats ss ON ss.topic_id = t.id;
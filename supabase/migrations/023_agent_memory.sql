@@ -0,0 +1,37 @@
+-- =============================================
+-- AI Agora: Agent Memory of Past Debates
+-- =============================================
+-- run-debate stores one entry per agent after every completed debate
+-- (topic, side, opponent, result, judge feedback) and injects a bounded
+-- summary of the newest entries into later prompts — see
+-- _shared/memory.ts. Entries are private to the agent's owner, who can
+-- prune them; MEMORY_RETENTION caps how many are kept per agent.
+
+-- 1. Memory entries
+CREATE TABLE IF NOT EXISTS public.agent_memories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  debate_id TEXT NOT NULL REFERENCES public.debates(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL,
+  stance TEXT CHECK (stance IN ('pro', 'con')),
+  opponent_id TEXT REFERENCES public.agents(id) ON DELETE SET NULL,
+  opponent_name TEXT NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('win', 'loss', 'draw')),
+  feedback TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (agent_id, debate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_memories_agent ON public.agent_memories(agent_id, created_at DESC);
+
+-- 2. RLS: owners read and prune their agents' memory; run-debate writes with the service role
+ALTER TABLE public.agent_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read agent memory" ON public.agent_memories
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.agents WHERE id = agent_id AND owner_id = auth.uid())
+  );
+CREATE POLICY "Owners prune agent memory" ON public.agent_memories
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.agents WHERE id = agent_id AND owner_id = auth.uid())
+  );
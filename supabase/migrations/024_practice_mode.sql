@@ -0,0 +1,161 @@
+-- =============================================
+-- AI Agora: Practice (Sparring) Debates
+-- =============================================
+-- run-debate mode "practice" pits an owner's agent against a house bot or
+-- another of their agents without touching ELO, stocks or dividends (see
+-- _shared/practice.ts). Results are kept apart from debates and carry the
+-- coach's persona feedback. Practice has its own daily usage bucket.
+
+-- 1. House bots (sparring partners, not agents: no owner, stock or rating)
+CREATE TABLE IF NOT EXISTS public.practice_bots (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  persona TEXT NOT NULL,
+  philosophy TEXT NOT NULL,
+  faction TEXT NOT NULL,
+  elo_score INTEGER NOT NULL DEFAULT 1000,
+  tier TEXT NOT NULL DEFAULT 'Bronze',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.practice_bots ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read practice bots" ON public.practice_bots FOR SELECT USING (true);
+
+INSERT INTO public.practice_bots (id, name, persona, philosophy, faction, elo_score, tier) VALUES
+  ('house_rookie', '수습 토론가', '성실하지만 긴장하면 같은 말을 반복하는 신입 논객', '상식적인 수준의 논거로 차분히 주장한다', '실용주의', 900, 'Bronze'),
+  ('house_logician', '논리 교관', '상대 논증의 전제를 하나씩 해부하는 냉정한 교관', '타당하지 않은 추론은 결론이 옳아도 틀린 것이다', '합리주의', 1200, 'Silver'),
+  ('house_idealist', '몽상가 코치', '큰 그림과 미래 비전으로 청중을 사로잡는 웅변가', '가능성을 먼저 보고 한계는 나중에 본다', '이상주의', 1200, 'Silver'),
+  ('house_ethicist', '원칙의 수호자', '모든 주장을 윤리적 결과로 끝까지 추궁하는 깐깐한 상대', '효율보다 원칙, 결과보다 책임', '윤리연합', 1400, 'Gold')
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Practice results (the practising agent is always agent1)
+CREATE TABLE IF NOT EXISTS public.practice_debates (
+  id TEXT PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  -- A practice_bots id or another agent of the owner
+  opponent_id TEXT NOT NULL,
+  opponent_name TEXT NOT NULL,
+  opponent_is_bot BOOLEAN NOT NULL DEFAULT false,
+  topic TEXT NOT NULL,
+  topic_id TEXT REFERENCES public.topics(id) ON DELETE SET NULL,
+  format_id TEXT,
+  agent_stance TEXT CHECK (agent_stance IN ('pro', 'con')),
+  opponent_stance TEXT CHECK (opponent_stance IN ('pro', 'con')),
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed')),
+  rounds JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- From the practising agent's side
+  result TEXT CHECK (result IN ('win', 'loss', 'draw')),
+  scores JSONB,
+  judge_reasoning TEXT,
+  judge_panel JSONB,
+  feedback JSONB,
+  last_activity_at TIMESTAMPTZ DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_debates_agent ON public.practice_debates(agent_id, created_at DESC);
+
+ALTER TABLE public.practice_debates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read practice debates" ON public.practice_debates
+  FOR SELECT USING (auth.uid() = owner_id);
+CREATE POLICY "Owners delete practice debates" ON public.practice_debates
+  FOR DELETE USING (auth.uid() = owner_id);
+
+-- 3. Practice usage bucket (free tier: 20 practice debates per day)
+ALTER TABLE public.usage_tracking ADD COLUMN IF NOT EXISTS practice_today INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.check_and_increment_usage(
+  p_user_id UUID,
+  p_action TEXT  -- 'debate', 'practice', 'trade', 'agent_create'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_usage RECORD;
+  v_profile RECORD;
+  v_limit INTEGER;
+  v_current INTEGER;
+BEGIN
+  -- Get profile (premium check)
+  SELECT * INTO v_profile FROM profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'User not found');
+  END IF;
+
+  -- Premium users bypass all limits
+  IF v_profile.is_premium THEN
+    RETURN jsonb_build_object('allowed', true, 'premium', true);
+  END IF;
+
+  -- Get or create usage record (upsert)
+  INSERT INTO usage_tracking (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_usage FROM usage_tracking WHERE user_id = p_user_id FOR UPDATE;
+
+  -- Daily reset: if last recorded date is before today, reset counters
+  IF v_usage.last_debate_date < CURRENT_DATE THEN
+    UPDATE usage_tracking
+    SET debates_today = 0, trades_today = 0, practice_today = 0,
+        last_debate_date = CURRENT_DATE, last_trade_date = CURRENT_DATE
+    WHERE user_id = p_user_id;
+    v_usage.debates_today := 0;
+    v_usage.trades_today := 0;
+    v_usage.practice_today := 0;
+  END IF;
+
+  -- Check limits based on action type
+  IF p_action = 'debate' THEN
+    v_limit := 10;
+    v_current := v_usage.debates_today;
+    IF v_current >= v_limit THEN
+      RETURN jsonb_build_object('allowed', false, 'limit', v_limit, 'used', v_current,
+        'message', 'Daily debate limit reached. Upgrade to Premium!');
+    END IF;
+    UPDATE usage_tracking SET debates_today = debates_today + 1 WHERE user_id = p_user_id;
+
+  ELSIF p_action = 'practice' THEN
+    v_limit := 20;
+    v_current := COALESCE(v_usage.practice_today, 0);
+    IF v_current >= v_limit THEN
+      RETURN jsonb_build_object('allowed', false, 'limit', v_limit, 'used', v_current,
+        'message', 'Daily practice limit reached. Upgrade to Premium!');
+    END IF;
+    UPDATE usage_tracking SET practice_today = COALESCE(practice_today, 0) + 1 WHERE user_id = p_user_id;
+
+  ELSIF p_action = 'trade' THEN
+    v_limit := 20;
+    v_current := v_usage.trades_today;
+    IF v_current >= v_limit THEN
+      RETURN jsonb_build_object('allowed', false, 'limit', v_limit, 'used', v_current,
+        'message', 'Daily trade limit reached. Upgrade to Premium!');
+    END IF;
+    UPDATE usage_tracking SET trades_today = trades_today + 1 WHERE user_id = p_user_id;
+
+  ELSIF p_action = 'agent_create' THEN
+    v_limit := 3;
+    SELECT COUNT(*) INTO v_current FROM agents WHERE owner_id = p_user_id;
+    IF v_current >= v_limit THEN
+      RETURN jsonb_build_object('allowed', false, 'limit', v_limit, 'used', v_current,
+        'message', 'Free tier agent limit reached. Upgrade to Premium!');
+    END IF;
+    -- No counter increment for agent_create; we count from agents table directly
+
+  ELSE
+    RETURN jsonb_build_object('error', 'Unknown action: ' || p_action);
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'limit', v_limit, 'used', v_current + 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_and_increment_usage(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.check_and_increment_usage(uuid, text) TO authenticated;
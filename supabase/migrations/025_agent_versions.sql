@@ -0,0 +1,237 @@
+-- =============================================
+-- AI Agora: Persona Versions
+-- =============================================
+-- Every change to an agent's name, persona, philosophy or faction creates
+-- a new immutable row in agent_versions (whichever path made the edit) and
+-- bumps agents.current_version. Debates record the version each side
+-- argued with, so past results stay explainable and win rates can be
+-- compared per version. Owners edit through update_agent_persona.
+
+-- 1. Versions (append-only)
+CREATE TABLE IF NOT EXISTS public.agent_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  agent_id TEXT NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  persona TEXT NOT NULL,
+  philosophy TEXT NOT NULL,
+  faction TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (agent_id, version)
+);
+
+ALTER TABLE public.agent_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read agent versions" ON public.agent_versions FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.handle_agent_version_immutable()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'AGENT_VERSION_IMMUTABLE';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_agent_version_update ON public.agent_versions;
+CREATE TRIGGER on_agent_version_update
+  BEFORE UPDATE ON public.agent_versions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_agent_version_immutable();
+
+-- 2. Current version on agents (+ version 1 for existing agents)
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+INSERT INTO public.agent_versions (agent_id, version, name, persona, philosophy, faction, created_by, created_at)
+SELECT id, current_version, name, persona, philosophy, faction, owner_id, created_at
+FROM public.agents
+ON CONFLICT (agent_id, version) DO NOTHING;
+
+-- New agents start at version 1
+CREATE OR REPLACE FUNCTION public.handle_agent_version_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO agent_versions (agent_id, version, name, persona, philosophy, faction, created_by)
+  VALUES (NEW.id, NEW.current_version, NEW.name, NEW.persona, NEW.philosophy, NEW.faction, NEW.owner_id)
+  ON CONFLICT (agent_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_agent_version_created ON public.agents;
+CREATE TRIGGER on_agent_version_created
+  AFTER INSERT ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.handle_agent_version_created();
+
+-- Any persona edit becomes the next version; current_version itself is not writable
+CREATE OR REPLACE FUNCTION public.handle_agent_version_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.current_version := OLD.current_version;
+
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.persona IS DISTINCT FROM OLD.persona
+    OR NEW.philosophy IS DISTINCT FROM OLD.philosophy
+    OR NEW.faction IS DISTINCT FROM OLD.faction
+  THEN
+    NEW.current_version := OLD.current_version + 1;
+    INSERT INTO agent_versions (agent_id, version, name, persona, philosophy, faction, created_by)
+    VALUES (NEW.id, NEW.current_version, NEW.name, NEW.persona, NEW.philosophy, NEW.faction, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_agent_version_edit ON public.agents;
+CREATE TRIGGER on_agent_version_edit
+  BEFORE UPDATE ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.handle_agent_version_edit();
+
+-- 3. Debates record the versions that argued
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS agent1_version INTEGER;
+ALTER TABLE public.debates ADD COLUMN IF NOT EXISTS agent2_version INTEGER;
+ALTER TABLE public.practice_debates ADD COLUMN IF NOT EXISTS agent_version INTEGER;
+
+-- Best effort: edits before this migration were not tracked, so history counts as version 1
+UPDATE public.debates SET agent1_version = 1 WHERE agent1_version IS NULL;
+UPDATE public.debates SET agent2_version = 1 WHERE agent2_version IS NULL;
+UPDATE public.practice_debates SET agent_version = 1 WHERE agent_version IS NULL;
+
+CREATE OR REPLACE FUNCTION public.handle_debate_versions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.agent1_version IS NULL THEN
+    SELECT current_version INTO NEW.agent1_version FROM agents WHERE id = NEW.agent1_id;
+  END IF;
+  IF NEW.agent2_version IS NULL THEN
+    SELECT current_version INTO NEW.agent2_version FROM agents WHERE id = NEW.agent2_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_debate_versions ON public.debates;
+CREATE TRIGGER on_debate_versions
+  BEFORE INSERT ON public.debates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_debate_versions();
+
+CREATE OR REPLACE FUNCTION public.handle_practice_debate_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.agent_version IS NULL THEN
+    SELECT current_version INTO NEW.agent_version FROM agents WHERE id = NEW.agent_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_practice_debate_version ON public.practice_debates;
+CREATE TRIGGER on_practice_debate_version
+  BEFORE INSERT ON public.practice_debates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_practice_debate_version();
+
+-- 4. Refresh debates_view (new columns)
+DROP VIEW IF EXISTS public.debates_view;
+CREATE VIEW public.debates_view AS
+SELECT
+  d.*,
+  a1.name as agent1_name,
+  a2.name as agent2_name,
+  CASE WHEN d.winner_id IS NOT NULL
+    THEN (SELECT name FROM public.agents WHERE id = d.winner_id)
+    ELSE NULL
+  END as winner_name,
+  t.pro_stance as topic_pro_stance,
+  t.con_stance as topic_con_stance
+FROM public.debates d
+LEFT JOIN public.agents a1 ON d.agent1_id = a1.id
+LEFT JOIN public.agents a2 ON d.agent2_id = a2.id
+LEFT JOIN public.topics t ON d.topic_id = t.id;
+
+-- 5. Win rate per version (draws count as half a win, as in agent_stance_stats)
+CREATE OR REPLACE VIEW public.agent_version_stats AS
+WITH sides AS (
+  SELECT d.agent1_id AS agent_id, d.agent1_version AS version,
+    CASE d.outcome WHEN 'agent1' THEN 'win' WHEN 'agent2' THEN 'loss' ELSE 'draw' END AS result
+  FROM public.debates d
+  WHERE d.status = 'completed' AND d.outcome IS NOT NULL
+  UNION ALL
+  SELECT d.agent2_id, d.agent2_version,
+    CASE d.outcome WHEN 'agent2' THEN 'win' WHEN 'agent1' THEN 'loss' ELSE 'draw' END
+  FROM public.debates d
+  WHERE d.status = 'completed' AND d.outcome IS NOT NULL
+)
+SELECT
+  v.agent_id,
+  v.version,
+  COUNT(s.result) AS debates,
+  COUNT(*) FILTER (WHERE s.result = 'win') AS wins,
+  COUNT(*) FILTER (WHERE s.result = 'loss') AS losses,
+  COUNT(*) FILTER (WHERE s.result = 'draw') AS draws,
+  ROUND((COUNT(*) FILTER (WHERE s.result = 'win') + 0.5 * COUNT(*) FILTER (WHERE s.result = 'draw')) * 100.0
+    / NULLIF(COUNT(s.result), 0), 1) AS win_rate
+FROM public.agent_versions v
+LEFT JOIN sides s ON s.agent_id = v.agent_id AND s.version = v.version
+GROUP BY v.agent_id, v.version;
+
+-- 6. update_agent_persona: the owner's edit path (each change → new version)
+CREATE OR REPLACE FUNCTION public.update_agent_persona(
+  p_agent_id TEXT,
+  p_persona TEXT,
+  p_philosophy TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_agent RECORD;
+  v_persona TEXT := btrim(COALESCE(p_persona, ''));
+  v_philosophy TEXT := btrim(COALESCE(p_philosophy, ''));
+BEGIN
+  SELECT * INTO v_agent FROM agents WHERE id = p_agent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'AGENT_NOT_FOUND');
+  END IF;
+  IF v_agent.owner_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('error', 'NOT_OWNER');
+  END IF;
+  IF char_length(v_persona) < 10 OR char_length(v_persona) > 500 OR char_length(v_philosophy) > 300 THEN
+    RETURN jsonb_build_object('error', 'INVALID_PERSONA');
+  END IF;
+  IF v_philosophy = '' THEN
+    v_philosophy := v_persona;
+  END IF;
+
+  IF v_persona = v_agent.persona AND v_philosophy = v_agent.philosophy THEN
+    RETURN jsonb_build_object('success', true, 'version', v_agent.current_version, 'unchanged', true);
+  END IF;
+
+  UPDATE agents SET persona = v_persona, philosophy = v_philosophy WHERE id = p_agent_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'version', (SELECT current_version FROM agents WHERE id = p_agent_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_agent_persona(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_agent_persona(TEXT, TEXT, TEXT) TO authenticated;
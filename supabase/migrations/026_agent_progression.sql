@@ -0,0 +1,228 @@
+-- =============================================
+-- AI Agora: Agent Progression (XP, Levels, Skill Traits)
+-- =============================================
+-- Settled debates earn XP (award_debate_xp, called by run-debate with the
+-- amounts from _shared/progression.ts). Reaching level L takes
+-- 50 * L * (L - 1) XP in total (100 for level 2, 300 for level 3, ...),
+-- up to level 20. Every level above 1 grants one skill point, which owners
+-- spend on traits through spend_skill_point. Progression rows are written
+-- only by these functions, never by clients directly.
+
+-- 1. Trait catalogue (effects live in _shared/progression.ts TRAITS)
+CREATE TABLE IF NOT EXISTS public.skill_traits (
+  id TEXT PRIMARY KEY,
+  max_rank INTEGER NOT NULL CHECK (max_rank > 0),
+  unlock_level INTEGER NOT NULL DEFAULT 2,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true
+);
+
+ALTER TABLE public.skill_traits ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read skill traits" ON public.skill_traits FOR SELECT USING (true);
+
+INSERT INTO public.skill_traits (id, max_rank, unlock_level, sort_order) VALUES
+  ('evidence_focus', 3, 2, 1),
+  ('rebuttal_specialist', 3, 3, 2),
+  ('closing_budget', 2, 4, 3),
+  ('cross_examiner', 2, 5, 4)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Per-agent progression and owned traits
+CREATE TABLE IF NOT EXISTS public.agent_progression (
+  agent_id TEXT PRIMARY KEY REFERENCES public.agents(id) ON DELETE CASCADE,
+  xp INTEGER NOT NULL DEFAULT 0 CHECK (xp >= 0),
+  level INTEGER NOT NULL DEFAULT 1,
+  points_spent INTEGER NOT NULL DEFAULT 0 CHECK (points_spent >= 0),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.agent_traits (
+  agent_id TEXT NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  trait_id TEXT NOT NULL REFERENCES public.skill_traits(id),
+  rank INTEGER NOT NULL CHECK (rank > 0),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (agent_id, trait_id)
+);
+
+-- One award per agent per debate (replays of settlement pay nothing)
+CREATE TABLE IF NOT EXISTS public.agent_xp_events (
+  agent_id TEXT NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  debate_id TEXT NOT NULL REFERENCES public.debates(id) ON DELETE CASCADE,
+  xp INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (agent_id, debate_id)
+);
+
+ALTER TABLE public.agent_progression ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_traits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_xp_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read agent progression" ON public.agent_progression FOR SELECT USING (true);
+CREATE POLICY "Public read agent traits" ON public.agent_traits FOR SELECT USING (true);
+CREATE POLICY "Public read agent xp events" ON public.agent_xp_events FOR SELECT USING (true);
+
+-- 3. Level curve
+CREATE OR REPLACE FUNCTION public.agent_level_xp(p_level INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 50 * p_level * (p_level - 1);
+$$;
+
+CREATE OR REPLACE FUNCTION public.agent_level_for_xp(p_xp INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT LEAST(20, GREATEST(1, floor((1 + sqrt(1 + 0.08 * GREATEST(p_xp, 0))) / 2)::INTEGER));
+$$;
+
+-- 4. Progression view (agents without any debate yet are level 1)
+CREATE OR REPLACE VIEW public.agent_progression_view AS
+SELECT
+  a.id AS agent_id,
+  COALESCE(p.xp, 0) AS xp,
+  COALESCE(p.level, 1) AS level,
+  COALESCE(p.level, 1) - 1 - COALESCE(p.points_spent, 0) AS skill_points,
+  public.agent_level_xp(COALESCE(p.level, 1)) AS level_xp,
+  CASE WHEN COALESCE(p.level, 1) >= 20 THEN NULL
+    ELSE public.agent_level_xp(COALESCE(p.level, 1) + 1)
+  END AS next_level_xp,
+  COALESCE(
+    (SELECT jsonb_object_agg(t.trait_id, t.rank) FROM public.agent_traits t WHERE t.agent_id = a.id),
+    '{}'::jsonb
+  ) AS traits
+FROM public.agents a
+LEFT JOIN public.agent_progression p ON p.agent_id = a.id;
+
+-- 5. award_debate_xp: service role only (run-debate after settlement)
+CREATE OR REPLACE FUNCTION public.award_debate_xp(
+  p_debate_id TEXT,
+  p_awards JSONB  -- [{ "agent_id": "...", "xp": 100 }, ...]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_award JSONB;
+  v_agent_id TEXT;
+  v_xp INTEGER;
+  v_inserted INTEGER;
+  v_before INTEGER;
+  v_progress RECORD;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM debates WHERE id = p_debate_id AND status = 'completed') THEN
+    RETURN jsonb_build_object('error', 'DEBATE_NOT_COMPLETED');
+  END IF;
+
+  FOR v_award IN SELECT * FROM jsonb_array_elements(COALESCE(p_awards, '[]'::jsonb))
+  LOOP
+    v_agent_id := v_award->>'agent_id';
+    v_xp := GREATEST(COALESCE((v_award->>'xp')::INTEGER, 0), 0);
+
+    INSERT INTO agent_xp_events (agent_id, debate_id, xp)
+    VALUES (v_agent_id, p_debate_id, v_xp)
+    ON CONFLICT (agent_id, debate_id) DO NOTHING;
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    INSERT INTO agent_progression (agent_id) VALUES (v_agent_id)
+    ON CONFLICT (agent_id) DO NOTHING;
+
+    SELECT level INTO v_before FROM agent_progression WHERE agent_id = v_agent_id FOR UPDATE;
+
+    IF v_inserted > 0 THEN
+      UPDATE agent_progression
+      SET xp = xp + v_xp,
+          level = agent_level_for_xp(xp + v_xp),
+          updated_at = now()
+      WHERE agent_id = v_agent_id;
+    ELSE
+      v_xp := 0;
+    END IF;
+
+    SELECT xp, level INTO v_progress FROM agent_progression WHERE agent_id = v_agent_id;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'agent_id', v_agent_id,
+      'xp_gained', v_xp,
+      'xp', v_progress.xp,
+      'level', v_progress.level,
+      'leveled_up', v_progress.level > v_before
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'agents', v_results);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.award_debate_xp(TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.award_debate_xp(TEXT, JSONB) TO service_role;
+
+-- 6. spend_skill_point: owner raises one trait by one rank
+CREATE OR REPLACE FUNCTION public.spend_skill_point(
+  p_agent_id TEXT,
+  p_trait_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner UUID;
+  v_trait RECORD;
+  v_progress RECORD;
+  v_rank INTEGER;
+BEGIN
+  SELECT owner_id INTO v_owner FROM agents WHERE id = p_agent_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'AGENT_NOT_FOUND');
+  END IF;
+  IF v_owner IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('error', 'NOT_OWNER');
+  END IF;
+
+  SELECT * INTO v_trait FROM skill_traits WHERE id = p_trait_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'TRAIT_NOT_FOUND');
+  END IF;
+
+  INSERT INTO agent_progression (agent_id) VALUES (p_agent_id)
+  ON CONFLICT (agent_id) DO NOTHING;
+  SELECT * INTO v_progress FROM agent_progression WHERE agent_id = p_agent_id FOR UPDATE;
+
+  IF v_progress.level < v_trait.unlock_level THEN
+    RETURN jsonb_build_object('error', 'TRAIT_LOCKED', 'unlock_level', v_trait.unlock_level);
+  END IF;
+  IF v_progress.level - 1 - v_progress.points_spent <= 0 THEN
+    RETURN jsonb_build_object('error', 'NO_SKILL_POINTS');
+  END IF;
+
+  SELECT rank INTO v_rank FROM agent_traits WHERE agent_id = p_agent_id AND trait_id = p_trait_id;
+  IF COALESCE(v_rank, 0) >= v_trait.max_rank THEN
+    RETURN jsonb_build_object('error', 'TRAIT_MAXED');
+  END IF;
+
+  INSERT INTO agent_traits (agent_id, trait_id, rank)
+  VALUES (p_agent_id, p_trait_id, 1)
+  ON CONFLICT (agent_id, trait_id) DO UPDATE
+    SET rank = agent_traits.rank + 1, updated_at = now();
+
+  UPDATE agent_progression
+  SET points_spent = points_spent + 1, updated_at = now()
+  WHERE agent_id = p_agent_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'trait_id', p_trait_id,
+    'rank', COALESCE(v_rank, 0) + 1,
+    'skill_points', v_progress.level - 2 - v_progress.points_spent
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.spend_skill_point(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.spend_skill_point(TEXT, TEXT) TO authenticated;
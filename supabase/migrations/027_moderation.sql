@@ -0,0 +1,321 @@
+-- =============================================
+-- AI Agora: Content Moderation
+-- =============================================
+-- Agent personas, cheers, bounty quests and topic proposals are checked
+-- against moderation_rules on every insert (and on text edits): a "reject"
+-- rule aborts the write with CONTENT_REJECTED, a "review" rule stores the
+-- row as pending until an admin decides. Every checked text is logged in
+-- moderation_items, which the moderate-content function feeds to the
+-- optional classifier (see _shared/moderation.ts). Only approved rows are
+-- public; authors still see their own pending rows. run-debate logs
+-- flagged debate arguments here too.
+
+-- 1. Rules (patterns must be valid JS and Postgres regular expressions)
+CREATE TABLE IF NOT EXISTS public.moderation_rules (
+  id TEXT PRIMARY KEY,
+  category TEXT NOT NULL CHECK (category IN ('profanity', 'personal_info', 'spam', 'prompt_injection')),
+  action TEXT NOT NULL CHECK (action IN ('reject', 'review')),
+  pattern TEXT NOT NULL,
+  -- Content types the rule checks; empty = all
+  applies_to TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.moderation_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read moderation rules" ON public.moderation_rules FOR SELECT USING (public.is_admin());
+CREATE POLICY "Admins insert moderation rules" ON public.moderation_rules FOR INSERT WITH CHECK (public.is_admin());
+CREATE POLICY "Admins update moderation rules" ON public.moderation_rules FOR UPDATE USING (public.is_admin());
+
+-- Mirrors DEFAULT_MODERATION_RULES in _shared/moderation.ts
+INSERT INTO public.moderation_rules (id, category, action, pattern, applies_to) VALUES
+  ('profanity_ko', 'profanity', 'reject', '씨발|시발|ㅅㅂ|병신|ㅂㅅ|좆|개새끼', '{}'),
+  ('profanity_en', 'profanity', 'reject', 'fuck|shit|bitch|asshole', '{}'),
+  ('personal_phone', 'personal_info', 'reject', '01[016789][ -]?[0-9]{3,4}[ -]?[0-9]{4}', '{}'),
+  ('personal_email', 'personal_info', 'review', '[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}', '{agent,cheer,bounty,proposal}'),
+  ('spam_link', 'spam', 'review', 'https?://|www\.', '{agent,cheer,proposal}'),
+  ('spam_repeat', 'spam', 'review', '[ㅋㅎㅠㅜ!?~]{15,}', '{agent,cheer,bounty,proposal}'),
+  ('injection_ignore_en', 'prompt_injection', 'reject',
+    '(ignore|disregard|forget)( all| any| the)? (previous|prior|above|earlier) (instructions|prompts?|rules)',
+    '{agent,bounty,proposal}'),
+  ('injection_ignore_ko', 'prompt_injection', 'reject',
+    '(이전|위|앞|기존)(의|에)? ?(모든 )?(지시|명령|지침|규칙)[을를은는]? ?(모두 )?(무시|잊어)',
+    '{agent,bounty,proposal}'),
+  ('injection_role_tags', 'prompt_injection', 'reject', '</?(system|assistant|user)>|\[(system|시스템)\]', '{agent,bounty,proposal}'),
+  ('injection_role_override', 'prompt_injection', 'review', 'system prompt|시스템 프롬프트|you are now|지금부터 (너|당신)는',
+    '{agent,bounty,proposal}')
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Moderation log / review queue (one row per piece of content)
+CREATE TABLE IF NOT EXISTS public.moderation_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  content_type TEXT NOT NULL CHECK (content_type IN ('agent', 'cheer', 'bounty', 'proposal', 'debate_argument')),
+  content_id TEXT NOT NULL,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('approved', 'pending', 'rejected')),
+  -- Who set the status: rules, classifier or admin
+  source TEXT NOT NULL DEFAULT 'rules' CHECK (source IN ('rules', 'classifier', 'admin')),
+  flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  classification JSONB,
+  classified_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (content_type, content_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_items_pending ON public.moderation_items(created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_moderation_items_unclassified ON public.moderation_items(created_at)
+  WHERE classified_at IS NULL;
+
+ALTER TABLE public.moderation_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins and authors read moderation items" ON public.moderation_items
+  FOR SELECT USING (public.is_admin() OR auth.uid() = author_id);
+
+-- 3. Status on moderated tables (existing rows stay published)
+ALTER TABLE public.agents ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('approved', 'pending', 'rejected'));
+ALTER TABLE public.agent_cheers ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('approved', 'pending', 'rejected'));
+ALTER TABLE public.quests ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('approved', 'pending', 'rejected'));
+ALTER TABLE public.topic_proposals ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (moderation_status IN ('approved', 'pending', 'rejected'));
+
+-- 4. Rule engine: { action: reject | review | null, hits: [...] }
+CREATE OR REPLACE FUNCTION public.moderation_check(p_type TEXT, p_text TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_match TEXT[];
+  v_hits JSONB := '[]'::jsonb;
+  v_action TEXT;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM moderation_rules
+    WHERE is_active AND (applies_to = '{}' OR p_type = ANY(applies_to))
+    ORDER BY id
+  LOOP
+    BEGIN
+      v_match := regexp_match(COALESCE(p_text, ''), '(' || v_rule.pattern || ')', 'i');
+    EXCEPTION WHEN invalid_regular_expression THEN
+      CONTINUE;
+    END;
+    IF v_match IS NOT NULL THEN
+      v_hits := v_hits || jsonb_build_array(jsonb_build_object(
+        'rule_id', v_rule.id, 'category', v_rule.category, 'action', v_rule.action, 'match', v_match[1]
+      ));
+      IF v_rule.action = 'reject' THEN
+        v_action := 'reject';
+      ELSIF v_action IS NULL THEN
+        v_action := 'review';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('action', v_action, 'hits', v_hits);
+END;
+$$;
+
+-- Client pre-flight (e.g. before a bounty is paid for); the triggers still enforce
+GRANT EXECUTE ON FUNCTION public.moderation_check(TEXT, TEXT) TO authenticated;
+
+-- 5. Enforcement on insert / text edits
+CREATE OR REPLACE FUNCTION public.handle_content_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type TEXT;
+  v_text TEXT;
+  v_old_text TEXT;
+  v_author UUID;
+  v_check JSONB;
+BEGIN
+  IF TG_TABLE_NAME = 'agents' THEN
+    v_type := 'agent';
+    v_text := concat_ws(E'\n', NEW.name, NEW.persona, NEW.philosophy);
+    IF TG_OP = 'UPDATE' THEN v_old_text := concat_ws(E'\n', OLD.name, OLD.persona, OLD.philosophy); END IF;
+    v_author := NEW.owner_id;
+  ELSIF TG_TABLE_NAME = 'agent_cheers' THEN
+    v_type := 'cheer';
+    v_text := NEW.message;
+    IF TG_OP = 'UPDATE' THEN v_old_text := OLD.message; END IF;
+    v_author := NEW.user_id;
+  ELSIF TG_TABLE_NAME = 'quests' THEN
+    -- Daily quests are generated by the system
+    IF NEW.type <> 'bounty' THEN RETURN NEW; END IF;
+    v_type := 'bounty';
+    v_text := concat_ws(E'\n', NEW.title, NEW.description);
+    IF TG_OP = 'UPDATE' THEN v_old_text := concat_ws(E'\n', OLD.title, OLD.description); END IF;
+    v_author := NEW.creator_id;
+  ELSE
+    v_type := 'proposal';
+    v_text := NEW.topic;
+    IF TG_OP = 'UPDATE' THEN v_old_text := OLD.topic; END IF;
+    v_author := NEW.user_id;
+  END IF;
+
+  -- Text unchanged: only moderators (definer functions, service role) may change the status
+  IF TG_OP = 'UPDATE' AND v_text IS NOT DISTINCT FROM v_old_text THEN
+    IF current_user IN ('anon', 'authenticated') THEN
+      NEW.moderation_status := OLD.moderation_status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  v_check := moderation_check(v_type, v_text);
+  IF v_check->>'action' = 'reject' THEN
+    RAISE EXCEPTION 'CONTENT_REJECTED'
+      USING DETAIL = (SELECT string_agg(DISTINCT h->>'category', ',') FROM jsonb_array_elements(v_check->'hits') h);
+  END IF;
+
+  NEW.moderation_status := CASE WHEN v_check->>'action' = 'review' THEN 'pending' ELSE 'approved' END;
+
+  INSERT INTO moderation_items (content_type, content_id, author_id, content, status, source, flags)
+  VALUES (v_type, NEW.id::TEXT, v_author, v_text, NEW.moderation_status, 'rules', v_check->'hits')
+  ON CONFLICT (content_type, content_id) DO UPDATE
+    SET content = EXCLUDED.content,
+        status = EXCLUDED.status,
+        source = 'rules',
+        flags = EXCLUDED.flags,
+        classification = NULL,
+        classified_at = NULL,
+        reviewed_by = NULL,
+        reviewed_at = NULL,
+        review_note = NULL,
+        updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_agent_moderation ON public.agents;
+CREATE TRIGGER on_agent_moderation
+  BEFORE INSERT OR UPDATE ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.handle_content_moderation();
+
+DROP TRIGGER IF EXISTS on_cheer_moderation ON public.agent_cheers;
+CREATE TRIGGER on_cheer_moderation
+  BEFORE INSERT OR UPDATE ON public.agent_cheers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_content_moderation();
+
+DROP TRIGGER IF EXISTS on_quest_moderation ON public.quests;
+CREATE TRIGGER on_quest_moderation
+  BEFORE INSERT OR UPDATE ON public.quests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_content_moderation();
+
+DROP TRIGGER IF EXISTS on_proposal_moderation ON public.topic_proposals;
+CREATE TRIGGER on_proposal_moderation
+  BEFORE INSERT OR UPDATE ON public.topic_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.handle_content_moderation();
+
+-- 6. Visibility: only approved rows are public (authors and admins see their own)
+DROP POLICY IF EXISTS "Anyone can read cheers" ON public.agent_cheers;
+CREATE POLICY "Read approved cheers" ON public.agent_cheers
+  FOR SELECT USING (moderation_status = 'approved' OR auth.uid() = user_id OR public.is_admin());
+
+DROP POLICY IF EXISTS "proposals_select_all" ON public.topic_proposals;
+CREATE POLICY "proposals_select_approved" ON public.topic_proposals
+  FOR SELECT USING (moderation_status = 'approved' OR auth.uid() = user_id OR public.is_admin());
+
+DROP POLICY IF EXISTS "quests_select" ON public.quests;
+CREATE POLICY "quests_select_approved" ON public.quests
+  FOR SELECT USING (moderation_status = 'approved' OR auth.uid() = creator_id OR public.is_admin());
+
+-- 7. Decisions (classifier via moderate-content, admins via review_moderation_item)
+CREATE OR REPLACE FUNCTION public.apply_moderation_status(
+  p_item_id UUID,
+  p_status TEXT,
+  p_source TEXT,
+  p_classification JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  IF p_status NOT IN ('approved', 'pending', 'rejected') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS');
+  END IF;
+
+  SELECT * INTO v_item FROM moderation_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ITEM_NOT_FOUND');
+  END IF;
+
+  UPDATE moderation_items
+  SET status = p_status,
+      source = p_source,
+      classification = COALESCE(p_classification, classification),
+      classified_at = CASE WHEN p_source = 'classifier' THEN now() ELSE classified_at END,
+      updated_at = now()
+  WHERE id = p_item_id;
+
+  IF v_item.content_type = 'agent' THEN
+    UPDATE agents SET moderation_status = p_status WHERE id = v_item.content_id;
+  ELSIF v_item.content_type = 'cheer' THEN
+    UPDATE agent_cheers SET moderation_status = p_status WHERE id = v_item.content_id;
+  ELSIF v_item.content_type = 'bounty' THEN
+    UPDATE quests SET moderation_status = p_status WHERE id = v_item.content_id;
+  ELSIF v_item.content_type = 'proposal' THEN
+    UPDATE topic_proposals SET moderation_status = p_status WHERE id = v_item.content_id;
+  END IF;
+  -- debate_argument items are a record only; rejected arguments were never published
+
+  RETURN jsonb_build_object('success', true, 'status', p_status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_moderation_status(UUID, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_moderation_status(UUID, TEXT, TEXT, JSONB) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.review_moderation_item(
+  p_item_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  IF NOT is_admin() THEN
+    RETURN jsonb_build_object('error', 'NOT_ADMIN');
+  END IF;
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RETURN jsonb_build_object('error', 'INVALID_STATUS');
+  END IF;
+
+  v_result := apply_moderation_status(p_item_id, p_status, 'admin');
+  IF v_result ? 'error' THEN
+    RETURN v_result;
+  END IF;
+
+  UPDATE moderation_items
+  SET reviewed_by = auth.uid(), reviewed_at = now(), review_note = NULLIF(btrim(COALESCE(p_note, '')), '')
+  WHERE id = p_item_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_moderation_item(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.review_moderation_item(UUID, TEXT, TEXT) TO authenticated;
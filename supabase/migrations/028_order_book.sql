@@ -0,0 +1,695 @@
+-- =============================================
+-- AI Agora: Limit / Stop Orders and the Order Book
+-- =============================================
+-- Besides instant market trades with the house (execute_trade), users can
+-- place limit and stop orders through trade-stock (place_stock_order):
+--
+-- - limit: buy at or below / sell at or above limit_price.
+-- - stop: waits (status pending) until current_price reaches stop_price,
+--   then joins the book as a limit order at limit_price, or — without one —
+--   at stop_price ± 5% (stock_stop_limit).
+-- - time in force: gtc (until cancelled), day (expires at 00:00 UTC) or ioc
+--   (whatever fills immediately, the rest is cancelled).
+--
+-- Matching is price-time priority against other users' resting orders. The
+-- house quotes current_price from its float (available_shares) and buys
+-- back any amount; it takes part at its price, losing ties to users. Buy
+-- orders hold their gold (reserved_gold) and sell orders their shares
+-- (stock_ownership.reserved_shares) until they fill, are cancelled or
+-- expire. Resting orders are re-matched whenever current_price changes.
+
+-- 1. Orders (private to their owner; depth is public through stock_order_book)
+CREATE TABLE IF NOT EXISTS public.stock_orders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  stock_id TEXT NOT NULL REFERENCES public.agent_stocks(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  order_type TEXT NOT NULL CHECK (order_type IN ('limit', 'stop')),
+  time_in_force TEXT NOT NULL DEFAULT 'gtc' CHECK (time_in_force IN ('gtc', 'day', 'ioc')),
+  quantity INTEGER NOT NULL CHECK (quantity BETWEEN 1 AND 1000),
+  filled_quantity INTEGER NOT NULL DEFAULT 0 CHECK (filled_quantity >= 0 AND filled_quantity <= quantity),
+  -- Worst acceptable price; set when a stop without one triggers
+  limit_price REAL CHECK (limit_price > 0),
+  stop_price REAL CHECK (stop_price > 0),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('pending', 'open', 'partially_filled', 'filled', 'cancelled', 'expired')),
+  -- Buy orders: gold still held for the unfilled part
+  reserved_gold INTEGER NOT NULL DEFAULT 0 CHECK (reserved_gold >= 0),
+  avg_fill_price REAL,
+  expires_at TIMESTAMPTZ,
+  triggered_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (order_type <> 'limit' OR limit_price IS NOT NULL),
+  CHECK (order_type <> 'stop' OR stop_price IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_orders_book ON public.stock_orders(stock_id, side, limit_price, created_at)
+  WHERE status IN ('open', 'partially_filled');
+CREATE INDEX IF NOT EXISTS idx_stock_orders_stops ON public.stock_orders(stock_id, stop_price)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_stock_orders_user ON public.stock_orders(user_id, created_at DESC);
+
+ALTER TABLE public.stock_orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users read own stock orders" ON public.stock_orders FOR SELECT USING (auth.uid() = user_id);
+
+-- 2. Fills (buyer / seller NULL = the house)
+CREATE TABLE IF NOT EXISTS public.stock_order_fills (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  stock_id TEXT NOT NULL REFERENCES public.agent_stocks(id) ON DELETE CASCADE,
+  buy_order_id UUID REFERENCES public.stock_orders(id) ON DELETE SET NULL,
+  sell_order_id UUID REFERENCES public.stock_orders(id) ON DELETE SET NULL,
+  buyer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  seller_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  price REAL NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_order_fills_stock ON public.stock_order_fills(stock_id, created_at DESC);
+
+ALTER TABLE public.stock_order_fills ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Participants read fills" ON public.stock_order_fills
+  FOR SELECT USING (auth.uid() = buyer_id OR auth.uid() = seller_id);
+
+-- 3. Shares held by open sell orders cannot be sold twice
+ALTER TABLE public.stock_ownership ADD COLUMN IF NOT EXISTS reserved_shares INTEGER NOT NULL DEFAULT 0
+  CHECK (reserved_shares >= 0 AND reserved_shares <= shares_owned);
+
+-- 4. Depth: open quantity per price level (aggregated, so public)
+CREATE OR REPLACE VIEW public.stock_order_book AS
+SELECT
+  stock_id,
+  side,
+  limit_price AS price,
+  SUM(quantity - filled_quantity)::INTEGER AS quantity,
+  COUNT(*)::INTEGER AS orders
+FROM public.stock_orders
+WHERE status IN ('open', 'partially_filled')
+  AND (expires_at IS NULL OR expires_at > now())
+GROUP BY stock_id, side, limit_price;
+
+GRANT SELECT ON public.stock_order_book TO anon, authenticated;
+
+-- 5. Helpers
+CREATE OR REPLACE FUNCTION public.stock_stop_limit(p_side TEXT, p_stop_price REAL)
+RETURNS REAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (CASE WHEN p_side = 'buy' THEN p_stop_price * 1.05 ELSE p_stop_price * 0.95 END)::REAL;
+$$;
+
+-- Closes an order and hands back whatever it still holds
+CREATE OR REPLACE FUNCTION public.release_stock_order(p_order_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM stock_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('pending', 'open', 'partially_filled') THEN
+    RETURN;
+  END IF;
+
+  IF v_order.side = 'buy' AND v_order.reserved_gold > 0 THEN
+    UPDATE profiles SET gold_balance = gold_balance + v_order.reserved_gold, updated_at = now()
+    WHERE id = v_order.user_id;
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, v_order.user_id, v_order.reserved_gold, 'stock_order_refund',
+      'Order ' || p_status || ': reserve returned');
+  ELSIF v_order.side = 'sell' THEN
+    UPDATE stock_ownership
+    SET reserved_shares = GREATEST(reserved_shares - (v_order.quantity - v_order.filled_quantity), 0)
+    WHERE user_id = v_order.user_id AND stock_id = v_order.stock_id;
+  END IF;
+
+  UPDATE stock_orders
+  SET status = p_status, reserved_gold = 0, closed_at = now(), updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- One fill between a buy and a sell order; a NULL order is the house
+CREATE OR REPLACE FUNCTION public.settle_stock_fill(
+  p_stock_id TEXT,
+  p_buy_order_id UUID,
+  p_sell_order_id UUID,
+  p_price REAL,
+  p_quantity INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id UUID;
+  v_seller_id UUID;
+  v_buy_done BOOLEAN := false;
+  v_sell_done BOOLEAN := false;
+  v_amount INTEGER := ROUND(p_price * p_quantity)::INTEGER;
+BEGIN
+  -- Buyer: paid from the order's reserve, or the house sells from its float
+  IF p_buy_order_id IS NOT NULL THEN
+    SELECT user_id, filled_quantity + p_quantity >= quantity INTO v_buyer_id, v_buy_done
+    FROM stock_orders WHERE id = p_buy_order_id FOR UPDATE;
+    UPDATE stock_orders SET reserved_gold = reserved_gold - LEAST(reserved_gold, v_amount) WHERE id = p_buy_order_id;
+
+    INSERT INTO stock_ownership (id, user_id, stock_id, shares_owned, avg_buy_price)
+    VALUES (gen_random_uuid()::text, v_buyer_id, p_stock_id, p_quantity, p_price)
+    ON CONFLICT (user_id, stock_id) DO UPDATE
+    SET avg_buy_price = (stock_ownership.avg_buy_price * stock_ownership.shares_owned + p_price * p_quantity)
+          / (stock_ownership.shares_owned + p_quantity),
+        shares_owned = stock_ownership.shares_owned + p_quantity;
+
+    INSERT INTO stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (gen_random_uuid()::text, v_buyer_id, p_stock_id, 'buy', p_quantity, p_price, v_amount);
+  ELSE
+    UPDATE agent_stocks SET available_shares = available_shares - p_quantity WHERE id = p_stock_id;
+  END IF;
+
+  -- Seller: delivers reserved shares and is paid, or the house buys back
+  IF p_sell_order_id IS NOT NULL THEN
+    SELECT user_id, filled_quantity + p_quantity >= quantity INTO v_seller_id, v_sell_done
+    FROM stock_orders WHERE id = p_sell_order_id FOR UPDATE;
+
+    UPDATE stock_ownership
+    SET shares_owned = shares_owned - p_quantity, reserved_shares = reserved_shares - p_quantity
+    WHERE user_id = v_seller_id AND stock_id = p_stock_id;
+    DELETE FROM stock_ownership WHERE user_id = v_seller_id AND stock_id = p_stock_id AND shares_owned <= 0;
+
+    UPDATE profiles SET gold_balance = gold_balance + v_amount, updated_at = now() WHERE id = v_seller_id;
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, v_seller_id, v_amount, 'stock_sell', 'Order fill: ' || p_quantity || ' shares');
+
+    INSERT INTO stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (gen_random_uuid()::text, v_seller_id, p_stock_id, 'sell', p_quantity, p_price, v_amount);
+  ELSE
+    UPDATE agent_stocks SET available_shares = available_shares + p_quantity WHERE id = p_stock_id;
+  END IF;
+
+  UPDATE stock_orders
+  SET avg_fill_price = (COALESCE(avg_fill_price, 0) * filled_quantity + p_price * p_quantity) / (filled_quantity + p_quantity),
+      filled_quantity = filled_quantity + p_quantity,
+      status = CASE WHEN filled_quantity + p_quantity < quantity THEN 'partially_filled' ELSE status END,
+      updated_at = now()
+  WHERE id IN (p_buy_order_id, p_sell_order_id);
+
+  INSERT INTO stock_order_fills (stock_id, buy_order_id, sell_order_id, buyer_id, seller_id, price, quantity)
+  VALUES (p_stock_id, p_buy_order_id, p_sell_order_id, v_buyer_id, v_seller_id, p_price, p_quantity);
+
+  -- Completed orders are closed (a buy filled below its limit gets the rest of its reserve back)
+  IF v_buy_done THEN
+    PERFORM release_stock_order(p_buy_order_id, 'filled');
+  END IF;
+  IF v_sell_done THEN
+    PERFORM release_stock_order(p_sell_order_id, 'filled');
+  END IF;
+END;
+$$;
+
+-- 6. Matching: fill an open order against the book and the house, best price first
+CREATE OR REPLACE FUNCTION public.match_stock_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_stock RECORD;
+  v_rest RECORD;
+  v_remaining INTEGER;
+  v_house_qty INTEGER;
+  v_qty INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM stock_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('open', 'partially_filled') OR v_order.limit_price IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_stock FROM agent_stocks WHERE id = v_order.stock_id FOR UPDATE;
+  v_remaining := v_order.quantity - v_order.filled_quantity;
+
+  WHILE v_remaining > 0 LOOP
+    -- Best crossing order of another user (price, then time)
+    IF v_order.side = 'buy' THEN
+      SELECT * INTO v_rest FROM stock_orders
+      WHERE stock_id = v_order.stock_id AND side = 'sell' AND status IN ('open', 'partially_filled')
+        AND user_id <> v_order.user_id AND limit_price <= v_order.limit_price
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY limit_price ASC, created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+      v_house_qty := CASE WHEN v_stock.current_price <= v_order.limit_price THEN v_stock.available_shares ELSE 0 END;
+    ELSE
+      SELECT * INTO v_rest FROM stock_orders
+      WHERE stock_id = v_order.stock_id AND side = 'buy' AND status IN ('open', 'partially_filled')
+        AND user_id <> v_order.user_id AND limit_price >= v_order.limit_price
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY limit_price DESC, created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+      v_house_qty := CASE WHEN v_stock.current_price >= v_order.limit_price THEN v_remaining ELSE 0 END;
+    END IF;
+
+    IF v_rest.id IS NOT NULL AND (
+      v_house_qty = 0
+      OR (v_order.side = 'buy' AND v_rest.limit_price <= v_stock.current_price)
+      OR (v_order.side = 'sell' AND v_rest.limit_price >= v_stock.current_price)
+    ) THEN
+      -- User-to-user at the resting order's price
+      v_qty := LEAST(v_remaining, v_rest.quantity - v_rest.filled_quantity);
+      IF v_order.side = 'buy' THEN
+        PERFORM settle_stock_fill(v_order.stock_id, v_order.id, v_rest.id, v_rest.limit_price, v_qty);
+      ELSE
+        PERFORM settle_stock_fill(v_order.stock_id, v_rest.id, v_order.id, v_rest.limit_price, v_qty);
+      END IF;
+    ELSIF v_house_qty > 0 THEN
+      -- House fallback at current_price
+      v_qty := LEAST(v_remaining, v_house_qty);
+      IF v_order.side = 'buy' THEN
+        PERFORM settle_stock_fill(v_order.stock_id, v_order.id, NULL, v_stock.current_price, v_qty);
+        v_stock.available_shares := v_stock.available_shares - v_qty;
+      ELSE
+        PERFORM settle_stock_fill(v_order.stock_id, NULL, v_order.id, v_stock.current_price, v_qty);
+      END IF;
+    ELSE
+      EXIT;
+    END IF;
+
+    v_remaining := v_remaining - v_qty;
+  END LOOP;
+END;
+$$;
+
+-- 7. Book maintenance for one stock: expiry, stop triggers, house re-matching
+CREATE OR REPLACE FUNCTION public.process_stock_orders(p_stock_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_order RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_stock FROM agent_stocks WHERE id = p_stock_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_order IN
+    SELECT id FROM stock_orders
+    WHERE stock_id = p_stock_id AND status IN ('pending', 'open', 'partially_filled') AND expires_at <= now()
+  LOOP
+    PERFORM release_stock_order(v_order.id, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+
+  FOR v_order IN
+    SELECT * FROM stock_orders
+    WHERE stock_id = p_stock_id AND status = 'pending'
+      AND ((side = 'buy' AND v_stock.current_price >= stop_price)
+        OR (side = 'sell' AND v_stock.current_price <= stop_price))
+    ORDER BY created_at
+  LOOP
+    UPDATE stock_orders
+    SET status = 'open', triggered_at = now(), updated_at = now(),
+        limit_price = COALESCE(limit_price, stock_stop_limit(side, stop_price))
+    WHERE id = v_order.id;
+    PERFORM match_stock_order(v_order.id);
+    IF v_order.time_in_force = 'ioc' THEN
+      PERFORM release_stock_order(v_order.id, 'cancelled');
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  FOR v_order IN
+    SELECT id FROM stock_orders
+    WHERE stock_id = p_stock_id AND status IN ('open', 'partially_filled')
+      AND ((side = 'buy' AND limit_price >= v_stock.current_price)
+        OR (side = 'sell' AND limit_price <= v_stock.current_price))
+    ORDER BY CASE WHEN side = 'buy' THEN -limit_price ELSE limit_price END, created_at
+  LOOP
+    PERFORM match_stock_order(v_order.id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Price moves (stock-fluctuation, debate settlement) re-run the book; a
+-- failure there is logged and never blocks the price update itself
+CREATE OR REPLACE FUNCTION public.handle_stock_price_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    PERFORM process_stock_orders(NEW.id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'process_stock_orders(%) failed: %', NEW.id, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_stock_price_orders ON public.agent_stocks;
+CREATE TRIGGER on_stock_price_orders
+  AFTER UPDATE OF current_price ON public.agent_stocks
+  FOR EACH ROW
+  WHEN (OLD.current_price IS DISTINCT FROM NEW.current_price)
+  EXECUTE FUNCTION public.handle_stock_price_orders();
+
+-- Day orders everywhere (pg_cron, just after 00:00 UTC)
+CREATE OR REPLACE FUNCTION public.expire_stock_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id FROM stock_orders
+    WHERE status IN ('pending', 'open', 'partially_filled') AND expires_at <= now()
+  LOOP
+    PERFORM release_stock_order(v_order.id, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- 8. Entry points (service role, called by trade-stock for the verified user)
+CREATE OR REPLACE FUNCTION public.place_stock_order(
+  p_user_id UUID,
+  p_stock_id TEXT,
+  p_side TEXT,
+  p_order_type TEXT,
+  p_quantity INTEGER,
+  p_limit_price REAL DEFAULT NULL,
+  p_stop_price REAL DEFAULT NULL,
+  p_time_in_force TEXT DEFAULT 'gtc'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_profile RECORD;
+  v_ownership RECORD;
+  v_open_orders INTEGER;
+  v_reserve INTEGER := 0;
+  v_triggered BOOLEAN := false;
+  v_order_id UUID;
+  v_order RECORD;
+BEGIN
+  IF p_side NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('error', 'INVALID_SIDE');
+  END IF;
+  IF p_order_type NOT IN ('limit', 'stop') THEN
+    RETURN jsonb_build_object('error', 'INVALID_ORDER_TYPE');
+  END IF;
+  IF p_time_in_force NOT IN ('gtc', 'day', 'ioc') THEN
+    RETURN jsonb_build_object('error', 'INVALID_TIME_IN_FORCE');
+  END IF;
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_quantity > 1000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_QUANTITY');
+  END IF;
+  IF (p_order_type = 'limit' AND COALESCE(p_limit_price, 0) <= 0)
+    OR (p_order_type = 'stop' AND COALESCE(p_stop_price, 0) <= 0)
+    OR p_limit_price <= 0 THEN
+    RETURN jsonb_build_object('error', 'INVALID_PRICE');
+  END IF;
+
+  SELECT * INTO v_stock FROM agent_stocks WHERE id = p_stock_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'STOCK_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'USER_NOT_FOUND');
+  END IF;
+
+  SELECT COUNT(*) INTO v_open_orders FROM stock_orders
+  WHERE user_id = p_user_id AND status IN ('pending', 'open', 'partially_filled');
+  IF v_open_orders >= 20 THEN
+    RETURN jsonb_build_object('error', 'TOO_MANY_ORDERS');
+  END IF;
+
+  -- Hold what the order may need
+  IF p_side = 'buy' THEN
+    v_reserve := CEIL(COALESCE(p_limit_price, stock_stop_limit('buy', p_stop_price)) * p_quantity)::INTEGER;
+    IF v_reserve > v_profile.gold_balance THEN
+      RETURN jsonb_build_object('error', 'NOT_ENOUGH_GOLD', 'required', v_reserve, 'balance', v_profile.gold_balance);
+    END IF;
+    UPDATE profiles SET gold_balance = gold_balance - v_reserve, updated_at = now() WHERE id = p_user_id;
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, p_user_id, -v_reserve, 'stock_order', 'Buy order: ' || p_quantity || ' shares');
+  ELSE
+    SELECT * INTO v_ownership FROM stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id FOR UPDATE;
+    IF NOT FOUND OR v_ownership.shares_owned - v_ownership.reserved_shares < p_quantity THEN
+      RETURN jsonb_build_object('error', 'NOT_ENOUGH_SHARES');
+    END IF;
+    UPDATE stock_ownership SET reserved_shares = reserved_shares + p_quantity
+    WHERE user_id = p_user_id AND stock_id = p_stock_id;
+  END IF;
+
+  v_triggered := p_order_type = 'stop' AND (
+    (p_side = 'buy' AND v_stock.current_price >= p_stop_price)
+    OR (p_side = 'sell' AND v_stock.current_price <= p_stop_price)
+  );
+
+  INSERT INTO stock_orders (
+    user_id, stock_id, side, order_type, time_in_force, quantity, limit_price, stop_price,
+    status, reserved_gold, expires_at, triggered_at
+  ) VALUES (
+    p_user_id, p_stock_id, p_side, p_order_type, p_time_in_force, p_quantity,
+    CASE WHEN v_triggered THEN COALESCE(p_limit_price, stock_stop_limit(p_side, p_stop_price)) ELSE p_limit_price END,
+    p_stop_price,
+    CASE WHEN p_order_type = 'stop' AND NOT v_triggered THEN 'pending' ELSE 'open' END,
+    v_reserve,
+    CASE WHEN p_time_in_force = 'day' THEN date_trunc('day', now()) + interval '1 day' END,
+    CASE WHEN v_triggered THEN now() END
+  )
+  RETURNING id INTO v_order_id;
+
+  PERFORM match_stock_order(v_order_id);
+  IF p_time_in_force = 'ioc' AND (p_order_type = 'limit' OR v_triggered) THEN
+    PERFORM release_stock_order(v_order_id, 'cancelled');
+  END IF;
+
+  SELECT * INTO v_order FROM stock_orders WHERE id = v_order_id;
+  SELECT gold_balance INTO v_profile FROM profiles WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', v_order.id,
+    'status', v_order.status,
+    'filled_quantity', v_order.filled_quantity,
+    'avg_fill_price', ROUND(v_order.avg_fill_price::numeric, 1),
+    'new_gold_balance', v_profile.gold_balance
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_stock_order(p_user_id UUID, p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM stock_orders WHERE id = p_order_id AND user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'ORDER_NOT_FOUND');
+  END IF;
+  IF v_order.status NOT IN ('pending', 'open', 'partially_filled') THEN
+    RETURN jsonb_build_object('error', 'ORDER_CLOSED');
+  END IF;
+
+  PERFORM release_stock_order(p_order_id, 'cancelled');
+  RETURN jsonb_build_object('success', true, 'order_id', p_order_id, 'filled_quantity', v_order.filled_quantity);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.release_stock_order(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.settle_stock_fill(TEXT, UUID, UUID, REAL, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.match_stock_order(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.process_stock_orders(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.expire_stock_orders() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.place_stock_order(UUID, TEXT, TEXT, TEXT, INTEGER, REAL, REAL, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.cancel_stock_order(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_stock_orders(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_stock_orders() TO service_role;
+GRANT EXECUTE ON FUNCTION public.place_stock_order(UUID, TEXT, TEXT, TEXT, INTEGER, REAL, REAL, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_order(UUID, UUID) TO service_role;
+
+-- 9. Market trades must leave shares held by sell orders alone
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  p_user_id UUID,
+  p_stock_id TEXT,
+  p_action TEXT,
+  p_shares INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_profile RECORD;
+  v_ownership RECORD;
+  v_total_amount REAL;
+  v_new_gold INTEGER;
+  v_new_shares INTEGER;
+  v_new_avg_price REAL;
+  v_txn_id TEXT;
+  v_gold_txn_id TEXT;
+BEGIN
+  -- Validate inputs
+  IF p_action NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('error', 'Invalid action. Use buy or sell.');
+  END IF;
+
+  IF p_shares <= 0 OR p_shares > 1000 THEN
+    RETURN jsonb_build_object('error', 'Invalid shares amount (1~1000).');
+  END IF;
+
+  -- Lock stock row
+  SELECT * INTO v_stock FROM public.agent_stocks WHERE id = p_stock_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Stock not found.');
+  END IF;
+
+  -- Lock user profile row
+  SELECT * INTO v_profile FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'User not found.');
+  END IF;
+
+  -- Lock ownership row (if exists)
+  SELECT * INTO v_ownership FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id FOR UPDATE;
+
+  -- Calculate total amount
+  v_total_amount := v_stock.current_price * p_shares;
+
+  -- Generate IDs
+  v_txn_id := gen_random_uuid()::text;
+  v_gold_txn_id := gen_random_uuid()::text;
+
+  -- BUY Logic
+  IF p_action = 'buy' THEN
+    -- Check stock availability
+    IF p_shares > v_stock.available_shares THEN
+      RETURN jsonb_build_object('error', 'Not enough available shares. (Left: ' || v_stock.available_shares || ')');
+    END IF;
+
+    -- Check gold balance
+    IF v_total_amount > v_profile.gold_balance THEN
+      RETURN jsonb_build_object('error', 'Not enough gold. (Need: ' || ROUND(v_total_amount) || 'G, Have: ' || v_profile.gold_balance || 'G)');
+    END IF;
+
+    -- Deduct gold
+    v_new_gold := v_profile.gold_balance - ROUND(v_total_amount)::integer;
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    -- Deduct shares from market
+    UPDATE public.agent_stocks SET available_shares = available_shares - p_shares WHERE id = p_stock_id;
+
+    -- Update ownership
+    IF v_ownership IS NULL OR v_ownership.shares_owned IS NULL THEN
+      INSERT INTO public.stock_ownership (id, user_id, stock_id, shares_owned, avg_buy_price)
+      VALUES (gen_random_uuid()::text, p_user_id, p_stock_id, p_shares, v_stock.current_price);
+      v_new_shares := p_shares;
+      v_new_avg_price := v_stock.current_price;
+    ELSE
+      -- Calculate new average price: ((old_avg * old_shares) + (new_price * new_shares)) / total_shares
+      v_new_avg_price := ((v_ownership.avg_buy_price * v_ownership.shares_owned) + (v_stock.current_price * p_shares)) / (v_ownership.shares_owned + p_shares);
+      v_new_shares := v_ownership.shares_owned + p_shares;
+      UPDATE public.stock_ownership
+      SET shares_owned = v_new_shares, avg_buy_price = v_new_avg_price
+      WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    -- Log transaction
+    INSERT INTO public.stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (v_txn_id, p_user_id, p_stock_id, 'buy', p_shares, v_stock.current_price, v_total_amount);
+
+    -- Log gold transaction
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (v_gold_txn_id, p_user_id, -ROUND(v_total_amount)::integer, 'stock_buy', 'Stock buy: ' || p_shares || ' shares');
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'action', 'buy',
+      'shares', p_shares,
+      'price', v_stock.current_price,
+      'total_cost', ROUND(v_total_amount),
+      'new_gold_balance', v_new_gold,
+      'shares_owned', v_new_shares,
+      'avg_buy_price', ROUND(v_new_avg_price::numeric, 1)
+    );
+
+  -- SELL Logic
+  ELSIF p_action = 'sell' THEN
+    -- Check ownership (shares held by open sell orders are not for sale)
+    IF v_ownership IS NULL OR v_ownership.shares_owned - v_ownership.reserved_shares < p_shares THEN
+      RETURN jsonb_build_object('error', 'Not enough shares owned.');
+    END IF;
+
+    -- Add gold
+    v_new_gold := v_profile.gold_balance + ROUND(v_total_amount)::integer;
+    v_new_shares := v_ownership.shares_owned - p_shares;
+
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    -- Return shares to market
+    UPDATE public.agent_stocks SET available_shares = available_shares + p_shares WHERE id = p_stock_id;
+
+    -- Update ownership
+    IF v_new_shares = 0 THEN
+      DELETE FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    ELSE
+      UPDATE public.stock_ownership SET shares_owned = v_new_shares WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    -- Log transaction
+    INSERT INTO public.stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (v_txn_id, p_user_id, p_stock_id, 'sell', p_shares, v_stock.current_price, v_total_amount);
+
+    -- Log gold transaction
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (v_gold_txn_id, p_user_id, ROUND(v_total_amount)::integer, 'stock_sell', 'Stock sell: ' || p_shares || ' shares');
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'action', 'sell',
+      'shares', p_shares,
+      'price', v_stock.current_price,
+      'total_revenue', ROUND(v_total_amount),
+      'new_gold_balance', v_new_gold, 'shares_owned', v_new_shares, 'profit', ROUND((v_stock.current_price - v_ownership.avg_buy_price) * p_shares));
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.execute_trade(uuid, text, text, integer) TO service_role;
@@ -0,0 +1,378 @@
+-- =============================================
+-- AI Agora: Trade-Impact Pricing
+-- =============================================
+-- Trades with the house now move the price. The house behaves like a
+-- constant-product market maker whose share reserve is the float plus a
+-- virtual depth of total_shares (S = available_shares + total_shares):
+--
+--   buying n shares:  avg = P * S / (S - n),  new price = P * (S / (S - n))^2
+--   selling n shares: avg = P * S / (S + n),  new price = P * (S / (S + n))^2
+--
+-- so buying 900 of 1,000 floating shares fills at ~1.8x and leaves the
+-- price at ~3.3x, and a buy followed by the same sell returns exactly what
+-- it cost. Buys are charged CEIL(avg * n), sells paid FLOOR(avg * n).
+--
+-- quote_stock_trade returns the expected fill for the trade modal;
+-- execute_trade charges the same fill and refuses it with SLIPPAGE_EXCEEDED
+-- when the average price is further than p_max_slippage_pct from the price
+-- the user saw. The order book's house fallback (028) fills on the same
+-- curve, only as far as the order's limit allows.
+
+-- 1. The curve
+CREATE OR REPLACE FUNCTION public.stock_curve_depth(p_total_shares INTEGER, p_available_shares INTEGER)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (GREATEST(p_available_shares, 0) + GREATEST(p_total_shares, 1))::DOUBLE PRECISION;
+$$;
+
+-- Average price of n shares traded with the house (p_side = the user's side) and the price after
+CREATE OR REPLACE FUNCTION public.stock_curve_fill(
+  p_price REAL,
+  p_depth DOUBLE PRECISION,
+  p_side TEXT,
+  p_shares INTEGER,
+  OUT avg_price REAL,
+  OUT new_price REAL
+)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_price * r)::REAL, (p_price * r * r)::REAL
+  FROM (
+    SELECT CASE WHEN p_side = 'buy' THEN p_depth / (p_depth - p_shares) ELSE p_depth / (p_depth + p_shares) END AS r
+  ) ratio;
+$$;
+
+-- Most shares the house trades before its average price passes p_limit
+CREATE OR REPLACE FUNCTION public.stock_curve_capacity(
+  p_price REAL,
+  p_depth DOUBLE PRECISION,
+  p_side TEXT,
+  p_limit REAL
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT GREATEST(FLOOR(
+    CASE WHEN p_side = 'buy'
+      THEN p_depth * (1 - p_price::DOUBLE PRECISION / p_limit)
+      ELSE p_depth * (p_price::DOUBLE PRECISION / p_limit - 1)
+    END
+  ), 0)::INTEGER;
+$$;
+
+-- 2. Quote (read-only, for the trade modal)
+CREATE OR REPLACE FUNCTION public.quote_stock_trade(p_stock_id TEXT, p_action TEXT, p_shares INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_fill RECORD;
+BEGIN
+  IF p_action NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('error', 'INVALID_ACTION');
+  END IF;
+  IF p_shares IS NULL OR p_shares <= 0 OR p_shares > 1000 THEN
+    RETURN jsonb_build_object('error', 'INVALID_QUANTITY');
+  END IF;
+
+  SELECT * INTO v_stock FROM agent_stocks WHERE id = p_stock_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'STOCK_NOT_FOUND');
+  END IF;
+  IF p_action = 'buy' AND p_shares > v_stock.available_shares THEN
+    RETURN jsonb_build_object('error', 'NOT_ENOUGH_AVAILABLE', 'available', v_stock.available_shares);
+  END IF;
+
+  SELECT * INTO v_fill
+  FROM stock_curve_fill(v_stock.current_price, stock_curve_depth(v_stock.total_shares, v_stock.available_shares), p_action, p_shares);
+
+  RETURN jsonb_build_object(
+    'action', p_action,
+    'shares', p_shares,
+    'price', v_stock.current_price,
+    'avg_price', ROUND(v_fill.avg_price::numeric, 2),
+    'total', CASE WHEN p_action = 'buy' THEN CEIL(v_fill.avg_price * p_shares) ELSE FLOOR(v_fill.avg_price * p_shares) END,
+    'new_price', ROUND(v_fill.new_price::numeric, 2),
+    'slippage_pct', ROUND((ABS(v_fill.avg_price - v_stock.current_price) / v_stock.current_price * 100)::numeric, 2),
+    'price_impact_pct', ROUND(((v_fill.new_price - v_stock.current_price) / v_stock.current_price * 100)::numeric, 2)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_stock_trade(TEXT, TEXT, INTEGER) TO anon, authenticated, service_role;
+
+-- 3. Market trades fill on the curve, within the user's slippage tolerance
+DROP FUNCTION IF EXISTS public.execute_trade(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  p_user_id UUID,
+  p_stock_id TEXT,
+  p_action TEXT,
+  p_shares INTEGER,
+  p_max_slippage_pct REAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_profile RECORD;
+  v_ownership RECORD;
+  v_fill RECORD;
+  v_slippage_pct REAL;
+  v_total_amount INTEGER;
+  v_new_gold INTEGER;
+  v_new_shares INTEGER;
+  v_new_avg_price REAL;
+BEGIN
+  -- Validate inputs
+  IF p_action NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('error', 'Invalid action. Use buy or sell.');
+  END IF;
+
+  IF p_shares <= 0 OR p_shares > 1000 THEN
+    RETURN jsonb_build_object('error', 'Invalid shares amount (1~1000).');
+  END IF;
+
+  -- Lock stock row
+  SELECT * INTO v_stock FROM public.agent_stocks WHERE id = p_stock_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Stock not found.');
+  END IF;
+
+  -- Lock user profile row
+  SELECT * INTO v_profile FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'User not found.');
+  END IF;
+
+  -- Lock ownership row (if exists)
+  SELECT * INTO v_ownership FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id FOR UPDATE;
+
+  IF p_action = 'buy' AND p_shares > v_stock.available_shares THEN
+    RETURN jsonb_build_object('error', 'Not enough available shares. (Left: ' || v_stock.available_shares || ')');
+  END IF;
+
+  -- Fill on the curve
+  SELECT * INTO v_fill
+  FROM stock_curve_fill(v_stock.current_price, stock_curve_depth(v_stock.total_shares, v_stock.available_shares), p_action, p_shares);
+
+  v_slippage_pct := ABS(v_fill.avg_price - v_stock.current_price) / v_stock.current_price * 100;
+  IF p_max_slippage_pct IS NOT NULL AND v_slippage_pct > p_max_slippage_pct THEN
+    RETURN jsonb_build_object(
+      'error', 'SLIPPAGE_EXCEEDED',
+      'avg_price', ROUND(v_fill.avg_price::numeric, 2),
+      'slippage_pct', ROUND(v_slippage_pct::numeric, 2),
+      'max_slippage_pct', p_max_slippage_pct
+    );
+  END IF;
+
+  v_total_amount := CASE WHEN p_action = 'buy'
+    THEN CEIL(v_fill.avg_price * p_shares)
+    ELSE FLOOR(v_fill.avg_price * p_shares)
+  END;
+
+  -- BUY Logic
+  IF p_action = 'buy' THEN
+    -- Check gold balance
+    IF v_total_amount > v_profile.gold_balance THEN
+      RETURN jsonb_build_object('error', 'Not enough gold. (Need: ' || v_total_amount || 'G, Have: ' || v_profile.gold_balance || 'G)');
+    END IF;
+
+    v_new_gold := v_profile.gold_balance - v_total_amount;
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    IF v_ownership IS NULL OR v_ownership.shares_owned IS NULL THEN
+      INSERT INTO public.stock_ownership (id, user_id, stock_id, shares_owned, avg_buy_price)
+      VALUES (gen_random_uuid()::text, p_user_id, p_stock_id, p_shares, v_fill.avg_price);
+      v_new_shares := p_shares;
+      v_new_avg_price := v_fill.avg_price;
+    ELSE
+      v_new_avg_price := ((v_ownership.avg_buy_price * v_ownership.shares_owned) + (v_fill.avg_price * p_shares)) / (v_ownership.shares_owned + p_shares);
+      v_new_shares := v_ownership.shares_owned + p_shares;
+      UPDATE public.stock_ownership
+      SET shares_owned = v_new_shares, avg_buy_price = v_new_avg_price
+      WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, p_user_id, -v_total_amount, 'stock_buy', 'Stock buy: ' || p_shares || ' shares');
+
+  -- SELL Logic
+  ELSE
+    -- Shares held by open sell orders are not for sale
+    IF v_ownership IS NULL OR v_ownership.shares_owned - v_ownership.reserved_shares < p_shares THEN
+      RETURN jsonb_build_object('error', 'Not enough shares owned.');
+    END IF;
+
+    v_new_gold := v_profile.gold_balance + v_total_amount;
+    v_new_shares := v_ownership.shares_owned - p_shares;
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    IF v_new_shares = 0 THEN
+      DELETE FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    ELSE
+      UPDATE public.stock_ownership SET shares_owned = v_new_shares WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, p_user_id, v_total_amount, 'stock_sell', 'Stock sell: ' || p_shares || ' shares');
+  END IF;
+
+  -- Move the float and the price (resting orders react through on_stock_price_orders)
+  UPDATE public.agent_stocks
+  SET available_shares = available_shares + CASE WHEN p_action = 'buy' THEN -p_shares ELSE p_shares END,
+      current_price = v_fill.new_price,
+      market_cap = v_fill.new_price * total_shares
+  WHERE id = p_stock_id;
+
+  INSERT INTO public.stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+  VALUES (gen_random_uuid()::text, p_user_id, p_stock_id, p_action, p_shares, v_fill.avg_price, v_total_amount);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'action', p_action,
+    'shares', p_shares,
+    'price', ROUND(v_fill.avg_price::numeric, 2),
+    'new_price', ROUND(v_fill.new_price::numeric, 2),
+    'slippage_pct', ROUND(v_slippage_pct::numeric, 2),
+    'total_cost', CASE WHEN p_action = 'buy' THEN v_total_amount END,
+    'total_revenue', CASE WHEN p_action = 'sell' THEN v_total_amount END,
+    'new_gold_balance', v_new_gold,
+    'shares_owned', v_new_shares,
+    'avg_buy_price', ROUND(COALESCE(v_new_avg_price, v_ownership.avg_buy_price)::numeric, 1),
+    'profit', CASE WHEN p_action = 'sell' THEN ROUND((v_fill.avg_price - v_ownership.avg_buy_price) * p_shares) END
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.execute_trade(UUID, TEXT, TEXT, INTEGER, REAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.execute_trade(UUID, TEXT, TEXT, INTEGER, REAL) TO service_role;
+
+-- 4. Order book: the house fallback fills on the curve, within the order's limit
+CREATE OR REPLACE FUNCTION public.match_stock_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_stock RECORD;
+  v_rest RECORD;
+  v_fill RECORD;
+  v_remaining INTEGER;
+  v_house_limit REAL;
+  v_house_qty INTEGER;
+  v_qty INTEGER;
+BEGIN
+  SELECT * INTO v_order FROM stock_orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('open', 'partially_filled') OR v_order.limit_price IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_stock FROM agent_stocks WHERE id = v_order.stock_id FOR UPDATE;
+  v_remaining := v_order.quantity - v_order.filled_quantity;
+
+  WHILE v_remaining > 0 LOOP
+    -- Best crossing order of another user (price, then time)
+    IF v_order.side = 'buy' THEN
+      SELECT * INTO v_rest FROM stock_orders
+      WHERE stock_id = v_order.stock_id AND side = 'sell' AND status IN ('open', 'partially_filled')
+        AND user_id <> v_order.user_id AND limit_price <= v_order.limit_price
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY limit_price ASC, created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+    ELSE
+      SELECT * INTO v_rest FROM stock_orders
+      WHERE stock_id = v_order.stock_id AND side = 'buy' AND status IN ('open', 'partially_filled')
+        AND user_id <> v_order.user_id AND limit_price >= v_order.limit_price
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY limit_price DESC, created_at ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED;
+    END IF;
+
+    -- The house fills while its average stays better than both the limit and the best user order
+    v_house_limit := CASE
+      WHEN v_rest.id IS NULL THEN v_order.limit_price
+      WHEN v_order.side = 'buy' THEN LEAST(v_order.limit_price, v_rest.limit_price)
+      ELSE GREATEST(v_order.limit_price, v_rest.limit_price)
+    END;
+    v_house_qty := LEAST(
+      v_remaining,
+      stock_curve_capacity(v_stock.current_price, stock_curve_depth(v_stock.total_shares, v_stock.available_shares),
+        v_order.side, v_house_limit)
+    );
+    IF v_order.side = 'buy' THEN
+      v_house_qty := LEAST(v_house_qty, v_stock.available_shares);
+    END IF;
+
+    IF v_house_qty > 0 THEN
+      v_qty := v_house_qty;
+      SELECT * INTO v_fill
+      FROM stock_curve_fill(v_stock.current_price, stock_curve_depth(v_stock.total_shares, v_stock.available_shares),
+        v_order.side, v_qty);
+
+      IF v_order.side = 'buy' THEN
+        PERFORM settle_stock_fill(v_order.stock_id, v_order.id, NULL, v_fill.avg_price, v_qty);
+        v_stock.available_shares := v_stock.available_shares - v_qty;
+      ELSE
+        PERFORM settle_stock_fill(v_order.stock_id, NULL, v_order.id, v_fill.avg_price, v_qty);
+        v_stock.available_shares := v_stock.available_shares + v_qty;
+      END IF;
+
+      -- Order-driven price moves do not re-enter the book (handle_stock_price_orders)
+      PERFORM set_config('agora.order_matching', 'on', true);
+      UPDATE agent_stocks
+      SET current_price = v_fill.new_price, market_cap = v_fill.new_price * total_shares
+      WHERE id = v_order.stock_id;
+      PERFORM set_config('agora.order_matching', 'off', true);
+      v_stock.current_price := v_fill.new_price;
+    ELSIF v_rest.id IS NOT NULL THEN
+      -- User-to-user at the resting order's price
+      v_qty := LEAST(v_remaining, v_rest.quantity - v_rest.filled_quantity);
+      IF v_order.side = 'buy' THEN
+        PERFORM settle_stock_fill(v_order.stock_id, v_order.id, v_rest.id, v_rest.limit_price, v_qty);
+      ELSE
+        PERFORM settle_stock_fill(v_order.stock_id, v_rest.id, v_order.id, v_rest.limit_price, v_qty);
+      END IF;
+    ELSE
+      EXIT;
+    END IF;
+
+    v_remaining := v_remaining - v_qty;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_stock_price_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('agora.order_matching', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    PERFORM process_stock_orders(NEW.id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'process_stock_orders(%) failed: %', NEW.id, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
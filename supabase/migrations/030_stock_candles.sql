@@ -0,0 +1,297 @@
+-- =============================================
+-- AI Agora: OHLC Candles
+-- =============================================
+-- stock_price_history keeps raw ticks; charts read stock_candles instead:
+-- open / high / low / close per 5m, 1h and 1d bucket (UTC), with volume
+-- (shares), turnover (gold) and trade count from stock_transactions.
+--
+-- Candles are upserted as things happen: every current_price change
+-- (market noise, debate settlement, trade impact, book fills) is a tick,
+-- and every trade adds its volume at the price it left behind. A fill
+-- between two users writes a transaction per side but counts once.
+--
+-- Retention (prune_stock_history, pg_cron daily): raw ticks and 5m candles
+-- are kept 7 days, 1h candles 90 days, 1d candles forever.
+-- get_stock_candles(stock, resolution, from, to) is the read API.
+
+-- 1. Candles
+CREATE TABLE IF NOT EXISTS public.stock_candles (
+  stock_id TEXT NOT NULL REFERENCES public.agent_stocks(id) ON DELETE CASCADE,
+  resolution TEXT NOT NULL CHECK (resolution IN ('5m', '1h', '1d')),
+  bucket_start TIMESTAMPTZ NOT NULL,
+  open REAL NOT NULL,
+  high REAL NOT NULL,
+  low REAL NOT NULL,
+  close REAL NOT NULL,
+  volume INTEGER NOT NULL DEFAULT 0,
+  turnover BIGINT NOT NULL DEFAULT 0,
+  trades INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (stock_id, resolution, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_candles_recent ON public.stock_candles(resolution, bucket_start DESC);
+
+ALTER TABLE public.stock_candles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read stock candles" ON public.stock_candles FOR SELECT USING (true);
+
+-- 2. Buckets and upserts
+CREATE OR REPLACE FUNCTION public.stock_candle_bucket(p_resolution TEXT, p_ts TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT date_bin(
+    CASE p_resolution WHEN '5m' THEN interval '5 minutes' WHEN '1h' THEN interval '1 hour' ELSE interval '1 day' END,
+    p_ts,
+    TIMESTAMPTZ '2000-01-01 00:00:00+00'
+  );
+$$;
+
+-- One observation into every resolution (p_trades = 0 for a pure price tick)
+CREATE OR REPLACE FUNCTION public.record_stock_candle(
+  p_stock_id TEXT,
+  p_price REAL,
+  p_volume INTEGER,
+  p_turnover BIGINT,
+  p_trades INTEGER,
+  p_ts TIMESTAMPTZ DEFAULT now()
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO stock_candles (stock_id, resolution, bucket_start, open, high, low, close, volume, turnover, trades)
+  SELECT p_stock_id, r.resolution, stock_candle_bucket(r.resolution, p_ts),
+    p_price, p_price, p_price, p_price, p_volume, p_turnover, p_trades
+  FROM (VALUES ('5m'), ('1h'), ('1d')) AS r(resolution)
+  ON CONFLICT (stock_id, resolution, bucket_start) DO UPDATE
+  SET high = GREATEST(stock_candles.high, EXCLUDED.high),
+      low = LEAST(stock_candles.low, EXCLUDED.low),
+      close = EXCLUDED.close,
+      volume = stock_candles.volume + EXCLUDED.volume,
+      turnover = stock_candles.turnover + EXCLUDED.turnover,
+      trades = stock_candles.trades + EXCLUDED.trades,
+      updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_stock_price_candle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM record_stock_candle(NEW.id, NEW.current_price, 0, 0, 0);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_stock_price_candle ON public.agent_stocks;
+CREATE TRIGGER on_stock_price_candle
+  AFTER UPDATE OF current_price ON public.agent_stocks
+  FOR EACH ROW
+  WHEN (OLD.current_price IS DISTINCT FROM NEW.current_price)
+  EXECUTE FUNCTION public.handle_stock_price_candle();
+
+CREATE OR REPLACE FUNCTION public.handle_stock_trade_candle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_price REAL;
+BEGIN
+  IF current_setting('agora.counted_fill', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT current_price INTO v_price FROM agent_stocks WHERE id = NEW.stock_id;
+  PERFORM record_stock_candle(NEW.stock_id, COALESCE(v_price, NEW.price), NEW.shares, ROUND(NEW.total_amount)::BIGINT, 1);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_stock_trade_candle ON public.stock_transactions;
+CREATE TRIGGER on_stock_trade_candle
+  AFTER INSERT ON public.stock_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_stock_trade_candle();
+
+-- 3. Book fills between users count once (the seller's row is skipped above)
+CREATE OR REPLACE FUNCTION public.settle_stock_fill(
+  p_stock_id TEXT,
+  p_buy_order_id UUID,
+  p_sell_order_id UUID,
+  p_price REAL,
+  p_quantity INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_buyer_id UUID;
+  v_seller_id UUID;
+  v_buy_done BOOLEAN := false;
+  v_sell_done BOOLEAN := false;
+  v_amount INTEGER := ROUND(p_price * p_quantity)::INTEGER;
+BEGIN
+  -- Buyer: paid from the order's reserve, or the house sells from its float
+  IF p_buy_order_id IS NOT NULL THEN
+    SELECT user_id, filled_quantity + p_quantity >= quantity INTO v_buyer_id, v_buy_done
+    FROM stock_orders WHERE id = p_buy_order_id FOR UPDATE;
+    UPDATE stock_orders SET reserved_gold = reserved_gold - LEAST(reserved_gold, v_amount) WHERE id = p_buy_order_id;
+
+    INSERT INTO stock_ownership (id, user_id, stock_id, shares_owned, avg_buy_price)
+    VALUES (gen_random_uuid()::text, v_buyer_id, p_stock_id, p_quantity, p_price)
+    ON CONFLICT (user_id, stock_id) DO UPDATE
+    SET avg_buy_price = (stock_ownership.avg_buy_price * stock_ownership.shares_owned + p_price * p_quantity)
+          / (stock_ownership.shares_owned + p_quantity),
+        shares_owned = stock_ownership.shares_owned + p_quantity;
+
+    INSERT INTO stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (gen_random_uuid()::text, v_buyer_id, p_stock_id, 'buy', p_quantity, p_price, v_amount);
+  ELSE
+    UPDATE agent_stocks SET available_shares = available_shares - p_quantity WHERE id = p_stock_id;
+  END IF;
+
+  -- Seller: delivers reserved shares and is paid, or the house buys back
+  IF p_sell_order_id IS NOT NULL THEN
+    SELECT user_id, filled_quantity + p_quantity >= quantity INTO v_seller_id, v_sell_done
+    FROM stock_orders WHERE id = p_sell_order_id FOR UPDATE;
+
+    UPDATE stock_ownership
+    SET shares_owned = shares_owned - p_quantity, reserved_shares = reserved_shares - p_quantity
+    WHERE user_id = v_seller_id AND stock_id = p_stock_id;
+    DELETE FROM stock_ownership WHERE user_id = v_seller_id AND stock_id = p_stock_id AND shares_owned <= 0;
+
+    UPDATE profiles SET gold_balance = gold_balance + v_amount, updated_at = now() WHERE id = v_seller_id;
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, v_seller_id, v_amount, 'stock_sell', 'Order fill: ' || p_quantity || ' shares');
+
+    -- A fill between two users is one trade: only the buyer's row counts as volume
+    PERFORM set_config('agora.counted_fill', CASE WHEN p_buy_order_id IS NOT NULL THEN 'on' ELSE 'off' END, true);
+    INSERT INTO stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+    VALUES (gen_random_uuid()::text, v_seller_id, p_stock_id, 'sell', p_quantity, p_price, v_amount);
+    PERFORM set_config('agora.counted_fill', 'off', true);
+  ELSE
+    UPDATE agent_stocks SET available_shares = available_shares + p_quantity WHERE id = p_stock_id;
+  END IF;
+
+  UPDATE stock_orders
+  SET avg_fill_price = (COALESCE(avg_fill_price, 0) * filled_quantity + p_price * p_quantity) / (filled_quantity + p_quantity),
+      filled_quantity = filled_quantity + p_quantity,
+      status = CASE WHEN filled_quantity + p_quantity < quantity THEN 'partially_filled' ELSE status END,
+      updated_at = now()
+  WHERE id IN (p_buy_order_id, p_sell_order_id);
+
+  INSERT INTO stock_order_fills (stock_id, buy_order_id, sell_order_id, buyer_id, seller_id, price, quantity)
+  VALUES (p_stock_id, p_buy_order_id, p_sell_order_id, v_buyer_id, v_seller_id, p_price, p_quantity);
+
+  -- Completed orders are closed (a buy filled below its limit gets the rest of its reserve back)
+  IF v_buy_done THEN
+    PERFORM release_stock_order(p_buy_order_id, 'filled');
+  END IF;
+  IF v_sell_done THEN
+    PERFORM release_stock_order(p_sell_order_id, 'filled');
+  END IF;
+END;
+$$;
+
+-- 4. Backfill from existing ticks and trades
+INSERT INTO public.stock_candles (stock_id, resolution, bucket_start, open, high, low, close, volume, turnover, trades)
+SELECT
+  t.stock_id,
+  r.resolution,
+  public.stock_candle_bucket(r.resolution, t.ts),
+  (array_agg(t.price ORDER BY t.ts ASC))[1],
+  MAX(t.price),
+  MIN(t.price),
+  (array_agg(t.price ORDER BY t.ts DESC))[1],
+  SUM(t.volume),
+  SUM(t.turnover),
+  SUM(t.trades)
+FROM (
+  SELECT stock_id, price, timestamp AS ts, 0 AS volume, 0::BIGINT AS turnover, 0 AS trades
+  FROM public.stock_price_history
+  WHERE timestamp IS NOT NULL
+  UNION ALL
+  SELECT stock_id, price, timestamp, shares, ROUND(total_amount)::BIGINT, 1
+  FROM public.stock_transactions
+  WHERE timestamp IS NOT NULL
+) t
+CROSS JOIN (VALUES ('5m'), ('1h'), ('1d')) AS r(resolution)
+GROUP BY t.stock_id, r.resolution, public.stock_candle_bucket(r.resolution, t.ts)
+ON CONFLICT (stock_id, resolution, bucket_start) DO NOTHING;
+
+-- 5. Retention
+CREATE OR REPLACE FUNCTION public.prune_stock_history()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticks INTEGER;
+  v_candles_5m INTEGER;
+  v_candles_1h INTEGER;
+BEGIN
+  DELETE FROM stock_price_history WHERE timestamp < now() - interval '7 days';
+  GET DIAGNOSTICS v_ticks = ROW_COUNT;
+
+  DELETE FROM stock_candles WHERE resolution = '5m' AND bucket_start < now() - interval '7 days';
+  GET DIAGNOSTICS v_candles_5m = ROW_COUNT;
+
+  DELETE FROM stock_candles WHERE resolution = '1h' AND bucket_start < now() - interval '90 days';
+  GET DIAGNOSTICS v_candles_1h = ROW_COUNT;
+
+  RETURN jsonb_build_object('ticks', v_ticks, 'candles_5m', v_candles_5m, 'candles_1h', v_candles_1h);
+END;
+$$;
+
+-- 6. Read API: candles of one stock, oldest first
+CREATE OR REPLACE FUNCTION public.get_stock_candles(
+  p_stock_id TEXT,
+  p_resolution TEXT DEFAULT '1h',
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  open REAL,
+  high REAL,
+  low REAL,
+  close REAL,
+  volume INTEGER,
+  turnover BIGINT,
+  trades INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.bucket_start, c.open, c.high, c.low, c.close, c.volume, c.turnover, c.trades
+  FROM (
+    SELECT * FROM stock_candles
+    WHERE stock_id = p_stock_id
+      AND resolution = p_resolution
+      AND (p_from IS NULL OR bucket_start >= stock_candle_bucket(p_resolution, p_from))
+      AND (p_to IS NULL OR bucket_start <= p_to)
+    ORDER BY bucket_start DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+  ) c
+  ORDER BY c.bucket_start ASC;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_stock_candle(TEXT, REAL, INTEGER, BIGINT, INTEGER, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.prune_stock_history() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.prune_stock_history() TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_stock_candles(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO anon, authenticated, service_role;
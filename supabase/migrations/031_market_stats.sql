@@ -0,0 +1,58 @@
+-- =============================================
+-- AI Agora: Market Statistics
+-- =============================================
+-- agent_stocks.price_change_24h used to be whatever the last writer left:
+-- the last debate's delta from run-debate, or noise accumulated forever by
+-- stock-fluctuation. The market-stats function (pg_cron, every 5 minutes)
+-- now computes true rolling 24h / 7d statistics from the hourly candles and
+-- stores them here; price_change_24h is kept equal to change_24h, and the
+-- price writers measure against price_24h_ago between runs.
+--
+-- stocks_view exposes the statistics next to each stock.
+
+-- 1. Statistics
+CREATE TABLE IF NOT EXISTS public.stock_market_stats (
+  stock_id TEXT PRIMARY KEY REFERENCES public.agent_stocks(id) ON DELETE CASCADE,
+  price_24h_ago REAL NOT NULL,
+  change_24h REAL NOT NULL DEFAULT 0,
+  high_24h REAL NOT NULL,
+  low_24h REAL NOT NULL,
+  volume_24h INTEGER NOT NULL DEFAULT 0,
+  trades_24h INTEGER NOT NULL DEFAULT 0,
+  volatility_24h REAL NOT NULL DEFAULT 0,
+  price_7d_ago REAL NOT NULL,
+  change_7d REAL NOT NULL DEFAULT 0,
+  high_7d REAL NOT NULL,
+  low_7d REAL NOT NULL,
+  volume_7d INTEGER NOT NULL DEFAULT 0,
+  trades_7d INTEGER NOT NULL DEFAULT 0,
+  volatility_7d REAL NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.stock_market_stats ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Public read stock market stats" ON public.stock_market_stats FOR SELECT USING (true);
+
+-- 2. Stocks with agent names and market statistics
+-- (change_24h is already there as price_change_24h)
+DROP VIEW IF EXISTS public.stocks_view;
+CREATE VIEW public.stocks_view AS
+SELECT
+  s.*,
+  a.name as agent_name,
+  m.price_24h_ago,
+  m.change_7d as price_change_7d,
+  m.high_24h,
+  m.low_24h,
+  m.high_7d,
+  m.low_7d,
+  m.volume_24h,
+  m.volume_7d,
+  m.trades_24h,
+  m.trades_7d,
+  m.volatility_24h,
+  m.volatility_7d,
+  m.updated_at as stats_updated_at
+FROM public.agent_stocks s
+LEFT JOIN public.agents a ON s.agent_id = a.id
+LEFT JOIN public.stock_market_stats m ON m.stock_id = s.id;
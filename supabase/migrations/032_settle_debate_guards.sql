@@ -0,0 +1,229 @@
+-- =============================================
+-- AI Agora: settle_debate Guards
+-- =============================================
+-- settle_debate is SECURITY DEFINER and trusts its plan, but EXECUTE was
+-- never revoked from the API roles: anyone with the anon key could settle
+-- an open debate with made-up ELO deltas, prices and dividends. It is now
+-- service_role only, and a plan must match its debate (agents, winner,
+-- stocks); dividends only reach current holders of the winner's stock.
+--
+-- Stock moves are relative: run-debate plans from prices read before the
+-- debate, so writing absolute prices discarded every trade, order-book fill
+-- and fluctuation tick in between. The plan now carries move_pct (and the
+-- loss floor), applied here to the locked agent_stocks row.
+--
+-- p_plan.stocks.agentN: { id, move_pct, floor | null, ... } | null
+
+-- 1. settle_debate
+CREATE OR REPLACE FUNCTION public.settle_debate(
+  p_debate_id TEXT,
+  p_rounds JSONB,
+  p_judge_reasoning TEXT,
+  p_plan JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_debate RECORD;
+  v_outcome TEXT := p_plan->>'outcome';
+  v_agent1 JSONB := p_plan->'agents'->'agent1';
+  v_agent2 JSONB := p_plan->'agents'->'agent2';
+  v_agent JSONB;
+  v_agent1_elo INTEGER;
+  v_agent2_elo INTEGER;
+  v_new_elo INTEGER;
+  v_winner_id TEXT;
+  v_winner_delta INTEGER := 0;
+  v_loser_delta INTEGER := 0;
+  v_stock JSONB;
+  v_slot BIGINT;
+  v_stock_row RECORD;
+  v_new_price REAL;
+  v_reference REAL;
+  v_winner_stock_id TEXT;
+  v_payout JSONB;
+  v_paid INTEGER := 0;
+BEGIN
+  IF v_outcome NOT IN ('agent1', 'agent2', 'draw') THEN
+    RETURN jsonb_build_object('error', 'Invalid outcome: ' || COALESCE(v_outcome, 'null'));
+  END IF;
+
+  -- Lock debate row (serialises concurrent settlements of the same debate)
+  SELECT * INTO v_debate FROM debates WHERE id = p_debate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Debate not found.');
+  END IF;
+
+  IF v_debate.settled_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'already_settled', true);
+  END IF;
+
+  -- A debate the watchdog already aborted (and refunded) must not settle late
+  IF v_debate.status = 'aborted' THEN
+    RETURN jsonb_build_object('error', 'Debate was aborted.');
+  END IF;
+
+  -- ─── The plan must be about this debate ───
+  IF v_agent1->>'id' IS DISTINCT FROM v_debate.agent1_id
+     OR v_agent2->>'id' IS DISTINCT FROM v_debate.agent2_id THEN
+    RETURN jsonb_build_object('error', 'Plan agents do not match the debate.');
+  END IF;
+
+  v_winner_id := CASE v_outcome
+    WHEN 'agent1' THEN v_debate.agent1_id
+    WHEN 'agent2' THEN v_debate.agent2_id
+  END;
+  IF p_plan->>'winnerId' IS DISTINCT FROM v_winner_id THEN
+    RETURN jsonb_build_object('error', 'Plan winner does not match the outcome.');
+  END IF;
+
+  FOR v_stock, v_slot IN
+    SELECT value, ordinality FROM jsonb_array_elements(
+      jsonb_build_array(p_plan->'stocks'->'agent1', p_plan->'stocks'->'agent2')
+    ) WITH ORDINALITY
+  LOOP
+    CONTINUE WHEN v_stock IS NULL OR jsonb_typeof(v_stock) <> 'object';
+    IF v_outcome = 'draw' THEN
+      RETURN jsonb_build_object('error', 'A draw moves no stocks.');
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM agent_stocks
+      WHERE id = v_stock->>'id'
+        AND agent_id = CASE v_slot WHEN 1 THEN v_debate.agent1_id ELSE v_debate.agent2_id END
+    ) THEN
+      RETURN jsonb_build_object('error', 'Plan stock does not belong to the debate.');
+    END IF;
+    IF jsonb_typeof(v_stock->'move_pct') <> 'number' THEN
+      RETURN jsonb_build_object('error', 'Plan stock has no move_pct.');
+    END IF;
+  END LOOP;
+
+  -- Dividends come from the winner's stock only
+  v_winner_stock_id := CASE v_outcome
+    WHEN 'agent1' THEN p_plan->'stocks'->'agent1'->>'id'
+    WHEN 'agent2' THEN p_plan->'stocks'->'agent2'->>'id'
+  END;
+  IF v_winner_stock_id IS NULL AND jsonb_array_length(COALESCE(p_plan->'dividends', '[]'::jsonb)) > 0 THEN
+    RETURN jsonb_build_object('error', 'Plan pays dividends without a winning stock.');
+  END IF;
+
+  -- Lock both agents in a stable order to avoid deadlocks
+  PERFORM 1 FROM agents WHERE id IN (v_agent1->>'id', v_agent2->>'id') ORDER BY id FOR UPDATE;
+
+  -- ─── Agents (deltas on locked rows) ───
+  FOR v_agent IN SELECT value FROM jsonb_array_elements(jsonb_build_array(v_agent1, v_agent2))
+  LOOP
+    UPDATE agents
+    SET elo_score = elo_score + (v_agent->>'elo_delta')::integer,
+        tier = tier_from_elo(elo_score + (v_agent->>'elo_delta')::integer),
+        wins = wins + CASE WHEN v_agent->>'result' = 'win' THEN 1 ELSE 0 END,
+        losses = losses + CASE WHEN v_agent->>'result' = 'loss' THEN 1 ELSE 0 END,
+        draws = draws + CASE WHEN v_agent->>'result' = 'draw' THEN 1 ELSE 0 END,
+        total_debates = total_debates + 1
+    WHERE id = v_agent->>'id'
+    RETURNING elo_score INTO v_new_elo;
+
+    IF v_agent->>'id' = v_agent1->>'id' THEN
+      v_agent1_elo := v_new_elo;
+    ELSE
+      v_agent2_elo := v_new_elo;
+    END IF;
+  END LOOP;
+
+  IF v_outcome = 'agent1' THEN
+    v_winner_delta := (v_agent1->>'elo_delta')::integer;
+    v_loser_delta := (v_agent2->>'elo_delta')::integer;
+  ELSIF v_outcome = 'agent2' THEN
+    v_winner_delta := (v_agent2->>'elo_delta')::integer;
+    v_loser_delta := (v_agent1->>'elo_delta')::integer;
+  END IF;
+
+  -- ─── Debate result ───
+  UPDATE debates
+  SET rounds = p_rounds,
+      judge_reasoning = p_judge_reasoning,
+      outcome = v_outcome,
+      winner_id = v_winner_id,
+      elo_change_winner = v_winner_delta,
+      elo_change_loser = v_loser_delta,
+      elo_change_agent1 = (v_agent1->>'elo_delta')::integer,
+      elo_change_agent2 = (v_agent2->>'elo_delta')::integer,
+      status = 'completed',
+      completed_at = now(),
+      settled_at = now()
+  WHERE id = p_debate_id;
+
+  -- ─── Stock prices + history (relative to the locked row; none on a draw) ───
+  FOR v_stock IN
+    SELECT value FROM jsonb_array_elements(
+      jsonb_build_array(p_plan->'stocks'->'agent1', p_plan->'stocks'->'agent2')
+    )
+  LOOP
+    CONTINUE WHEN v_stock IS NULL OR jsonb_typeof(v_stock) <> 'object';
+
+    SELECT * INTO v_stock_row FROM agent_stocks WHERE id = v_stock->>'id' FOR UPDATE;
+
+    v_new_price := v_stock_row.current_price * (1 + (v_stock->>'move_pct')::real / 100);
+    -- A stock already under the floor must not jump up on a loss
+    IF jsonb_typeof(v_stock->'floor') = 'number' THEN
+      v_new_price := GREATEST(v_new_price, LEAST((v_stock->>'floor')::real, v_stock_row.current_price));
+    END IF;
+
+    SELECT price_24h_ago INTO v_reference FROM stock_market_stats WHERE stock_id = v_stock_row.id;
+    v_reference := COALESCE(NULLIF(v_reference, 0), v_stock_row.current_price);
+
+    UPDATE agent_stocks
+    SET current_price = v_new_price,
+        market_cap = v_new_price * total_shares,
+        price_change_24h = (v_new_price - v_reference) / v_reference * 100
+    WHERE id = v_stock_row.id;
+
+    INSERT INTO stock_price_history (stock_id, price)
+    VALUES (v_stock_row.id, v_new_price);
+  END LOOP;
+
+  -- ─── Dividends (none on a draw) ───
+  FOR v_payout IN SELECT value FROM jsonb_array_elements(COALESCE(p_plan->'dividends', '[]'::jsonb))
+  LOOP
+    -- Holders who sold out during the debate get nothing
+    CONTINUE WHEN NOT EXISTS (
+      SELECT 1 FROM stock_ownership
+      WHERE stock_id = v_winner_stock_id
+        AND user_id = (v_payout->>'user_id')::uuid
+        AND shares_owned > 0
+    );
+
+    UPDATE profiles
+    SET gold_balance = gold_balance + (v_payout->>'amount')::integer, updated_at = now()
+    WHERE id = (v_payout->>'user_id')::uuid;
+
+    -- Deterministic id: a second payout for the same debate/holder is impossible
+    INSERT INTO gold_transactions (id, user_id, amount, type, description)
+    VALUES (
+      'dividend_' || p_debate_id || '_' || (v_payout->>'user_id'),
+      (v_payout->>'user_id')::uuid,
+      (v_payout->>'amount')::integer,
+      'dividend',
+      v_payout->>'description'
+    );
+
+    v_paid := v_paid + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_settled', false,
+    'outcome', v_outcome,
+    'agent1_elo', v_agent1_elo,
+    'agent2_elo', v_agent2_elo,
+    'dividends_paid', v_paid
+  );
+END;
+$$;
+
+-- 2. Service role only
+REVOKE EXECUTE ON FUNCTION public.settle_debate(text, jsonb, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_debate(text, jsonb, text, jsonb) TO service_role;
@@ -0,0 +1,9 @@
+-- =============================================
+-- AI Agora: abort_debate Grants
+-- =============================================
+-- abort_debate (012) refunds the daily debate quota and is meant for the
+-- debate-watchdog only, but EXECUTE was never revoked from the API roles:
+-- any client could abort a live debate. Service role only from now on.
+
+REVOKE EXECUTE ON FUNCTION public.abort_debate(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.abort_debate(text, text) TO service_role;
@@ -0,0 +1,10 @@
+-- =============================================
+-- AI Agora: apply_rating_period Grants
+-- =============================================
+-- apply_rating_period (018) writes any Glicko-2 rating it is given, and
+-- conservative_rating drives matchmaking and the leaderboard, but EXECUTE
+-- was never revoked from the API roles. Only the rating-period function
+-- (service role) may close a period.
+
+REVOKE EXECUTE ON FUNCTION public.apply_rating_period(timestamptz, timestamptz, text[], jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_rating_period(timestamptz, timestamptz, text[], jsonb) TO service_role;
@@ -0,0 +1,9 @@
+-- =============================================
+-- AI Agora: claim_queue_match Grants
+-- =============================================
+-- claim_queue_match (019) puts both agents on cooldown and bumps the
+-- fairness counters; only run-debate (service role) claims matches, but
+-- EXECUTE was never revoked from the API roles.
+
+REVOKE EXECUTE ON FUNCTION public.claim_queue_match(text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_queue_match(text, text, integer) TO service_role;
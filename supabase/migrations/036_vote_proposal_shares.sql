@@ -0,0 +1,54 @@
+-- =============================================
+-- AI Agora: Server-Side Proposal Vote Weight
+-- =============================================
+-- Since 021 the top-voted proposal becomes the debate topic, but
+-- vote_proposal still added whatever shares_count the browser sent. The
+-- weight is now the caller's own shares_owned in the proposal's agent
+-- stock, read here; the parameter is gone.
+
+DROP FUNCTION IF EXISTS public.vote_proposal(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.vote_proposal(proposal_id_input TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_agent_id TEXT;
+  v_shares INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'LOGIN_REQUIRED';
+  END IF;
+
+  SELECT agent_id INTO v_agent_id
+  FROM topic_proposals
+  WHERE id = proposal_id_input AND status = 'open'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROPOSAL_CLOSED';
+  END IF;
+
+  SELECT o.shares_owned INTO v_shares
+  FROM stock_ownership o
+  JOIN agent_stocks s ON s.id = o.stock_id
+  WHERE s.agent_id = v_agent_id AND o.user_id = v_user_id;
+  IF COALESCE(v_shares, 0) <= 0 THEN
+    RAISE EXCEPTION 'NO_SHARES_TO_VOTE';
+  END IF;
+
+  -- Insert vote record (one per proposal and user)
+  INSERT INTO proposal_votes (proposal_id, user_id, shares_at_vote)
+  VALUES (proposal_id_input, v_user_id, v_shares);
+
+  -- Update total votes
+  UPDATE topic_proposals
+  SET votes = votes + v_shares
+  WHERE id = proposal_id_input;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vote_proposal(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.vote_proposal(TEXT) TO authenticated;
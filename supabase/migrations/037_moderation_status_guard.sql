@@ -0,0 +1,115 @@
+-- =============================================
+-- AI Agora: Moderation Status Guard
+-- =============================================
+-- handle_content_moderation only kept clients from setting their own
+-- moderation_status when current_user was anon/authenticated, but it is
+-- SECURITY DEFINER, so current_user is always its owner there and an author
+-- could approve their own pending or rejected row with a plain UPDATE.
+--
+-- The check now lives in a separate invoker trigger, like
+-- guard_profile_admin_flag (017): API roles may not change the status, while
+-- apply_moderation_status / review_moderation_item (definer) and the service
+-- role still can. The guard triggers are named guard_* so they fire before
+-- the on_*_moderation triggers, which set the status themselves on text edits.
+
+-- 1. Guard (invoker: current_user is the calling role)
+CREATE OR REPLACE FUNCTION public.guard_moderation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.moderation_status IS DISTINCT FROM OLD.moderation_status AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'moderation_status can only be changed by a moderator';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_agent_moderation_status ON public.agents;
+CREATE TRIGGER guard_agent_moderation_status
+  BEFORE UPDATE ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderation_status();
+
+DROP TRIGGER IF EXISTS guard_cheer_moderation_status ON public.agent_cheers;
+CREATE TRIGGER guard_cheer_moderation_status
+  BEFORE UPDATE ON public.agent_cheers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderation_status();
+
+DROP TRIGGER IF EXISTS guard_quest_moderation_status ON public.quests;
+CREATE TRIGGER guard_quest_moderation_status
+  BEFORE UPDATE ON public.quests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderation_status();
+
+DROP TRIGGER IF EXISTS guard_proposal_moderation_status ON public.topic_proposals;
+CREATE TRIGGER guard_proposal_moderation_status
+  BEFORE UPDATE ON public.topic_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderation_status();
+
+-- 2. Enforcement on insert / text edits (without the dead current_user branch)
+CREATE OR REPLACE FUNCTION public.handle_content_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type TEXT;
+  v_text TEXT;
+  v_old_text TEXT;
+  v_author UUID;
+  v_check JSONB;
+BEGIN
+  IF TG_TABLE_NAME = 'agents' THEN
+    v_type := 'agent';
+    v_text := concat_ws(E'\n', NEW.name, NEW.persona, NEW.philosophy);
+    IF TG_OP = 'UPDATE' THEN v_old_text := concat_ws(E'\n', OLD.name, OLD.persona, OLD.philosophy); END IF;
+    v_author := NEW.owner_id;
+  ELSIF TG_TABLE_NAME = 'agent_cheers' THEN
+    v_type := 'cheer';
+    v_text := NEW.message;
+    IF TG_OP = 'UPDATE' THEN v_old_text := OLD.message; END IF;
+    v_author := NEW.user_id;
+  ELSIF TG_TABLE_NAME = 'quests' THEN
+    -- Daily quests are generated by the system
+    IF NEW.type <> 'bounty' THEN RETURN NEW; END IF;
+    v_type := 'bounty';
+    v_text := concat_ws(E'\n', NEW.title, NEW.description);
+    IF TG_OP = 'UPDATE' THEN v_old_text := concat_ws(E'\n', OLD.title, OLD.description); END IF;
+    v_author := NEW.creator_id;
+  ELSE
+    v_type := 'proposal';
+    v_text := NEW.topic;
+    IF TG_OP = 'UPDATE' THEN v_old_text := OLD.topic; END IF;
+    v_author := NEW.user_id;
+  END IF;
+
+  -- Text unchanged: nothing to re-check (the status itself is guarded above)
+  IF TG_OP = 'UPDATE' AND v_text IS NOT DISTINCT FROM v_old_text THEN
+    RETURN NEW;
+  END IF;
+
+  v_check := moderation_check(v_type, v_text);
+  IF v_check->>'action' = 'reject' THEN
+    RAISE EXCEPTION 'CONTENT_REJECTED'
+      USING DETAIL = (SELECT string_agg(DISTINCT h->>'category', ',') FROM jsonb_array_elements(v_check->'hits') h);
+  END IF;
+
+  NEW.moderation_status := CASE WHEN v_check->>'action' = 'review' THEN 'pending' ELSE 'approved' END;
+
+  INSERT INTO moderation_items (content_type, content_id, author_id, content, status, source, flags)
+  VALUES (v_type, NEW.id::TEXT, v_author, v_text, NEW.moderation_status, 'rules', v_check->'hits')
+  ON CONFLICT (content_type, content_id) DO UPDATE
+    SET content = EXCLUDED.content,
+        status = EXCLUDED.status,
+        source = 'rules',
+        flags = EXCLUDED.flags,
+        classification = NULL,
+        classified_at = NULL,
+        reviewed_by = NULL,
+        reviewed_at = NULL,
+        review_note = NULL,
+        updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,174 @@
+-- =============================================
+-- AI Agora: Slippage Against the Quote
+-- =============================================
+-- execute_trade measured slippage from current_price at execution time, so
+-- a price that moved between the quote and the trade was never noticed: the
+-- fill was only compared with wherever the price had drifted to.
+-- p_expected_price carries the quoted average fill (quote_stock_trade's
+-- avg_price) and slippage is measured against it; callers that send none
+-- keep the current_price reference.
+--
+-- 029 only revoked execute_trade from PUBLIC, leaving it to anon and
+-- authenticated by default: any client could trade with another user's
+-- gold and shares. It is now service_role only.
+
+-- 1. execute_trade with the quoted price
+DROP FUNCTION IF EXISTS public.execute_trade(UUID, TEXT, TEXT, INTEGER, REAL);
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  p_user_id UUID,
+  p_stock_id TEXT,
+  p_action TEXT,
+  p_shares INTEGER,
+  p_max_slippage_pct REAL DEFAULT NULL,
+  p_expected_price REAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock RECORD;
+  v_profile RECORD;
+  v_ownership RECORD;
+  v_fill RECORD;
+  v_expected_price REAL;
+  v_slippage_pct REAL;
+  v_total_amount INTEGER;
+  v_new_gold INTEGER;
+  v_new_shares INTEGER;
+  v_new_avg_price REAL;
+BEGIN
+  -- Validate inputs
+  IF p_action NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('error', 'Invalid action. Use buy or sell.');
+  END IF;
+
+  IF p_shares <= 0 OR p_shares > 1000 THEN
+    RETURN jsonb_build_object('error', 'Invalid shares amount (1~1000).');
+  END IF;
+
+  -- A non-positive reference would turn any fill into negative slippage
+  IF p_expected_price IS NOT NULL AND NOT p_expected_price > 0 THEN
+    RETURN jsonb_build_object('error', 'Invalid expected price.');
+  END IF;
+
+  -- Lock stock row
+  SELECT * INTO v_stock FROM public.agent_stocks WHERE id = p_stock_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Stock not found.');
+  END IF;
+
+  -- Lock user profile row
+  SELECT * INTO v_profile FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'User not found.');
+  END IF;
+
+  -- Lock ownership row (if exists)
+  SELECT * INTO v_ownership FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id FOR UPDATE;
+
+  IF p_action = 'buy' AND p_shares > v_stock.available_shares THEN
+    RETURN jsonb_build_object('error', 'Not enough available shares. (Left: ' || v_stock.available_shares || ')');
+  END IF;
+
+  -- Fill on the curve
+  SELECT * INTO v_fill
+  FROM stock_curve_fill(v_stock.current_price, stock_curve_depth(v_stock.total_shares, v_stock.available_shares), p_action, p_shares);
+
+  -- Slippage from the price the user was quoted (the current price without a quote)
+  v_expected_price := COALESCE(p_expected_price, v_stock.current_price);
+  v_slippage_pct := ABS(v_fill.avg_price - v_expected_price) / v_expected_price * 100;
+  IF p_max_slippage_pct IS NOT NULL AND v_slippage_pct > p_max_slippage_pct THEN
+    RETURN jsonb_build_object(
+      'error', 'SLIPPAGE_EXCEEDED',
+      'avg_price', ROUND(v_fill.avg_price::numeric, 2),
+      'expected_price', ROUND(v_expected_price::numeric, 2),
+      'slippage_pct', ROUND(v_slippage_pct::numeric, 2),
+      'max_slippage_pct', p_max_slippage_pct
+    );
+  END IF;
+
+  v_total_amount := CASE WHEN p_action = 'buy'
+    THEN CEIL(v_fill.avg_price * p_shares)
+    ELSE FLOOR(v_fill.avg_price * p_shares)
+  END;
+
+  -- BUY Logic
+  IF p_action = 'buy' THEN
+    -- Check gold balance
+    IF v_total_amount > v_profile.gold_balance THEN
+      RETURN jsonb_build_object('error', 'Not enough gold. (Need: ' || v_total_amount || 'G, Have: ' || v_profile.gold_balance || 'G)');
+    END IF;
+
+    v_new_gold := v_profile.gold_balance - v_total_amount;
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    IF v_ownership IS NULL OR v_ownership.shares_owned IS NULL THEN
+      INSERT INTO public.stock_ownership (id, user_id, stock_id, shares_owned, avg_buy_price)
+      VALUES (gen_random_uuid()::text, p_user_id, p_stock_id, p_shares, v_fill.avg_price);
+      v_new_shares := p_shares;
+      v_new_avg_price := v_fill.avg_price;
+    ELSE
+      v_new_avg_price := ((v_ownership.avg_buy_price * v_ownership.shares_owned) + (v_fill.avg_price * p_shares)) / (v_ownership.shares_owned + p_shares);
+      v_new_shares := v_ownership.shares_owned + p_shares;
+      UPDATE public.stock_ownership
+      SET shares_owned = v_new_shares, avg_buy_price = v_new_avg_price
+      WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, p_user_id, -v_total_amount, 'stock_buy', 'Stock buy: ' || p_shares || ' shares');
+
+  -- SELL Logic
+  ELSE
+    -- Shares held by open sell orders are not for sale
+    IF v_ownership IS NULL OR v_ownership.shares_owned - v_ownership.reserved_shares < p_shares THEN
+      RETURN jsonb_build_object('error', 'Not enough shares owned.');
+    END IF;
+
+    v_new_gold := v_profile.gold_balance + v_total_amount;
+    v_new_shares := v_ownership.shares_owned - p_shares;
+    UPDATE public.profiles SET gold_balance = v_new_gold, updated_at = now() WHERE id = p_user_id;
+
+    IF v_new_shares = 0 THEN
+      DELETE FROM public.stock_ownership WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    ELSE
+      UPDATE public.stock_ownership SET shares_owned = v_new_shares WHERE user_id = p_user_id AND stock_id = p_stock_id;
+    END IF;
+
+    INSERT INTO public.gold_transactions (id, user_id, amount, type, description)
+    VALUES (gen_random_uuid()::text, p_user_id, v_total_amount, 'stock_sell', 'Stock sell: ' || p_shares || ' shares');
+  END IF;
+
+  -- Move the float and the price (resting orders react through on_stock_price_orders)
+  UPDATE public.agent_stocks
+  SET available_shares = available_shares + CASE WHEN p_action = 'buy' THEN -p_shares ELSE p_shares END,
+      current_price = v_fill.new_price,
+      market_cap = v_fill.new_price * total_shares
+  WHERE id = p_stock_id;
+
+  INSERT INTO public.stock_transactions (id, user_id, stock_id, type, shares, price, total_amount)
+  VALUES (gen_random_uuid()::text, p_user_id, p_stock_id, p_action, p_shares, v_fill.avg_price, v_total_amount);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'action', p_action,
+    'shares', p_shares,
+    'price', ROUND(v_fill.avg_price::numeric, 2),
+    'new_price', ROUND(v_fill.new_price::numeric, 2),
+    'slippage_pct', ROUND(v_slippage_pct::numeric, 2),
+    'total_cost', CASE WHEN p_action = 'buy' THEN v_total_amount END,
+    'total_revenue', CASE WHEN p_action = 'sell' THEN v_total_amount END,
+    'new_gold_balance', v_new_gold,
+    'shares_owned', v_new_shares,
+    'avg_buy_price', ROUND(COALESCE(v_new_avg_price, v_ownership.avg_buy_price)::numeric, 1),
+    'profit', CASE WHEN p_action = 'sell' THEN ROUND((v_fill.avg_price - v_ownership.avg_buy_price) * p_shares) END
+  );
+END;
+$$;
+
+-- 2. Service role only (trade-stock): p_user_id is trusted as the trader
+REVOKE ALL ON FUNCTION public.execute_trade(UUID, TEXT, TEXT, INTEGER, REAL, REAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.execute_trade(UUID, TEXT, TEXT, INTEGER, REAL, REAL) TO service_role;
@@ -0,0 +1,85 @@
+-- =============================================
+-- AI Agora: award_debate_xp Guards
+-- =============================================
+-- award_debate_xp was only revoked from PUBLIC, and Supabase grants EXECUTE
+-- on new functions to anon and authenticated by default: any client could
+-- award any agent any XP for any completed debate, and with it levels and
+-- skill points. It is now service_role only, awards must name the debate's
+-- own agents, and each award is capped at MAX_DEBATE_XP (1000, the same cap
+-- _shared/progression.ts applies to PROGRESSION_XP_*).
+
+-- 1. award_debate_xp
+CREATE OR REPLACE FUNCTION public.award_debate_xp(
+  p_debate_id TEXT,
+  p_awards JSONB  -- [{ "agent_id": "...", "xp": 100 }, ...]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_award JSONB;
+  v_agent_id TEXT;
+  v_xp INTEGER;
+  v_inserted INTEGER;
+  v_before INTEGER;
+  v_progress RECORD;
+  v_results JSONB := '[]'::jsonb;
+  v_debate RECORD;
+BEGIN
+  SELECT agent1_id, agent2_id INTO v_debate FROM debates WHERE id = p_debate_id AND status = 'completed';
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'DEBATE_NOT_COMPLETED');
+  END IF;
+
+  -- Only the debate's own agents earn XP from it
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_awards, '[]'::jsonb)) a
+    WHERE (a->>'agent_id') IS NULL OR (a->>'agent_id') NOT IN (v_debate.agent1_id, v_debate.agent2_id)
+  ) THEN
+    RETURN jsonb_build_object('error', 'AGENT_NOT_IN_DEBATE');
+  END IF;
+
+  FOR v_award IN SELECT * FROM jsonb_array_elements(COALESCE(p_awards, '[]'::jsonb))
+  LOOP
+    v_agent_id := v_award->>'agent_id';
+    v_xp := LEAST(GREATEST(COALESCE((v_award->>'xp')::INTEGER, 0), 0), 1000);  -- MAX_DEBATE_XP
+
+    INSERT INTO agent_xp_events (agent_id, debate_id, xp)
+    VALUES (v_agent_id, p_debate_id, v_xp)
+    ON CONFLICT (agent_id, debate_id) DO NOTHING;
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    INSERT INTO agent_progression (agent_id) VALUES (v_agent_id)
+    ON CONFLICT (agent_id) DO NOTHING;
+
+    SELECT level INTO v_before FROM agent_progression WHERE agent_id = v_agent_id FOR UPDATE;
+
+    IF v_inserted > 0 THEN
+      UPDATE agent_progression
+      SET xp = xp + v_xp,
+          level = agent_level_for_xp(xp + v_xp),
+          updated_at = now()
+      WHERE agent_id = v_agent_id;
+    ELSE
+      v_xp := 0;
+    END IF;
+
+    SELECT xp, level INTO v_progress FROM agent_progression WHERE agent_id = v_agent_id;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'agent_id', v_agent_id,
+      'xp_gained', v_xp,
+      'xp', v_progress.xp,
+      'level', v_progress.level,
+      'leveled_up', v_progress.level > v_before
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'agents', v_results);
+END;
+$$;
+
+-- 2. Service role only (run-debate after settlement)
+REVOKE EXECUTE ON FUNCTION public.award_debate_xp(text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_debate_xp(text, jsonb) TO service_role;
@@ -0,0 +1,12 @@
+-- =============================================
+-- AI Agora: apply_moderation_status Grants
+-- =============================================
+-- apply_moderation_status (027) was only revoked from PUBLIC, so anon and
+-- authenticated kept EXECUTE: an author who read their own item id from
+-- moderation_items could approve their own pending or rejected content,
+-- past the moderation_status guard (037) since the function is a definer.
+-- Service role only (moderate-content); admins keep review_moderation_item,
+-- which checks is_admin() and calls it as its owner.
+
+REVOKE EXECUTE ON FUNCTION public.apply_moderation_status(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_moderation_status(uuid, text, text, jsonb) TO service_role;
@@ -0,0 +1,26 @@
+-- =============================================
+-- AI Agora: Order Book Grants
+-- =============================================
+-- The order book functions (028, settle_stock_fill and match_stock_order
+-- replaced in 029/030 with the same ACL) are SECURITY DEFINER and were only
+-- revoked from PUBLIC, so anon and authenticated kept EXECUTE: a client
+-- could place or cancel orders as any user by passing their id, or call
+-- settle_stock_fill against someone's order to move gold and shares
+-- directly. Service role only (trade-stock, pg_cron); the internal
+-- helpers are called by the others as their owner.
+
+REVOKE EXECUTE ON FUNCTION public.release_stock_order(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_stock_fill(text, uuid, uuid, real, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_stock_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_stock_orders(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_stock_orders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_stock_order(uuid, text, text, text, integer, real, real, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_stock_order(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.release_stock_order(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_stock_fill(text, uuid, uuid, real, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.match_stock_order(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.process_stock_orders(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_stock_orders() TO service_role;
+GRANT EXECUTE ON FUNCTION public.place_stock_order(uuid, text, text, text, integer, real, real, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_order(uuid, uuid) TO service_role;
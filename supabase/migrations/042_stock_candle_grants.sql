@@ -0,0 +1,14 @@
+-- =============================================
+-- AI Agora: Stock Candle Grants
+-- =============================================
+-- record_stock_candle and prune_stock_history (030) were only revoked from
+-- PUBLIC, so anon and authenticated kept EXECUTE: any client could write
+-- fake OHLC candles into the chart, the candle API and market stats, or
+-- prune price history. Candles are written by the price and trade triggers
+-- (as their owner) and pruning runs from pg_cron, so service role only.
+-- 030's settle_stock_fill is closed by 041.
+
+REVOKE EXECUTE ON FUNCTION public.record_stock_candle(text, real, integer, bigint, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_stock_history() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stock_candle(text, real, integer, bigint, integer, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_stock_history() TO service_role;
@@ -0,0 +1,66 @@
+-- =============================================
+-- AI Agora: Relative Fluctuation Ticks
+-- =============================================
+-- stock-fluctuation wrote absolute prices computed from a snapshot read
+-- before the tick, so any trade or order-book fill that landed in between
+-- was silently overwritten (the same race 032 fixed for settle_debate).
+-- The tick now sends each stock's move as a percentage, applied here to the
+-- locked agent_stocks row; MIN_PRICE (_shared/market-sim.ts) is kept as the
+-- floor without lifting a stock that already sits below it.
+--
+-- p_moves: [{ "id": "...", "move_pct": -1.25 }, ...]
+
+-- 1. apply_stock_fluctuation
+CREATE OR REPLACE FUNCTION public.apply_stock_fluctuation(p_moves JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_move JSONB;
+  v_stock RECORD;
+  v_new_price REAL;
+  v_reference REAL;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  -- Stable lock order, like settle_debate's agents
+  FOR v_move IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_moves, '[]'::jsonb))
+    ORDER BY value->>'id'
+  LOOP
+    CONTINUE WHEN jsonb_typeof(v_move->'move_pct') <> 'number';
+
+    SELECT * INTO v_stock FROM agent_stocks WHERE id = v_move->>'id' FOR UPDATE;
+    CONTINUE WHEN NOT FOUND;
+
+    v_new_price := v_stock.current_price * (1 + (v_move->>'move_pct')::real / 100);
+    v_new_price := GREATEST(v_new_price, LEAST(10, v_stock.current_price));  -- MIN_PRICE
+
+    SELECT price_24h_ago INTO v_reference FROM stock_market_stats WHERE stock_id = v_stock.id;
+    v_reference := COALESCE(NULLIF(v_reference, 0), v_stock.current_price);
+
+    UPDATE agent_stocks
+    SET current_price = v_new_price,
+        market_cap = v_new_price * total_shares,
+        price_change_24h = (v_new_price - v_reference) / v_reference * 100
+    WHERE id = v_stock.id;
+
+    INSERT INTO stock_price_history (stock_id, price)
+    VALUES (v_stock.id, v_new_price);
+
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'id', v_stock.id,
+      'old_price', v_stock.current_price,
+      'new_price', v_new_price,
+      'market_cap', v_new_price * v_stock.total_shares
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'stocks', v_results);
+END;
+$$;
+
+-- 2. Service role only (stock-fluctuation)
+REVOKE EXECUTE ON FUNCTION public.apply_stock_fluctuation(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_stock_fluctuation(jsonb) TO service_role;
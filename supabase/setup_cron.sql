@@ -25,6 +25,27 @@ SELECT cron.unschedule('generate-daily-news') WHERE EXISTS (
 SELECT cron.unschedule('stock-fluctuation') WHERE EXISTS (
   SELECT 1 FROM cron.job WHERE jobname = 'stock-fluctuation'
 );
+SELECT cron.unschedule('debate-watchdog') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'debate-watchdog'
+);
+SELECT cron.unschedule('tournament-runner') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'tournament-runner'
+);
+SELECT cron.unschedule('rating-period') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'rating-period'
+);
+SELECT cron.unschedule('moderate-content') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'moderate-content'
+);
+SELECT cron.unschedule('expire-stock-orders') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'expire-stock-orders'
+);
+SELECT cron.unschedule('prune-stock-history') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'prune-stock-history'
+);
+SELECT cron.unschedule('market-stats') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'market-stats'
+);
 
 -- ─── 2. Daily Quests — 00:00 UTC (09:00 KST) ───
 SELECT cron.schedule(
@@ -68,5 +89,89 @@ SELECT cron.schedule(
   $$
 );
 
+-- ─── 5. Debate Watchdog — Every 5 minutes ───
+SELECT cron.schedule(
+  'debate-watchdog',
+  '*/5 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ikpnytyaxukmglsecrtn.supabase.co/functions/v1/debate-watchdog',
+      headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- ─── 6. Tournament Runner — Every 5 minutes ───
+SELECT cron.schedule(
+  'tournament-runner',
+  '*/5 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ikpnytyaxukmglsecrtn.supabase.co/functions/v1/tournament-runner',
+      headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- ─── 7. Glicko-2 Rating Period — 00:30 UTC daily ───
+SELECT cron.schedule(
+  'rating-period',
+  '30 0 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ikpnytyaxukmglsecrtn.supabase.co/functions/v1/rating-period',
+      headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- ─── 8. Moderation Classifier — Every 5 minutes ───
+SELECT cron.schedule(
+  'moderate-content',
+  '*/5 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ikpnytyaxukmglsecrtn.supabase.co/functions/v1/moderate-content',
+      headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+-- ─── 9. Day Order Expiry — 00:01 UTC daily ───
+SELECT cron.schedule(
+  'expire-stock-orders',
+  '1 0 * * *',
+  $$ SELECT public.expire_stock_orders(); $$
+);
+
+-- ─── 10. Price History Retention — 00:15 UTC daily ───
+SELECT cron.schedule(
+  'prune-stock-history',
+  '15 0 * * *',
+  $$ SELECT public.prune_stock_history(); $$
+);
+
+-- ─── 11. Market Statistics — Every 5 minutes ───
+SELECT cron.schedule(
+  'market-stats',
+  '*/5 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ikpnytyaxukmglsecrtn.supabase.co/functions/v1/market-stats',
+      headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
 -- ─── Verify scheduled jobs ───
 SELECT jobname, schedule, active FROM cron.job ORDER BY jobname;
@@ -2,7 +2,7 @@ import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
   test: {
-    include: ['src/server/**/*.test.ts'],
+    include: ['supabase/functions/_shared/**/*.test.ts'],
     environment: 'node',
   },
 });